@@ -29,6 +29,25 @@ echo "--- Test 1: Initialize and list tools ---"
 echo '{"jsonrpc":"2.0","id":1,"method":"initialize","params":{"protocolVersion":"2024-11-05","capabilities":{},"clientInfo":{"name":"test","version":"1.0.0"}}}' | \
     timeout 10 node mcp-server/dist/index.js 2>/dev/null | head -1 | python3 -m json.tool 2>/dev/null || echo "  (Output truncated or parse error - server responded)"
 
+echo ""
+echo "--- Test 1b: Editor tools against mock Remote Control API ---"
+MOCK_PORT=39010
+UE5_RC_PORT=$MOCK_PORT UE5_RC_WS_PORT=39020 node mcp-server/dist/testing/mock-editor.js &
+MOCK_PID=$!
+sleep 1
+RESPONSE=$(printf '%s\n' \
+    '{"jsonrpc":"2.0","id":1,"method":"initialize","params":{"protocolVersion":"2024-11-05","capabilities":{},"clientInfo":{"name":"test","version":"1.0.0"}}}' \
+    '{"jsonrpc":"2.0","method":"notifications/initialized"}' \
+    '{"jsonrpc":"2.0","id":2,"method":"tools/call","params":{"name":"ue5_spawn_actor","arguments":{"mesh":"Cube","label":"TestCube"}}}' \
+    '{"jsonrpc":"2.0","id":3,"method":"tools/call","params":{"name":"ue5_list_actors","arguments":{}}}' | \
+    UE5_HOST=127.0.0.1 UE5_RC_PORT=$MOCK_PORT timeout 10 node mcp-server/dist/index.js 2>/dev/null || true)
+kill $MOCK_PID 2>/dev/null || true
+if echo "$RESPONSE" | grep -q "Actor Spawned" && echo "$RESPONSE" | grep -q "StaticMeshActor_"; then
+    echo "  [OK] ue5_spawn_actor / ue5_list_actors round-trip"
+else
+    echo "  [FAIL] editor tools did not round-trip against the mock editor"
+fi
+
 echo ""
 echo "--- Test 2: Build Docker image ---"
 if command -v docker &> /dev/null; then
@@ -0,0 +1,168 @@
+// EditorBackend over the McpAutomationBridge editor plugin, which dispatches named
+// actions with JSON parameters instead of exposing UObject calls over HTTP.
+
+import { ActorField, ActorRecord, ActorSource, QueryVector, runActorQuery } from "../lib/actor-query.js";
+import { BackendTool, EditorBackend } from "./types.js";
+
+/** Sends one action to the bridge and resolves with its result payload, or throws. */
+export interface BridgeTransport {
+  readonly endpoint: string;
+  request(action: string, params: Record<string, any>): Promise<any>;
+}
+
+// Actions of the plugin's dispatch table that these operations use
+export const BRIDGE_ACTIONS = {
+  ping: "ping",
+  spawnActor: "spawn_actor",
+  deleteActor: "delete_actor",
+  setProperty: "set_object_property",
+  callFunction: "call_function",
+  listActors: "list_actors",
+  actorsOfClass: "get_actors_of_class",
+  selectedActors: "get_selected_actors",
+  actorFields: "get_actor_fields",
+} as const;
+
+const QUERY_ACTIONS = [
+  BRIDGE_ACTIONS.listActors,
+  BRIDGE_ACTIONS.actorsOfClass,
+  BRIDGE_ACTIONS.selectedActors,
+  BRIDGE_ACTIONS.actorFields,
+];
+
+/** Bridge actions each backend tool needs; a plugin that lacks one cannot serve the tool. */
+export const BRIDGE_TOOL_ACTIONS: Record<BackendTool, string[]> = {
+  ue5_spawn_actor: [BRIDGE_ACTIONS.spawnActor],
+  ue5_list_actors: QUERY_ACTIONS,
+  ue5_delete_actor: [BRIDGE_ACTIONS.deleteActor],
+  ue5_modify_actor: [BRIDGE_ACTIONS.callFunction, BRIDGE_ACTIONS.setProperty],
+  ue5_set_camera: [BRIDGE_ACTIONS.callFunction],
+  ue5_get_camera: [BRIDGE_ACTIONS.callFunction],
+  ue5_get_selection: QUERY_ACTIONS,
+  ue5_select_actors: [...QUERY_ACTIONS, BRIDGE_ACTIONS.callFunction],
+  ue5_focus_selection: [...QUERY_ACTIONS, BRIDGE_ACTIONS.callFunction],
+};
+
+// The bridge answers with either UE-style {X, Y, Z} or {x, y, z}
+function toVector(v: any): QueryVector {
+  return { x: Number(v?.x ?? v?.X ?? 0), y: Number(v?.y ?? v?.Y ?? 0), z: Number(v?.z ?? v?.Z ?? 0) };
+}
+
+function applyFields(record: ActorRecord, data: any) {
+  if (data.label !== undefined) record.label = String(data.label);
+  if (data.className !== undefined || data.class !== undefined) record.className = data.className ?? data.class;
+  if (Array.isArray(data.tags)) record.tags = data.tags.map(String);
+  if (data.folder !== undefined) record.folder = String(data.folder);
+  if (data.location) record.location = toVector(data.location);
+  if (data.bounds) record.bounds = { origin: toVector(data.bounds.origin), extent: toVector(data.bounds.extent) };
+}
+
+// Per-query actor data; the bridge is a local socket, so nothing is cached between queries
+class BridgeActorSource implements ActorSource {
+  requests = 0;
+  private records = new Map<string, ActorRecord>();
+  private loaded = new Map<string, Set<ActorField>>();
+
+  constructor(private readonly transport: BridgeTransport) {}
+
+  private async send(action: string, params: Record<string, any> = {}) {
+    this.requests++;
+    return this.transport.request(action, params);
+  }
+
+  async allPaths(): Promise<string[]> {
+    const result = await this.send(BRIDGE_ACTIONS.listActors);
+    return (result?.actors ?? []).map((a: any) => (typeof a === "string" ? a : a.path));
+  }
+
+  async classMembers(classPath: string): Promise<Set<string>> {
+    const result = await this.send(BRIDGE_ACTIONS.actorsOfClass, { classPath, includeSubclasses: true });
+    return new Set(result?.actors ?? []);
+  }
+
+  async selectedPaths(): Promise<Set<string>> {
+    const result = await this.send(BRIDGE_ACTIONS.selectedActors);
+    return new Set(result?.actors ?? []);
+  }
+
+  async ensure(paths: string[], fields: ActorField[]): Promise<void> {
+    const pending = paths.filter((p) => fields.some((f) => !this.loaded.get(p)?.has(f)));
+    if (pending.length === 0 || fields.length === 0) return;
+    const result = await this.send(BRIDGE_ACTIONS.actorFields, { actors: pending, fields });
+    for (const data of result?.actors ?? []) {
+      if (typeof data?.path === "string") applyFields(this.record(data.path), data);
+    }
+    for (const path of pending) {
+      const loaded = this.loaded.get(path) ?? new Set();
+      fields.forEach((f) => loaded.add(f));
+      this.loaded.set(path, loaded);
+    }
+  }
+
+  record(path: string): ActorRecord {
+    let record = this.records.get(path);
+    if (!record) {
+      record = { path };
+      this.records.set(path, record);
+    }
+    return record;
+  }
+}
+
+export function createAutomationBridgeBackend(transport: BridgeTransport): EditorBackend {
+  const backend: EditorBackend = {
+    kind: "automation-bridge",
+    endpoint: transport.endpoint,
+
+    async spawnActor(spec) {
+      const result = await transport.request(BRIDGE_ACTIONS.spawnActor, {
+        classPath: spec.classPath,
+        location: spec.location,
+        rotation: spec.rotation,
+        scale: spec.scale,
+        label: spec.label,
+        meshPath: spec.mesh,
+        simulatePhysics: spec.simulatePhysics,
+        calls: spec.calls?.map(({ component, functionName, parameters }) => ({ component, functionName, parameters })),
+        transactionName: spec.transaction,
+      });
+      const actorPath: string | undefined = result?.actorPath ?? result?.path;
+      if (!actorPath) {
+        throw new Error(`Bridge spawn returned no actor path. Response: ${JSON.stringify(result)}`);
+      }
+      // The plugin spawns and configures the actor in one action inside its own transaction
+      const steps = [`Spawned \`${spec.classPath}\` → \`${actorPath}\``];
+      if (spec.mesh) steps.push(`Set mesh: ${spec.mesh}`);
+      if (spec.simulatePhysics) steps.push("Enabled physics simulation");
+      if (spec.label) steps.push(`Set label: "${spec.label}"`);
+      if (spec.rotation) steps.push(`Set rotation: pitch=${spec.rotation.pitch} yaw=${spec.rotation.yaw} roll=${spec.rotation.roll}`);
+      if (spec.scale) steps.push(`Set scale: ${spec.scale.x}, ${spec.scale.y}, ${spec.scale.z}`);
+      for (const call of spec.calls ?? []) steps.push(call.step);
+      return { actorPath, steps, transactional: result?.transactional === true };
+    },
+
+    async destroyActor(actorPath) {
+      const result = await transport.request(BRIDGE_ACTIONS.deleteActor, { actorPath });
+      return result?.deleted !== false;
+    },
+
+    async setProperty(objectPath, propertyName, value) {
+      await transport.request(BRIDGE_ACTIONS.setProperty, { objectPath, propertyName, value });
+    },
+
+    async callFunction(objectPath, functionName, params = {}, options = {}) {
+      return transport.request(BRIDGE_ACTIONS.callFunction, {
+        objectPath,
+        functionName,
+        parameters: params,
+        transactional: options.transactional ?? !options.readOnly,
+      });
+    },
+
+    query: (query) => runActorQuery(new BridgeActorSource(transport), query),
+
+    // The plugin wraps each action in its own transaction and has no way to group several
+    transaction: (_description, body) => body(backend),
+  };
+  return backend;
+}
@@ -0,0 +1,290 @@
+// Live probes for every editor protocol this server knows about: the registered
+// Remote Control editors (HTTP and WebSocket), the Automation Bridge listener, and
+// the well-known ports from MCP_ARCHITECTURES. Each probe uses a fresh short-lived
+// connection so the shared clients and their state are left alone.
+
+import { Socket } from "node:net";
+import { MCP_ARCHITECTURES } from "../data/mcp-architectures.js";
+import { getActiveEditorName, listEditors, resolveEditorConfig, resolveEditorWebSocketConfig } from "../lib/editor-registry.js";
+import { getRcConfig, rcFetch, RcClientConfig } from "../lib/rc-client.js";
+import { RcWebSocketClient } from "../lib/rc-websocket.js";
+import {
+  AutomationBridgeClient,
+  AutomationBridgeConfig,
+  BridgeNonLoopbackError,
+  BridgeActionError,
+  getAutomationBridgeConfig,
+} from "../lib/automation-bridge.js";
+import { BRIDGE_ACTIONS, BRIDGE_TOOL_ACTIONS } from "./automation-bridge.js";
+import { REMOTE_CONTROL_TOOLS } from "./remote-control.js";
+import { BACKEND_TOOLS, BackendKind } from "./types.js";
+
+const KISMET_SYSTEM_LIBRARY = "/Script/Engine.Default__KismetSystemLibrary";
+
+/** Tools that need the Remote Control WebSocket API */
+export const WEBSOCKET_TOOLS = ["ue5_watch_property", "ue5_poll_events"];
+
+// Remote Control routes a tool cannot work without, beyond /remote/object/call
+const TOOL_ROUTES: Record<string, string> = {
+  ue5_describe_actor: "/remote/object/describe",
+  ue5_search_assets: "/remote/search/assets",
+  ue5_batch: "/remote/batch",
+};
+
+export type ProbeStatus = "reachable" | "unreachable" | "blocked" | "error";
+
+export interface BackendProbe {
+  /** What was probed, e.g. "Remote Control HTTP" */
+  probe: string;
+  /** The backend this endpoint can serve, when this server has one for it */
+  backend?: BackendKind;
+  /** Registered editor the endpoint belongs to */
+  editor?: string;
+  host: string;
+  port: number;
+  /** Where the endpoint came from: an editor target, an env variable or MCP_ARCHITECTURES */
+  source: string;
+  status: ProbeStatus;
+  latencyMs?: number;
+  engineVersion?: string;
+  pluginVersion?: string;
+  detail?: string;
+  /** ue5_* tools this endpoint can serve right now */
+  tools: string[];
+}
+
+export interface BackendRecommendation {
+  backend: BackendKind;
+  editor?: string;
+  reason: string;
+}
+
+export interface BackendDiscovery {
+  probes: BackendProbe[];
+  /** Undefined when nothing this server can drive answered */
+  recommended?: BackendRecommendation;
+}
+
+export interface DiscoveryOptions {
+  /** Per-probe timeout in milliseconds */
+  timeoutMs?: number;
+}
+
+function message(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// --- Remote Control HTTP ---
+
+async function probeRcHttp(
+  config: RcClientConfig,
+  source: string,
+  editor: string | undefined
+): Promise<BackendProbe> {
+  const base = { probe: "Remote Control HTTP", backend: "remote-control" as const, editor, host: config.host, port: config.port, source };
+  const started = Date.now();
+  try {
+    const info = await rcFetch("/remote/info", "GET", undefined, config);
+    const latencyMs = Date.now() - started;
+    if (!info.ok) {
+      return { ...base, status: "error", latencyMs, detail: `/remote/info answered HTTP ${info.status}`, tools: [] };
+    }
+
+    const routes = new Set<string>((info.data?.HttpRoutes ?? []).map((r: any) => r.Path));
+    if (!routes.has("/remote/object/call")) {
+      return { ...base, status: "error", latencyMs, detail: "Remote Control answered without /remote/object/call", tools: [] };
+    }
+    const tools = REMOTE_CONTROL_TOOLS.filter((t) => !TOOL_ROUTES[t] || routes.has(TOOL_ROUTES[t]));
+
+    // The plugin ships with the engine, so the engine version is also the plugin's
+    const version = await rcFetch(
+      "/remote/object/call",
+      "PUT",
+      { objectPath: KISMET_SYSTEM_LIBRARY, functionName: "GetEngineVersion", parameters: {} },
+      config,
+      { idempotent: false }
+    ).catch(() => undefined);
+    const engineVersion = version?.ok ? String(version.data?.ReturnValue ?? "") || undefined : undefined;
+
+    return {
+      ...base,
+      status: "reachable",
+      latencyMs,
+      engineVersion,
+      pluginVersion: engineVersion ? `RemoteControl (engine ${engineVersion})` : undefined,
+      detail: `${routes.size} HTTP routes${info.data?.ActivePreset ? `, active preset ${info.data.ActivePreset.Name ?? ""}` : ""}`,
+      tools,
+    };
+  } catch (err) {
+    return { ...base, status: "unreachable", detail: message(err), tools: [] };
+  }
+}
+
+// --- Remote Control WebSocket ---
+
+async function probeRcWebSocket(
+  host: string,
+  port: number,
+  passphrase: string | undefined,
+  timeoutMs: number,
+  source: string,
+  editor: string | undefined
+): Promise<BackendProbe> {
+  const base = { probe: "Remote Control WebSocket", backend: "remote-control" as const, editor, host, port, source };
+  const client = new RcWebSocketClient({ host, port, passphrase, timeoutMs });
+  const started = Date.now();
+  try {
+    await client.connect();
+    return { ...base, status: "reachable", latencyMs: Date.now() - started, tools: WEBSOCKET_TOOLS };
+  } catch (err) {
+    return { ...base, status: "unreachable", detail: message(err), tools: [] };
+  } finally {
+    client.close();
+  }
+}
+
+// --- Automation Bridge ---
+
+async function probeBridge(config: AutomationBridgeConfig, source: string): Promise<BackendProbe> {
+  const base = { probe: "Automation Bridge", backend: "automation-bridge" as const, host: config.host, port: config.port, source };
+  const client = new AutomationBridgeClient(config);
+  const started = Date.now();
+  try {
+    const info = await client.request(BRIDGE_ACTIONS.ping);
+    const latencyMs = Date.now() - started;
+    // A plugin that lists its actions only gets the tools whose actions it has
+    const actions: string[] | undefined = Array.isArray(info?.actions) ? info.actions : undefined;
+    const tools = BACKEND_TOOLS.filter((t) => !actions || BRIDGE_TOOL_ACTIONS[t].every((a) => actions.includes(a)));
+    return {
+      ...base,
+      status: "reachable",
+      latencyMs,
+      engineVersion: info?.engineVersion,
+      pluginVersion: info?.pluginVersion,
+      detail: actions ? `${actions.length} actions` : "plugin did not list its actions",
+      tools,
+    };
+  } catch (err) {
+    if (err instanceof BridgeNonLoopbackError) {
+      return { ...base, status: "blocked", detail: err.message, tools: [] };
+    }
+    // Older plugin builds have no ping action but still serve the rest
+    if (err instanceof BridgeActionError) {
+      return {
+        ...base,
+        status: "reachable",
+        latencyMs: Date.now() - started,
+        detail: `ping failed (${err.message}); versions unknown`,
+        tools: [...BACKEND_TOOLS],
+      };
+    }
+    return { ...base, status: "unreachable", detail: message(err), tools: [] };
+  } finally {
+    client.close();
+  }
+}
+
+// --- Other TCP servers ---
+
+// Servers with their own MCP front end: this server can only tell whether the port is open
+function probeTcpPort(probe: string, host: string, port: number, timeoutMs: number, source: string): Promise<BackendProbe> {
+  const base = { probe, host, port, source, tools: [] };
+  const started = Date.now();
+  return new Promise((resolve) => {
+    const socket = new Socket();
+    socket.setTimeout(timeoutMs);
+    socket.once("connect", () => {
+      resolve({ ...base, status: "reachable", latencyMs: Date.now() - started, detail: "port open; served by its own MCP server" });
+      socket.destroy();
+    });
+    socket.once("timeout", () => {
+      resolve({ ...base, status: "unreachable", detail: `connect timed out after ${timeoutMs / 1000}s` });
+      socket.destroy();
+    });
+    socket.once("error", (err: any) => resolve({ ...base, status: "unreachable", detail: err.code || err.message }));
+    socket.connect(port, host);
+  });
+}
+
+// --- Discovery ---
+
+function recommend(probes: BackendProbe[]): BackendRecommendation | undefined {
+  const active = getActiveEditorName();
+  const rc = probes
+    .filter((p) => p.probe === "Remote Control HTTP" && p.editor && p.status === "reachable" && p.tools.length > 0)
+    .sort((a, b) => Number(b.editor === active) - Number(a.editor === active));
+  if (rc.length > 0) {
+    const editor = rc[0].editor!;
+    return {
+      backend: "remote-control",
+      editor,
+      reason: `Remote Control answered on editor "${editor}" (${rc[0].host}:${rc[0].port}) and serves the most tools`,
+    };
+  }
+
+  const bridge = probes.find((p) => p.backend === "automation-bridge" && p.status === "reachable" && p.tools.length > 0);
+  if (bridge) {
+    // Only the configured bridge endpoint can be switched to; the others are reported for setup
+    const configured = getAutomationBridgeConfig();
+    if (bridge.host === configured.host && bridge.port === configured.port) {
+      return {
+        backend: "automation-bridge",
+        reason: `No Remote Control editor answered; the Automation Bridge at ${bridge.host}:${bridge.port} did`,
+      };
+    }
+  }
+  return undefined;
+}
+
+/** Probe every known endpoint in parallel and pick the backend the editor tools should use. */
+export async function discoverBackends(options: DiscoveryOptions = {}): Promise<BackendDiscovery> {
+  const timeoutMs = options.timeoutMs ?? 1500;
+  const probes: Promise<BackendProbe>[] = [];
+  const seen = new Set<string>();
+  const once = (kind: string, host: string, port: number) => {
+    const key = `${kind}:${host}:${port}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  };
+
+  // Registered editors first, so an endpoint listed in MCP_ARCHITECTURES too is credited to its editor
+  for (const editor of listEditors()) {
+    const config: RcClientConfig = { ...resolveEditorConfig(editor.name), timeoutMs, retries: 0 };
+    if (once("http", config.host, config.port)) {
+      probes.push(probeRcHttp(config, `editor "${editor.name}"`, editor.name));
+    }
+    const ws = resolveEditorWebSocketConfig(editor.name);
+    if (once("ws", ws.host, ws.port)) {
+      probes.push(probeRcWebSocket(ws.host, ws.port, ws.passphrase, timeoutMs, `editor "${editor.name}"`, editor.name));
+    }
+  }
+
+  const bridgeConfig: AutomationBridgeConfig = { ...getAutomationBridgeConfig(), timeoutMs, connectAttempts: 1 };
+  if (once("tcp", bridgeConfig.host, bridgeConfig.port)) {
+    probes.push(probeBridge(bridgeConfig, "MCP_AUTOMATION_HOST/MCP_AUTOMATION_PORT"));
+  }
+
+  // Well-known ports on the default editor's host
+  const host = getRcConfig().host;
+  for (const arch of MCP_ARCHITECTURES) {
+    const source = `MCP_ARCHITECTURES (${arch.type})`;
+    if (arch.type === "remote-control") {
+      if (once("http", host, arch.port)) {
+        probes.push(probeRcHttp({ ...getRcConfig(), port: arch.port, timeoutMs, retries: 0 }, source, undefined));
+      }
+      if (arch.wsPort && once("ws", host, arch.wsPort)) {
+        probes.push(probeRcWebSocket(host, arch.wsPort, getRcConfig().passphrase, timeoutMs, source, undefined));
+      }
+    } else if (arch.type === "automation-bridge") {
+      if (once("tcp", bridgeConfig.host, arch.port)) {
+        probes.push(probeBridge({ ...bridgeConfig, port: arch.port }, source));
+      }
+    } else if (arch.protocol === "TCP" && once("tcp", host, arch.port)) {
+      probes.push(probeTcpPort(arch.name, host, arch.port, timeoutMs, source));
+    }
+  }
+
+  const settled = await Promise.all(probes);
+  return { probes: settled, recommended: recommend(settled) };
+}
@@ -0,0 +1,78 @@
+// Which EditorBackend the ue5_* editor tools use. UE5_BACKEND picks the starting
+// backend; ue5_use_backend switches it at runtime for every session. Tools outside
+// BACKEND_TOOLS speak Remote Control directly and refuse to run on other backends.
+
+import { getEditorClient } from "../lib/editor-registry.js";
+import { getAutomationBridge } from "../lib/automation-bridge.js";
+import { RcClient, RcError } from "../lib/rc-client.js";
+import { createAutomationBridgeBackend } from "./automation-bridge.js";
+import { createRemoteControlBackend } from "./remote-control.js";
+import { BACKEND_KINDS, BACKEND_TOOLS, BackendKind, EditorBackend } from "./types.js";
+
+export * from "./types.js";
+
+export class BackendUnsupportedError extends RcError {
+  readonly tool: string;
+
+  constructor(tool: string, backend: BackendKind) {
+    super(
+      "BACKEND_UNSUPPORTED",
+      `${tool} needs the Remote Control API and is not available on the ${backend} backend`,
+      `Switch with ue5_use_backend "remote-control". On ${backend}, only these tools work: ${BACKEND_TOOLS.join(", ")}.`
+    );
+    this.tool = tool;
+  }
+}
+
+// Set by ue5_use_backend; until then UE5_BACKEND decides
+let selectedBackend: BackendKind | undefined;
+// One mock level for the whole process, so switching away and back keeps its actors.
+// Loaded on first use; only UE5_BACKEND=mock or ue5_use_backend ever needs it.
+let mockBackend: Promise<EditorBackend> | undefined;
+
+export function parseBackendKind(value: string): BackendKind {
+  if (!BACKEND_KINDS.includes(value as BackendKind)) {
+    throw new Error(`Unknown backend "${value}". Available backends: ${BACKEND_KINDS.join(", ")}`);
+  }
+  return value as BackendKind;
+}
+
+export function getActiveBackendKind(): BackendKind {
+  return selectedBackend ?? parseBackendKind(process.env.UE5_BACKEND || "remote-control");
+}
+
+export function useBackend(kind: BackendKind): void {
+  selectedBackend = kind;
+}
+
+/**
+ * The active backend, pointed at a named editor (or the active one) where that
+ * applies. The Automation Bridge always uses MCP_AUTOMATION_HOST/MCP_AUTOMATION_PORT.
+ */
+export async function getEditorBackend(editor?: string): Promise<EditorBackend> {
+  const kind = getActiveBackendKind();
+  switch (kind) {
+    case "remote-control":
+      return createRemoteControlBackend(getEditorClient(editor));
+    case "mock":
+      mockBackend ??= import("./mock.js").then((m) => m.createMockBackend());
+      return mockBackend;
+    case "automation-bridge":
+      return createAutomationBridgeBackend(getAutomationBridge());
+  }
+}
+
+/** Throws BackendUnsupportedError unless Remote Control is the active backend. */
+export function assertRemoteControl(tool: string): void {
+  const kind = getActiveBackendKind();
+  if (kind !== "remote-control") throw new BackendUnsupportedError(tool, kind);
+}
+
+/**
+ * The Remote Control client for a tool that calls the API directly. Refuses on
+ * other backends rather than reaching past them to an editor.
+ */
+export function getRemoteControlClient(tool: string, editor?: string): RcClient {
+  assertRemoteControl(tool);
+  return getEditorClient(editor);
+}
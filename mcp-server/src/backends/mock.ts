@@ -0,0 +1,59 @@
+// EditorBackend over the mock level from src/testing, dispatched in-process. Tools
+// behave as they would against a real editor, which makes it useful for trying
+// workflows and for exercising the server without UE5 running.
+
+import { getRcConfig, RcClient, RcMethod, RcRequest, RcResponse } from "../lib/rc-client.js";
+import { createMockRcDispatcher, MockRcDispatcher } from "../testing/mock-rc-server.js";
+import { createRemoteControlBackend } from "./remote-control.js";
+import { EditorBackend } from "./types.js";
+
+// Round-trip through JSON like the wire would, so callers never share mock state
+function wire<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function createInProcessRcClient(dispatcher: MockRcDispatcher): RcClient {
+  // Distinct host so the actor cache never mixes mock and editor actors
+  const config = { ...getRcConfig(), host: "mock", port: 0 };
+
+  const send = async (request: RcRequest): Promise<RcResponse> => {
+    const reply = dispatcher.dispatch(request.path, request.method, wire(request.body));
+    return { ok: reply.status >= 200 && reply.status < 300, status: reply.status, data: wire(reply.body), request };
+  };
+
+  return {
+    config,
+    fetch: (path, method: RcMethod = "GET", body) => send({ path, method, body }),
+    call: (objectPath, functionName, parameters, options) =>
+      send({
+        path: "/remote/object/call",
+        method: "PUT",
+        body: { objectPath, functionName, parameters: parameters || {}, generateTransaction: options?.generateTransaction ?? true },
+      }),
+    property: (objectPath, propertyName, propertyValue, options) =>
+      send({
+        path: "/remote/object/property",
+        method: "PUT",
+        body:
+          propertyValue === undefined
+            ? { objectPath, propertyName, access: "READ_ACCESS" }
+            : {
+                objectPath,
+                propertyName,
+                propertyValue,
+                ...(options?.generateTransaction === undefined
+                  ? {}
+                  : { access: options.generateTransaction ? "WRITE_TRANSACTION_ACCESS" : "WRITE_ACCESS" }),
+              },
+      }),
+    batch: (requests) => Promise.all(requests.map(send)),
+  };
+}
+
+export function createMockBackend(dispatcher: MockRcDispatcher = createMockRcDispatcher()): EditorBackend {
+  return {
+    ...createRemoteControlBackend(createInProcessRcClient(dispatcher)),
+    kind: "mock",
+    endpoint: "in-process mock level",
+  };
+}
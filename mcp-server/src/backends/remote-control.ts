@@ -0,0 +1,179 @@
+// EditorBackend over the Remote Control HTTP API: the editor's built-in plugin,
+// with multi-step operations grouped into one undoable editor transaction.
+
+import { RcClient, toRcError } from "../lib/rc-client.js";
+import { TransactionScope, withEditorTransaction } from "../lib/transactions.js";
+import { invalidateActorCache, queryActors } from "../lib/actor-query.js";
+import { BACKEND_TOOLS, EditorBackend, SpawnActorSpec, SpawnedActor } from "./types.js";
+
+const EDITOR_ACTOR_SUBSYSTEM = "/Script/UnrealEd.Default__EditorActorSubsystem";
+
+/** Every tool that needs the Remote Control HTTP API: the backend tools plus those that use it directly */
+export const REMOTE_CONTROL_TOOLS = [
+  ...BACKEND_TOOLS,
+  "ue5_connect",
+  "ue5_spawn_light",
+  "ue5_set_material",
+  "ue5_set_mesh",
+  "ue5_describe_actor",
+  "ue5_search_assets",
+  "ue5_editor_command",
+  "ue5_batch",
+  "ue5_console_command",
+  "ue5_apply_force",
+  "ue5_create_dynamic_material",
+  "ue5_snapshot_level",
+  "ue5_diff_level",
+  "ue5_restore_snapshot",
+];
+
+/**
+ * "/Game/Map.Map:PersistentLevel.Lamp.LightComponent0" → the Lamp actor's path.
+ * Returns undefined for objects outside a level (subsystems, assets).
+ */
+function owningActorPath(objectPath: string): string | undefined {
+  const level = objectPath.indexOf(":PersistentLevel.");
+  if (level === -1) return undefined;
+  const start = level + ":PersistentLevel.".length;
+  const dot = objectPath.indexOf(".", start);
+  return dot === -1 ? objectPath : objectPath.slice(0, dot);
+}
+
+/** `openTx` routes writes into an open editor transaction; see EditorBackend.transaction. */
+export function createRemoteControlBackend(rc: RcClient, openTx?: TransactionScope): EditorBackend {
+  // Writes to a level object can change that actor's cached fields; anything else
+  // (subsystems, editor commands) may have touched any actor
+  const invalidate = (objectPath: string) => {
+    const actor = owningActorPath(objectPath);
+    invalidateActorCache(rc.config, actor ? [actor] : undefined);
+  };
+
+  async function spawnActor(spec: SpawnActorSpec): Promise<SpawnedActor> {
+    const steps: string[] = [];
+    const { location, rotation, scale } = spec;
+    let transactional = false;
+
+    // All steps share one undo entry; a failed step removes the actor again
+    const actorPath = await withEditorTransaction(rc, spec.transaction, async (tx) => {
+      // Without BeginTransaction each step is its own undo entry
+      transactional = tx.grouped;
+      // Step 1: Spawn actor via EditorActorSubsystem
+      const spawned = await tx.call(
+        EDITOR_ACTOR_SUBSYSTEM,
+        "SpawnActorFromClass",
+        {
+          ActorClass: spec.classPath,
+          Location: location ? { X: location.x, Y: location.y, Z: location.z } : { X: 0, Y: 0, Z: 0 },
+        },
+        "spawn actor"
+      );
+
+      const path: string | undefined = spawned?.ReturnValue;
+      if (!path) {
+        throw new Error(`Spawn returned no actor path. Response: ${JSON.stringify(spawned)}`);
+      }
+      tx.onRollback(async () => {
+        const res = await rc.call(EDITOR_ACTOR_SUBSYSTEM, "DestroyActor", { ActorToDestroy: path }, { generateTransaction: false });
+        if (res.ok) return res;
+        // The cancelled transaction usually removes the actor already; only a failed destroy that left it behind counts
+        const left = await rc.fetch("/remote/object/describe", "PUT", { objectPath: path });
+        return left.ok ? res : undefined;
+      });
+      steps.push(`Spawned \`${spec.classPath}\` → \`${path}\``);
+
+      // Step 2: Set mesh if specified
+      const meshComp = `${path}.StaticMeshComponent0`;
+      if (spec.mesh) {
+        await tx.call(meshComp, "SetStaticMesh", { NewMesh: spec.mesh }, "set mesh");
+        steps.push(`Set mesh: ${spec.mesh}`);
+      }
+
+      // Step 3: Enable physics (must set Movable before SetSimulatePhysics)
+      if (spec.simulatePhysics) {
+        await tx.call(meshComp, "SetMobility", { NewMobility: "Movable" }, "set mobility");
+        steps.push("Set mobility: Movable");
+        await tx.call(meshComp, "SetSimulatePhysics", { bSimulate: true }, "enable physics");
+        steps.push("Enabled physics simulation");
+        await tx.call(meshComp, "SetEnableGravity", { bGravityEnabled: true }, "enable gravity");
+        steps.push("Enabled gravity");
+      }
+
+      // Step 4: Set label
+      if (spec.label) {
+        await tx.call(path, "SetActorLabel", { NewActorLabel: spec.label }, "set label");
+        steps.push(`Set label: "${spec.label}"`);
+      }
+
+      // Step 5: Set rotation
+      if (rotation) {
+        await tx.call(
+          path,
+          "K2_SetActorRotation",
+          { NewRotation: { Pitch: rotation.pitch, Yaw: rotation.yaw, Roll: rotation.roll }, bTeleportPhysics: true },
+          "set rotation"
+        );
+        steps.push(`Set rotation: pitch=${rotation.pitch} yaw=${rotation.yaw} roll=${rotation.roll}`);
+      }
+
+      // Step 6: Set scale
+      if (scale) {
+        await tx.call(path, "SetActorScale3D", { NewScale3D: { X: scale.x, Y: scale.y, Z: scale.z } }, "set scale");
+        steps.push(`Set scale: ${scale.x}, ${scale.y}, ${scale.z}`);
+      }
+
+      // Step 7: Caller-specific configuration
+      for (const call of spec.calls ?? []) {
+        await tx.call(call.component ? `${path}.${call.component}` : path, call.functionName, call.parameters, call.functionName);
+        steps.push(call.step);
+      }
+      return path;
+    });
+
+    invalidateActorCache(rc.config, [actorPath]);
+    return { actorPath, steps, transactional };
+  }
+
+  const backend: EditorBackend = {
+    kind: "remote-control",
+    endpoint: `http://${rc.config.host}:${rc.config.port}`,
+    spawnActor,
+
+    async destroyActor(actorPath) {
+      const res = await rc.call(EDITOR_ACTOR_SUBSYSTEM, "DestroyActor", { ActorToDestroy: actorPath });
+      if (!res.ok) throw toRcError(res);
+      invalidateActorCache(rc.config, [actorPath]);
+      return res.data?.ReturnValue !== false;
+    },
+
+    async setProperty(objectPath, propertyName, value) {
+      if (openTx) {
+        await openTx.property(objectPath, propertyName, value);
+      } else {
+        const res = await rc.property(objectPath, propertyName, value);
+        if (!res.ok) throw toRcError(res);
+      }
+      invalidate(objectPath);
+    },
+
+    async callFunction(objectPath, functionName, params = {}, options = {}) {
+      if (openTx && !options.readOnly && options.transactional !== false) {
+        const data = await openTx.call(objectPath, functionName, params);
+        invalidate(objectPath);
+        return data;
+      }
+      const res = await rc.call(objectPath, functionName, params, {
+        idempotent: options.readOnly ?? false,
+        generateTransaction: options.transactional ?? !options.readOnly,
+      });
+      if (!res.ok) throw toRcError(res);
+      if (!options.readOnly) invalidate(objectPath);
+      return res.data;
+    },
+
+    query: (query) => queryActors(rc, query),
+
+    transaction: (description, body) =>
+      openTx ? body(backend) : withEditorTransaction(rc, description, (scope) => body(createRemoteControlBackend(rc, scope))),
+  };
+  return backend;
+}
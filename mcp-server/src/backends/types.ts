@@ -0,0 +1,84 @@
+// The operations editor tools need, independent of the wire protocol that carries
+// them. Each backend maps these onto its own transport: Remote Control HTTP calls,
+// Automation Bridge actions, or an in-process mock level.
+
+import { ActorQuery, ActorQueryResult, QueryVector } from "../lib/actor-query.js";
+
+export const BACKEND_KINDS = ["remote-control", "automation-bridge", "mock"] as const;
+
+export type BackendKind = (typeof BACKEND_KINDS)[number];
+
+/** Tools that reach the editor only through EditorBackend, so every backend can serve them */
+export const BACKEND_TOOLS = [
+  "ue5_spawn_actor",
+  "ue5_list_actors",
+  "ue5_delete_actor",
+  "ue5_modify_actor",
+  "ue5_set_camera",
+  "ue5_get_camera",
+  "ue5_get_selection",
+  "ue5_select_actors",
+  "ue5_focus_selection",
+] as const;
+
+export type BackendTool = (typeof BACKEND_TOOLS)[number];
+
+/** A function call on the new actor or one of its components, made while spawning */
+export interface SpawnCall {
+  /** Component name under the actor, e.g. LightComponent0; omit to call the actor itself */
+  component?: string;
+  functionName: string;
+  parameters: Record<string, any>;
+  /** Entry for SpawnedActor.steps */
+  step: string;
+}
+
+export interface SpawnActorSpec {
+  /** Full class path, e.g. /Script/Engine.PointLight */
+  classPath: string;
+  location?: QueryVector;
+  rotation?: { pitch: number; yaw: number; roll: number };
+  scale?: QueryVector;
+  label?: string;
+  /** Static mesh asset path for the actor's StaticMeshComponent0 */
+  mesh?: string;
+  simulatePhysics?: boolean;
+  /** Further calls, applied in order after the built-in steps and rolled back with them */
+  calls?: SpawnCall[];
+  /** Undo entry name, where the backend supports transactions */
+  transaction: string;
+}
+
+export interface SpawnedActor {
+  actorPath: string;
+  /** Human-readable record of what was applied, in order */
+  steps: string[];
+  /** Whether every step landed in the single undo entry named by the spec */
+  transactional: boolean;
+}
+
+export interface CallFunctionOptions {
+  /** A getter: safe to retry, kept out of the undo history, leaves caches alone */
+  readOnly?: boolean;
+  /** Record an undo entry for the call (default true unless readOnly) */
+  transactional?: boolean;
+}
+
+export interface EditorBackend {
+  readonly kind: BackendKind;
+  /** Where the backend sends requests, for status output */
+  readonly endpoint: string;
+  /** Spawn and configure an actor; a failed step leaves no actor behind */
+  spawnActor(spec: SpawnActorSpec): Promise<SpawnedActor>;
+  /** Returns false when the editor reported nothing was destroyed */
+  destroyActor(actorPath: string): Promise<boolean>;
+  setProperty(objectPath: string, propertyName: string, value: unknown): Promise<void>;
+  /** Call a BlueprintCallable function and return its output parameters */
+  callFunction(objectPath: string, functionName: string, params?: Record<string, any>, options?: CallFunctionOptions): Promise<any>;
+  query(query: ActorQuery): Promise<ActorQueryResult>;
+  /**
+   * Run `body` as one undo entry where the backend can group writes. Writes made
+   * through the backend passed to `body` join it; a throw from `body` rolls it back.
+   */
+  transaction<T>(description: string, body: (backend: EditorBackend) => Promise<T>): Promise<T>;
+}
@@ -0,0 +1,91 @@
+export interface McpArchitecture {
+  name: string;
+  type: string;
+  protocol: string;
+  port: number;
+  /** Companion WebSocket port, for protocols that have one */
+  wsPort?: number;
+  language: string;
+  toolCount: number;
+  bestFor: string;
+  repo: string;
+  dockerImage?: string;
+  strengths: string[];
+  setup: string;
+}
+
+export const MCP_ARCHITECTURES: McpArchitecture[] = [
+  {
+    name: "Official MCP Server (Remote Control API)",
+    type: "remote-control",
+    protocol: "HTTP/WebSocket",
+    port: 6766,
+    wsPort: 6767,
+    language: "TypeScript",
+    toolCount: 24,
+    bestFor: "Non-intrusive editor automation, multi-client scenarios",
+    repo: "hub.docker.com/r/mcp/unreal-engine-mcp-server",
+    dockerImage: "mcp/unreal-engine-mcp-server:latest",
+    strengths: [
+      "Uses UE5 built-in Remote Control Plugin — no engine modification",
+      "HTTP REST API for stateless operations",
+      "WebSocket for real-time subscriptions and events",
+      "Works with packaged games (not just editor)",
+      "Official Docker image available",
+    ],
+    setup: `1. Enable Remote Control Plugin in UE5 Editor (Edit → Plugins → Remote Control API)
+2. Configure DefaultEngine.ini:
+   [/Script/RemoteControlAPI.RemoteControlSettings]
+   bAutoStartRemoteControl=True
+   RemoteControlHttpServerPort=6766
+   RemoteControlWebSocketServerPort=6767
+3. Run: docker pull mcp/unreal-engine-mcp-server:latest
+4. Connect: docker run -it --rm -e UE_HOST=host.docker.internal -e UE_RC_HTTP_PORT=6766 mcp/unreal-engine-mcp-server:latest`,
+  },
+  {
+    name: "ChiR24 Unreal MCP (Automation Bridge)",
+    type: "automation-bridge",
+    protocol: "TCP",
+    port: 8091,
+    language: "TypeScript + C++",
+    toolCount: 36,
+    bestFor: "High-performance structured workflows, deep engine access",
+    repo: "github.com/ChiR24/Unreal_mcp",
+    strengths: [
+      "Native C++ plugin for maximum performance (TCP sockets)",
+      "36 tools with action-based dispatch",
+      "Optional GraphQL API for complex queries",
+      "Geometry Script integration for procedural meshes",
+      "Full asset browser and import system",
+    ],
+    setup: `1. Clone: git clone https://github.com/ChiR24/Unreal_mcp.git
+2. Copy plugins/McpAutomationBridge to your project's Plugins/ directory
+3. Open project in UE5 — click "Yes" when prompted to rebuild
+4. Restart editor (plugin loads on next launch)
+5. Build MCP server: docker build -t unreal-mcp:latest .
+6. Run: docker run -it --rm -e MCP_AUTOMATION_HOST=127.0.0.1 -e MCP_AUTOMATION_PORT=8091 unreal-mcp:latest
+7. Or drive the plugin from this server: UE5_BACKEND=automation-bridge MCP_AUTOMATION_PORT=8091 (or ue5_use_backend)`,
+  },
+  {
+    name: "Flopperam Unreal MCP (Advanced World Building)",
+    type: "world-building",
+    protocol: "TCP",
+    port: 6776,
+    language: "Python",
+    toolCount: 20,
+    bestFor: "Generative AI-driven world design, rapid prototyping",
+    repo: "github.com/flopperam/unreal-engine-mcp",
+    strengths: [
+      "Generate entire towns, castles, structures from natural language",
+      "Full Blueprint creation and modification",
+      "Physics simulation with complex constraints",
+      "'Flop Agent' — autonomous AI agent running inside UE5",
+      "Starter project included (UE 5.5+)",
+    ],
+    setup: `1. Clone: git clone https://github.com/flopperam/unreal-engine-mcp.git
+2. Option A — Use included starter project: cd MCPGameProject
+3. Option B — Copy UnrealMCP plugin to your project's Plugins/
+4. Run server: cd Python && python3 -m uv run unreal_mcp_server_advanced.py
+5. Or via Docker: docker run -it --rm -e UE_PROJECT_PATH=/project/MyGame.uproject python:3.11-slim`,
+  },
+];
@@ -0,0 +1,2728 @@
+// UE5 reflection specifiers and meta keys — what each does, where it can go, what it
+// cannot be combined with and an example. ue5_macro_reference and
+// ue5_search_specifiers render it, and ue5_validate_macros checks against it.
+
+export type SpecifierMacro = "UCLASS" | "USTRUCT" | "UENUM" | "UINTERFACE" | "UPROPERTY" | "UFUNCTION" | "UPARAM" | "UDELEGATE" | "UMETA";
+
+/** Property types a meta key is meaningful on; checked by the macro validator */
+export type PropertyTypeClass =
+  | "numeric"
+  | "integer"
+  | "bool"
+  | "text"
+  | "name"
+  | "object"
+  | "class"
+  | "widget"
+  | "widgetAnimation"
+  | "array"
+  | "map"
+  | "path"
+  | "gameplayTag";
+
+export interface SpecifierInfo {
+  name: string;
+  macro: SpecifierMacro;
+  /** "meta" keys go inside meta = (...) (or UMETA(...)); others are written directly in the macro */
+  kind: "specifier" | "meta";
+  /** Section in ue5_macro_reference */
+  group: string;
+  description: string;
+  /** Value syntax when the specifier takes one, e.g. Category = "Combat|Weapons" */
+  value?: string;
+  /** What it can be written on */
+  appliesTo: string;
+  /** Specifiers (of the same macro) it cannot be combined with */
+  conflicts?: string[];
+  /** Meta keys that go with it */
+  metaKeys?: string[];
+  /** Property types the meta key is meaningful on; absent means any */
+  propertyTypes?: PropertyTypeClass[];
+  /** First engine version with it; absent means every UE5 version */
+  since?: string;
+  example: string;
+  /** Other words people search for it by */
+  keywords?: string[];
+}
+
+export interface MacroGuide {
+  macro: SpecifierMacro;
+  summary: string;
+  /** Section order in the reference */
+  groups: string[];
+  example: string;
+}
+
+const EDIT_VISIBILITY = ["EditAnywhere", "EditDefaultsOnly", "EditInstanceOnly", "VisibleAnywhere", "VisibleDefaultsOnly", "VisibleInstanceOnly"];
+const others = (name: string, group: string[]) => group.filter((g) => g !== name);
+
+export const SPECIFIERS: SpecifierInfo[] = [
+  // --- UPROPERTY: Visibility ---
+  {
+    name: "EditAnywhere",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Visibility",
+    description: "Editable in the Details panel on class defaults and on placed instances.",
+    appliesTo: "Properties",
+    conflicts: others("EditAnywhere", EDIT_VISIBILITY),
+    metaKeys: ["EditCondition", "EditConditionHides", "DisplayName", "ToolTip"],
+    example: 'UPROPERTY(EditAnywhere, Category = "Combat")\nfloat BaseDamage = 10.f;',
+    keywords: ["details panel", "editable", "editor", "instance", "defaults"],
+  },
+  {
+    name: "EditDefaultsOnly",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Visibility",
+    description: "Editable only on class defaults (the Blueprint's Class Defaults), not on placed instances.",
+    appliesTo: "Properties",
+    conflicts: others("EditDefaultsOnly", EDIT_VISIBILITY),
+    example: 'UPROPERTY(EditDefaultsOnly, Category = "Abilities")\nTSubclassOf<UGameplayAbility> DefaultAbility;',
+    keywords: ["class defaults", "archetype", "details panel"],
+  },
+  {
+    name: "EditInstanceOnly",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Visibility",
+    description: "Editable only on instances placed in a level, not on class defaults.",
+    appliesTo: "Properties",
+    conflicts: others("EditInstanceOnly", EDIT_VISIBILITY),
+    example: 'UPROPERTY(EditInstanceOnly, Category = "Spawning")\nTObjectPtr<AActor> SpawnTarget;',
+    keywords: ["level", "placed", "instance", "details panel"],
+  },
+  {
+    name: "VisibleAnywhere",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Visibility",
+    description: "Shown read-only in the Details panel everywhere. The usual choice for component pointers.",
+    appliesTo: "Properties",
+    conflicts: others("VisibleAnywhere", EDIT_VISIBILITY),
+    example: 'UPROPERTY(VisibleAnywhere, BlueprintReadOnly, Category = "Components")\nTObjectPtr<UStaticMeshComponent> Mesh;',
+    keywords: ["read only", "details panel", "component", "show"],
+  },
+  {
+    name: "VisibleDefaultsOnly",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Visibility",
+    description: "Shown read-only, only on class defaults.",
+    appliesTo: "Properties",
+    conflicts: others("VisibleDefaultsOnly", EDIT_VISIBILITY),
+    example: 'UPROPERTY(VisibleDefaultsOnly, Category = "Info")\nFName TypeName;',
+    keywords: ["read only", "class defaults"],
+  },
+  {
+    name: "VisibleInstanceOnly",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Visibility",
+    description: "Shown read-only, only on placed instances.",
+    appliesTo: "Properties",
+    conflicts: others("VisibleInstanceOnly", EDIT_VISIBILITY),
+    example: 'UPROPERTY(VisibleInstanceOnly, Category = "Debug")\nint32 RuntimeId;',
+    keywords: ["read only", "instance", "debug"],
+  },
+  {
+    name: "AdvancedDisplay",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Visibility",
+    description: "Puts the property in the collapsed advanced section of its category.",
+    appliesTo: "Properties",
+    conflicts: ["SimpleDisplay"],
+    example: 'UPROPERTY(EditAnywhere, AdvancedDisplay, Category = "Movement")\nfloat BrakingFriction = 2.f;',
+    keywords: ["advanced", "collapse", "hide", "details panel", "dropdown"],
+  },
+  {
+    name: "SimpleDisplay",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Visibility",
+    description: "Always shown in the Details panel, even in a category that is advanced by default.",
+    appliesTo: "Properties",
+    conflicts: ["AdvancedDisplay"],
+    example: 'UPROPERTY(EditAnywhere, SimpleDisplay, Category = "Rendering")\nbool bCastShadow = true;',
+    keywords: ["details panel", "show"],
+  },
+  {
+    name: "EditFixedSize",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Visibility",
+    description: "Array elements can be edited but elements cannot be added or removed in the Details panel.",
+    appliesTo: "TArray properties",
+    example: 'UPROPERTY(EditAnywhere, EditFixedSize, Category = "Slots")\nTArray<FName> SlotNames;',
+    keywords: ["array", "fixed", "size", "add remove"],
+  },
+  {
+    name: "NoClear",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Visibility",
+    description: "Removes the Clear (set to None) option from object and class pickers.",
+    appliesTo: "Object and class reference properties",
+    example: 'UPROPERTY(EditAnywhere, NoClear, Category = "Weapon")\nTSubclassOf<AProjectile> ProjectileClass;',
+    keywords: ["none", "null", "clear", "picker"],
+  },
+  {
+    name: "Instanced",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Visibility",
+    description: "Each owner gets its own copy of the referenced object, edited inline. The class needs EditInlineNew.",
+    appliesTo: "UObject pointer properties",
+    example: 'UPROPERTY(EditAnywhere, Instanced, Category = "Behaviour")\nTObjectPtr<UMyStrategy> Strategy;',
+    keywords: ["inline", "subobject", "editinlinenew", "per instance"],
+  },
+  {
+    name: "EditInline",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Visibility",
+    description: "Shows the referenced object's properties inline in the Details panel.",
+    appliesTo: "UObject pointer properties",
+    example: 'UPROPERTY(EditAnywhere, EditInline, Category = "Data")\nTObjectPtr<UObject> Settings;',
+    keywords: ["inline", "expand"],
+  },
+  {
+    name: "Interp",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Visibility",
+    description: "Can be keyed and animated in Sequencer.",
+    appliesTo: "Properties",
+    example: 'UPROPERTY(EditAnywhere, Interp, Category = "Light")\nfloat Intensity = 1.f;',
+    keywords: ["sequencer", "animate", "keyframe", "matinee", "cinematic"],
+  },
+  {
+    name: "Category",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Other",
+    description: "Details panel and Blueprint category; use | for subcategories. Required for Blueprint-exposed properties in engine and plugin modules.",
+    value: 'Category = "Combat|Weapons"',
+    appliesTo: "Properties",
+    example: 'UPROPERTY(EditAnywhere, BlueprintReadWrite, Category = "Combat|Weapons")\nint32 Ammo = 30;',
+    keywords: ["group", "section", "details panel", "organize"],
+  },
+
+  // --- UPROPERTY: Blueprint Access ---
+  {
+    name: "BlueprintReadOnly",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "Blueprints can read but not write the property.",
+    appliesTo: "Properties",
+    conflicts: ["BlueprintReadWrite"],
+    metaKeys: ["AllowPrivateAccess"],
+    example: 'UPROPERTY(VisibleAnywhere, BlueprintReadOnly, Category = "Stats")\nfloat Health = 100.f;',
+    keywords: ["blueprint", "get", "read"],
+  },
+  {
+    name: "BlueprintReadWrite",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "Blueprints can read and write the property.",
+    appliesTo: "Properties",
+    conflicts: ["BlueprintReadOnly"],
+    metaKeys: ["AllowPrivateAccess", "ExposeOnSpawn"],
+    example: 'UPROPERTY(EditAnywhere, BlueprintReadWrite, Category = "Stats")\nfloat MaxHealth = 100.f;',
+    keywords: ["blueprint", "get", "set", "write"],
+  },
+  {
+    name: "BlueprintGetter",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "Blueprint reads go through the named UFUNCTION(BlueprintGetter) instead of the field.",
+    value: "BlueprintGetter = GetHealth",
+    appliesTo: "Properties",
+    example: 'UPROPERTY(BlueprintGetter = GetHealth, Category = "Stats")\nfloat Health;',
+    keywords: ["accessor", "getter"],
+  },
+  {
+    name: "BlueprintSetter",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "Blueprint writes go through the named UFUNCTION(BlueprintSetter); implies BlueprintReadWrite.",
+    value: "BlueprintSetter = SetHealth",
+    appliesTo: "Properties",
+    conflicts: ["BlueprintReadOnly"],
+    example: 'UPROPERTY(BlueprintSetter = SetHealth, Category = "Stats")\nfloat Health;',
+    keywords: ["accessor", "setter"],
+  },
+  {
+    name: "BlueprintAssignable",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "Blueprints can bind events to the multicast delegate.",
+    appliesTo: "Dynamic multicast delegate properties",
+    example: 'UPROPERTY(BlueprintAssignable, Category = "Events")\nFOnHealthChanged OnHealthChanged;',
+    keywords: ["event", "delegate", "bind", "dispatcher"],
+  },
+  {
+    name: "BlueprintCallable",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "Blueprints can call (broadcast) the multicast delegate.",
+    appliesTo: "Dynamic multicast delegate properties",
+    example: 'UPROPERTY(BlueprintAssignable, BlueprintCallable, Category = "Events")\nFOnDied OnDied;',
+    keywords: ["delegate", "broadcast", "call"],
+  },
+  {
+    name: "BlueprintAuthorityOnly",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "Blueprint bindings to the delegate only fire on the network authority.",
+    appliesTo: "Dynamic multicast delegate properties",
+    example: 'UPROPERTY(BlueprintAssignable, BlueprintAuthorityOnly, Category = "Events")\nFOnScored OnScored;',
+    keywords: ["server", "authority", "delegate"],
+  },
+  {
+    name: "FieldNotify",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "Broadcasts a field notification when the value changes (UMG ViewModels / INotifyFieldValueChanged).",
+    appliesTo: "Properties of classes implementing INotifyFieldValueChanged",
+    since: "5.1",
+    example: 'UPROPERTY(BlueprintReadWrite, FieldNotify, Setter, Getter, Category = "ViewModel")\nint32 Score;',
+    keywords: ["mvvm", "viewmodel", "notify", "binding", "umg"],
+  },
+  {
+    name: "Getter",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "Reflection reads the property through a native Get<Name> accessor (or the named function).",
+    value: "Getter = GetValue",
+    appliesTo: "Properties",
+    since: "5.1",
+    example: "UPROPERTY(Getter, Setter)\nint32 Score;\n\nint32 GetScore() const;\nvoid SetScore(int32 InScore);",
+    keywords: ["accessor", "native getter"],
+  },
+  {
+    name: "Setter",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "Reflection writes the property through a native Set<Name> accessor (or the named function).",
+    value: "Setter = SetValue",
+    appliesTo: "Properties",
+    since: "5.1",
+    example: "UPROPERTY(Getter, Setter)\nint32 Score;",
+    keywords: ["accessor", "native setter"],
+  },
+
+  // --- UPROPERTY: Replication ---
+  {
+    name: "Replicated",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Replication",
+    description: "Replicated from the server to clients. Needs a DOREPLIFETIME entry in GetLifetimeReplicatedProps.",
+    appliesTo: "Properties of replicated actors and components",
+    conflicts: ["ReplicatedUsing", "NotReplicated"],
+    example: "UPROPERTY(Replicated)\nint32 Ammo;\n\n// .cpp\nDOREPLIFETIME(AMyActor, Ammo);",
+    keywords: ["network", "multiplayer", "sync", "server", "client"],
+  },
+  {
+    name: "ReplicatedUsing",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Replication",
+    description: "Replicated, and the named UFUNCTION() is called on clients when a new value arrives.",
+    value: "ReplicatedUsing = OnRep_Health",
+    appliesTo: "Properties of replicated actors and components",
+    conflicts: ["Replicated", "NotReplicated"],
+    example: "UPROPERTY(ReplicatedUsing = OnRep_Health)\nfloat Health;\n\nUFUNCTION()\nvoid OnRep_Health();",
+    keywords: ["onrep", "rep notify", "network", "callback"],
+  },
+  {
+    name: "NotReplicated",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Replication",
+    description: "Skips this member when its struct is replicated, or this parameter in an RPC.",
+    appliesTo: "Struct members, RPC parameters",
+    conflicts: ["Replicated", "ReplicatedUsing"],
+    example: "USTRUCT()\nstruct FShotInfo\n{\n\tGENERATED_BODY()\n\n\tUPROPERTY(NotReplicated)\n\tfloat LocalTime;\n};",
+    keywords: ["network", "skip", "exclude"],
+  },
+  {
+    name: "RepRetry",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Replication",
+    description: "Keeps retrying replication of a struct member that failed to serialize (e.g. an unmapped object reference).",
+    appliesTo: "Struct members",
+    example: "UPROPERTY(RepRetry)\nTObjectPtr<AActor> Target;",
+    keywords: ["network", "retry"],
+  },
+
+  // --- UPROPERTY: Serialization ---
+  {
+    name: "Transient",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Serialization",
+    description: "Not saved or loaded; starts zero-filled.",
+    appliesTo: "Properties",
+    example: "UPROPERTY(Transient)\nTObjectPtr<UMaterialInstanceDynamic> RuntimeMaterial;",
+    keywords: ["save", "serialize", "runtime only", "temporary"],
+  },
+  {
+    name: "DuplicateTransient",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Serialization",
+    description: "Reset to its default when the object is duplicated (copy/paste, Blueprint duplicate).",
+    appliesTo: "Properties",
+    example: "UPROPERTY(DuplicateTransient)\nFGuid InstanceId;",
+    keywords: ["copy", "duplicate", "reset"],
+  },
+  {
+    name: "NonPIEDuplicateTransient",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Serialization",
+    description: "Reset when duplicated, except when duplicating for Play In Editor.",
+    appliesTo: "Properties",
+    example: "UPROPERTY(NonPIEDuplicateTransient)\nint32 CachedIndex;",
+    keywords: ["pie", "duplicate"],
+  },
+  {
+    name: "TextExportTransient",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Serialization",
+    description: "Left out of text exports (copy/paste as text).",
+    appliesTo: "Properties",
+    example: "UPROPERTY(TextExportTransient)\nTArray<uint8> CachedData;",
+    keywords: ["export", "copy paste"],
+  },
+  {
+    name: "SkipSerialization",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Serialization",
+    description: "Not binary serialized, but still exported as text.",
+    appliesTo: "Properties",
+    example: "UPROPERTY(SkipSerialization)\nFString DebugLabel;",
+    keywords: ["serialize"],
+  },
+  {
+    name: "SaveGame",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Serialization",
+    description: "Included when serializing with ArIsSaveGame, e.g. a save system built on FObjectAndNameAsStringProxyArchive.",
+    appliesTo: "Properties",
+    example: 'UPROPERTY(SaveGame, BlueprintReadWrite, Category = "Progress")\nint32 Level;',
+    keywords: ["save", "load", "persist", "savegame"],
+  },
+  {
+    name: "Config",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Serialization",
+    description: "Loaded from the class's config (.ini) file; the class needs UCLASS(Config = ...).",
+    appliesTo: "Properties of config classes",
+    conflicts: ["GlobalConfig"],
+    example: 'UCLASS(Config = Game)\nclass UMySettings : public UObject\n{\n\tGENERATED_BODY()\n\n\tUPROPERTY(Config)\n\tfloat Volume = 1.f;\n};',
+    keywords: ["ini", "settings", "configuration"],
+  },
+  {
+    name: "GlobalConfig",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Serialization",
+    description: "Like Config, but always read from the base class's section; subclasses cannot override it.",
+    appliesTo: "Properties of config classes",
+    conflicts: ["Config"],
+    example: "UPROPERTY(GlobalConfig)\nint32 MaxPlayers = 8;",
+    keywords: ["ini", "settings"],
+  },
+  {
+    name: "Localized",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Serialization",
+    description: "Deprecated: value has a localized variant. Use FText instead.",
+    appliesTo: "Properties",
+    example: "// Prefer FText:\nUPROPERTY(EditAnywhere)\nFText Title;",
+    keywords: ["localization", "deprecated"],
+  },
+  {
+    name: "Export",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Serialization",
+    description: "The referenced object is exported with its owner on copy/paste and text export.",
+    appliesTo: "Object pointer properties",
+    example: "UPROPERTY(Export)\nTObjectPtr<UObject> Payload;",
+    keywords: ["copy paste", "export"],
+  },
+  {
+    name: "SerializeText",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Serialization",
+    description: "Native property that is serialized as text (ImportText/ExportText).",
+    appliesTo: "Properties",
+    example: "UPROPERTY(SerializeText)\nFString Raw;",
+    keywords: ["text"],
+  },
+  {
+    name: "NonTransactional",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Serialization",
+    description: "Changes are not recorded in the editor's undo/redo history.",
+    appliesTo: "Properties",
+    example: "UPROPERTY(EditAnywhere, NonTransactional)\nint32 PreviewIndex;",
+    keywords: ["undo", "redo", "transaction"],
+  },
+  {
+    name: "AssetRegistrySearchable",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Serialization",
+    description: "Value is written as an asset registry tag, so it can be filtered without loading the asset.",
+    appliesTo: "Properties of asset classes",
+    example: "UPROPERTY(EditAnywhere, AssetRegistrySearchable)\nFName ItemType;",
+    keywords: ["asset registry", "tag", "filter", "search"],
+  },
+  {
+    name: "Ref",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Serialization",
+    description: "Function parameter copied back after the call; used internally for out parameters.",
+    appliesTo: "Function parameters",
+    example: "// Normally written as UPARAM(ref)",
+    keywords: ["reference", "out parameter"],
+  },
+  {
+    name: "meta",
+    macro: "UPROPERTY",
+    kind: "specifier",
+    group: "Other",
+    description: "Metadata keys for the editor and Blueprint; see the meta keys below.",
+    value: 'meta = (ClampMin = "0", DisplayName = "Max HP")',
+    appliesTo: "Properties",
+    example: 'UPROPERTY(EditAnywhere, Category = "Stats", meta = (ClampMin = "0", UIMax = "1000"))\nfloat MaxHealth = 100.f;',
+    keywords: ["metadata"],
+  },
+
+  // --- UPROPERTY meta ---
+  {
+    name: "AllowPrivateAccess",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Lets BlueprintReadOnly/ReadWrite work on a private member.",
+    value: 'AllowPrivateAccess = "true"',
+    appliesTo: "Private properties exposed to Blueprint",
+    example: 'private:\n\tUPROPERTY(VisibleAnywhere, BlueprintReadOnly, Category = "Camera", meta = (AllowPrivateAccess = "true"))\n\tTObjectPtr<UCameraComponent> Camera;',
+    keywords: ["private", "blueprint", "access"],
+  },
+  {
+    name: "ClampMin",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Lowest value that can be entered in the editor.",
+    value: 'ClampMin = "0"',
+    appliesTo: "Numeric and vector properties",
+    metaKeys: ["ClampMax", "UIMin", "UIMax", "Delta", "Units"],
+    propertyTypes: ["numeric"],
+    example: 'UPROPERTY(EditAnywhere, meta = (ClampMin = "0", ClampMax = "1"))\nfloat Alpha = 1.f;',
+    keywords: ["min", "minimum", "limit", "range", "clamp"],
+  },
+  {
+    name: "ClampMax",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Highest value that can be entered in the editor.",
+    value: 'ClampMax = "100"',
+    appliesTo: "Numeric and vector properties",
+    metaKeys: ["ClampMin", "UIMin", "UIMax"],
+    propertyTypes: ["numeric"],
+    example: 'UPROPERTY(EditAnywhere, meta = (ClampMin = "0", ClampMax = "100"))\nint32 Percent = 50;',
+    keywords: ["max", "maximum", "limit", "range", "clamp"],
+  },
+  {
+    name: "UIMin",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Lower end of the slider; typed values can still go below unless ClampMin is set.",
+    value: 'UIMin = "0"',
+    appliesTo: "Numeric and vector properties",
+    metaKeys: ["UIMax", "ClampMin", "SliderExponent"],
+    propertyTypes: ["numeric"],
+    example: 'UPROPERTY(EditAnywhere, meta = (UIMin = "0", UIMax = "10"))\nfloat Speed = 1.f;',
+    keywords: ["slider", "range", "min"],
+  },
+  {
+    name: "UIMax",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Upper end of the slider; typed values can still go above unless ClampMax is set.",
+    value: 'UIMax = "10"',
+    appliesTo: "Numeric and vector properties",
+    metaKeys: ["UIMin", "ClampMax", "SliderExponent"],
+    propertyTypes: ["numeric"],
+    example: 'UPROPERTY(EditAnywhere, meta = (UIMin = "0", UIMax = "10"))\nfloat Speed = 1.f;',
+    keywords: ["slider", "range", "max"],
+  },
+  {
+    name: "Delta",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Step size when dragging the value.",
+    value: 'Delta = "0.5"',
+    appliesTo: "Numeric properties",
+    propertyTypes: ["numeric"],
+    example: 'UPROPERTY(EditAnywhere, meta = (Delta = "5"))\nint32 Angle = 0;',
+    keywords: ["step", "increment", "drag"],
+  },
+  {
+    name: "SliderExponent",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Makes the slider non-linear, for finer control at the low end.",
+    value: 'SliderExponent = "3"',
+    appliesTo: "Numeric properties",
+    propertyTypes: ["numeric"],
+    example: 'UPROPERTY(EditAnywhere, meta = (UIMin = "0", UIMax = "10000", SliderExponent = "3"))\nfloat Distance;',
+    keywords: ["slider", "exponential", "curve"],
+  },
+  {
+    name: "Units",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Unit shown next to the value and converted to the user's display units (cm, s, deg, kg, ...).",
+    value: 'Units = "cm"',
+    appliesTo: "Numeric and vector properties",
+    metaKeys: ["ForceUnits"],
+    propertyTypes: ["numeric"],
+    example: 'UPROPERTY(EditAnywhere, meta = (Units = "Seconds"))\nfloat Cooldown = 1.5f;',
+    keywords: ["unit", "centimeters", "seconds", "degrees"],
+  },
+  {
+    name: "ForceUnits",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Like Units, but always shown in this unit regardless of user settings.",
+    value: 'ForceUnits = "cm"',
+    appliesTo: "Numeric and vector properties",
+    metaKeys: ["Units"],
+    propertyTypes: ["numeric"],
+    example: 'UPROPERTY(EditAnywhere, meta = (ForceUnits = "cm"))\nfloat Radius = 50.f;',
+    keywords: ["unit"],
+  },
+  {
+    name: "Bitmask",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Edits an integer as a set of flags; BitmaskEnum names the enum that labels the bits.",
+    appliesTo: "Integer properties",
+    metaKeys: ["BitmaskEnum"],
+    propertyTypes: ["integer"],
+    example: 'UPROPERTY(EditAnywhere, meta = (Bitmask, BitmaskEnum = "/Script/MyGame.EDamageFlags"))\nint32 DamageFlags = 0;',
+    keywords: ["flags", "bit", "mask", "checkbox"],
+  },
+  {
+    name: "BitmaskEnum",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Enum (by path) whose values label the bits of a Bitmask property.",
+    value: 'BitmaskEnum = "/Script/Module.EMyFlags"',
+    appliesTo: "Integer properties marked Bitmask",
+    metaKeys: ["Bitmask"],
+    propertyTypes: ["integer"],
+    example: 'UPROPERTY(EditAnywhere, meta = (Bitmask, BitmaskEnum = "/Script/MyGame.EDamageFlags"))\nint32 DamageFlags = 0;',
+    keywords: ["flags", "enum"],
+  },
+  {
+    name: "EditCondition",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Property is editable only while the condition (a bool property or an expression) holds.",
+    value: 'EditCondition = "bUseCustomSpeed"',
+    appliesTo: "Properties",
+    metaKeys: ["EditConditionHides", "InlineEditConditionToggle"],
+    example: 'UPROPERTY(EditAnywhere)\nbool bUseCustomSpeed = false;\n\nUPROPERTY(EditAnywhere, meta = (EditCondition = "bUseCustomSpeed"))\nfloat CustomSpeed = 600.f;',
+    keywords: ["conditional", "disable", "grey out", "enable", "depends"],
+  },
+  {
+    name: "EditConditionHides",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Hides the property (instead of greying it out) while its EditCondition is false.",
+    appliesTo: "Properties with EditCondition",
+    metaKeys: ["EditCondition"],
+    example: 'UPROPERTY(EditAnywhere, meta = (EditCondition = "Mode == EMode::Custom", EditConditionHides))\nfloat CustomValue;',
+    keywords: ["hide", "conditional", "details panel"],
+  },
+  {
+    name: "InlineEditConditionToggle",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Shows this bool as a checkbox beside the property that uses it as EditCondition, instead of on its own row.",
+    appliesTo: "bool properties used as an EditCondition",
+    metaKeys: ["EditCondition"],
+    propertyTypes: ["bool"],
+    example: 'UPROPERTY(EditAnywhere, meta = (InlineEditConditionToggle))\nbool bOverrideSpeed = false;\n\nUPROPERTY(EditAnywhere, meta = (EditCondition = "bOverrideSpeed"))\nfloat Speed;',
+    keywords: ["checkbox", "toggle", "inline"],
+  },
+  {
+    name: "MultiLine",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Multi-line text box in the Details panel.",
+    value: 'MultiLine = "true"',
+    appliesTo: "FString and FText properties",
+    propertyTypes: ["text"],
+    example: 'UPROPERTY(EditAnywhere, meta = (MultiLine = "true"))\nFText Description;',
+    keywords: ["text box", "paragraph", "newline"],
+  },
+  {
+    name: "PasswordField",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Masks the text in the Details panel.",
+    value: 'PasswordField = "true"',
+    appliesTo: "FString and FText properties",
+    propertyTypes: ["text"],
+    example: 'UPROPERTY(EditAnywhere, Config, meta = (PasswordField = "true"))\nFString ApiKey;',
+    keywords: ["secret", "mask", "hidden text"],
+  },
+  {
+    name: "GetOptions",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Dropdown filled by a UFUNCTION returning TArray<FString> or TArray<FName>.",
+    value: 'GetOptions = "GetSocketNames"',
+    appliesTo: "FName and FString properties (and arrays of them)",
+    propertyTypes: ["name"],
+    example: 'UPROPERTY(EditAnywhere, meta = (GetOptions = "GetSocketNames"))\nFName Socket;\n\nUFUNCTION()\nTArray<FName> GetSocketNames() const;',
+    keywords: ["dropdown", "combo box", "options", "list"],
+  },
+  {
+    name: "AllowedClasses",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Limits the asset picker to these classes (comma-separated paths).",
+    value: 'AllowedClasses = "/Script/Engine.StaticMesh"',
+    appliesTo: "Object, soft object and asset ID properties",
+    metaKeys: ["DisallowedClasses"],
+    propertyTypes: ["object"],
+    example: 'UPROPERTY(EditAnywhere, meta = (AllowedClasses = "/Script/Engine.Texture2D"))\nFSoftObjectPath Icon;',
+    keywords: ["filter", "asset picker", "type"],
+  },
+  {
+    name: "DisallowedClasses",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Removes these classes from the asset picker.",
+    value: 'DisallowedClasses = "/Script/Engine.SkeletalMesh"',
+    appliesTo: "Object, soft object and asset ID properties",
+    metaKeys: ["AllowedClasses"],
+    propertyTypes: ["object"],
+    example: 'UPROPERTY(EditAnywhere, meta = (DisallowedClasses = "/Script/Engine.SkeletalMesh"))\nTSoftObjectPtr<UObject> Asset;',
+    keywords: ["filter", "asset picker", "exclude"],
+  },
+  {
+    name: "MetaClass",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Base class the class picker is limited to.",
+    value: 'MetaClass = "/Script/Engine.GameModeBase"',
+    appliesTo: "FSoftClassPath and FSoftObjectPath properties",
+    metaKeys: ["AllowAbstract", "MustImplement"],
+    propertyTypes: ["class"],
+    example: 'UPROPERTY(EditAnywhere, Config, meta = (MetaClass = "/Script/Engine.GameModeBase"))\nFSoftClassPath DefaultGameMode;',
+    keywords: ["class picker", "base class", "filter"],
+  },
+  {
+    name: "AllowAbstract",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Abstract classes can be picked.",
+    value: 'AllowAbstract = "true"',
+    appliesTo: "Class reference properties",
+    propertyTypes: ["class"],
+    example: 'UPROPERTY(EditAnywhere, meta = (AllowAbstract = "true"))\nTSubclassOf<UObject> BaseType;',
+    keywords: ["abstract", "class picker"],
+  },
+  {
+    name: "MustImplement",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Only classes implementing this interface can be picked.",
+    value: 'MustImplement = "/Script/MyGame.Interactable"',
+    appliesTo: "Class reference properties",
+    propertyTypes: ["class"],
+    example: 'UPROPERTY(EditAnywhere, meta = (MustImplement = "/Script/MyGame.Interactable"))\nTSubclassOf<AActor> InteractableClass;',
+    keywords: ["interface", "class picker", "filter"],
+  },
+  {
+    name: "BindWidget",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Binds to the widget with the same name in the UMG designer; the Blueprint fails to compile without it.",
+    appliesTo: "UWidget pointers in UUserWidget subclasses",
+    metaKeys: ["BindWidgetOptional"],
+    propertyTypes: ["widget"],
+    example: "UPROPERTY(meta = (BindWidget))\nTObjectPtr<UTextBlock> TitleText;",
+    keywords: ["umg", "widget", "designer", "ui"],
+  },
+  {
+    name: "BindWidgetOptional",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Like BindWidget, but the widget may be missing (the pointer is null).",
+    appliesTo: "UWidget pointers in UUserWidget subclasses",
+    metaKeys: ["BindWidget"],
+    propertyTypes: ["widget"],
+    example: "UPROPERTY(meta = (BindWidgetOptional))\nTObjectPtr<UImage> Icon;",
+    keywords: ["umg", "optional", "ui"],
+  },
+  {
+    name: "BindWidgetAnim",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Binds to the UMG animation with the same name. The property must be Transient.",
+    appliesTo: "UWidgetAnimation pointers in UUserWidget subclasses",
+    propertyTypes: ["widgetAnimation"],
+    example: "UPROPERTY(Transient, meta = (BindWidgetAnim))\nTObjectPtr<UWidgetAnimation> FadeIn;",
+    keywords: ["umg", "animation", "ui"],
+  },
+  {
+    name: "TitleProperty",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Member shown as each array element's title in the Details panel.",
+    value: 'TitleProperty = "Name"',
+    appliesTo: "Arrays of structs or instanced objects",
+    propertyTypes: ["array"],
+    example: 'UPROPERTY(EditAnywhere, meta = (TitleProperty = "ItemName"))\nTArray<FInventoryEntry> Items;',
+    keywords: ["array", "element", "label", "title"],
+  },
+  {
+    name: "NoElementDuplicate",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Removes the Duplicate option from array elements.",
+    appliesTo: "Arrays",
+    propertyTypes: ["array"],
+    example: "UPROPERTY(EditAnywhere, meta = (NoElementDuplicate))\nTArray<TObjectPtr<AActor>> Targets;",
+    keywords: ["array", "duplicate"],
+  },
+  {
+    name: "EditFixedOrder",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Array elements cannot be reordered by dragging.",
+    appliesTo: "Arrays",
+    propertyTypes: ["array"],
+    example: "UPROPERTY(EditAnywhere, meta = (EditFixedOrder))\nTArray<FName> Stages;",
+    keywords: ["array", "reorder", "drag"],
+  },
+  {
+    name: "ArrayClamp",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Clamps an integer index to the valid range of the named array.",
+    value: 'ArrayClamp = "Items"',
+    appliesTo: "Integer properties",
+    propertyTypes: ["integer"],
+    example: 'UPROPERTY(EditAnywhere, meta = (ArrayClamp = "Items"))\nint32 SelectedIndex;',
+    keywords: ["index", "array", "clamp"],
+  },
+  {
+    name: "ReadOnlyKeys",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Map keys cannot be edited, only values.",
+    appliesTo: "TMap properties",
+    propertyTypes: ["map"],
+    example: "UPROPERTY(EditAnywhere, meta = (ReadOnlyKeys))\nTMap<FName, float> Multipliers;",
+    keywords: ["map", "key"],
+  },
+  {
+    name: "ForceInlineRow",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Shows each map entry's key and value on a single row.",
+    appliesTo: "TMap properties",
+    propertyTypes: ["map"],
+    example: "UPROPERTY(EditAnywhere, meta = (ForceInlineRow))\nTMap<FGameplayTag, int32> Counts;",
+    keywords: ["map", "row", "layout"],
+  },
+  {
+    name: "DisplayName",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Label shown in the editor and Blueprint instead of the C++ name.",
+    value: 'DisplayName = "Max HP"',
+    appliesTo: "Properties",
+    example: 'UPROPERTY(EditAnywhere, meta = (DisplayName = "Max HP"))\nfloat MaxHealth;',
+    keywords: ["label", "rename", "friendly name"],
+  },
+  {
+    name: "ToolTip",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Tooltip text; defaults to the property's doc comment.",
+    value: 'ToolTip = "Health at spawn"',
+    appliesTo: "Properties",
+    example: 'UPROPERTY(EditAnywhere, meta = (ToolTip = "Health at spawn"))\nfloat StartHealth;',
+    keywords: ["hover", "help", "description"],
+  },
+  {
+    name: "DisplayPriority",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Orders properties within a category; lower numbers come first.",
+    value: 'DisplayPriority = "1"',
+    appliesTo: "Properties",
+    metaKeys: ["DisplayAfter"],
+    example: 'UPROPERTY(EditAnywhere, meta = (DisplayPriority = "1"))\nFName Id;',
+    keywords: ["order", "sort", "position"],
+  },
+  {
+    name: "DisplayAfter",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Shows the property right after the named one.",
+    value: 'DisplayAfter = "MaxHealth"',
+    appliesTo: "Properties",
+    metaKeys: ["DisplayPriority"],
+    example: 'UPROPERTY(EditAnywhere, meta = (DisplayAfter = "MaxHealth"))\nfloat RegenRate;',
+    keywords: ["order", "position"],
+  },
+  {
+    name: "ExposeOnSpawn",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Appears as a pin on Spawn Actor / Construct Object nodes.",
+    value: 'ExposeOnSpawn = "true"',
+    appliesTo: "BlueprintReadWrite properties (with EditAnywhere or EditInstanceOnly)",
+    example: 'UPROPERTY(EditAnywhere, BlueprintReadWrite, meta = (ExposeOnSpawn = "true"))\nint32 TeamId;',
+    keywords: ["spawn", "pin", "construct"],
+  },
+  {
+    name: "MakeEditWidget",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Shows a draggable 3D widget in the viewport for the vector or transform.",
+    appliesTo: "FVector and FTransform properties",
+    example: "UPROPERTY(EditAnywhere, meta = (MakeEditWidget))\nFVector TargetLocation;",
+    keywords: ["viewport", "gizmo", "handle", "3d"],
+  },
+  {
+    name: "ShowOnlyInnerProperties",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Shows a struct's members directly instead of under an expandable header.",
+    appliesTo: "Struct properties",
+    example: "UPROPERTY(EditAnywhere, meta = (ShowOnlyInnerProperties))\nFMySettings Settings;",
+    keywords: ["struct", "flatten", "expand"],
+  },
+  {
+    name: "NoResetToDefault",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Removes the reset-to-default arrow.",
+    appliesTo: "Properties",
+    example: "UPROPERTY(EditAnywhere, meta = (NoResetToDefault))\nFGuid Id;",
+    keywords: ["reset", "default"],
+  },
+  {
+    name: "HideAlphaChannel",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Color picker without alpha.",
+    appliesTo: "FColor and FLinearColor properties",
+    propertyTypes: ["numeric"],
+    example: "UPROPERTY(EditAnywhere, meta = (HideAlphaChannel))\nFLinearColor Tint;",
+    keywords: ["color", "alpha", "opacity"],
+  },
+  {
+    name: "ContentDir",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Directory picker limited to the Content folder, as a /Game path.",
+    appliesTo: "FDirectoryPath properties",
+    propertyTypes: ["path"],
+    example: "UPROPERTY(EditAnywhere, Config, meta = (ContentDir))\nFDirectoryPath ImportFolder;",
+    keywords: ["folder", "directory", "path"],
+  },
+  {
+    name: "RelativePath",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Stores the picked path relative to the project directory.",
+    appliesTo: "FFilePath and FDirectoryPath properties",
+    propertyTypes: ["path"],
+    example: "UPROPERTY(EditAnywhere, meta = (RelativePath))\nFDirectoryPath ExportDir;",
+    keywords: ["folder", "path", "relative"],
+  },
+  {
+    name: "FilePathFilter",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "File dialog filter for a file path property.",
+    value: 'FilePathFilter = "Comma-separated values (*.csv)|*.csv"',
+    appliesTo: "FFilePath properties",
+    propertyTypes: ["path"],
+    example: 'UPROPERTY(EditAnywhere, meta = (FilePathFilter = "csv"))\nFFilePath SourceFile;',
+    keywords: ["file", "extension", "dialog"],
+  },
+  {
+    name: "LongPackageName",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Path is stored as a long package name (/Game/...).",
+    appliesTo: "FDirectoryPath and FFilePath properties",
+    propertyTypes: ["path"],
+    example: "UPROPERTY(EditAnywhere, meta = (LongPackageName))\nFDirectoryPath MapsFolder;",
+    keywords: ["package", "path"],
+  },
+  {
+    name: "Categories",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Limits the gameplay tag picker to tags under these roots.",
+    value: 'Categories = "Ability.Damage"',
+    appliesTo: "FGameplayTag and FGameplayTagContainer properties",
+    propertyTypes: ["gameplayTag"],
+    example: 'UPROPERTY(EditAnywhere, meta = (Categories = "Ability.Damage"))\nFGameplayTag DamageType;',
+    keywords: ["gameplay tag", "filter", "tag picker"],
+  },
+  {
+    name: "DeprecatedProperty",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Warns when Blueprints use the property.",
+    appliesTo: "Properties",
+    metaKeys: ["DeprecationMessage"],
+    example: 'UPROPERTY(meta = (DeprecatedProperty, DeprecationMessage = "Use Speed instead"))\nfloat Velocity_DEPRECATED;',
+    keywords: ["deprecated", "obsolete"],
+  },
+  {
+    name: "DeprecationMessage",
+    macro: "UPROPERTY",
+    kind: "meta",
+    group: "Meta",
+    description: "Message shown with DeprecatedProperty warnings.",
+    value: 'DeprecationMessage = "Use X instead"',
+    appliesTo: "Deprecated properties",
+    metaKeys: ["DeprecatedProperty"],
+    example: 'UPROPERTY(meta = (DeprecatedProperty, DeprecationMessage = "Use Speed instead"))\nfloat Velocity_DEPRECATED;',
+    keywords: ["deprecated"],
+  },
+
+  // --- UFUNCTION: Blueprint Access ---
+  {
+    name: "BlueprintCallable",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "Can be called from Blueprint graphs (a node with execution pins).",
+    appliesTo: "Functions",
+    metaKeys: ["DisplayName", "Keywords", "CompactNodeTitle", "DefaultToSelf", "WorldContext", "AutoCreateRefTerm"],
+    example: 'UFUNCTION(BlueprintCallable, Category = "Combat")\nvoid ApplyDamage(AActor* Target, float Amount);',
+    keywords: ["blueprint", "call", "node", "expose"],
+  },
+  {
+    name: "BlueprintPure",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "Blueprint node without execution pins; should not change state, so declare it const. Needs a return value or output parameter.",
+    appliesTo: "Functions with a return value or output parameters",
+    conflicts: ["BlueprintImplementableEvent"],
+    example: 'UFUNCTION(BlueprintPure, Category = "Stats")\nfloat GetHealthPercent() const;',
+    keywords: ["getter", "pure", "no exec pins", "const"],
+  },
+  {
+    name: "BlueprintImplementableEvent",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "Declared in C++, implemented only in Blueprint. No C++ body.",
+    appliesTo: "Functions (not static, not virtual)",
+    conflicts: ["BlueprintNativeEvent", "BlueprintPure"],
+    example: 'UFUNCTION(BlueprintImplementableEvent, Category = "Events")\nvoid OnDeath();',
+    keywords: ["event", "override in blueprint", "hook"],
+  },
+  {
+    name: "BlueprintNativeEvent",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "Blueprint can override it; the C++ default lives in <Name>_Implementation.",
+    appliesTo: "Functions (not static)",
+    conflicts: ["BlueprintImplementableEvent"],
+    example: 'UFUNCTION(BlueprintNativeEvent, Category = "Events")\nvoid OnHit(const FHitResult& Hit);\n\n// .cpp\nvoid AMyActor::OnHit_Implementation(const FHitResult& Hit) {}',
+    keywords: ["event", "override", "implementation", "default"],
+  },
+  {
+    name: "BlueprintGetter",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "Getter used by a UPROPERTY(BlueprintGetter = ...). Pure, takes no parameters and returns the property type.",
+    appliesTo: "Const functions returning the property's type",
+    example: "UFUNCTION(BlueprintGetter)\nfloat GetHealth() const;",
+    keywords: ["accessor", "getter"],
+  },
+  {
+    name: "BlueprintSetter",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "Setter used by a UPROPERTY(BlueprintSetter = ...). Takes one parameter of the property type.",
+    appliesTo: "Functions taking the property's type",
+    example: "UFUNCTION(BlueprintSetter)\nvoid SetHealth(float NewHealth);",
+    keywords: ["accessor", "setter"],
+  },
+  {
+    name: "BlueprintAuthorityOnly",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "Only runs from Blueprint on the network authority.",
+    appliesTo: "Functions",
+    example: 'UFUNCTION(BlueprintCallable, BlueprintAuthorityOnly, Category = "Game")\nvoid AwardPoints(int32 Points);',
+    keywords: ["server", "authority", "network"],
+  },
+  {
+    name: "BlueprintCosmetic",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "Cosmetic only; skipped on dedicated servers.",
+    appliesTo: "Functions",
+    example: 'UFUNCTION(BlueprintCallable, BlueprintCosmetic, Category = "FX")\nvoid PlayHitEffect();',
+    keywords: ["cosmetic", "client", "dedicated server", "fx"],
+  },
+  {
+    name: "SealedEvent",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "The event cannot be overridden in subclasses.",
+    appliesTo: "Events",
+    example: "UFUNCTION(SealedEvent)\nvoid OnFinalized();",
+    keywords: ["final", "override"],
+  },
+  {
+    name: "FieldNotify",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Blueprint Access",
+    description: "A const getter whose value can be bound as a field notification (UMG ViewModels).",
+    appliesTo: "Const functions with no parameters",
+    since: "5.1",
+    example: "UFUNCTION(BlueprintPure, FieldNotify)\nfloat GetHealthPercent() const;",
+    keywords: ["mvvm", "viewmodel", "binding"],
+  },
+  {
+    name: "Category",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Other",
+    description: "Category in the Blueprint action menu; use | for subcategories. Required for Blueprint-exposed functions in engine and plugin modules.",
+    value: 'Category = "Combat|Weapons"',
+    appliesTo: "Functions",
+    example: 'UFUNCTION(BlueprintCallable, Category = "Combat|Weapons")\nvoid Reload();',
+    keywords: ["menu", "group", "organize"],
+  },
+
+  // --- UFUNCTION: Networking ---
+  {
+    name: "Server",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Networking",
+    description: "RPC called on the owning client and run on the server. Implement <Name>_Implementation; must be Reliable or Unreliable.",
+    appliesTo: "void member functions of replicated actors and components",
+    conflicts: ["Client", "NetMulticast"],
+    example: "UFUNCTION(Server, Reliable, WithValidation)\nvoid ServerFire(FVector Direction);",
+    keywords: ["rpc", "network", "client to server", "multiplayer"],
+  },
+  {
+    name: "Client",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Networking",
+    description: "RPC called on the server and run on the owning client.",
+    appliesTo: "void member functions of replicated actors and components",
+    conflicts: ["Server", "NetMulticast"],
+    example: "UFUNCTION(Client, Reliable)\nvoid ClientShowMessage(const FString& Message);",
+    keywords: ["rpc", "network", "server to client", "owning client"],
+  },
+  {
+    name: "NetMulticast",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Networking",
+    description: "RPC called on the server and run on the server and every relevant client.",
+    appliesTo: "void member functions of replicated actors",
+    conflicts: ["Server", "Client"],
+    example: "UFUNCTION(NetMulticast, Unreliable)\nvoid MulticastPlayImpact(FVector Location);",
+    keywords: ["rpc", "broadcast", "all clients"],
+  },
+  {
+    name: "Reliable",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Networking",
+    description: "RPC is guaranteed to arrive, in order. Use for gameplay-critical calls only.",
+    appliesTo: "RPCs",
+    conflicts: ["Unreliable"],
+    example: "UFUNCTION(Server, Reliable)\nvoid ServerEquip(int32 Slot);",
+    keywords: ["rpc", "guaranteed"],
+  },
+  {
+    name: "Unreliable",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Networking",
+    description: "RPC may be dropped; use for frequent or cosmetic calls.",
+    appliesTo: "RPCs",
+    conflicts: ["Reliable"],
+    example: "UFUNCTION(NetMulticast, Unreliable)\nvoid MulticastFootstep();",
+    keywords: ["rpc", "best effort"],
+  },
+  {
+    name: "WithValidation",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Networking",
+    description: "Adds <Name>_Validate, run before the RPC; returning false disconnects the caller.",
+    appliesTo: "RPCs",
+    example: "UFUNCTION(Server, Reliable, WithValidation)\nvoid ServerSetName(const FString& Name);\n\n// .cpp\nbool AMyActor::ServerSetName_Validate(const FString& Name) { return Name.Len() < 32; }",
+    keywords: ["rpc", "validate", "anti cheat"],
+  },
+  {
+    name: "ServiceRequest",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Networking",
+    description: "RPC service request (network service endpoints).",
+    value: "ServiceRequest(Endpoint)",
+    appliesTo: "Functions",
+    example: "UFUNCTION(ServiceRequest(MyService))\nvoid RequestData();",
+    keywords: ["service"],
+  },
+  {
+    name: "ServiceResponse",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Networking",
+    description: "RPC service response (network service endpoints).",
+    value: "ServiceResponse(Endpoint)",
+    appliesTo: "Functions",
+    example: "UFUNCTION(ServiceResponse(MyService))\nvoid ReceiveData();",
+    keywords: ["service"],
+  },
+
+  // --- UFUNCTION: Other ---
+  {
+    name: "Exec",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Other",
+    description: "Callable as a console command. Only works in certain classes (player controller, pawn, HUD, game mode, cheat manager, game instance).",
+    appliesTo: "Functions of console-dispatch classes",
+    example: "UFUNCTION(Exec)\nvoid GiveAmmo(int32 Amount);",
+    keywords: ["console", "cheat", "command"],
+  },
+  {
+    name: "CallInEditor",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Other",
+    description: "Adds a button in the Details panel that calls the function.",
+    appliesTo: "Functions without parameters",
+    example: 'UFUNCTION(CallInEditor, Category = "Tools")\nvoid RebuildSplines();',
+    keywords: ["button", "details panel", "editor", "tool"],
+  },
+  {
+    name: "CustomThunk",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Other",
+    description: "The Blueprint VM glue (execFunction) is written by hand with DECLARE_FUNCTION.",
+    appliesTo: "Functions",
+    example: "UFUNCTION(BlueprintCallable, CustomThunk, meta = (CustomStructureParam = \"Value\"))\nstatic void SetAny(const int32& Value);",
+    keywords: ["wildcard", "thunk", "vm"],
+  },
+  {
+    name: "meta",
+    macro: "UFUNCTION",
+    kind: "specifier",
+    group: "Other",
+    description: "Metadata keys for Blueprint nodes; see the meta keys below.",
+    value: 'meta = (DisplayName = "Apply Damage", Keywords = "hurt hit")',
+    appliesTo: "Functions",
+    example: 'UFUNCTION(BlueprintCallable, Category = "Combat", meta = (DefaultToSelf = "Target"))\nstatic void Heal(AActor* Target, float Amount);',
+    keywords: ["metadata"],
+  },
+
+  // --- UFUNCTION meta ---
+  {
+    name: "DisplayName",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Node title in Blueprint instead of the C++ name.",
+    value: 'DisplayName = "Apply Damage"',
+    appliesTo: "Functions",
+    example: 'UFUNCTION(BlueprintCallable, meta = (DisplayName = "Apply Damage"))\nvoid K2_ApplyDamage(float Amount);',
+    keywords: ["label", "rename", "node title"],
+  },
+  {
+    name: "ToolTip",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Node tooltip; defaults to the function's doc comment.",
+    value: 'ToolTip = "..."',
+    appliesTo: "Functions",
+    example: 'UFUNCTION(BlueprintCallable, meta = (ToolTip = "Deals damage to the target"))\nvoid ApplyDamage(float Amount);',
+    keywords: ["hover", "help"],
+  },
+  {
+    name: "Keywords",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Extra words the Blueprint action search matches.",
+    value: 'Keywords = "hurt hit"',
+    appliesTo: "Blueprint-callable functions",
+    example: 'UFUNCTION(BlueprintCallable, meta = (Keywords = "hurt hit"))\nvoid ApplyDamage(float Amount);',
+    keywords: ["search", "action menu"],
+  },
+  {
+    name: "CompactNodeTitle",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Draws the node compactly with this short title (like math operators).",
+    value: 'CompactNodeTitle = "+"',
+    appliesTo: "Pure functions",
+    example: 'UFUNCTION(BlueprintPure, meta = (CompactNodeTitle = "LEN"))\nstatic int32 Length(const FString& S);',
+    keywords: ["compact", "operator", "node"],
+  },
+  {
+    name: "DefaultToSelf",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "The named object parameter defaults to the calling Blueprint's self.",
+    value: 'DefaultToSelf = "Target"',
+    appliesTo: "Blueprint-callable functions with an object parameter",
+    metaKeys: ["HidePin"],
+    example: 'UFUNCTION(BlueprintCallable, meta = (DefaultToSelf = "Target"))\nstatic void Heal(AActor* Target, float Amount);',
+    keywords: ["self", "default", "target"],
+  },
+  {
+    name: "WorldContext",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "The named UObject* parameter is filled with the caller as world context and hidden.",
+    value: 'WorldContext = "WorldContextObject"',
+    appliesTo: "Static Blueprint functions",
+    metaKeys: ["CallableWithoutWorldContext"],
+    example: 'UFUNCTION(BlueprintCallable, meta = (WorldContext = "WorldContextObject"))\nstatic void SpawnWave(UObject* WorldContextObject, int32 Count);',
+    keywords: ["world", "static", "library"],
+  },
+  {
+    name: "CallableWithoutWorldContext",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "A WorldContext function that can also be called from Blueprints that have no world.",
+    appliesTo: "Static Blueprint functions with WorldContext",
+    metaKeys: ["WorldContext"],
+    example: 'UFUNCTION(BlueprintCallable, meta = (WorldContext = "WorldContextObject", CallableWithoutWorldContext))\nstatic void Log(UObject* WorldContextObject, const FString& Text);',
+    keywords: ["world"],
+  },
+  {
+    name: "HidePin",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Hides the named parameter's pin.",
+    value: 'HidePin = "Target"',
+    appliesTo: "Blueprint-callable functions",
+    metaKeys: ["DefaultToSelf"],
+    example: 'UFUNCTION(BlueprintCallable, meta = (HidePin = "Target", DefaultToSelf = "Target"))\nstatic void Ping(AActor* Target);',
+    keywords: ["hide", "pin", "parameter"],
+  },
+  {
+    name: "HideSelfPin",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Hides the Target (self) pin of a member function.",
+    appliesTo: "Blueprint-callable member functions",
+    example: "UFUNCTION(BlueprintCallable, meta = (HideSelfPin))\nvoid Refresh();",
+    keywords: ["self", "target", "pin"],
+  },
+  {
+    name: "AdvancedDisplay",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Puts the named parameters (or all after an index) behind the node's expand arrow.",
+    value: 'AdvancedDisplay = "Scale,Offset" or AdvancedDisplay = 2',
+    appliesTo: "Blueprint-callable functions",
+    example: 'UFUNCTION(BlueprintCallable, meta = (AdvancedDisplay = "Offset"))\nvoid Place(FVector Location, FVector Offset);',
+    keywords: ["advanced", "collapse", "pins"],
+  },
+  {
+    name: "AutoCreateRefTerm",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Const reference parameters that may be left unconnected (a default value is created).",
+    value: 'AutoCreateRefTerm = "Tags"',
+    appliesTo: "Blueprint-callable functions with const& parameters",
+    example: 'UFUNCTION(BlueprintCallable, meta = (AutoCreateRefTerm = "Tags"))\nvoid AddTags(const TArray<FName>& Tags);',
+    keywords: ["reference", "optional", "default"],
+  },
+  {
+    name: "ExpandEnumAsExecs",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Turns an enum parameter or return value into one execution pin per value.",
+    value: 'ExpandEnumAsExecs = "Result"',
+    appliesTo: "Blueprint-callable functions with an enum parameter",
+    metaKeys: ["ExpandBoolAsExecs"],
+    example: 'UFUNCTION(BlueprintCallable, meta = (ExpandEnumAsExecs = "Result"))\nvoid TryOpen(EOpenResult& Result);',
+    keywords: ["branch", "exec pins", "switch"],
+  },
+  {
+    name: "ExpandBoolAsExecs",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Turns a bool parameter or return value into True/False execution pins.",
+    value: 'ExpandBoolAsExecs = "ReturnValue"',
+    appliesTo: "Blueprint-callable functions with a bool parameter or return",
+    metaKeys: ["ExpandEnumAsExecs"],
+    example: 'UFUNCTION(BlueprintCallable, meta = (ExpandBoolAsExecs = "ReturnValue"))\nbool TryUse();',
+    keywords: ["branch", "exec pins"],
+  },
+  {
+    name: "DeterminesOutputType",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "The return (or DynamicOutputParam) pin takes the class given to the named parameter.",
+    value: 'DeterminesOutputType = "Class"',
+    appliesTo: "Functions with a TSubclassOf parameter",
+    metaKeys: ["DynamicOutputParam"],
+    example: 'UFUNCTION(BlueprintCallable, meta = (DeterminesOutputType = "Class"))\nAActor* FindActor(TSubclassOf<AActor> Class);',
+    keywords: ["cast", "generic", "output type"],
+  },
+  {
+    name: "DynamicOutputParam",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Output parameter whose type follows DeterminesOutputType.",
+    value: 'DynamicOutputParam = "OutActors"',
+    appliesTo: "Functions with DeterminesOutputType",
+    metaKeys: ["DeterminesOutputType"],
+    example: 'UFUNCTION(BlueprintCallable, meta = (DeterminesOutputType = "Class", DynamicOutputParam = "OutActors"))\nvoid GetAll(TSubclassOf<AActor> Class, TArray<AActor*>& OutActors);',
+    keywords: ["output type"],
+  },
+  {
+    name: "ReturnDisplayName",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Label of the return value pin.",
+    value: 'ReturnDisplayName = "Success"',
+    appliesTo: "Blueprint functions with a return value",
+    example: 'UFUNCTION(BlueprintCallable, meta = (ReturnDisplayName = "Success"))\nbool Save();',
+    keywords: ["return", "pin", "label"],
+  },
+  {
+    name: "Latent",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Latent action node (clock icon); needs a LatentInfo parameter.",
+    appliesTo: "Static Blueprint functions with FLatentActionInfo",
+    metaKeys: ["LatentInfo", "WorldContext"],
+    example: 'UFUNCTION(BlueprintCallable, meta = (Latent, LatentInfo = "LatentInfo", WorldContext = "WorldContextObject"))\nstatic void WaitForIt(UObject* WorldContextObject, FLatentActionInfo LatentInfo);',
+    keywords: ["async", "delay", "wait"],
+  },
+  {
+    name: "LatentInfo",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Names the FLatentActionInfo parameter of a Latent function.",
+    value: 'LatentInfo = "LatentInfo"',
+    appliesTo: "Latent functions",
+    metaKeys: ["Latent"],
+    example: 'UFUNCTION(BlueprintCallable, meta = (Latent, LatentInfo = "LatentInfo"))\nvoid MoveOver(FLatentActionInfo LatentInfo);',
+    keywords: ["async", "latent"],
+  },
+  {
+    name: "BlueprintProtected",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Only callable from the owning class's Blueprint (self).",
+    appliesTo: "Blueprint-callable member functions",
+    example: "UFUNCTION(BlueprintCallable, meta = (BlueprintProtected))\nvoid InternalStep();",
+    keywords: ["protected", "private", "self only"],
+  },
+  {
+    name: "BlueprintInternalUseOnly",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Hidden from the action menu; used by custom K2 nodes and async actions.",
+    value: 'BlueprintInternalUseOnly = "true"',
+    appliesTo: "Blueprint-callable functions",
+    example: 'UFUNCTION(BlueprintCallable, meta = (BlueprintInternalUseOnly = "true"))\nstatic UMyAsyncAction* StartAsync();',
+    keywords: ["hidden", "k2 node", "async action"],
+  },
+  {
+    name: "DevelopmentOnly",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Node does nothing in shipping builds (like Print String).",
+    appliesTo: "Blueprint-callable functions",
+    example: "UFUNCTION(BlueprintCallable, meta = (DevelopmentOnly))\nstatic void DebugDraw(FVector Location);",
+    keywords: ["debug", "shipping"],
+  },
+  {
+    name: "UnsafeDuringActorConstruction",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Cannot be called from construction scripts.",
+    appliesTo: "Blueprint-callable functions",
+    example: 'UFUNCTION(BlueprintCallable, meta = (UnsafeDuringActorConstruction = "true"))\nvoid StartTimers();',
+    keywords: ["construction script"],
+  },
+  {
+    name: "BlueprintThreadSafe",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Safe to call from worker threads, e.g. the animation Blueprint thread.",
+    appliesTo: "Blueprint-callable functions",
+    metaKeys: ["NotBlueprintThreadSafe"],
+    example: "UFUNCTION(BlueprintPure, meta = (BlueprintThreadSafe))\nstatic float Remap(float Value);",
+    keywords: ["thread", "animation", "anim graph"],
+  },
+  {
+    name: "NotBlueprintThreadSafe",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Excludes one function of a BlueprintThreadSafe class.",
+    appliesTo: "Functions of BlueprintThreadSafe classes",
+    metaKeys: ["BlueprintThreadSafe"],
+    example: "UFUNCTION(BlueprintCallable, meta = (NotBlueprintThreadSafe))\nstatic void TouchWorld();",
+    keywords: ["thread"],
+  },
+  {
+    name: "DeprecatedFunction",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Warns when Blueprints call the function.",
+    appliesTo: "Blueprint-callable functions",
+    metaKeys: ["DeprecationMessage"],
+    example: 'UFUNCTION(BlueprintCallable, meta = (DeprecatedFunction, DeprecationMessage = "Use ApplyDamage"))\nvoid Hurt(float Amount);',
+    keywords: ["deprecated", "obsolete"],
+  },
+  {
+    name: "DeprecationMessage",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Message shown with DeprecatedFunction warnings.",
+    value: 'DeprecationMessage = "Use X instead"',
+    appliesTo: "Deprecated functions",
+    metaKeys: ["DeprecatedFunction"],
+    example: 'UFUNCTION(BlueprintCallable, meta = (DeprecatedFunction, DeprecationMessage = "Use ApplyDamage"))\nvoid Hurt(float Amount);',
+    keywords: ["deprecated"],
+  },
+  {
+    name: "ArrayParm",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Wildcard array parameters of a CustomThunk function.",
+    value: 'ArrayParm = "TargetArray"',
+    appliesTo: "CustomThunk functions",
+    example: 'UFUNCTION(BlueprintCallable, CustomThunk, meta = (ArrayParm = "TargetArray"))\nstatic void Shuffle(const TArray<int32>& TargetArray);',
+    keywords: ["wildcard", "array"],
+  },
+  {
+    name: "CustomStructureParam",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Wildcard (any type) parameters of a CustomThunk function.",
+    value: 'CustomStructureParam = "Value"',
+    appliesTo: "CustomThunk functions",
+    example: 'UFUNCTION(BlueprintCallable, CustomThunk, meta = (CustomStructureParam = "Value"))\nstatic void SetAny(const int32& Value);',
+    keywords: ["wildcard", "any type"],
+  },
+  {
+    name: "CommutativeAssociativeBinaryOperator",
+    macro: "UFUNCTION",
+    kind: "meta",
+    group: "Meta",
+    description: "Pure operator node that can grow extra input pins (like Add).",
+    appliesTo: "Pure functions with two parameters of the same type",
+    example: 'UFUNCTION(BlueprintPure, meta = (CompactNodeTitle = "+", CommutativeAssociativeBinaryOperator = "true"))\nstatic FMyVec Add(FMyVec A, FMyVec B);',
+    keywords: ["operator", "add pin"],
+  },
+
+  // --- UCLASS ---
+  {
+    name: "Blueprintable",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Blueprint",
+    description: "Can be the parent of a Blueprint class. Inherited.",
+    appliesTo: "Classes",
+    conflicts: ["NotBlueprintable"],
+    example: "UCLASS(Blueprintable)\nclass MYGAME_API UMyObject : public UObject { GENERATED_BODY() };",
+    keywords: ["blueprint", "subclass", "parent class"],
+  },
+  {
+    name: "NotBlueprintable",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Blueprint",
+    description: "Cannot be subclassed in Blueprint.",
+    appliesTo: "Classes",
+    conflicts: ["Blueprintable"],
+    example: "UCLASS(NotBlueprintable)\nclass UInternalHelper : public UObject { GENERATED_BODY() };",
+    keywords: ["blueprint", "prevent"],
+  },
+  {
+    name: "BlueprintType",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Blueprint",
+    description: "Can be used as a Blueprint variable type.",
+    appliesTo: "Classes",
+    conflicts: ["NotBlueprintType"],
+    example: "UCLASS(BlueprintType)\nclass UItemData : public UPrimaryDataAsset { GENERATED_BODY() };",
+    keywords: ["variable", "blueprint"],
+  },
+  {
+    name: "NotBlueprintType",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Blueprint",
+    description: "Cannot be used as a Blueprint variable type.",
+    appliesTo: "Classes",
+    conflicts: ["BlueprintType"],
+    example: "UCLASS(NotBlueprintType)\nclass UInternalState : public UObject { GENERATED_BODY() };",
+    keywords: ["variable"],
+  },
+  {
+    name: "Abstract",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Instancing",
+    description: "Cannot be instantiated or placed; only subclasses can.",
+    appliesTo: "Classes",
+    example: "UCLASS(Abstract, Blueprintable)\nclass ABaseWeapon : public AActor { GENERATED_BODY() };",
+    keywords: ["base class", "instantiate", "abstract"],
+  },
+  {
+    name: "Const",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Instancing",
+    description: "Properties and functions are const; Blueprint subclasses inherit it.",
+    appliesTo: "Classes",
+    example: "UCLASS(Const)\nclass UReadOnlyData : public UObject { GENERATED_BODY() };",
+    keywords: ["read only"],
+  },
+  {
+    name: "Transient",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Instancing",
+    description: "Objects of this class are never saved. Inherited.",
+    appliesTo: "Classes",
+    conflicts: ["NonTransient"],
+    example: "UCLASS(Transient)\nclass URuntimeCache : public UObject { GENERATED_BODY() };",
+    keywords: ["save", "runtime only"],
+  },
+  {
+    name: "NonTransient",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Instancing",
+    description: "Cancels a Transient inherited from the parent.",
+    appliesTo: "Classes",
+    conflicts: ["Transient"],
+    example: "UCLASS(NonTransient)\nclass USavedCache : public URuntimeCache { GENERATED_BODY() };",
+    keywords: ["save"],
+  },
+  {
+    name: "Optional",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Instancing",
+    description: "Objects of this class are optional data: editor-only and split out of cooked packages when optional data is enabled.",
+    appliesTo: "Classes",
+    example: "UCLASS(Optional)\nclass UEditorOnlyPayload : public UObject { GENERATED_BODY() };",
+    keywords: ["editor only", "cook", "optional"],
+  },
+  {
+    name: "Deprecated",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Instancing",
+    description: "Class is deprecated; objects are not saved. Rename the class with a _DEPRECATED suffix.",
+    appliesTo: "Classes",
+    example: "UCLASS(Deprecated)\nclass UDEPRECATED_OldThing : public UObject { GENERATED_BODY() };",
+    keywords: ["deprecated", "obsolete"],
+  },
+  {
+    name: "Within",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Instancing",
+    description: "Objects can only be created with an Outer of the given class.",
+    value: "Within = OuterClassName",
+    appliesTo: "Classes",
+    example: "UCLASS(Within = PlayerController)\nclass UMyCheatManager : public UCheatManager { GENERATED_BODY() };",
+    keywords: ["outer", "owner"],
+  },
+  {
+    name: "DefaultToInstanced",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Instancing",
+    description: "Properties of this type are Instanced by default.",
+    appliesTo: "Classes",
+    example: "UCLASS(DefaultToInstanced, EditInlineNew)\nclass UMyRule : public UObject { GENERATED_BODY() };",
+    keywords: ["instanced", "inline"],
+  },
+  {
+    name: "EditInlineNew",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Instancing",
+    description: "Objects can be created inline from the Details panel for Instanced properties.",
+    appliesTo: "Classes",
+    conflicts: ["NotEditInlineNew"],
+    example: "UCLASS(EditInlineNew, DefaultToInstanced)\nclass UMyRule : public UObject { GENERATED_BODY() };",
+    keywords: ["inline", "instanced", "create"],
+  },
+  {
+    name: "NotEditInlineNew",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Instancing",
+    description: "Cancels an inherited EditInlineNew.",
+    appliesTo: "Classes",
+    conflicts: ["EditInlineNew"],
+    example: "UCLASS(NotEditInlineNew)\nclass UFixedRule : public UMyRule { GENERATED_BODY() };",
+    keywords: ["inline"],
+  },
+  {
+    name: "ClassGroup",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Editor",
+    description: "Group in the Add Component menu and class pickers.",
+    value: "ClassGroup = (Custom)",
+    appliesTo: "Classes (usually components)",
+    example: "UCLASS(ClassGroup = (Custom), meta = (BlueprintSpawnableComponent))\nclass UHealthComponent : public UActorComponent { GENERATED_BODY() };",
+    keywords: ["add component", "menu", "group"],
+  },
+  {
+    name: "HideCategories",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Editor",
+    description: "Hides these property categories in the Details panel.",
+    value: "HideCategories = (Rendering, Collision)",
+    appliesTo: "Classes",
+    conflicts: ["ShowCategories"],
+    example: "UCLASS(HideCategories = (Rendering, Replication))\nclass ATriggerZone : public AActor { GENERATED_BODY() };",
+    keywords: ["hide", "details panel", "category"],
+  },
+  {
+    name: "ShowCategories",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Editor",
+    description: "Shows categories a parent hid.",
+    value: "ShowCategories = (Rendering)",
+    appliesTo: "Classes",
+    example: "UCLASS(ShowCategories = (Rendering))\nclass AVisibleZone : public ATriggerZone { GENERATED_BODY() };",
+    keywords: ["show", "details panel", "category"],
+  },
+  {
+    name: "HideFunctions",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Editor",
+    description: "Hides these functions (or categories) from the Blueprint action menu.",
+    value: "HideFunctions = (SetActorHiddenInGame)",
+    appliesTo: "Classes",
+    example: "UCLASS(HideFunctions = (K2_DestroyActor))\nclass APermanentActor : public AActor { GENERATED_BODY() };",
+    keywords: ["hide", "functions", "action menu"],
+  },
+  {
+    name: "ShowFunctions",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Editor",
+    description: "Shows functions a parent hid.",
+    value: "ShowFunctions = (FunctionName)",
+    appliesTo: "Classes",
+    example: "UCLASS(ShowFunctions = (K2_DestroyActor))\nclass ATempActor : public APermanentActor { GENERATED_BODY() };",
+    keywords: ["show", "functions"],
+  },
+  {
+    name: "AutoExpandCategories",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Editor",
+    description: "Categories expanded by default in the Details panel.",
+    value: "AutoExpandCategories = (Stats)",
+    appliesTo: "Classes",
+    example: "UCLASS(AutoExpandCategories = (Stats))\nclass AEnemy : public ACharacter { GENERATED_BODY() };",
+    keywords: ["expand", "category"],
+  },
+  {
+    name: "AutoCollapseCategories",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Editor",
+    description: "Categories collapsed by default in the Details panel.",
+    value: "AutoCollapseCategories = (Debug)",
+    appliesTo: "Classes",
+    example: "UCLASS(AutoCollapseCategories = (Debug))\nclass AEnemy : public ACharacter { GENERATED_BODY() };",
+    keywords: ["collapse", "category"],
+  },
+  {
+    name: "DontAutoCollapseCategories",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Editor",
+    description: "Cancels AutoCollapseCategories inherited from a parent.",
+    value: "DontAutoCollapseCategories = (Debug)",
+    appliesTo: "Classes",
+    example: "UCLASS(DontAutoCollapseCategories = (Debug))\nclass ABoss : public AEnemy { GENERATED_BODY() };",
+    keywords: ["collapse"],
+  },
+  {
+    name: "CollapseCategories",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Editor",
+    description: "Properties are not grouped by category in Details panels of objects that contain this class.",
+    appliesTo: "Classes",
+    conflicts: ["DontCollapseCategories"],
+    example: "UCLASS(CollapseCategories, EditInlineNew)\nclass UInlineSettings : public UObject { GENERATED_BODY() };",
+    keywords: ["category", "flatten"],
+  },
+  {
+    name: "DontCollapseCategories",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Editor",
+    description: "Cancels an inherited CollapseCategories.",
+    appliesTo: "Classes",
+    conflicts: ["CollapseCategories"],
+    example: "UCLASS(DontCollapseCategories)\nclass UGroupedSettings : public UInlineSettings { GENERATED_BODY() };",
+    keywords: ["category"],
+  },
+  {
+    name: "AdvancedClassDisplay",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Editor",
+    description: "All properties of the class show in the advanced section of the Details panel.",
+    appliesTo: "Classes",
+    example: "UCLASS(AdvancedClassDisplay)\nclass UTuning : public UObject { GENERATED_BODY() };",
+    keywords: ["advanced", "details panel"],
+  },
+  {
+    name: "HideDropdown",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Editor",
+    description: "Class is left out of class picker dropdowns.",
+    appliesTo: "Classes",
+    example: "UCLASS(HideDropdown)\nclass UInternalType : public UObject { GENERATED_BODY() };",
+    keywords: ["hide", "class picker", "dropdown"],
+  },
+  {
+    name: "Placeable",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Editor",
+    description: "Can be placed in levels. Actors are placeable by default.",
+    appliesTo: "Actor classes",
+    conflicts: ["NotPlaceable"],
+    example: "UCLASS(Placeable)\nclass APickup : public AActor { GENERATED_BODY() };",
+    keywords: ["level", "place", "drag"],
+  },
+  {
+    name: "NotPlaceable",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Editor",
+    description: "Cannot be dragged into a level or placed from the Place Actors panel.",
+    appliesTo: "Actor classes",
+    conflicts: ["Placeable"],
+    example: "UCLASS(NotPlaceable)\nclass AProjectile : public AActor { GENERATED_BODY() };",
+    keywords: ["level", "place", "prevent"],
+  },
+  {
+    name: "ConversionRoot",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Editor",
+    description: "Level actors can only be converted to subclasses of this class.",
+    appliesTo: "Actor classes",
+    example: "UCLASS(ConversionRoot)\nclass ALightBase : public AActor { GENERATED_BODY() };",
+    keywords: ["convert"],
+  },
+  {
+    name: "ComponentWrapperClass",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Editor",
+    description: "Actor that wraps one component (like AStaticMeshActor); the editor treats it as that component.",
+    appliesTo: "Actor classes",
+    example: "UCLASS(ComponentWrapperClass)\nclass AMyMeshActor : public AActor { GENERATED_BODY() };",
+    keywords: ["component", "wrapper"],
+  },
+  {
+    name: "Config",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Config",
+    description: "Config properties load from this .ini category (Game, Engine, Input, ...).",
+    value: "Config = Game",
+    appliesTo: "Classes",
+    metaKeys: ["DisplayName"],
+    example: "UCLASS(Config = Game)\nclass UMySettings : public UObject { GENERATED_BODY() };",
+    keywords: ["ini", "settings", "config"],
+  },
+  {
+    name: "DefaultConfig",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Config",
+    description: "Settings are saved to Default<Category>.ini (checked in) instead of the user's Saved config.",
+    appliesTo: "Config classes",
+    conflicts: ["GlobalUserConfig", "ProjectUserConfig"],
+    example: 'UCLASS(Config = Game, DefaultConfig, meta = (DisplayName = "My Game"))\nclass UMyDeveloperSettings : public UDeveloperSettings { GENERATED_BODY() };',
+    keywords: ["project settings", "ini"],
+  },
+  {
+    name: "GlobalUserConfig",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Config",
+    description: "Settings are saved per user for all projects (Engine/Saved/Config/...).",
+    appliesTo: "Config classes",
+    conflicts: ["DefaultConfig", "ProjectUserConfig"],
+    example: "UCLASS(Config = EditorPerProjectUserSettings, GlobalUserConfig)\nclass UMyEditorPrefs : public UObject { GENERATED_BODY() };",
+    keywords: ["user", "preferences"],
+  },
+  {
+    name: "ProjectUserConfig",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Config",
+    description: "Settings are saved per user for this project.",
+    appliesTo: "Config classes",
+    conflicts: ["DefaultConfig", "GlobalUserConfig"],
+    example: "UCLASS(Config = EditorPerProjectUserSettings, ProjectUserConfig)\nclass UMyLocalPrefs : public UObject { GENERATED_BODY() };",
+    keywords: ["user", "preferences"],
+  },
+  {
+    name: "PerObjectConfig",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Config",
+    description: "Each named object has its own config section ([ObjectName ClassName]).",
+    appliesTo: "Config classes",
+    example: "UCLASS(Config = Game, PerObjectConfig)\nclass UServerProfile : public UObject { GENERATED_BODY() };",
+    keywords: ["ini", "per object"],
+  },
+  {
+    name: "EditorConfig",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Config",
+    description: "Properties marked meta = (EditorConfig) are saved to this editor config file.",
+    value: 'EditorConfig = "MyTool"',
+    appliesTo: "Editor classes",
+    since: "5.0",
+    example: 'UCLASS(EditorConfig = "MyTool")\nclass UMyToolSettings : public UObject { GENERATED_BODY() };',
+    keywords: ["editor", "preferences"],
+  },
+  {
+    name: "MinimalAPI",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Export",
+    description: "Exports only the type info (for casts), not the functions; used instead of MODULE_API on the class.",
+    appliesTo: "Classes",
+    example: "UCLASS(MinimalAPI)\nclass UMyTypeOnly : public UObject { GENERATED_BODY() };",
+    keywords: ["dll", "export", "api", "link"],
+  },
+  {
+    name: "NoExport",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Export",
+    description: "UHT does not generate the class declaration; the header declares it by hand (engine internals).",
+    appliesTo: "Classes",
+    example: "UCLASS(NoExport)\nclass UManual : public UObject { /* hand-written */ };",
+    keywords: ["uht", "manual"],
+  },
+  {
+    name: "Intrinsic",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Export",
+    description: "Declared directly in C++ without UHT-generated code. Engine internal.",
+    appliesTo: "Classes",
+    example: "UCLASS(Intrinsic)\nclass UInternalCore : public UObject {};",
+    keywords: ["internal"],
+  },
+  {
+    name: "CustomConstructor",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Export",
+    description: "UHT does not generate a default constructor declaration.",
+    appliesTo: "Classes",
+    example: "UCLASS(CustomConstructor)\nclass UOwnCtor : public UObject { GENERATED_BODY() };",
+    keywords: ["constructor"],
+  },
+  {
+    name: "DependsOn",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Export",
+    description: "UHT compiles the listed classes first. Rarely needed.",
+    value: "DependsOn = (UOtherClass)",
+    appliesTo: "Classes",
+    example: "UCLASS(DependsOn = (UMyEnums))\nclass UUsesEnums : public UObject { GENERATED_BODY() };",
+    keywords: ["order", "dependency"],
+  },
+  {
+    name: "meta",
+    macro: "UCLASS",
+    kind: "specifier",
+    group: "Export",
+    description: "Metadata keys for the class; see the meta keys below.",
+    value: "meta = (BlueprintSpawnableComponent)",
+    appliesTo: "Classes",
+    example: "UCLASS(ClassGroup = (Custom), meta = (BlueprintSpawnableComponent))\nclass UHealthComponent : public UActorComponent { GENERATED_BODY() };",
+    keywords: ["metadata"],
+  },
+
+  // --- UCLASS meta ---
+  {
+    name: "BlueprintSpawnableComponent",
+    macro: "UCLASS",
+    kind: "meta",
+    group: "Meta",
+    description: "Component appears in a Blueprint's Add Component menu.",
+    appliesTo: "Component classes",
+    example: "UCLASS(ClassGroup = (Custom), meta = (BlueprintSpawnableComponent))\nclass UHealthComponent : public UActorComponent { GENERATED_BODY() };",
+    keywords: ["add component", "blueprint"],
+  },
+  {
+    name: "DisplayName",
+    macro: "UCLASS",
+    kind: "meta",
+    group: "Meta",
+    description: "Name shown in class pickers, menus and Project Settings.",
+    value: 'DisplayName = "Health"',
+    appliesTo: "Classes",
+    example: 'UCLASS(meta = (DisplayName = "Health"))\nclass UHealthComponent : public UActorComponent { GENERATED_BODY() };',
+    keywords: ["label", "rename"],
+  },
+  {
+    name: "ShortTooltip",
+    macro: "UCLASS",
+    kind: "meta",
+    group: "Meta",
+    description: "Short tooltip used in class pickers.",
+    value: 'ShortTooltip = "..."',
+    appliesTo: "Classes",
+    example: 'UCLASS(meta = (ShortTooltip = "Tracks health and death"))\nclass UHealthComponent : public UActorComponent { GENERATED_BODY() };',
+    keywords: ["tooltip"],
+  },
+  {
+    name: "IsBlueprintBase",
+    macro: "UCLASS",
+    kind: "meta",
+    group: "Meta",
+    description: "Whether the class can be a Blueprint parent; the meta form of Blueprintable/NotBlueprintable.",
+    value: 'IsBlueprintBase = "true"',
+    appliesTo: "Classes",
+    example: 'UCLASS(meta = (IsBlueprintBase = "true"))\nclass UMyBase : public UObject { GENERATED_BODY() };',
+    keywords: ["blueprint", "parent class"],
+  },
+  {
+    name: "BlueprintThreadSafe",
+    macro: "UCLASS",
+    kind: "meta",
+    group: "Meta",
+    description: "All functions of this (usually function library) class are thread safe.",
+    appliesTo: "Blueprint function libraries",
+    example: "UCLASS(meta = (BlueprintThreadSafe))\nclass UMyMathLibrary : public UBlueprintFunctionLibrary { GENERATED_BODY() };",
+    keywords: ["thread", "animation"],
+  },
+  {
+    name: "ChildCanTick",
+    macro: "UCLASS",
+    kind: "meta",
+    group: "Meta",
+    description: "Blueprint children may enable ticking even though this class does not.",
+    appliesTo: "Actor and component classes",
+    conflicts: ["ChildCannotTick"],
+    example: "UCLASS(meta = (ChildCanTick))\nclass AMyBase : public AActor { GENERATED_BODY() };",
+    keywords: ["tick"],
+  },
+  {
+    name: "ChildCannotTick",
+    macro: "UCLASS",
+    kind: "meta",
+    group: "Meta",
+    description: "Blueprint children cannot tick.",
+    appliesTo: "Actor and component classes",
+    conflicts: ["ChildCanTick"],
+    example: "UCLASS(meta = (ChildCannotTick))\nclass AStaticThing : public AActor { GENERATED_BODY() };",
+    keywords: ["tick"],
+  },
+  {
+    name: "KismetHideOverrides",
+    macro: "UCLASS",
+    kind: "meta",
+    group: "Meta",
+    description: "Events Blueprint subclasses cannot override.",
+    value: 'KismetHideOverrides = "ReceiveTick"',
+    appliesTo: "Classes",
+    example: 'UCLASS(meta = (KismetHideOverrides = "ReceiveTick"))\nclass ANoTickActor : public AActor { GENERATED_BODY() };',
+    keywords: ["override", "hide event"],
+  },
+  {
+    name: "RestrictedToClasses",
+    macro: "UCLASS",
+    kind: "meta",
+    group: "Meta",
+    description: "Function library only shows up in Blueprints of these classes.",
+    value: 'RestrictedToClasses = "MyActor"',
+    appliesTo: "Blueprint function libraries",
+    example: 'UCLASS(meta = (RestrictedToClasses = "MyActor"))\nclass UMyActorLibrary : public UBlueprintFunctionLibrary { GENERATED_BODY() };',
+    keywords: ["restrict", "library"],
+  },
+  {
+    name: "ProhibitedInterfaces",
+    macro: "UCLASS",
+    kind: "meta",
+    group: "Meta",
+    description: "Interfaces Blueprint subclasses cannot implement.",
+    value: 'ProhibitedInterfaces = "Interactable"',
+    appliesTo: "Classes",
+    example: 'UCLASS(meta = (ProhibitedInterfaces = "Interactable"))\nclass APlainActor : public AActor { GENERATED_BODY() };',
+    keywords: ["interface"],
+  },
+  {
+    name: "ExposedAsyncProxy",
+    macro: "UCLASS",
+    kind: "meta",
+    group: "Meta",
+    description: "Async action node exposes the proxy object as a pin with this name.",
+    value: 'ExposedAsyncProxy = "AsyncTask"',
+    appliesTo: "UBlueprintAsyncActionBase subclasses",
+    example: 'UCLASS(meta = (ExposedAsyncProxy = "AsyncTask"))\nclass UMyAsyncAction : public UBlueprintAsyncActionBase { GENERATED_BODY() };',
+    keywords: ["async", "proxy"],
+  },
+
+  // --- USTRUCT ---
+  {
+    name: "BlueprintType",
+    macro: "USTRUCT",
+    kind: "specifier",
+    group: "Common",
+    description: "Can be used as a Blueprint variable type.",
+    appliesTo: "Structs",
+    metaKeys: ["HasNativeMake", "HasNativeBreak"],
+    example: "USTRUCT(BlueprintType)\nstruct FDamageInfo\n{\n\tGENERATED_BODY()\n};",
+    keywords: ["blueprint", "variable"],
+  },
+  {
+    name: "Atomic",
+    macro: "USTRUCT",
+    kind: "specifier",
+    group: "Common",
+    description: "Always serialized as a whole, never as a delta from defaults.",
+    appliesTo: "Structs",
+    example: "USTRUCT(Atomic)\nstruct FKeyframe\n{\n\tGENERATED_BODY()\n};",
+    keywords: ["serialize", "delta"],
+  },
+  {
+    name: "Immutable",
+    macro: "USTRUCT",
+    kind: "specifier",
+    group: "Common",
+    description: "Atomic, and cannot be edited piecemeal in the editor. Only valid in Object.h.",
+    appliesTo: "Engine core structs",
+    example: "USTRUCT(Immutable)\nstruct FEngineValue { GENERATED_BODY() };",
+    keywords: ["read only"],
+  },
+  {
+    name: "NoExport",
+    macro: "USTRUCT",
+    kind: "specifier",
+    group: "Common",
+    description: "UHT does not generate code for the struct; it is only reflected.",
+    appliesTo: "Structs",
+    example: "USTRUCT(NoExport)\nstruct FManualStruct {};",
+    keywords: ["uht"],
+  },
+  {
+    name: "meta",
+    macro: "USTRUCT",
+    kind: "specifier",
+    group: "Common",
+    description: "Metadata keys for the struct; see the meta keys below.",
+    value: 'meta = (HasNativeMake = "/Script/MyGame.MyLibrary.MakeThing")',
+    appliesTo: "Structs",
+    example: 'USTRUCT(BlueprintType, meta = (DisplayName = "Damage Info"))\nstruct FDamageInfo { GENERATED_BODY() };',
+    keywords: ["metadata"],
+  },
+  {
+    name: "HasNativeMake",
+    macro: "USTRUCT",
+    kind: "meta",
+    group: "Meta",
+    description: "Blueprint Make node calls this C++ function instead of setting members.",
+    value: 'HasNativeMake = "/Script/Module.Library.MakeThing"',
+    appliesTo: "BlueprintType structs",
+    metaKeys: ["HasNativeBreak"],
+    example: 'USTRUCT(BlueprintType, meta = (HasNativeMake = "/Script/MyGame.ThingLibrary.MakeThing"))\nstruct FThing { GENERATED_BODY() };',
+    keywords: ["make", "construct", "blueprint node"],
+  },
+  {
+    name: "HasNativeBreak",
+    macro: "USTRUCT",
+    kind: "meta",
+    group: "Meta",
+    description: "Blueprint Break node calls this C++ function instead of reading members.",
+    value: 'HasNativeBreak = "/Script/Module.Library.BreakThing"',
+    appliesTo: "BlueprintType structs",
+    metaKeys: ["HasNativeMake"],
+    example: 'USTRUCT(BlueprintType, meta = (HasNativeBreak = "/Script/MyGame.ThingLibrary.BreakThing"))\nstruct FThing { GENERATED_BODY() };',
+    keywords: ["break", "blueprint node"],
+  },
+  {
+    name: "DisplayName",
+    macro: "USTRUCT",
+    kind: "meta",
+    group: "Meta",
+    description: "Name shown in Blueprint type pickers.",
+    value: 'DisplayName = "Damage Info"',
+    appliesTo: "Structs",
+    example: 'USTRUCT(BlueprintType, meta = (DisplayName = "Damage Info"))\nstruct FDamageInfo { GENERATED_BODY() };',
+    keywords: ["label", "rename"],
+  },
+
+  // --- UENUM and UMETA ---
+  {
+    name: "BlueprintType",
+    macro: "UENUM",
+    kind: "specifier",
+    group: "Common",
+    description: "Can be used in Blueprints. Blueprint enums must be uint8-based.",
+    appliesTo: "Enums (enum class : uint8)",
+    example: "UENUM(BlueprintType)\nenum class EWeaponType : uint8\n{\n\tMelee,\n\tRanged\n};",
+    keywords: ["blueprint", "enum"],
+  },
+  {
+    name: "Flags",
+    macro: "UENUM",
+    kind: "specifier",
+    group: "Common",
+    description: "Values are bit flags; the enum's name table is exported with flag semantics.",
+    appliesTo: "Enums",
+    metaKeys: ["Bitflags", "UseEnumValuesAsMaskValuesInEditor"],
+    example: "UENUM(Flags)\nenum class EDamageFlags : uint8\n{\n\tNone = 0,\n\tFire = 1 << 0,\n\tIce = 1 << 1\n};\nENUM_CLASS_FLAGS(EDamageFlags);",
+    keywords: ["bit", "flags", "mask"],
+  },
+  {
+    name: "meta",
+    macro: "UENUM",
+    kind: "specifier",
+    group: "Common",
+    description: "Metadata keys for the enum; see the meta keys below. Enumerators use UMETA.",
+    value: "meta = (Bitflags)",
+    appliesTo: "Enums",
+    example: "UENUM(BlueprintType, meta = (Bitflags, UseEnumValuesAsMaskValuesInEditor = \"true\"))\nenum class EDamageFlags : uint8 { ... };",
+    keywords: ["metadata"],
+  },
+  {
+    name: "Bitflags",
+    macro: "UENUM",
+    kind: "meta",
+    group: "Meta",
+    description: "Enum can label Bitmask properties (BitmaskEnum).",
+    appliesTo: "Enums",
+    metaKeys: ["UseEnumValuesAsMaskValuesInEditor"],
+    example: "UENUM(BlueprintType, meta = (Bitflags))\nenum class EDamageFlags : uint8 { Fire, Ice, Poison };",
+    keywords: ["bitmask", "flags"],
+  },
+  {
+    name: "UseEnumValuesAsMaskValuesInEditor",
+    macro: "UENUM",
+    kind: "meta",
+    group: "Meta",
+    description: "Values are already masks (1 << n) rather than bit indices.",
+    value: 'UseEnumValuesAsMaskValuesInEditor = "true"',
+    appliesTo: "Bitflags enums",
+    metaKeys: ["Bitflags"],
+    example: 'UENUM(meta = (Bitflags, UseEnumValuesAsMaskValuesInEditor = "true"))\nenum class EFlags : uint8 { A = 1, B = 2, C = 4 };',
+    keywords: ["bitmask", "mask values"],
+  },
+  {
+    name: "DisplayName",
+    macro: "UMETA",
+    kind: "meta",
+    group: "Enumerators",
+    description: "Label of the enumerator in the editor and Blueprint.",
+    value: 'DisplayName = "Long Range"',
+    appliesTo: "Enumerators",
+    example: 'enum class ERange : uint8\n{\n\tShort UMETA(DisplayName = "Short Range"),\n\tLong UMETA(DisplayName = "Long Range")\n};',
+    keywords: ["label", "enum value", "rename"],
+  },
+  {
+    name: "Hidden",
+    macro: "UMETA",
+    kind: "meta",
+    group: "Enumerators",
+    description: "Enumerator is hidden from editor dropdowns and Blueprint.",
+    appliesTo: "Enumerators",
+    example: "enum class EState : uint8\n{\n\tIdle,\n\tActive,\n\tMAX UMETA(Hidden)\n};",
+    keywords: ["hide", "max", "count", "dropdown"],
+  },
+  {
+    name: "ToolTip",
+    macro: "UMETA",
+    kind: "meta",
+    group: "Enumerators",
+    description: "Tooltip for the enumerator; defaults to its doc comment.",
+    value: 'ToolTip = "..."',
+    appliesTo: "Enumerators",
+    example: 'enum class EMode : uint8\n{\n\tFast UMETA(ToolTip = "Skips validation")\n};',
+    keywords: ["hover", "help"],
+  },
+  {
+    name: "Grouping",
+    macro: "UMETA",
+    kind: "meta",
+    group: "Enumerators",
+    description: "Groups enumerators under a heading in dropdowns.",
+    value: 'Grouping = "Ranged"',
+    appliesTo: "Enumerators",
+    example: 'enum class EWeapon : uint8\n{\n\tBow UMETA(Grouping = "Ranged"),\n\tSword UMETA(Grouping = "Melee")\n};',
+    keywords: ["group", "dropdown"],
+  },
+
+  // --- UINTERFACE ---
+  {
+    name: "MinimalAPI",
+    macro: "UINTERFACE",
+    kind: "specifier",
+    group: "Common",
+    description: "Exports only the U-class type info; the usual choice for interfaces.",
+    appliesTo: "Interfaces",
+    example: "UINTERFACE(MinimalAPI, Blueprintable)\nclass UInteractable : public UInterface { GENERATED_BODY() };",
+    keywords: ["export", "api"],
+  },
+  {
+    name: "Blueprintable",
+    macro: "UINTERFACE",
+    kind: "specifier",
+    group: "Common",
+    description: "Blueprints can implement the interface.",
+    appliesTo: "Interfaces",
+    conflicts: ["NotBlueprintable"],
+    example: "UINTERFACE(MinimalAPI, Blueprintable)\nclass UInteractable : public UInterface { GENERATED_BODY() };",
+    keywords: ["implement", "blueprint"],
+  },
+  {
+    name: "NotBlueprintable",
+    macro: "UINTERFACE",
+    kind: "specifier",
+    group: "Common",
+    description: "Only C++ classes can implement the interface.",
+    appliesTo: "Interfaces",
+    conflicts: ["Blueprintable"],
+    example: "UINTERFACE(MinimalAPI, NotBlueprintable)\nclass UNativeOnly : public UInterface { GENERATED_BODY() };",
+    keywords: ["c++ only"],
+  },
+  {
+    name: "BlueprintType",
+    macro: "UINTERFACE",
+    kind: "specifier",
+    group: "Common",
+    description: "Can be used as a Blueprint variable type.",
+    appliesTo: "Interfaces",
+    example: "UINTERFACE(MinimalAPI, BlueprintType)\nclass UDamageable : public UInterface { GENERATED_BODY() };",
+    keywords: ["variable"],
+  },
+  {
+    name: "ConversionRoot",
+    macro: "UINTERFACE",
+    kind: "specifier",
+    group: "Common",
+    description: "Limits actor conversion in the editor to implementers.",
+    appliesTo: "Interfaces",
+    example: "UINTERFACE(ConversionRoot)\nclass UConvertible : public UInterface { GENERATED_BODY() };",
+    keywords: ["convert"],
+  },
+  {
+    name: "DependsOn",
+    macro: "UINTERFACE",
+    kind: "specifier",
+    group: "Common",
+    description: "UHT compiles the listed classes first.",
+    value: "DependsOn = (UOtherClass)",
+    appliesTo: "Interfaces",
+    example: "UINTERFACE(DependsOn = (UMyEnums))\nclass UUsesEnums : public UInterface { GENERATED_BODY() };",
+    keywords: ["dependency"],
+  },
+  {
+    name: "meta",
+    macro: "UINTERFACE",
+    kind: "specifier",
+    group: "Common",
+    description: "Metadata keys for the interface.",
+    value: "meta = (CannotImplementInterfaceInBlueprint)",
+    appliesTo: "Interfaces",
+    example: "UINTERFACE(meta = (CannotImplementInterfaceInBlueprint))\nclass UNativeQuery : public UInterface { GENERATED_BODY() };",
+    keywords: ["metadata"],
+  },
+  {
+    name: "CannotImplementInterfaceInBlueprint",
+    macro: "UINTERFACE",
+    kind: "meta",
+    group: "Meta",
+    description: "Blueprints can call the interface but not implement it; its functions can then be BlueprintCallable.",
+    appliesTo: "Interfaces",
+    example: "UINTERFACE(MinimalAPI, meta = (CannotImplementInterfaceInBlueprint))\nclass UNativeQuery : public UInterface { GENERATED_BODY() };",
+    keywords: ["blueprint", "implement", "callable"],
+  },
+
+  // --- UPARAM ---
+  {
+    name: "ref",
+    macro: "UPARAM",
+    kind: "specifier",
+    group: "Parameters",
+    description: "Non-const reference parameter is an input pin passed by reference, instead of an output pin.",
+    appliesTo: "Non-const reference parameters",
+    example: 'UFUNCTION(BlueprintCallable, Category = "Inventory")\nvoid AddItem(UPARAM(ref) TArray<FItem>& Items, const FItem& Item);',
+    keywords: ["reference", "input", "by ref", "pin"],
+  },
+  {
+    name: "DisplayName",
+    macro: "UPARAM",
+    kind: "specifier",
+    group: "Parameters",
+    description: "Pin label for the parameter or, on the return type, the return value.",
+    value: 'DisplayName = "Target Actor"',
+    appliesTo: "Parameters and return values",
+    example: 'UFUNCTION(BlueprintCallable)\nUPARAM(DisplayName = "Success") bool Fire(UPARAM(DisplayName = "Target Actor") AActor* Target);',
+    keywords: ["label", "pin", "rename"],
+  },
+  {
+    name: "Required",
+    macro: "UPARAM",
+    kind: "specifier",
+    group: "Parameters",
+    description: "Object pin must be connected; the Blueprint fails to compile otherwise.",
+    appliesTo: "Object pointer parameters",
+    since: "5.1",
+    example: "UFUNCTION(BlueprintCallable)\nvoid Attach(UPARAM(Required) AActor* Parent);",
+    keywords: ["mandatory", "connected", "not null"],
+  },
+  {
+    name: "meta",
+    macro: "UPARAM",
+    kind: "specifier",
+    group: "Parameters",
+    description: "Parameter metadata, e.g. Bitmask or ClampMin on a single pin.",
+    value: 'meta = (Bitmask, BitmaskEnum = "/Script/Module.EFlags")',
+    appliesTo: "Parameters",
+    example: 'UFUNCTION(BlueprintCallable)\nvoid SetFlags(UPARAM(meta = (Bitmask, BitmaskEnum = "/Script/MyGame.EDamageFlags")) int32 Flags);',
+    keywords: ["metadata", "bitmask"],
+  },
+
+  // --- UDELEGATE ---
+  {
+    name: "BlueprintAuthorityOnly",
+    macro: "UDELEGATE",
+    kind: "specifier",
+    group: "Delegates",
+    description: "Blueprint bindings of the dynamic delegate only fire on the network authority.",
+    appliesTo: "DECLARE_DYNAMIC_(MULTICAST_)DELEGATE declarations",
+    example: "UDELEGATE(BlueprintAuthorityOnly)\nDECLARE_DYNAMIC_MULTICAST_DELEGATE_OneParam(FOnScored, int32, Points);",
+    keywords: ["delegate", "server", "authority"],
+  },
+  {
+    name: "meta",
+    macro: "UDELEGATE",
+    kind: "specifier",
+    group: "Delegates",
+    description: "Metadata for the delegate signature, e.g. a tooltip or DisplayName on the generated signature function.",
+    value: 'meta = (ToolTip = "...")',
+    appliesTo: "DECLARE_DYNAMIC_(MULTICAST_)DELEGATE declarations",
+    example: 'UDELEGATE(meta = (ToolTip = "Fires when health reaches zero"))\nDECLARE_DYNAMIC_MULTICAST_DELEGATE(FOnDied);',
+    keywords: ["delegate", "metadata"],
+  },
+];
+
+export const MACRO_GUIDES: MacroGuide[] = [
+  {
+    macro: "UPROPERTY",
+    summary: "Exposes a member variable to reflection: the editor, Blueprint, serialization, replication and garbage collection.",
+    groups: ["Visibility", "Blueprint Access", "Replication", "Serialization", "Other", "Meta"],
+    example: `UPROPERTY(EditAnywhere, BlueprintReadWrite, Category = "Combat")
+float BaseDamage = 10.0f;
+
+UPROPERTY(VisibleAnywhere, BlueprintReadOnly, Category = "Components")
+TObjectPtr<UStaticMeshComponent> MeshComp;
+
+UPROPERTY(ReplicatedUsing = OnRep_Health)
+float Health;
+
+UPROPERTY(EditDefaultsOnly, BlueprintReadOnly, Category = "Config",
+    meta = (AllowPrivateAccess = "true"))
+TSubclassOf<UGameplayAbility> DefaultAbility;`,
+  },
+  {
+    macro: "UFUNCTION",
+    summary: "Exposes a member function to reflection: Blueprint nodes and events, RPCs, console commands and editor buttons.",
+    groups: ["Blueprint Access", "Networking", "Other", "Meta"],
+    example: `UFUNCTION(BlueprintCallable, Category = "Combat")
+void ApplyDamage(AActor* Target, float Amount);
+
+UFUNCTION(BlueprintPure, Category = "Stats")
+float GetHealthPercent() const;
+
+UFUNCTION(BlueprintImplementableEvent, Category = "Events")
+void OnDeath();
+
+UFUNCTION(BlueprintNativeEvent, Category = "Events")
+void OnHit(const FHitResult& Hit);
+// Implement as: void AMyActor::OnHit_Implementation(const FHitResult& Hit)
+
+UFUNCTION(Server, Reliable, WithValidation)
+void ServerFireWeapon(FVector Origin, FVector Direction);
+// Implement: void AMyActor::ServerFireWeapon_Implementation(...)
+// Validate: bool AMyActor::ServerFireWeapon_Validate(...)`,
+  },
+  {
+    macro: "UCLASS",
+    summary: "Declares a UObject-derived class to reflection; controls Blueprint use, instancing, editor display and config.",
+    groups: ["Blueprint", "Instancing", "Editor", "Config", "Export", "Meta"],
+    example: `UCLASS()
+class MYPROJECT_API AMyActor : public AActor { ... };
+
+UCLASS(BlueprintType, Blueprintable)
+class MYPROJECT_API UMyObject : public UObject { ... };
+
+UCLASS(ClassGroup=(Custom), meta=(BlueprintSpawnableComponent))
+class MYPROJECT_API UMyComponent : public UActorComponent { ... };
+
+UCLASS(Abstract, Blueprintable)
+class MYPROJECT_API ABaseWeapon : public AActor { ... };`,
+  },
+  {
+    macro: "USTRUCT",
+    summary: "Declares a plain data struct to reflection so it can be a UPROPERTY, Blueprint type or replicated value.",
+    groups: ["Common", "Meta"],
+    example: `USTRUCT(BlueprintType)
+struct FDamageInfo
+{
+    GENERATED_BODY()
+
+    UPROPERTY(EditAnywhere, BlueprintReadWrite)
+    float Amount = 0.0f;
+
+    UPROPERTY(EditAnywhere, BlueprintReadWrite)
+    TObjectPtr<AActor> Instigator = nullptr;
+
+    UPROPERTY(EditAnywhere, BlueprintReadWrite)
+    FGameplayTag DamageType;
+};`,
+  },
+  {
+    macro: "UENUM",
+    summary: "Declares an enum to reflection; enumerators take UMETA for their display metadata.",
+    groups: ["Common", "Meta"],
+    example: `UENUM(BlueprintType)
+enum class EWeaponType : uint8
+{
+    None        UMETA(DisplayName = "None"),
+    Melee       UMETA(DisplayName = "Melee"),
+    Ranged      UMETA(DisplayName = "Ranged"),
+    Magic       UMETA(DisplayName = "Magic"),
+};
+
+// Usage:
+UPROPERTY(EditAnywhere, BlueprintReadWrite, Category = "Weapon")
+EWeaponType WeaponType = EWeaponType::None;`,
+  },
+  {
+    macro: "UINTERFACE",
+    summary: "Declares the U-class half of an interface; functions go on the matching I-class.",
+    groups: ["Common", "Meta"],
+    example: `UINTERFACE(MinimalAPI, Blueprintable)
+class UDamageable : public UInterface
+{
+    GENERATED_BODY()
+};
+
+class MYPROJECT_API IDamageable
+{
+    GENERATED_BODY()
+
+public:
+    UFUNCTION(BlueprintNativeEvent, BlueprintCallable, Category = "Damage")
+    float TakeDamage(float Amount, AActor* Instigator);
+
+    UFUNCTION(BlueprintNativeEvent, BlueprintCallable, Category = "Damage")
+    bool IsDead() const;
+};
+
+// Implementation in an Actor:
+class AMyCharacter : public ACharacter, public IDamageable
+{
+    // Override:
+    virtual float TakeDamage_Implementation(float Amount, AActor* Instigator) override;
+    virtual bool IsDead_Implementation() const override;
+};`,
+  },
+  {
+    macro: "UPARAM",
+    summary: "Adjusts how one UFUNCTION parameter (or its return value) appears in Blueprint.",
+    groups: ["Parameters"],
+    example: `UFUNCTION(BlueprintCallable, Category = "Inventory")
+UPARAM(DisplayName = "Added") bool AddItem(UPARAM(ref) TArray<FItem>& Items, const FItem& Item);`,
+  },
+  {
+    macro: "UDELEGATE",
+    summary: "Specifiers and metadata for a dynamic delegate declaration, written on the line before DECLARE_DYNAMIC_*.",
+    groups: ["Delegates"],
+    example: `UDELEGATE(BlueprintAuthorityOnly)
+DECLARE_DYNAMIC_MULTICAST_DELEGATE_OneParam(FOnScored, int32, Points);
+
+UPROPERTY(BlueprintAssignable, Category = "Events")
+FOnScored OnScored;`,
+  },
+  {
+    macro: "UMETA",
+    summary: "Metadata for a single enumerator of a UENUM.",
+    groups: ["Enumerators"],
+    example: `UENUM(BlueprintType)
+enum class EState : uint8
+{
+    Idle    UMETA(DisplayName = "Idle"),
+    Active  UMETA(DisplayName = "Active"),
+    MAX     UMETA(Hidden)
+};`,
+  },
+];
+
+export const SPECIFIER_MACROS = MACRO_GUIDES.map((g) => g.macro);
@@ -1,29 +1,44 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { parseArgs } from "node:util";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { registerDocTools } from "./tools/documentation.js";
-import { registerProjectTools } from "./tools/project.js";
-import { registerLearningTools } from "./tools/learning.js";
-import { registerCppTools } from "./tools/cpp.js";
-import { registerRemoteControlTools } from "./tools/remote-control.js";
-import { registerEditorControlTools } from "./tools/editor-control.js";
+import { createServer } from "./server.js";
+import { startHttpTransport } from "./transports/http.js";
+import { loadApiIndex } from "./lib/api-index.js";
 
-const server = new McpServer({
-  name: "ue5-mcp-server",
-  version: "1.1.0",
+const { values: args } = parseArgs({
+  options: {
+    transport: { type: "string", default: process.env.MCP_TRANSPORT || "stdio" },
+    port: { type: "string", default: process.env.MCP_HTTP_PORT || "3000" },
+    host: { type: "string", default: process.env.MCP_HTTP_HOST || "127.0.0.1" },
+    "idle-timeout-ms": { type: "string", default: process.env.MCP_HTTP_IDLE_TIMEOUT_MS || "1800000" },
+  },
 });
 
-// Register all tool groups
-registerDocTools(server);
-registerProjectTools(server);
-registerLearningTools(server);
-registerCppTools(server);
-registerRemoteControlTools(server);
-registerEditorControlTools(server);
-
-// Start server with stdio transport
 async function main() {
+  const catalog = loadApiIndex();
+  if (catalog.engineVersion) {
+    console.error(`Loaded API index for UE ${catalog.engineVersion} (${catalog.classes.length} types) from ${catalog.source}`);
+  }
+
+  if (args.transport === "http") {
+    const http = await startHttpTransport({
+      host: args.host!,
+      port: parseInt(args.port!, 10),
+      sessionIdleTimeoutMs: parseInt(args["idle-timeout-ms"]!, 10),
+    });
+    const shutdown = () => {
+      http.close().finally(() => process.exit(0));
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+    return;
+  }
+  if (args.transport !== "stdio") {
+    throw new Error(`Unknown transport "${args.transport}" (expected stdio or http)`);
+  }
+
+  // Start server with stdio transport
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   console.error("UE5 MCP Server running on stdio");
 }
 
@@ -0,0 +1,492 @@
+// Actor queries over the Remote Control API. The actor list, class membership and
+// per-actor fields (label, tags, folder, transform, bounds) are cached per editor
+// and fetched lazily in /remote/batch chunks, so repeated queries against a large
+// level only pay for what is missing or stale.
+
+import { z } from "zod";
+import { RcClient, RcClientConfig, RcRequest, toRcError } from "./rc-client.js";
+
+const EDITOR_ACTOR_SUBSYSTEM = "/Script/UnrealEd.Default__EditorActorSubsystem";
+const UNREAL_EDITOR_SUBSYSTEM = "/Script/UnrealEd.Default__UnrealEditorSubsystem";
+const GAMEPLAY_STATICS = "/Script/Engine.Default__GameplayStatics";
+const BATCH_SIZE = 200;
+
+export interface QueryVector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface ActorQuery {
+  /** Class shorthand (PointLight) or path (/Script/Engine.PointLight) */
+  className?: string;
+  /** Match subclasses of className as well (default true) */
+  includeSubclasses?: boolean;
+  /** Case-insensitive glob over the actor label (* and ?) */
+  label?: string;
+  /** Actor must carry every one of these tags */
+  tags?: string[];
+  /** World Outliner folder; matches the folder itself and anything below it */
+  folder?: string;
+  /** Case-insensitive substring of the object path */
+  pathContains?: string;
+  /** Actor bounds must intersect this box */
+  withinBox?: { min: QueryVector; max: QueryVector };
+  /** Actor location must be within radius of point */
+  near?: { point: QueryVector; radius: number };
+  selected?: boolean;
+  sort?: "label" | "path" | "class" | "distance";
+  order?: "asc" | "desc";
+  limit?: number;
+  cursor?: string;
+  /** Ignore cached data and re-read everything this query needs */
+  refresh?: boolean;
+  /** Fields to fill in for the returned page (default label, className, location) */
+  fields?: ActorField[];
+}
+
+export interface ActorRecord {
+  path: string;
+  label?: string;
+  className?: string;
+  tags?: string[];
+  folder?: string;
+  location?: QueryVector;
+  bounds?: { origin: QueryVector; extent: QueryVector };
+  /** Distance from query.near.point, when given */
+  distance?: number;
+}
+
+export interface ActorQueryResult {
+  actors: ActorRecord[];
+  total: number;
+  nextCursor?: string;
+  /** Remote Control requests this query sent (0 when served from cache) */
+  requests: number;
+}
+
+export type ActorField = "label" | "className" | "tags" | "folder" | "location" | "bounds";
+type Field = ActorField;
+
+interface CachedActor {
+  record: ActorRecord;
+  fetchedAt: Partial<Record<Field, number>>;
+}
+
+interface EditorActorCache {
+  list?: { paths: string[]; fetchedAt: number };
+  classMembers: Map<string, { paths: Set<string>; fetchedAt: number }>;
+  actors: Map<string, CachedActor>;
+}
+
+const caches = new Map<string, EditorActorCache>();
+
+function cacheTtlMs(): number {
+  return parseInt(process.env.UE5_ACTOR_CACHE_TTL_MS || "30000", 10);
+}
+
+function cacheFor(config: RcClientConfig): EditorActorCache {
+  const key = `${config.host}:${config.port}`;
+  let cache = caches.get(key);
+  if (!cache) {
+    cache = { classMembers: new Map(), actors: new Map() };
+    caches.set(key, cache);
+  }
+  return cache;
+}
+
+/**
+ * Forget cached data after a tool changed the level. The actor list and class
+ * membership always go; per-actor fields go for the given paths, or for every
+ * actor when no paths are given.
+ */
+export function invalidateActorCache(config: RcClientConfig, paths?: string[]): void {
+  const cache = cacheFor(config);
+  cache.list = undefined;
+  cache.classMembers.clear();
+  if (!paths) {
+    cache.actors.clear();
+    return;
+  }
+  for (const path of paths) cache.actors.delete(path);
+}
+
+// --- Field loading ---
+
+function call(objectPath: string, functionName: string, parameters: Record<string, any> = {}): RcRequest {
+  return {
+    path: "/remote/object/call",
+    method: "PUT",
+    body: { objectPath, functionName, parameters, generateTransaction: false },
+  };
+}
+
+const FIELD_READERS: Record<Field, { request: (path: string) => RcRequest; parse: (data: any, record: ActorRecord) => void }> = {
+  label: {
+    request: (path) => call(path, "GetActorLabel"),
+    parse: (data, record) => (record.label = String(data?.ReturnValue ?? "")),
+  },
+  className: {
+    request: (path) => ({ path: "/remote/object/describe", method: "PUT", body: { objectPath: path } }),
+    parse: (data, record) => (record.className = data?.Class),
+  },
+  tags: {
+    request: (path) => ({ path: "/remote/object/property", method: "PUT", body: { objectPath: path, propertyName: "Tags", access: "READ_ACCESS" } }),
+    parse: (data, record) => (record.tags = (data?.Tags ?? []).map(String)),
+  },
+  folder: {
+    request: (path) => call(path, "GetFolderPath"),
+    parse: (data, record) => (record.folder = String(data?.ReturnValue ?? "")),
+  },
+  location: {
+    request: (path) => call(path, "K2_GetActorLocation"),
+    parse: (data, record) => (record.location = toQueryVector(data?.ReturnValue)),
+  },
+  bounds: {
+    request: (path) => call(path, "GetActorBounds", { bOnlyCollidingComponents: false, bIncludeFromChildActors: true }),
+    parse: (data, record) =>
+      (record.bounds = { origin: toQueryVector(data?.Origin), extent: toQueryVector(data?.BoxExtent) }),
+  },
+};
+
+function toQueryVector(v: any): QueryVector {
+  return { x: Number(v?.X ?? 0), y: Number(v?.Y ?? 0), z: Number(v?.Z ?? 0) };
+}
+
+/**
+ * Where a query gets actor data from. The Remote Control implementation below
+ * caches per editor; other backends can supply their own.
+ */
+export interface ActorSource {
+  /** Remote requests sent so far */
+  readonly requests: number;
+  allPaths(): Promise<string[]>;
+  /** Actors of the class or any subclass */
+  classMembers(classPath: string): Promise<Set<string>>;
+  selectedPaths(): Promise<Set<string>>;
+  /** Load the given fields for these actors so record() can answer from memory */
+  ensure(paths: string[], fields: ActorField[]): Promise<void>;
+  record(path: string): ActorRecord;
+}
+
+class QueryContext implements ActorSource {
+  requests = 0;
+  private editorWorld?: string;
+  constructor(
+    readonly rc: RcClient,
+    readonly cache: EditorActorCache,
+    readonly refresh: boolean
+  ) {}
+
+  fresh(fetchedAt: number | undefined): boolean {
+    return !this.refresh && fetchedAt !== undefined && Date.now() - fetchedAt < cacheTtlMs();
+  }
+
+  async callRead(objectPath: string, functionName: string, parameters?: Record<string, any>) {
+    this.requests++;
+    const res = await this.rc.call(objectPath, functionName, parameters, { idempotent: true, generateTransaction: false });
+    if (!res.ok) throw toRcError(res);
+    return res.data;
+  }
+
+  async allPaths(): Promise<string[]> {
+    if (this.cache.list && this.fresh(this.cache.list.fetchedAt)) return this.cache.list.paths;
+    const data = await this.callRead(EDITOR_ACTOR_SUBSYSTEM, "GetAllLevelActors");
+    const paths: string[] = data?.ReturnValue || [];
+    this.cache.list = { paths, fetchedAt: Date.now() };
+    // Drop records of actors that no longer exist
+    const live = new Set(paths);
+    for (const path of this.cache.actors.keys()) {
+      if (!live.has(path)) this.cache.actors.delete(path);
+    }
+    return paths;
+  }
+
+  /**
+   * GetAllActorsOfClass already includes subclasses, which is what class queries want.
+   * Its world context has to be the editor world: a subsystem CDO has no world, and
+   * the call would come back empty.
+   */
+  async classMembers(classPath: string): Promise<Set<string>> {
+    const cached = this.cache.classMembers.get(classPath);
+    if (cached && this.fresh(cached.fetchedAt)) return cached.paths;
+    this.editorWorld ??= (await this.callRead(UNREAL_EDITOR_SUBSYSTEM, "GetEditorWorld"))?.ReturnValue;
+    if (!this.editorWorld) throw new Error("The editor has no world loaded to query actors of a class in");
+    const data = await this.callRead(GAMEPLAY_STATICS, "GetAllActorsOfClass", {
+      WorldContextObject: this.editorWorld,
+      ActorClass: classPath,
+    });
+    const paths = new Set<string>(data?.OutActors || []);
+    this.cache.classMembers.set(classPath, { paths, fetchedAt: Date.now() });
+    return paths;
+  }
+
+  async selectedPaths(): Promise<Set<string>> {
+    const data = await this.callRead(EDITOR_ACTOR_SUBSYSTEM, "GetSelectedLevelActors");
+    return new Set(data?.ReturnValue || []);
+  }
+
+  record(path: string): ActorRecord {
+    return this.entry(path).record;
+  }
+
+  private entry(path: string): CachedActor {
+    let entry = this.cache.actors.get(path);
+    if (!entry) {
+      entry = { record: { path }, fetchedAt: {} };
+      this.cache.actors.set(path, entry);
+    }
+    return entry;
+  }
+
+  /** Make sure every path has fresh values for the given fields, batching what is missing. */
+  async ensure(paths: string[], fields: Field[]): Promise<void> {
+    const pending: { path: string; field: Field }[] = [];
+    for (const path of paths) {
+      const entry = this.entry(path);
+      for (const field of fields) {
+        // An actor's class never changes, so it is cached for the actor's lifetime
+        const valid = field === "className" ? entry.fetchedAt.className !== undefined && !this.refresh : this.fresh(entry.fetchedAt[field]);
+        if (!valid) pending.push({ path, field });
+      }
+    }
+
+    for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+      const chunk = pending.slice(i, i + BATCH_SIZE);
+      this.requests++;
+      const responses = await this.rc.batch(
+        chunk.map((p) => FIELD_READERS[p.field].request(p.path)),
+        { idempotent: true }
+      );
+      const now = Date.now();
+      chunk.forEach((p, j) => {
+        const entry = this.entry(p.path);
+        if (responses[j]?.ok) FIELD_READERS[p.field].parse(responses[j].data, entry.record);
+        entry.fetchedAt[p.field] = now;
+      });
+    }
+  }
+}
+
+// --- Matching ---
+
+export function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+function distance(a: QueryVector, b: QueryVector): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+function boxesIntersect(bounds: NonNullable<ActorRecord["bounds"]>, box: { min: QueryVector; max: QueryVector }): boolean {
+  return (["x", "y", "z"] as const).every(
+    (k) => bounds.origin[k] + bounds.extent[k] >= box.min[k] && bounds.origin[k] - bounds.extent[k] <= box.max[k]
+  );
+}
+
+function normalizeFolder(folder: string): string {
+  return folder.replace(/^\/+|\/+$/g, "").toLowerCase();
+}
+
+export function resolveActorClass(className: string): string {
+  if (className.startsWith("/")) return className;
+  // "APointLight" and "PointLight" both mean /Script/Engine.PointLight
+  return `/Script/Engine.${className.replace(/^A(?=[A-Z])/, "")}`;
+}
+
+// --- Tool input ---
+
+const QueryVectorSchema = z.object({ x: z.number(), y: z.number(), z: z.number() });
+
+/** Filter arguments shared by ue5_list_actors and the selection tools. */
+export const ActorFilterShape = {
+  class_filter: z
+    .string()
+    .optional()
+    .describe("Object path substring (e.g., 'StaticMesh', 'Light'). Prefer `class` for real class matching"),
+  class: z
+    .string()
+    .optional()
+    .describe("Actor class: short name (PointLight), C++ name (APointLight) or /Script/... path"),
+  include_subclasses: z.boolean().default(true).describe("Also match subclasses of `class` (e.g., Light → PointLight, SpotLight)"),
+  label: z.string().optional().describe("Case-insensitive label glob (e.g., 'Wall_*', 'Lamp?')"),
+  tags: z.array(z.string()).optional().describe("Actor must have all of these tags"),
+  folder: z
+    .string()
+    .optional()
+    .describe("World Outliner folder (e.g., 'Lighting'); includes sub-folders. Use '' for actors outside any folder"),
+  within_box: z
+    .object({ min: QueryVectorSchema, max: QueryVectorSchema })
+    .optional()
+    .describe("Only actors whose bounds intersect this world-space box"),
+  near: z
+    .object({ point: QueryVectorSchema, radius: z.number().positive() })
+    .optional()
+    .describe("Only actors whose location is within `radius` of `point`"),
+  selected: z.boolean().optional().describe("true: only selected actors, false: only unselected"),
+};
+
+export type ActorFilter = z.infer<z.ZodObject<typeof ActorFilterShape>>;
+
+export function toActorQuery(filter: ActorFilter): ActorQuery {
+  return {
+    className: filter.class,
+    includeSubclasses: filter.include_subclasses,
+    label: filter.label,
+    tags: filter.tags,
+    folder: filter.folder,
+    pathContains: filter.class_filter,
+    withinBox: filter.within_box,
+    near: filter.near,
+    selected: filter.selected,
+  };
+}
+
+/** Human-readable summary of the active filters, for markdown headings. */
+export function describeActorFilter(filter: Partial<ActorFilter>): string[] {
+  return [
+    filter.class && `class ${filter.class}${filter.include_subclasses !== false ? "+" : ""}`,
+    filter.class_filter && `path ~ "${filter.class_filter}"`,
+    filter.label && `label ${filter.label}`,
+    filter.tags?.length && `tags ${filter.tags.join(", ")}`,
+    filter.folder !== undefined && `folder "${filter.folder}"`,
+    filter.within_box && "in box",
+    filter.near && `within ${filter.near.radius} of (${filter.near.point.x}, ${filter.near.point.y}, ${filter.near.point.z})`,
+    filter.selected !== undefined && (filter.selected ? "selected" : "unselected"),
+  ].filter((f): f is string => typeof f === "string");
+}
+
+// --- Cursor ---
+
+function queryKey(query: ActorQuery): string {
+  const { cursor: _cursor, limit: _limit, refresh: _refresh, fields: _fields, ...rest } = query;
+  return JSON.stringify(rest);
+}
+
+function encodeCursor(offset: number, query: ActorQuery): string {
+  return Buffer.from(JSON.stringify({ o: offset, q: queryKey(query) })).toString("base64url");
+}
+
+function decodeCursor(cursor: string, query: ActorQuery): number {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (parsed.q === queryKey(query) && Number.isInteger(parsed.o) && parsed.o >= 0) return parsed.o;
+  } catch {
+    // fall through
+  }
+  throw new Error("Invalid cursor: it belongs to a different query. Repeat the query without a cursor to start over.");
+}
+
+// --- Query ---
+
+export async function queryActors(rc: RcClient, query: ActorQuery): Promise<ActorQueryResult> {
+  return runActorQuery(new QueryContext(rc, cacheFor(rc.config), query.refresh ?? false), query);
+}
+
+/** Filter, sort and page actors from any source; see ActorQuery for the semantics. */
+export async function runActorQuery(ctx: ActorSource, query: ActorQuery): Promise<ActorQueryResult> {
+  const limit = query.limit ?? 50;
+  const offset = query.cursor ? decodeCursor(query.cursor, query) : 0;
+  const sort = query.sort ?? (query.near ? "distance" : "label");
+  if (sort === "distance" && !query.near) {
+    throw new Error('sort "distance" needs a `near` point to measure from');
+  }
+
+  // Cheap set filters first, per-actor field filters on what is left
+  let paths = await ctx.allPaths();
+
+  if (query.pathContains) {
+    const needle = query.pathContains.toLowerCase();
+    paths = paths.filter((p) => p.toLowerCase().includes(needle));
+  }
+  if (query.className) {
+    const classPath = resolveActorClass(query.className);
+    const members = await ctx.classMembers(classPath);
+    paths = paths.filter((p) => members.has(p));
+    if (query.includeSubclasses === false) {
+      await ctx.ensure(paths, ["className"]);
+      paths = paths.filter((p) => ctx.record(p).className === classPath);
+    }
+  }
+  if (query.selected !== undefined) {
+    const selected = await ctx.selectedPaths();
+    paths = paths.filter((p) => selected.has(p) === query.selected);
+  }
+  if (query.label) {
+    const pattern = globToRegExp(query.label);
+    await ctx.ensure(paths, ["label"]);
+    paths = paths.filter((p) => pattern.test(ctx.record(p).label ?? ""));
+  }
+  if (query.tags && query.tags.length > 0) {
+    const wanted = query.tags.map((t) => t.toLowerCase());
+    await ctx.ensure(paths, ["tags"]);
+    paths = paths.filter((p) => {
+      const tags = (ctx.record(p).tags ?? []).map((t) => t.toLowerCase());
+      return wanted.every((t) => tags.includes(t));
+    });
+  }
+  if (query.folder !== undefined) {
+    const folder = normalizeFolder(query.folder);
+    await ctx.ensure(paths, ["folder"]);
+    paths = paths.filter((p) => {
+      const actorFolder = normalizeFolder(ctx.record(p).folder ?? "");
+      return actorFolder === folder || (folder !== "" && actorFolder.startsWith(`${folder}/`));
+    });
+  }
+  if (query.withinBox) {
+    await ctx.ensure(paths, ["bounds"]);
+    paths = paths.filter((p) => {
+      const bounds = ctx.record(p).bounds;
+      return bounds !== undefined && boxesIntersect(bounds, query.withinBox!);
+    });
+  }
+
+  const distances = new Map<string, number>();
+  if (query.near) {
+    await ctx.ensure(paths, ["location"]);
+    for (const p of paths) {
+      const location = ctx.record(p).location;
+      if (location) distances.set(p, distance(location, query.near.point));
+    }
+    paths = paths.filter((p) => (distances.get(p) ?? Infinity) <= query.near!.radius);
+  }
+
+  // Sort
+  if (sort === "label") await ctx.ensure(paths, ["label"]);
+  if (sort === "class") await ctx.ensure(paths, ["className"]);
+  const sortKey = (p: string): string | number => {
+    switch (sort) {
+      case "distance":
+        return distances.get(p) ?? Infinity;
+      case "label":
+        return (ctx.record(p).label ?? "").toLowerCase();
+      case "class":
+        return ctx.record(p).className ?? "";
+      case "path":
+        return p;
+    }
+  };
+  const direction = query.order === "desc" ? -1 : 1;
+  const sorted = [...paths].sort((a, b) => {
+    const ka = sortKey(a);
+    const kb = sortKey(b);
+    if (ka < kb) return -direction;
+    if (ka > kb) return direction;
+    return a < b ? -1 : a > b ? 1 : 0;
+  });
+
+  // Page, then fill in the display fields for just this page
+  const page = sorted.slice(offset, offset + limit);
+  await ctx.ensure(page, query.fields ?? ["label", "className", "location"]);
+
+  return {
+    actors: page.map((p) => ({
+      ...ctx.record(p),
+      ...(distances.has(p) ? { distance: Math.round(distances.get(p)! * 100) / 100 } : {}),
+    })),
+    total: sorted.length,
+    nextCursor: offset + limit < sorted.length ? encodeCursor(offset + limit, query) : undefined,
+    requests: ctx.requests,
+  };
+}
@@ -0,0 +1,180 @@
+// The engine half of the API index. ue5_build_api_index generates it from an
+// engine checkout's headers — every reflected type under a module's Public/ or
+// Classes/ folder, with its module from the nearest Build.cs and its #include path
+// — and writes it as versioned JSON that the server loads at startup. Without a
+// generated file (or with one in an older format) the hand-written UE5_CLASSES
+// list is used instead.
+
+import { existsSync, readFileSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join, relative, resolve, sep } from "node:path";
+import { UE5_CATEGORIES, UE5_CLASSES, UE5ClassInfo } from "../data/ue5-api-index.js";
+import { parseReflectedTypes, ReflectedClassInfo, toClassInfo } from "./reflection.js";
+import { findFiles, includePath, moduleOf, modulesFromBuildFiles, SKIPPED_DIRS } from "./source-tree.js";
+
+/** Bumped whenever the file layout changes; files in another format are ignored. */
+export const API_INDEX_FORMAT = 1;
+
+export interface ApiIndexFile {
+  format: number;
+  /** From Engine/Build/Build.version, e.g. 5.4.2 */
+  engineVersion: string;
+  enginePath: string;
+  generatedAt: string;
+  categories: string[];
+  classes: ReflectedClassInfo[];
+}
+
+export interface BuildApiIndexOptions {
+  /** Keep UPROPERTY/UFUNCTION lists; makes the file several times larger */
+  includeMembers?: boolean;
+}
+
+// Only Public/ and Classes/ headers are includable from other modules
+const PUBLIC_ROOTS = ["Public", "Classes"];
+const ENGINE_SKIPPED_DIRS = [...SKIPPED_DIRS, "Private", "Internal", "ThirdParty", "Resources", "Shaders", "Docs"];
+
+// The platform's per-user cache directory, so the index is found wherever the server starts
+function userCacheDir(): string {
+  if (process.platform === "win32") return process.env.LOCALAPPDATA || join(homedir(), "AppData", "Local");
+  if (process.platform === "darwin") return join(homedir(), "Library", "Caches");
+  return process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+}
+
+export function getApiIndexPath(): string {
+  return resolve(process.env.UE5_API_INDEX || join(userCacheDir(), "ue5-mcp-server", "api-index.json"));
+}
+
+// --- Building ---
+
+async function engineVersion(enginePath: string): Promise<string> {
+  try {
+    const build = JSON.parse(await readFile(join(enginePath, "Engine", "Build", "Build.version"), "utf-8"));
+    return `${build.MajorVersion}.${build.MinorVersion}.${build.PatchVersion}`;
+  } catch {
+    return "unknown";
+  }
+}
+
+async function pluginCategories(uplugins: string[]): Promise<{ dir: string; category: string }[]> {
+  const plugins: { dir: string; category: string }[] = [];
+  for (const file of uplugins) {
+    try {
+      const descriptor = JSON.parse(await readFile(file, "utf-8"));
+      if (typeof descriptor.Category === "string" && descriptor.Category) plugins.push({ dir: dirname(file), category: descriptor.Category });
+    } catch {
+      // Unreadable descriptor: its modules fall back to the source group
+    }
+  }
+  return plugins;
+}
+
+/**
+ * Index every reflected type in an engine's Public/Classes headers. Curated
+ * entries from UE5_CLASSES keep their description and category; other types take
+ * the Category of their plugin, or their source group (Runtime, Editor, Developer).
+ */
+export async function buildApiIndex(enginePath: string, options: BuildApiIndexOptions = {}): Promise<ApiIndexFile> {
+  const root = resolve(enginePath);
+  const sourceRoot = join(root, "Engine", "Source");
+  const wanted = (n: string) => n.endsWith(".h") || n.endsWith(".Build.cs") || n.endsWith(".uplugin");
+  const files = [
+    ...(await findFiles(sourceRoot, wanted, ENGINE_SKIPPED_DIRS)),
+    ...(await findFiles(join(root, "Engine", "Plugins"), wanted, ENGINE_SKIPPED_DIRS)),
+  ];
+  if (!files.some((f) => f.endsWith(".Build.cs"))) {
+    throw new Error(`No modules found under "${root}/Engine/Source" or "${root}/Engine/Plugins". Is this an engine directory?`);
+  }
+
+  const modules = modulesFromBuildFiles(files.filter((f) => f.endsWith(".Build.cs")));
+  const plugins = await pluginCategories(files.filter((f) => f.endsWith(".uplugin")));
+  const curated = new Map(UE5_CLASSES.map((c) => [c.name, c]));
+
+  const classes: ReflectedClassInfo[] = [];
+  for (const file of files.filter((f) => f.endsWith(".h"))) {
+    const module = moduleOf(file, modules);
+    if (!module || !PUBLIC_ROOTS.includes(relative(module.dir, file).split(sep)[0])) continue;
+    const source = await readFile(file, "utf-8");
+    if (!/\b(UCLASS|USTRUCT|UENUM|UINTERFACE)\s*\(/.test(source)) continue;
+
+    const plugin = plugins.filter((p) => file.startsWith(p.dir + sep)).sort((a, b) => b.dir.length - a.dir.length)[0];
+    const group = file.startsWith(sourceRoot + sep) ? relative(sourceRoot, file).split(sep)[0] : "Plugins";
+    for (const type of parseReflectedTypes(source)) {
+      const info = toClassInfo(type, {
+        module: module.name,
+        headerPath: includePath(file, module.dir),
+        file: relative(root, file).split(sep).join("/"),
+        category: plugin?.category ?? group,
+      });
+      const known = curated.get(info.name);
+      if (known) Object.assign(info, { description: known.description, category: known.category });
+      if (!options.includeMembers) Object.assign(info, { properties: [], functions: [] });
+      classes.push(info);
+    }
+  }
+
+  // Most populated categories first
+  const counts = new Map<string, number>();
+  for (const c of classes) counts.set(c.category, (counts.get(c.category) ?? 0) + 1);
+  const categories = [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([name]) => name);
+
+  return {
+    format: API_INDEX_FORMAT,
+    engineVersion: await engineVersion(root),
+    enginePath: root,
+    generatedAt: new Date().toISOString(),
+    categories,
+    classes,
+  };
+}
+
+export async function writeApiIndex(index: ApiIndexFile, path = getApiIndexPath()): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(index), "utf-8");
+}
+
+// --- Loading ---
+
+export interface EngineCatalog {
+  classes: UE5ClassInfo[];
+  categories: string[];
+  /** "built-in" for the hand-written fallback, else the index file */
+  source: string;
+  engineVersion?: string;
+}
+
+const BUILT_IN: EngineCatalog = { classes: UE5_CLASSES, categories: [...UE5_CATEGORIES], source: "built-in" };
+
+let catalog: EngineCatalog = BUILT_IN;
+
+/** Parse an index file; throws when it is not one this server can read. */
+export function parseApiIndex(text: string): ApiIndexFile {
+  const index = JSON.parse(text);
+  if (index?.format !== API_INDEX_FORMAT || !Array.isArray(index.classes)) {
+    throw new Error(`unsupported index format ${index?.format} (expected ${API_INDEX_FORMAT}); rebuild it with ue5_build_api_index`);
+  }
+  return index;
+}
+
+/**
+ * Load the generated index at startup. A missing file is normal; an unreadable
+ * one is reported and the built-in list stays in use.
+ */
+export function loadApiIndex(path = getApiIndexPath()): EngineCatalog {
+  if (!existsSync(path)) return catalog;
+  try {
+    useApiIndex(parseApiIndex(readFileSync(path, "utf-8")), path);
+  } catch (err) {
+    console.error(`Ignoring API index ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return catalog;
+}
+
+export function useApiIndex(index: ApiIndexFile, path: string): void {
+  catalog = { classes: index.classes, categories: index.categories, source: path, engineVersion: index.engineVersion };
+}
+
+export function getEngineCatalog(): EngineCatalog {
+  return catalog;
+}
@@ -0,0 +1,297 @@
+// TCP client for the McpAutomationBridge editor plugin (default port 8091).
+// Each frame is a 4-byte big-endian length followed by that many bytes of UTF-8
+// JSON. Requests carry a numeric requestId that the matching response echoes, so
+// several requests can be in flight on one connection.
+
+import { isIP, Socket } from "node:net";
+import { lookup } from "node:dns/promises";
+import { RcError } from "./rc-client.js";
+
+// --- Configuration ---
+
+export interface AutomationBridgeConfig {
+  host: string;
+  port: number;
+  /** Timeout for connecting and for each request/response round trip */
+  timeoutMs: number;
+  /** Allow hosts that do not resolve to a loopback address */
+  allowNonLoopback: boolean;
+  /** Connection attempts per request before giving up */
+  connectAttempts: number;
+  /** Base delay for exponential backoff between connection attempts */
+  reconnectDelayMs: number;
+}
+
+export function getAutomationBridgeConfig(): AutomationBridgeConfig {
+  return {
+    host: process.env.MCP_AUTOMATION_HOST || "127.0.0.1",
+    port: parseInt(process.env.MCP_AUTOMATION_PORT || "8091", 10),
+    timeoutMs: parseInt(process.env.MCP_AUTOMATION_TIMEOUT_MS || "10000", 10),
+    allowNonLoopback: process.env.MCP_AUTOMATION_ALLOW_NON_LOOPBACK === "true",
+    connectAttempts: parseInt(process.env.MCP_AUTOMATION_CONNECT_ATTEMPTS || "3", 10),
+    reconnectDelayMs: parseInt(process.env.MCP_AUTOMATION_RECONNECT_DELAY_MS || "250", 10),
+  };
+}
+
+// The plugin's own limit; anything bigger is a framing error, not a real message
+export const MAX_FRAME_BYTES = 64 * 1024 * 1024;
+
+// --- Errors ---
+
+function bridgeUrl(config: AutomationBridgeConfig): string {
+  return `tcp://${config.host}:${config.port}`;
+}
+
+export class BridgeConnectionError extends RcError {
+  constructor(url: string, cause: string) {
+    super(
+      "CONNECTION_REFUSED",
+      `Failed to connect to the Automation Bridge at ${url}: ${cause}`,
+      "Check that the editor is running with the McpAutomationBridge plugin enabled and that MCP_AUTOMATION_HOST/MCP_AUTOMATION_PORT point at its listener."
+    );
+  }
+}
+
+export class BridgeTimeoutError extends RcError {
+  constructor(url: string, action: string, timeoutMs: number) {
+    super(
+      "TIMEOUT",
+      `Automation Bridge action "${action}" at ${url} timed out after ${timeoutMs / 1000}s`,
+      "The editor may be busy or paused in a modal dialog. Raise MCP_AUTOMATION_TIMEOUT_MS for long-running actions."
+    );
+  }
+}
+
+export class BridgeActionError extends RcError {
+  readonly action: string;
+
+  constructor(action: string, detail: string) {
+    super(
+      "BRIDGE_ACTION_FAILED",
+      `Automation Bridge action "${action}" failed: ${detail}`,
+      "Check the editor's Output Log (LogMcpAutomationBridge) for details."
+    );
+    this.action = action;
+  }
+}
+
+export class BridgeNonLoopbackError extends RcError {
+  constructor(host: string, address: string) {
+    super(
+      "NON_LOOPBACK_BLOCKED",
+      `Refusing to connect to the Automation Bridge at ${host} (${address}): not a loopback address`,
+      "The bridge has no authentication, so only loopback hosts are allowed by default. Tunnel the port (e.g. ssh -L 8091:localhost:8091) or, on a trusted network, set MCP_AUTOMATION_ALLOW_NON_LOOPBACK=true."
+    );
+  }
+}
+
+// --- Loopback guard ---
+
+export function isLoopbackAddress(address: string): boolean {
+  if (isIP(address) === 4) return address.startsWith("127.");
+  const normalized = address.toLowerCase();
+  return normalized === "::1" || normalized.startsWith("::ffff:127.");
+}
+
+/** Resolve the host and throw unless it is loopback or non-loopback hosts are allowed. */
+export async function assertBridgeHostAllowed(config: AutomationBridgeConfig): Promise<void> {
+  if (config.allowNonLoopback) return;
+  let address: string;
+  try {
+    address = isIP(config.host) ? config.host : (await lookup(config.host)).address;
+  } catch (err: any) {
+    throw new BridgeConnectionError(bridgeUrl(config), err.code || err.message);
+  }
+  if (!isLoopbackAddress(address)) throw new BridgeNonLoopbackError(config.host, address);
+}
+
+// --- Framing ---
+
+export function encodeFrame(message: unknown): Buffer {
+  const body = Buffer.from(JSON.stringify(message), "utf-8");
+  const header = Buffer.alloc(4);
+  header.writeUInt32BE(body.length);
+  return Buffer.concat([header, body]);
+}
+
+/** Accumulates socket data and hands out complete frames. */
+export class FrameDecoder {
+  private buffer = Buffer.alloc(0);
+
+  /** Returns every complete message in the data seen so far; throws on an oversized frame. */
+  push(chunk: Buffer): unknown[] {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    const messages: unknown[] = [];
+    while (this.buffer.length >= 4) {
+      const length = this.buffer.readUInt32BE(0);
+      if (length > MAX_FRAME_BYTES) {
+        throw new Error(`Frame of ${length} bytes exceeds the ${MAX_FRAME_BYTES} byte limit`);
+      }
+      if (this.buffer.length < 4 + length) break;
+      const body = this.buffer.subarray(4, 4 + length).toString("utf-8");
+      this.buffer = this.buffer.subarray(4 + length);
+      messages.push(JSON.parse(body));
+    }
+    return messages;
+  }
+}
+
+// --- Client ---
+
+interface PendingRequest {
+  action: string;
+  resolve: (result: any) => void;
+  reject: (err: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class AutomationBridgeClient {
+  private socket?: Socket;
+  private connecting?: Promise<void>;
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+
+  constructor(readonly config: AutomationBridgeConfig = getAutomationBridgeConfig()) {}
+
+  get url(): string {
+    return bridgeUrl(this.config);
+  }
+
+  get endpoint(): string {
+    return this.url;
+  }
+
+  get connected(): boolean {
+    return this.socket !== undefined && !this.socket.destroyed;
+  }
+
+  /** Connect if needed, retrying with backoff; a dropped connection is re-opened on the next request. */
+  async connect(): Promise<void> {
+    if (this.connected) return;
+    if (this.connecting) return this.connecting;
+
+    this.connecting = (async () => {
+      await assertBridgeHostAllowed(this.config);
+      for (let i = 1; ; i++) {
+        try {
+          this.socket = await this.open();
+          return;
+        } catch (err) {
+          if (i >= this.config.connectAttempts) throw err;
+        }
+        await sleep(this.config.reconnectDelayMs * 2 ** (i - 1));
+      }
+    })().finally(() => {
+      this.connecting = undefined;
+    });
+    return this.connecting;
+  }
+
+  close(): void {
+    this.socket?.destroy();
+    this.socket = undefined;
+  }
+
+  /** Send one action and resolve with its result payload. */
+  async request(action: string, params: Record<string, any> = {}): Promise<any> {
+    await this.connect();
+    const requestId = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      // The socket can close between connect() and here; fail now rather than wait for the timeout
+      const socket = this.socket;
+      if (!socket?.writable) {
+        reject(new BridgeConnectionError(this.url, "connection closed"));
+        return;
+      }
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new BridgeTimeoutError(this.url, action, this.config.timeoutMs));
+      }, this.config.timeoutMs);
+
+      this.pending.set(requestId, { action, resolve, reject, timer });
+      socket.write(encodeFrame({ type: "automation_request", requestId, action, payload: params }), (err) => {
+        if (!err || !this.pending.has(requestId)) return;
+        this.pending.delete(requestId);
+        clearTimeout(timer);
+        reject(new BridgeConnectionError(this.url, (err as any).code || err.message));
+      });
+    });
+  }
+
+  private open(): Promise<Socket> {
+    return new Promise((resolve, reject) => {
+      const socket = new Socket();
+      const decoder = new FrameDecoder();
+      socket.setNoDelay(true);
+      socket.setTimeout(this.config.timeoutMs);
+
+      socket.once("connect", () => {
+        socket.setTimeout(0);
+        resolve(socket);
+      });
+      socket.once("timeout", () => {
+        socket.destroy(new Error(`connect timed out after ${this.config.timeoutMs / 1000}s`));
+      });
+      // Stays attached after connect so a dropped socket never surfaces as an unhandled error;
+      // rejecting an already-settled promise is a no-op
+      socket.on("error", (err: any) => reject(new BridgeConnectionError(this.url, err.code || err.message)));
+      socket.on("data", (chunk) => {
+        let messages: unknown[];
+        try {
+          messages = decoder.push(chunk);
+        } catch (err) {
+          // Out of sync with the stream; the only recovery is a fresh connection
+          socket.destroy(err instanceof Error ? err : new Error(String(err)));
+          return;
+        }
+        messages.forEach((m) => this.handleMessage(m));
+      });
+      socket.on("close", () => {
+        if (this.socket === socket) this.socket = undefined;
+        this.failPending(new BridgeConnectionError(this.url, "connection closed"));
+      });
+
+      socket.connect(this.config.port, this.config.host);
+    });
+  }
+
+  private handleMessage(message: any): void {
+    const req = this.pending.get(message?.requestId);
+    if (!req) return;
+    this.pending.delete(message.requestId);
+    clearTimeout(req.timer);
+    if (message.success === false) {
+      req.reject(new BridgeActionError(req.action, message.error || message.message || "no error message"));
+    } else {
+      req.resolve(message.result);
+    }
+  }
+
+  private failPending(err: Error): void {
+    for (const [id, req] of this.pending) {
+      clearTimeout(req.timer);
+      req.reject(err);
+      this.pending.delete(id);
+    }
+  }
+}
+
+// --- Shared instance ---
+
+const shared = new Map<string, AutomationBridgeClient>();
+
+/** One long-lived connection per endpoint, reused across tool calls. */
+export function getAutomationBridge(config: AutomationBridgeConfig = getAutomationBridgeConfig()): AutomationBridgeClient {
+  const key = `${config.host}:${config.port}`;
+  let client = shared.get(key);
+  if (!client) {
+    client = new AutomationBridgeClient(config);
+    shared.set(key, client);
+  }
+  return client;
+}
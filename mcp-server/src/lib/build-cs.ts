@@ -0,0 +1,176 @@
+// Reads *.Build.cs and *.Target.cs rules files without compiling them. UBT runs
+// these as C#, so this only understands the shapes the engine's templates and
+// nearly every project use: List.Add("X") / List.AddRange(new string[] { … }) calls
+// and simple Field = Value; assignments in the constructor. Calls inside an if/else
+// are kept but marked conditional, with the condition when it can be read.
+
+import { lineAt, matchingClose, splitTopLevel, stripComments } from "./source-text.js";
+
+export interface RulesListEntry {
+  /** String literal value, or the C# expression as written (e.g. Path.Combine(ModuleDirectory, "Public")) */
+  value: string;
+  literal: boolean;
+  /** Only added on some targets or platforms */
+  conditional: boolean;
+  condition?: string;
+  line: number;
+}
+
+export interface RulesFile {
+  /** Module name for Build.cs; target name for Target.cs (MyGameEditor, from class MyGameEditorTarget) */
+  name: string;
+  kind: "module" | "target";
+  path: string;
+  /** List fields (PublicDependencyModuleNames, ExtraModuleNames, …) in the order entries were added */
+  lists: Record<string, RulesListEntry[]>;
+  /** Field = value assignments (PCHUsage, Type, DefaultBuildSettings, …), as written */
+  settings: Record<string, string>;
+}
+
+export const DEPENDENCY_LISTS = [
+  "PublicDependencyModuleNames",
+  "PrivateDependencyModuleNames",
+  "DynamicallyLoadedModuleNames",
+  "PublicIncludePathModuleNames",
+  "PrivateIncludePathModuleNames",
+] as const;
+
+export type DependencyList = (typeof DEPENDENCY_LISTS)[number];
+
+// --- Expressions ---
+
+function stringLiteral(expression: string): string | undefined {
+  const match = expression.match(/^@?"((?:[^"\\]|\\.)*)"$/);
+  return match ? match[1].replace(/\\(.)/g, "$1") : undefined;
+}
+
+// The items of an AddRange argument: new string[] { … }, new[] { … }, new List<string> { … }
+function rangeItems(argument: string): string[] {
+  const brace = argument.indexOf("{");
+  if (/^new\b/.test(argument) && brace !== -1) {
+    return splitTopLevel(argument.slice(brace + 1, matchingClose(argument, brace) - 1));
+  }
+  return [argument];
+}
+
+// --- Conditions ---
+
+interface Block {
+  open: number;
+  /** Offset of the closing brace; the end of the text when the block is never closed */
+  close: number;
+  /** Text of the if/else header that opened the block, when there is one */
+  condition?: string;
+}
+
+function blockHeader(text: string, open: number): string | undefined {
+  const before = text.slice(Math.max(0, open - 300), open).trimEnd();
+  if (/\belse$/.test(before)) return "else";
+  if (!before.endsWith(")")) return undefined;
+  // Walk back to the "(" that opens the condition
+  let depth = 0;
+  for (let i = before.length - 1; i >= 0; i--) {
+    if (before[i] === ")") depth++;
+    else if (before[i] === "(" && --depth === 0) {
+      const keyword = before.slice(0, i).match(/\b(if|else if|switch|foreach|for|while)\s*$/);
+      return keyword ? `${keyword[1]} ${before.slice(i).replace(/\s+/g, " ")}` : undefined;
+    }
+  }
+  return undefined;
+}
+
+// Every brace pair in the text, in order of the opening brace, found in one pass
+function findBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  const stack: Block[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"') {
+      i++;
+      while (i < text.length && text[i] !== '"') i += text[i] === "\\" ? 2 : 1;
+    } else if (c === "{") {
+      const block: Block = { open: i, close: text.length, condition: blockHeader(text, i) };
+      blocks.push(block);
+      stack.push(block);
+    } else if (c === "}") {
+      const block = stack.pop();
+      if (block) block.close = i;
+    }
+  }
+  return blocks;
+}
+
+// Blocks enclosing an offset, innermost last
+function enclosingBlocks(blocks: Block[], offset: number): Block[] {
+  return blocks.filter((b) => b.open < offset && offset <= b.close);
+}
+
+// "if (Target.bBuildEditor) X.Add(…);" without braces
+function inlineCondition(text: string, offset: number): string | undefined {
+  const statementStart = Math.max(text.lastIndexOf(";", offset), text.lastIndexOf("{", offset), text.lastIndexOf("}", offset)) + 1;
+  const prefix = text.slice(statementStart, offset).trim();
+  const match = prefix.match(/^(?:else\s+)?if\s*(\(.*\))\s*$/s);
+  if (match) return `if ${match[1].replace(/\s+/g, " ")}`;
+  return /^else$/.test(prefix) ? "else" : undefined;
+}
+
+// --- Parsing ---
+
+export function parseRulesFile(source: string, path: string): RulesFile | undefined {
+  const text = stripComments(source);
+  const declaration = text.match(/class\s+(\w+)\s*:\s*(ModuleRules|TargetRules)\b/);
+  if (!declaration) return undefined;
+  const kind = declaration[2] === "ModuleRules" ? "module" : "target";
+  // Target classes are named {Target}Target
+  const name = kind === "target" ? declaration[1].replace(/Target$/, "") : declaration[1];
+
+  // Statements directly in the constructor body are unconditional
+  const ctor = text.slice(declaration.index!).match(new RegExp(`\\b${declaration[1]}\\s*\\([^)]*\\)\\s*:\\s*base\\s*\\([^)]*\\)\\s*\\{`));
+  const ctorOpen = ctor ? declaration.index! + ctor.index! + ctor[0].length - 1 : -1;
+
+  const allBlocks = findBlocks(text);
+  const conditionAt = (offset: number): { conditional: boolean; condition?: string } => {
+    const blocks = enclosingBlocks(allBlocks, offset);
+    const ctorDepth = blocks.findIndex((b) => b.open === ctorOpen);
+    const inner = ctorDepth === -1 ? [] : blocks.slice(ctorDepth + 1);
+    const conditions = inner.map((b) => b.condition).filter((c): c is string => !!c);
+    const inline = inlineCondition(text, offset);
+    if (inline) conditions.push(inline);
+    if (inner.length === 0 && !inline) return { conditional: false };
+    return { conditional: true, condition: conditions.length > 0 ? conditions.join(" → ") : undefined };
+  };
+
+  const lists: Record<string, RulesListEntry[]> = {};
+  const calls = /\b(\w+)\s*\.\s*(AddRange|Add)\s*\(/g;
+  for (let match; (match = calls.exec(text)); ) {
+    const field = match[1];
+    if (!/(Names|Paths|Definitions|Dependencies|Libraries|DelayLoadDLLs)$/.test(field)) continue;
+    const open = match.index + match[0].length - 1;
+    const argument = text.slice(open + 1, matchingClose(text, open) - 1).trim();
+    const items = match[2] === "AddRange" ? rangeItems(argument) : [argument];
+    const where = conditionAt(match.index);
+    const line = lineAt(text, match.index);
+    for (const item of items) {
+      const literal = stringLiteral(item);
+      (lists[field] ??= []).push({ value: literal ?? item.replace(/\s+/g, " "), literal: literal !== undefined, ...where, line });
+    }
+  }
+
+  // Top-level assignments only: a conditional PCHUsage is left out rather than guessed
+  const settings: Record<string, string> = {};
+  const assignments = /(?:^|[;{}])\s*(\w+)\s*=(?!=)\s*([^;{}]+);/g;
+  for (let match; (match = assignments.exec(text)); ) {
+    const offset = match.index + match[0].indexOf(match[1]);
+    assignments.lastIndex = offset + match[1].length;
+    if (ctorOpen === -1 || conditionAt(offset).conditional) continue;
+    const value = match[2].trim().replace(/\s+/g, " ");
+    settings[match[1]] = stringLiteral(value) ?? value;
+  }
+
+  return { name, kind, path, lists, settings };
+}
+
+/** Values of a list field; string literals only unless `expressions` is set. */
+export function listValues(rules: RulesFile, field: string, expressions = false): string[] {
+  return (rules.lists[field] ?? []).filter((e) => expressions || e.literal).map((e) => e.value);
+}
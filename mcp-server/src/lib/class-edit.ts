@@ -0,0 +1,218 @@
+// Adding members to a class that already exists: the declarations go into the
+// class body in a header, under the right access label, and the definitions and
+// DOREPLIFETIME entries into its .cpp. The class body is read line by line at its
+// own nesting level, so nested types, inline function bodies, comments and string
+// literals are skipped. Access labels inside #if blocks make the access after the
+// block depend on the build, so nothing is inserted there until the next label.
+
+import { Access, MemberCode } from "./class-members.js";
+import { matchingClose, stripComments } from "./source-text.js";
+
+const ACCESS_ORDER: Access[] = ["public", "protected", "private"];
+
+export const LIFETIME_DECLARATION = "\tvirtual void GetLifetimeReplicatedProps(TArray<FLifetimeProperty>& OutLifetimeProps) const override;\n";
+
+// Comments and the contents of string and character literals blanked, offsets kept
+function codeText(source: string): string {
+  return stripComments(source)
+    .replace(/"(?:[^"\\\n]|\\.)*"/g, (s) => `"${" ".repeat(s.length - 2)}"`)
+    .replace(/'(?:[^'\\\n]|\\.)'/g, (s) => `'${" ".repeat(s.length - 2)}'`);
+}
+
+function lineStart(text: string, offset: number): number {
+  return text.lastIndexOf("\n", offset - 1) + 1;
+}
+
+function lineEnd(text: string, offset: number): number {
+  const end = text.indexOf("\n", offset);
+  return end === -1 ? text.length : end + 1;
+}
+
+// Inserted text uses \n and tabs; match the file's line endings and indentation
+function conform(text: string, source: string, indent = "\t"): string {
+  const indented = text.replace(/^\t/gm, indent);
+  return source.includes("\r\n") ? indented.replace(/\r?\n/g, "\r\n") : indented;
+}
+
+// --- Headers ---
+
+export interface ClassBody {
+  kind: "class" | "struct";
+  /** Offset of the opening '{' */
+  open: number;
+  /** Offset of the closing '}' */
+  close: number;
+}
+
+/** The body of `className`'s definition (not a forward declaration); throws when there is none. */
+export function findClassBody(source: string, className: string): ClassBody {
+  const text = codeText(source);
+  const pattern = new RegExp(String.raw`\b(class|struct)\s+(?:\w+_API\s+)?${className}\b(?:\s+final)?\s*(?::[^{;]*)?\{`, "g");
+  const match = pattern.exec(text);
+  if (!match) throw new Error(`No definition of ${className} found in the header`);
+  const open = match.index + match[0].length - 1;
+  return { kind: match[1] as "class" | "struct", open, close: matchingClose(text, open) - 1 };
+}
+
+/** Whether the class body already declares something called `name`. */
+export function declaresMember(source: string, body: ClassBody, name: string): boolean {
+  return new RegExp(String.raw`\b${name}\s*[;=({[:]`).test(codeText(source).slice(body.open + 1, body.close));
+}
+
+interface InsertionPoint {
+  offset: number;
+  /** The section is empty so far: no blank line before the new declarations */
+  afterLabel: boolean;
+}
+
+// Where the last section with each access ends, and the indentation of member lines
+function scanSections(source: string, body: ClassBody): { sections: Map<Access, InsertionPoint>; indent?: string } {
+  const text = codeText(source);
+  const sections = new Map<Access, InsertionPoint>();
+  let access: Access | undefined = body.kind === "struct" ? "public" : "private";
+  let end: InsertionPoint = { offset: lineEnd(text, body.open), afterLabel: true };
+  let depth = 0;
+  let ppDepth = 0;
+  let labelInBlock = false;
+  let indent: string | undefined;
+
+  const closeSection = () => {
+    if (access && ppDepth === 0) sections.set(access, end);
+  };
+
+  for (let pos = lineEnd(text, body.open); pos <= body.close; ) {
+    const next = Math.min(lineEnd(text, pos), body.close);
+    const line = text.slice(pos, next);
+    const trimmed = line.trim();
+    const atTop = depth === 0;
+
+    if (atTop && trimmed) {
+      const label = trimmed.match(/^(public|protected|private)\s*:(?!:)/);
+      const directive = trimmed.match(/^#\s*(if|ifdef|ifndef|endif)\b/);
+      if (label) {
+        if (ppDepth === 0) {
+          closeSection();
+          access = label[1] as Access;
+          end = { offset: next, afterLabel: true };
+        } else {
+          labelInBlock = true;
+        }
+      } else if (directive && directive[1] !== "endif") {
+        if (ppDepth === 0) {
+          closeSection();
+          labelInBlock = false;
+        }
+        ppDepth++;
+      } else if (directive) {
+        ppDepth = Math.max(0, ppDepth - 1);
+        if (ppDepth === 0) {
+          if (labelInBlock) access = undefined;
+          end = { offset: next, afterLabel: false };
+        }
+      } else if (!trimmed.startsWith("#") && indent === undefined) {
+        indent = line.match(/^[ \t]*/)![0] || undefined;
+      }
+    }
+
+    // Brace depth at the end of the line; inline bodies and nested types stay inside
+    for (const c of line) {
+      if (c === "{") depth++;
+      else if (c === "}") depth--;
+    }
+    if (trimmed && depth === 0 && ppDepth === 0 && !/^(public|protected|private)\s*:|^#/.test(trimmed)) {
+      end = { offset: next, afterLabel: false };
+    }
+    if (next >= body.close) break;
+    pos = next;
+  }
+  closeSection();
+  return { sections, indent };
+}
+
+/**
+ * Insert declaration blocks (as rendered by class-members, tab-indented) into
+ * the class body: at the end of the last section with the same access, or in a
+ * new section before the closing brace.
+ */
+export function addDeclarations(source: string, body: ClassBody, declarations: Record<Access, string[]>): string {
+  const { sections, indent } = scanSections(source, body);
+  // Before the closing brace's line, or right before the brace when it shares a line with code
+  const closingLine = lineStart(source, body.close);
+  const braceAfterCode = source.slice(closingLine, body.close).trim() !== "";
+  const appendAt = braceAfterCode ? body.close : closingLine;
+
+  const inserts: { offset: number; text: string }[] = [];
+  let appended = "";
+  for (const access of ACCESS_ORDER) {
+    const blocks = declarations[access];
+    if (blocks.length === 0) continue;
+    const point = sections.get(access);
+    if (point) {
+      inserts.push({ offset: point.offset, text: (point.afterLabel ? "" : "\n") + blocks.join("\n") });
+    } else {
+      appended += `\n${access}:\n${blocks.join("\n")}`;
+    }
+  }
+  if (appended) inserts.push({ offset: appendAt, text: (braceAfterCode ? "\n" : "") + appended });
+
+  let result = source;
+  for (const insert of inserts.sort((a, b) => b.offset - a.offset)) {
+    result = result.slice(0, insert.offset) + conform(insert.text, source, indent) + result.slice(insert.offset);
+  }
+  return result;
+}
+
+// --- Source files ---
+
+/** The { … } body of `ClassName::function(`'s definition, if the file has one. */
+function findDefinition(text: string, className: string, functionName: string): { open: number; close: number } | undefined {
+  const match = new RegExp(String.raw`\b${className}\s*::\s*${functionName}\s*\(`).exec(text);
+  if (!match) return undefined;
+  const paramsEnd = matchingClose(text, match.index + match[0].length - 1);
+  const open = text.indexOf("{", paramsEnd);
+  if (open === -1 || text.slice(paramsEnd, open).includes(";")) return undefined;
+  return { open, close: matchingClose(text, open) - 1 };
+}
+
+function addInclude(source: string, include: string): string {
+  if (new RegExp(String.raw`#\s*include\s*[<"]${include.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&")}[>"]`).test(source)) return source;
+  const text = codeText(source);
+  const includes = [...text.matchAll(/^[ \t]*#\s*include\b.*$/gm)];
+  const at = includes.length > 0 ? lineEnd(text, includes[includes.length - 1].index!) : 0;
+  return source.slice(0, at) + conform(`#include "${include}"\n`, source) + source.slice(at);
+}
+
+/**
+ * Add a member's .cpp side: its function definitions at the end of the file and
+ * its DOREPLIFETIME entries in GetLifetimeReplicatedProps, creating that function
+ * (and the UnrealNetwork include) when the class has none yet.
+ */
+export function addDefinitions(source: string, className: string, code: MemberCode): string {
+  let result = source;
+  const definitions = [...code.definitions];
+
+  if (code.replicated.length > 0) {
+    result = addInclude(result, "Net/UnrealNetwork.h");
+    const text = codeText(result);
+    const existing = findDefinition(text, className, "GetLifetimeReplicatedProps");
+    if (existing) {
+      // After the last statement in the body, with its indentation
+      const lastLine = text.slice(existing.open + 1, existing.close).trimEnd();
+      const at = lineEnd(text, existing.open + 1 + lastLine.length);
+      const indent = lastLine ? lastLine.slice(lastLine.lastIndexOf("\n") + 1).match(/^[ \t]*/)![0] || "\t" : "\t";
+      const lines = code.replicated.map((l) => `\t${l}\n`).join("");
+      result = result.slice(0, at) + conform(lines, result, indent) + result.slice(at);
+    } else {
+      definitions.unshift(
+        `void ${className}::GetLifetimeReplicatedProps(TArray<FLifetimeProperty>& OutLifetimeProps) const\n{\n` +
+          `\tSuper::GetLifetimeReplicatedProps(OutLifetimeProps);\n\n${code.replicated.map((l) => `\t${l}\n`).join("")}}\n`
+      );
+    }
+  }
+
+  if (definitions.length > 0) {
+    const trimmed = result.replace(/\s*$/, "");
+    result = trimmed + conform(`\n\n${definitions.join("\n")}`, result);
+  }
+  return result;
+}
@@ -0,0 +1,312 @@
+// Member specs for generated classes — UPROPERTYs, UFUNCTIONs and default
+// subobject components — and the C++ each one turns into: the declaration in the
+// header, what the constructor, GetLifetimeReplicatedProps and the .cpp need, and
+// the headers to include. ue5_generate_class renders a whole spec at once.
+
+import { z } from "zod";
+import { UE5ClassInfo } from "../data/ue5-api-index.js";
+import { allClasses } from "./project-index.js";
+
+export type Access = "public" | "protected" | "private";
+const ACCESS = ["public", "protected", "private"] as const;
+
+export const FUNCTION_KINDS = [
+  "BlueprintCallable",
+  "BlueprintPure",
+  "BlueprintNativeEvent",
+  "BlueprintImplementableEvent",
+  "Server",
+  "Client",
+  "NetMulticast",
+  "Plain",
+] as const;
+
+const RPC_KINDS = ["Server", "Client", "NetMulticast"];
+
+// --- Specs ---
+
+export const PropertySpec = z.object({
+  name: z.string().describe("Property name, e.g. 'MaxHealth'"),
+  type: z.string().describe("C++ type, e.g. 'float', 'TObjectPtr<UStaticMesh>', 'TArray<FName>'"),
+  specifiers: z
+    .array(z.string())
+    .default(["EditAnywhere", "BlueprintReadWrite"])
+    .describe("UPROPERTY specifiers other than Category and replication, e.g. ['EditDefaultsOnly', 'meta = (ClampMin = 0)']"),
+  category: z.string().optional().describe("Category (defaults to the class name)"),
+  default: z.string().optional().describe("Initializer written in the header, e.g. '100.f'"),
+  replicated: z.boolean().default(false).describe("Add Replicated and a DOREPLIFETIME entry"),
+  rep_notify: z.boolean().default(false).describe("Use ReplicatedUsing = OnRep_<Name> and generate the OnRep function (implies replicated)"),
+  rep_condition: z.string().optional().describe("Replication condition, e.g. 'COND_OwnerOnly' (uses DOREPLIFETIME_CONDITION)"),
+  access: z.enum(ACCESS).optional().describe("Access section (default: protected; public in structs)"),
+});
+
+export const FunctionSpec = z.object({
+  name: z.string().describe("Function name, e.g. 'ServerFire'"),
+  kind: z
+    .enum(FUNCTION_KINDS)
+    .default("BlueprintCallable")
+    .describe("Server/Client/NetMulticast generate an RPC with an _Implementation (and _Validate) stub; Plain is UFUNCTION()"),
+  return_type: z.string().default("void"),
+  params: z.string().default("").describe("Parameter list as written in C++, e.g. 'float Damage, AActor* DamageCauser'"),
+  specifiers: z.array(z.string()).default([]).describe("Extra UFUNCTION specifiers, e.g. ['BlueprintAuthorityOnly']"),
+  category: z.string().optional().describe("Category for Blueprint-exposed functions (defaults to the class name)"),
+  reliable: z.boolean().default(true).describe("RPCs only: Reliable or Unreliable"),
+  with_validation: z.boolean().default(false).describe("RPCs only: add WithValidation and a _Validate stub"),
+  is_const: z.boolean().optional().describe("Declare the function const (defaults to true for BlueprintPure)"),
+  access: z.enum(ACCESS).default("public"),
+});
+
+export const ComponentSpec = z.object({
+  name: z.string().describe("Member name, e.g. 'Mesh'"),
+  type: z.string().describe("Component class, e.g. 'UStaticMeshComponent'"),
+  root: z.boolean().default(false).describe("Make this the actor's RootComponent"),
+  attach_to: z
+    .string()
+    .optional()
+    .describe("Component to attach to ('RootComponent' or another component's name). Defaults to the root for scene components; 'none' skips attachment"),
+  include: z.string().optional().describe("Header for the component class, when it is not in the API index"),
+  specifiers: z.array(z.string()).default(["VisibleAnywhere", "BlueprintReadOnly"]),
+  category: z.string().default("Components"),
+});
+
+export const ClassSpec = z.object({
+  properties: z.array(PropertySpec).default([]),
+  functions: z.array(FunctionSpec).default([]),
+  components: z.array(ComponentSpec).default([]),
+});
+
+export type PropertySpec = z.infer<typeof PropertySpec>;
+export type FunctionSpec = z.infer<typeof FunctionSpec>;
+export type ComponentSpec = z.infer<typeof ComponentSpec>;
+export type ClassSpec = z.infer<typeof ClassSpec>;
+
+// --- Rendering ---
+
+export interface MemberCode {
+  /** Header declarations by access section, each a tab-indented block */
+  declarations: Record<Access, string[]>;
+  /** Forward declarations for the header, e.g. "class UStaticMeshComponent;" */
+  forwardDeclarations: string[];
+  /** Headers the .cpp includes */
+  sourceIncludes: string[];
+  /** Constructor body lines */
+  constructor: string[];
+  /** DOREPLIFETIME lines for GetLifetimeReplicatedProps */
+  replicated: string[];
+  /** Function definitions for the .cpp */
+  definitions: string[];
+  /** Things the caller should know, e.g. a component header that could not be found */
+  notes: string[];
+}
+
+export function emptyMemberCode(): MemberCode {
+  return {
+    declarations: { public: [], protected: [], private: [] },
+    forwardDeclarations: [],
+    sourceIncludes: [],
+    constructor: [],
+    replicated: [],
+    definitions: [],
+    notes: [],
+  };
+}
+
+function macro(name: string, specifiers: string[]): string {
+  return `${name}(${specifiers.join(", ")})`;
+}
+
+function isReplicated(p: PropertySpec): boolean {
+  return p.replicated || p.rep_notify || p.rep_condition !== undefined;
+}
+
+function isConst(f: FunctionSpec): boolean {
+  return f.is_const ?? f.kind === "BlueprintPure";
+}
+
+export function propertySpecifiers(p: PropertySpec, category: string): string[] {
+  const specifiers = [...p.specifiers];
+  if (p.rep_notify) specifiers.push(`ReplicatedUsing = OnRep_${p.name}`);
+  else if (isReplicated(p)) specifiers.push("Replicated");
+  if (specifiers.some((s) => /^(Edit|Visible|BlueprintRead)/.test(s))) specifiers.push(`Category = "${p.category ?? category}"`);
+  return specifiers;
+}
+
+export function functionSpecifiers(f: FunctionSpec, category: string): string[] {
+  const specifiers: string[] = [];
+  if (RPC_KINDS.includes(f.kind)) {
+    specifiers.push(f.kind, f.reliable ? "Reliable" : "Unreliable");
+    if (f.with_validation) specifiers.push("WithValidation");
+  } else if (f.kind !== "Plain") {
+    specifiers.push(f.kind);
+    // Native and implementable events are usually callable from Blueprint too
+    if (f.kind === "BlueprintNativeEvent" || f.kind === "BlueprintImplementableEvent") specifiers.push("BlueprintCallable");
+  }
+  specifiers.push(...f.specifiers);
+  if (specifiers.some((s) => s.startsWith("Blueprint"))) specifiers.push(`Category = "${f.category ?? category}"`);
+  return specifiers;
+}
+
+function propertyDeclaration(p: PropertySpec, category: string): string {
+  const initializer = p.default !== undefined ? ` = ${p.default}` : "";
+  return `\t${macro("UPROPERTY", propertySpecifiers(p, category))}\n\t${p.type} ${p.name}${initializer};\n`;
+}
+
+function functionDeclaration(f: FunctionSpec, category: string): string {
+  return `\t${macro("UFUNCTION", functionSpecifiers(f, category))}\n\t${f.return_type} ${f.name}(${f.params})${isConst(f) ? " const" : ""};\n`;
+}
+
+// Argument list without default values, for the out-of-line definitions
+function definitionParams(params: string): string {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i <= params.length; i++) {
+    const c = params[i];
+    if (c === "<" || c === "(" || c === "{") depth++;
+    else if (c === ">" || c === ")" || c === "}") depth--;
+    else if (i === params.length || (c === "," && depth === 0)) {
+      parts.push(params.slice(start, i));
+      start = i + 1;
+    }
+  }
+  return parts
+    .map((p) => p.replace(/\s*=.*$/s, "").trim())
+    .filter(Boolean)
+    .join(", ");
+}
+
+function body(returnType: string): string {
+  return returnType === "void" ? "{\n}\n" : "{\n\treturn {};\n}\n";
+}
+
+function functionDefinitions(f: FunctionSpec, className: string): string[] {
+  const params = definitionParams(f.params);
+  const qualifier = isConst(f) ? " const" : "";
+  const signature = (name: string, returnType = f.return_type) => `${returnType} ${className}::${name}(${params})${qualifier}\n`;
+  switch (f.kind) {
+    case "BlueprintImplementableEvent":
+      // Implemented in Blueprint only
+      return [];
+    case "BlueprintNativeEvent":
+      return [signature(`${f.name}_Implementation`) + body(f.return_type)];
+    case "Server":
+    case "Client":
+    case "NetMulticast": {
+      const definitions = [signature(`${f.name}_Implementation`) + body(f.return_type)];
+      if (f.with_validation) definitions.push(signature(`${f.name}_Validate`, "bool") + `{\n\treturn true;\n}\n`);
+      return definitions;
+    }
+    default:
+      return [signature(f.name) + body(f.return_type)];
+  }
+}
+
+// Scene components attach; plain actor components do not. Walk the index's
+// parent chain; the bases below cover the gaps in the built-in list.
+const SCENE_BASES = new Set(["USceneComponent", "UPrimitiveComponent", "UMeshComponent", "UShapeComponent", "UFXSystemComponent"]);
+const NON_SCENE_BASES = new Set(["UActorComponent", "UGameFrameworkComponent", "UInputComponent", "UMovementComponent", "UPawnMovementComponent"]);
+
+function componentKind(type: string, classes: UE5ClassInfo[]): "scene" | "actor" | undefined {
+  const seen = new Set<string>();
+  for (let name: string | undefined = type; name && !seen.has(name); ) {
+    if (SCENE_BASES.has(name)) return "scene";
+    if (NON_SCENE_BASES.has(name)) return "actor";
+    seen.add(name);
+    name = classes.find((c) => c.name === name)?.parent;
+  }
+  return undefined;
+}
+
+export interface SpecTarget {
+  /** C++ class name, with prefix */
+  className: string;
+  /** Category for members that do not set one */
+  category: string;
+  /** Components need an actor owner */
+  ownerIsActor: boolean;
+  /** Access for properties that do not set one (default protected) */
+  propertyAccess?: Access;
+}
+
+/**
+ * The code for a class spec. Throws on names used twice or specs that cannot
+ * compile, e.g. WithValidation on a non-RPC.
+ */
+export function renderClassSpec(spec: ClassSpec, { className, category, ownerIsActor, propertyAccess }: SpecTarget): MemberCode {
+  const code = emptyMemberCode();
+  const defaultAccess = propertyAccess ?? "protected";
+  const names = [...spec.properties, ...spec.functions, ...spec.components].map((m) => m.name);
+  const duplicate = names.find((n, i) => names.indexOf(n) !== i);
+  if (duplicate) throw new Error(`"${duplicate}" is declared more than once in the spec`);
+
+  // Components
+  if (spec.components.length > 0 && !ownerIsActor) {
+    throw new Error("Default subobject components can only be added to actor classes");
+  }
+  const roots = spec.components.filter((c) => c.root);
+  if (roots.length > 1) throw new Error(`Only one component can be the root (got ${roots.map((c) => c.name).join(", ")})`);
+  const classes = spec.components.length > 0 ? allClasses() : [];
+  // Create every component, then set the root, then attach, so the order in the spec does not matter
+  const attachments: string[] = [];
+  for (const c of spec.components) {
+    code.declarations.protected.push(
+      `\t${macro("UPROPERTY", [...c.specifiers, `Category = "${c.category}"`])}\n\tTObjectPtr<${c.type}> ${c.name};\n`
+    );
+    code.forwardDeclarations.push(`class ${c.type};`);
+    const include = c.include ?? classes.find((k) => k.name === c.type)?.headerPath;
+    if (include) code.sourceIncludes.push(include);
+    else code.notes.push(`No header known for ${c.type}; add its #include to the .cpp (or pass \`include\`).`);
+    code.constructor.push(`${c.name} = CreateDefaultSubobject<${c.type}>(TEXT("${c.name}"));`);
+    if (c.root) continue;
+
+    let parent = c.attach_to;
+    if (parent === undefined) {
+      const kind = componentKind(c.type, classes);
+      if (kind === "scene") parent = roots[0]?.name ?? "RootComponent";
+      else if (kind === undefined) code.notes.push(`${c.type} is not in the API index; if it is a scene component, set \`attach_to\`.`);
+    }
+    if (parent && parent !== "none") {
+      if (parent !== "RootComponent" && !spec.components.some((o) => o.name === parent)) {
+        throw new Error(`Component "${c.name}" attaches to "${parent}", which is not a component in the spec`);
+      }
+      attachments.push(`${c.name}->SetupAttachment(${parent});`);
+    }
+  }
+  if (roots.length === 1) code.constructor.push(`RootComponent = ${roots[0].name};`);
+  code.constructor.push(...attachments);
+
+  // Properties, with their OnRep functions declared after them
+  const repNotifies: string[] = [];
+  for (const p of spec.properties) {
+    code.declarations[p.access ?? defaultAccess].push(propertyDeclaration(p, category));
+    if (isReplicated(p)) {
+      code.replicated.push(
+        p.rep_condition
+          ? `DOREPLIFETIME_CONDITION(${className}, ${p.name}, ${p.rep_condition});`
+          : `DOREPLIFETIME(${className}, ${p.name});`
+      );
+    }
+    if (p.rep_notify) {
+      repNotifies.push(`\tUFUNCTION()\n\tvoid OnRep_${p.name}();\n`);
+      code.definitions.push(`void ${className}::OnRep_${p.name}()\n{\n\t// React to the new ${p.name} on clients\n}\n`);
+    }
+  }
+
+  code.declarations.protected.push(...repNotifies);
+
+  // Functions
+  for (const f of spec.functions) {
+    const isRpc = RPC_KINDS.includes(f.kind);
+    if (f.with_validation && !isRpc) throw new Error(`${f.name}: with_validation only applies to Server, Client and NetMulticast functions`);
+    if (isRpc && f.return_type !== "void") throw new Error(`${f.name}: RPCs must return void`);
+    code.declarations[f.access].push(functionDeclaration(f, category));
+    code.definitions.push(...functionDefinitions(f, className));
+  }
+
+  return code;
+}
+
+/** Whether a spec needs GetLifetimeReplicatedProps or a replicating owner. */
+export function specReplicates(spec: ClassSpec): boolean {
+  return spec.properties.some(isReplicated) || spec.functions.some((f) => RPC_KINDS.includes(f.kind));
+}
@@ -0,0 +1,115 @@
+// Where a new class's files go in a project: the module's Public/ and Private/
+// folders (or the module folder itself for a flat module), inside the subfolder
+// the module already uses for that kind of class, e.g. Public/Characters.
+
+import { readdir } from "node:fs/promises";
+import { basename, isAbsolute, join, relative, sep } from "node:path";
+import { scanProjectModules } from "./module-graph.js";
+import { isInside } from "./project-files.js";
+
+export interface ClassPlacement {
+  module: string;
+  moduleDir: string;
+  headerPath: string;
+  sourcePath: string;
+  /** How the .cpp (and other code) includes the header */
+  includePath: string;
+  /** Subfolder used under Public/ and Private/, if any */
+  subfolder?: string;
+}
+
+async function subdirectories(dir: string): Promise<string[]> {
+  try {
+    return (await readdir(dir, { withFileTypes: true })).filter((e) => e.isDirectory()).map((e) => e.name);
+  } catch {
+    return [];
+  }
+}
+
+/** A module of the project, by name; it must have a Build.cs and be listed in the .uproject or its plugin's .uplugin. */
+export async function findProjectModule(projectPath: string, moduleName: string): Promise<{ name: string; dir: string }> {
+  const project = await scanProjectModules(projectPath);
+  const listed = project.descriptors.flatMap((d) => d.modules.map((m) => ({ name: m.Name, descriptor: d.path })));
+  const entry = listed.find((m) => m.name === moduleName);
+  const module = project.modules.find((m) => m.name === moduleName);
+
+  if (!entry) {
+    const names = listed.map((m) => m.name);
+    throw new Error(
+      `"${moduleName}" is not a module of this project. Modules listed in its .uproject/.uplugin files: ${names.join(", ") || "none"}`
+    );
+  }
+  if (!module) {
+    throw new Error(`${basename(entry.descriptor)} lists module "${moduleName}" but no ${moduleName}.Build.cs was found under Source/ or Plugins/`);
+  }
+  return { name: module.name, dir: module.dir };
+}
+
+function assertInModule(moduleDir: string, ...paths: string[]): void {
+  const outside = paths.find((p) => !isInside(moduleDir, p));
+  if (outside) throw new Error(`${outside} is outside the module folder ${moduleDir}`);
+}
+
+/**
+ * Paths for {fileName}.h/.cpp in a module. An explicit subfolder wins; otherwise
+ * the first of `folderHints` that already exists under Public/ is used, matching
+ * its spelling, and the same name is used under Private/.
+ */
+export async function placeClassFiles(
+  projectPath: string,
+  moduleName: string,
+  fileName: string,
+  folderHints: string[],
+  subfolder?: string
+): Promise<ClassPlacement> {
+  const module = await findProjectModule(projectPath, moduleName);
+  const dirs = await subdirectories(module.dir);
+  const publicDir = dirs.find((d) => d === "Public");
+  const privateDir = dirs.find((d) => d === "Private");
+
+  // Flat module: header and source side by side
+  if (!publicDir && !privateDir && !subfolder) {
+    const headerPath = join(module.dir, `${fileName}.h`);
+    const sourcePath = join(module.dir, `${fileName}.cpp`);
+    assertInModule(module.dir, headerPath, sourcePath);
+    return {
+      module: module.name,
+      moduleDir: module.dir,
+      headerPath,
+      sourcePath,
+      includePath: `${fileName}.h`,
+    };
+  }
+
+  if (subfolder !== undefined && (isAbsolute(subfolder) || /^[A-Za-z]:/.test(subfolder))) {
+    throw new Error(`subfolder must be relative to Public/ and Private/, got "${subfolder}"`);
+  }
+  let folder = subfolder?.replace(/\\/g, "/").replace(/^\/+|\/+$/g, "");
+  if (folder?.split("/").some((part) => part === ".." || part === ".")) {
+    throw new Error(`subfolder cannot contain "." or ".." segments, got "${subfolder}"`);
+  }
+  if (!folder) {
+    const existing = await subdirectories(join(module.dir, "Public"));
+    for (const hint of folderHints) {
+      folder = existing.find((d) => d.toLowerCase() === hint.toLowerCase());
+      if (folder) break;
+    }
+  }
+
+  // Reuse Private/'s spelling when it already has the folder
+  const privateFolder = folder
+    ? ((await subdirectories(join(module.dir, "Private"))).find((d) => d.toLowerCase() === folder!.toLowerCase()) ?? folder)
+    : undefined;
+
+  const headerPath = join(module.dir, "Public", ...(folder ? folder.split("/") : []), `${fileName}.h`);
+  const sourcePath = join(module.dir, "Private", ...(privateFolder ? privateFolder.split("/") : []), `${fileName}.cpp`);
+  assertInModule(module.dir, headerPath, sourcePath);
+  return {
+    module: module.name,
+    moduleDir: module.dir,
+    headerPath,
+    sourcePath,
+    includePath: relative(join(module.dir, "Public"), headerPath).split(sep).join("/"),
+    subfolder: folder,
+  };
+}
@@ -0,0 +1,128 @@
+// The engine's config layering for one category (Engine, Game, Input, …): each
+// file is applied on top of the ones before it, so the effective value of a key
+// is whatever the last layer to touch it left behind.
+//
+//   Base      Engine/Config/Base.ini, Engine/Config/Base{Category}.ini,
+//             Engine/Config/{Platform}/Base{Platform}{Category}.ini
+//   Default   {Project}/Config/Default{Category}.ini
+//   Platform  Engine/Config/{Platform}/{Platform}{Category}.ini, {Project}/Config/{Platform}/{Platform}{Category}.ini
+//   Saved     {Project}/Saved/Config/{Platform}Editor/{Category}.ini, {Project}/Saved/Config/{Platform}/{Category}.ini
+//
+// Engine layers need an engine directory; Platform and Saved layers need a platform.
+
+import { join } from "node:path";
+import { readOptionalFile } from "./project-files.js";
+import { applyIniOp, IniOp, IniSection, parseIni, sameIniName } from "./ini.js";
+
+export const CONFIG_LAYERS = ["Base", "Default", "Platform", "Saved"] as const;
+export type ConfigLayerName = (typeof CONFIG_LAYERS)[number];
+
+export interface ConfigHierarchyOptions {
+  projectPath: string;
+  /** Engine, Game, Input, Editor, … */
+  category: string;
+  /** Windows, Linux, Mac, Android, IOS, … */
+  platform?: string;
+  /** Engine install or source directory (containing Engine/Config) */
+  enginePath?: string;
+}
+
+export interface ConfigFile {
+  layer: ConfigLayerName;
+  path: string;
+  /** Undefined when the file does not exist */
+  sections?: IniSection[];
+}
+
+/** Where one value came from. */
+export interface ConfigValue {
+  value: string;
+  file: string;
+  line: number;
+  op: IniOp;
+}
+
+export interface ResolvedKey {
+  section: string;
+  key: string;
+  values: ConfigValue[];
+  /** Every entry that touched the key, in the order they were applied */
+  history: ConfigValue[];
+}
+
+/** Effective config: section → key (lower-cased) → resolution. */
+export type ResolvedConfig = Map<string, Map<string, ResolvedKey>>;
+
+export function configFilePaths(options: ConfigHierarchyOptions): { layer: ConfigLayerName; path: string }[] {
+  const { projectPath, category, platform, enginePath } = options;
+  const engineConfig = enginePath ? join(enginePath, "Engine", "Config") : undefined;
+  const files: { layer: ConfigLayerName; path: string }[] = [];
+
+  if (engineConfig) {
+    files.push({ layer: "Base", path: join(engineConfig, "Base.ini") });
+    files.push({ layer: "Base", path: join(engineConfig, `Base${category}.ini`) });
+    // The engine's platform base sits under the project's defaults
+    if (platform) files.push({ layer: "Base", path: join(engineConfig, platform, `Base${platform}${category}.ini`) });
+  }
+  files.push({ layer: "Default", path: join(projectPath, "Config", `Default${category}.ini`) });
+  if (platform) {
+    if (engineConfig) {
+      files.push({ layer: "Platform", path: join(engineConfig, platform, `${platform}${category}.ini`) });
+    }
+    files.push({ layer: "Platform", path: join(projectPath, "Config", platform, `${platform}${category}.ini`) });
+    files.push({ layer: "Saved", path: join(projectPath, "Saved", "Config", `${platform}Editor`, `${category}.ini`) });
+    files.push({ layer: "Saved", path: join(projectPath, "Saved", "Config", platform, `${category}.ini`) });
+  }
+  return files;
+}
+
+export async function loadConfigHierarchy(options: ConfigHierarchyOptions): Promise<ConfigFile[]> {
+  return Promise.all(
+    configFilePaths(options).map(async ({ layer, path }) => {
+      const text = await readOptionalFile(path);
+      return { layer, path, sections: text === undefined ? undefined : parseIni(text) };
+    })
+  );
+}
+
+/** Apply every file in order and return the effective values with their provenance. */
+export function resolveConfig(files: ConfigFile[]): ResolvedConfig {
+  const resolved: ResolvedConfig = new Map();
+  // Section names are matched case-insensitively but shown as first written
+  const sectionKeys = new Map<string, string>();
+
+  for (const file of files) {
+    for (const section of file.sections ?? []) {
+      const sectionKey = section.name.toLowerCase();
+      if (!sectionKeys.has(sectionKey)) {
+        sectionKeys.set(sectionKey, section.name);
+        resolved.set(section.name, new Map());
+      }
+      const keys = resolved.get(sectionKeys.get(sectionKey)!)!;
+
+      for (const entry of section.entries) {
+        const id = entry.key.toLowerCase();
+        let key = keys.get(id);
+        if (!key) {
+          key = { section: sectionKeys.get(sectionKey)!, key: entry.key, values: [], history: [] };
+          keys.set(id, key);
+        }
+        const source: ConfigValue = { value: entry.value, file: file.path, line: entry.line, op: entry.op };
+        key.history.push(source);
+        key.values = applyIniOp(key.values, entry.op, source);
+      }
+    }
+  }
+  return resolved;
+}
+
+export function findSection(config: ResolvedConfig, section: string): Map<string, ResolvedKey> | undefined {
+  for (const [name, keys] of config) {
+    if (sameIniName(name, section)) return keys;
+  }
+  return undefined;
+}
+
+export function findKey(config: ResolvedConfig, section: string, key: string): ResolvedKey | undefined {
+  return findSection(config, section)?.get(key.toLowerCase());
+}
@@ -0,0 +1,272 @@
+// .uproject and .uplugin descriptors: locating them, validating them against the
+// engine's descriptor schema, and editing them through json-edit so the files
+// keep their formatting.
+
+import { readdir, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { z } from "zod";
+import { appendJsonItem, parseJsonTree, setJsonValue, stripBom } from "./json-edit.js";
+
+export type DescriptorKind = "uproject" | "uplugin";
+
+// EHostType
+export const MODULE_TYPES = [
+  "Runtime",
+  "RuntimeNoCommandlet",
+  "RuntimeAndProgram",
+  "CookedOnly",
+  "UncookedOnly",
+  "Developer",
+  "DeveloperTool",
+  "Editor",
+  "EditorNoCommandlet",
+  "EditorAndProgram",
+  "Program",
+  "ServerOnly",
+  "ClientOnly",
+  "ClientOnlyNoCommandlet",
+] as const;
+
+// ELoadingPhase
+export const LOADING_PHASES = [
+  "EarliestPossible",
+  "PostConfigInit",
+  "PostSplashScreen",
+  "PreEarlyLoadingScreen",
+  "PreLoadingScreen",
+  "PreDefault",
+  "Default",
+  "PostDefault",
+  "PostEngineInit",
+  "None",
+] as const;
+
+// --- Locating ---
+
+/** Path of the .uproject file in a project directory; throws when there is none. */
+export async function findUprojectFile(projectPath: string): Promise<string> {
+  const files = await readdir(projectPath);
+  const uproject = files.find((f) => f.endsWith(".uproject"));
+  if (!uproject) {
+    throw new Error(`No .uproject file found in "${projectPath}". Is this a valid UE5 project directory?`);
+  }
+  return join(projectPath, uproject);
+}
+
+/** A .uproject/.uplugin path as given, or the .uproject inside a project directory. */
+export async function resolveDescriptorPath(path: string): Promise<{ path: string; kind: DescriptorKind }> {
+  if (path.endsWith(".uproject")) return { path, kind: "uproject" };
+  if (path.endsWith(".uplugin")) return { path, kind: "uplugin" };
+  if (!(await stat(path)).isDirectory()) {
+    throw new Error(`"${path}" is neither a .uproject/.uplugin file nor a project directory`);
+  }
+  return { path: await findUprojectFile(path), kind: "uproject" };
+}
+
+// --- Schema ---
+
+const ModuleSchema = z
+  .object({
+    Name: z.string().regex(/^[A-Za-z_]\w*$/, "Module names must be valid C++ identifiers"),
+    Type: z.enum(MODULE_TYPES),
+    LoadingPhase: z.enum(LOADING_PHASES).optional(),
+    AdditionalDependencies: z.array(z.string()).optional(),
+    PlatformAllowList: z.array(z.string()).optional(),
+    PlatformDenyList: z.array(z.string()).optional(),
+    TargetAllowList: z.array(z.string()).optional(),
+    TargetDenyList: z.array(z.string()).optional(),
+  })
+  .passthrough();
+
+const PluginReferenceSchema = z
+  .object({
+    Name: z.string().min(1),
+    Enabled: z.boolean(),
+    Optional: z.boolean().optional(),
+    MarketplaceURL: z.string().optional(),
+    SupportedTargetPlatforms: z.array(z.string()).optional(),
+    PlatformAllowList: z.array(z.string()).optional(),
+    PlatformDenyList: z.array(z.string()).optional(),
+    TargetAllowList: z.array(z.string()).optional(),
+    TargetDenyList: z.array(z.string()).optional(),
+  })
+  .passthrough();
+
+const UprojectSchema = z
+  .object({
+    FileVersion: z.number().int(),
+    EngineAssociation: z.string().optional(),
+    Category: z.string().optional(),
+    Description: z.string().optional(),
+    Modules: z.array(ModuleSchema).optional(),
+    Plugins: z.array(PluginReferenceSchema).optional(),
+    TargetPlatforms: z.array(z.string()).optional(),
+    AdditionalPluginDirectories: z.array(z.string()).optional(),
+    AdditionalRootDirectories: z.array(z.string()).optional(),
+    DisableEnginePluginsByDefault: z.boolean().optional(),
+  })
+  .passthrough();
+
+const UpluginSchema = z
+  .object({
+    FileVersion: z.number().int(),
+    Version: z.number().int().optional(),
+    VersionName: z.string().optional(),
+    FriendlyName: z.string().optional(),
+    Description: z.string().optional(),
+    Category: z.string().optional(),
+    CreatedBy: z.string().optional(),
+    CreatedByURL: z.string().optional(),
+    DocsURL: z.string().optional(),
+    MarketplaceURL: z.string().optional(),
+    SupportURL: z.string().optional(),
+    EngineVersion: z.string().optional(),
+    CanContainContent: z.boolean().optional(),
+    IsBetaVersion: z.boolean().optional(),
+    IsExperimentalVersion: z.boolean().optional(),
+    Installed: z.boolean().optional(),
+    EnabledByDefault: z.boolean().optional(),
+    Modules: z.array(ModuleSchema).optional(),
+    Plugins: z.array(PluginReferenceSchema).optional(),
+  })
+  .passthrough();
+
+// --- Validation ---
+
+// UE writes descriptors without a BOM, but editors on Windows may add one
+function parseDescriptor(text: string): any {
+  return JSON.parse(stripBom(text));
+}
+
+export interface DescriptorIssue {
+  severity: "error" | "warning";
+  /** Where in the descriptor, e.g. Modules[1].Type */
+  path: string;
+  message: string;
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path.map((p, i) => (typeof p === "number" ? `[${p}]` : i === 0 ? p : `.${p}`)).join("") || "(root)";
+}
+
+// "5.4", a source build's {GUID}, or empty for a build next to the project
+function isEngineAssociation(value: string): boolean {
+  return value === "" || /^\d+\.\d+$/.test(value) || /^\{?[0-9A-Fa-f]{8}(-?[0-9A-Fa-f]{4}){3}-?[0-9A-Fa-f]{12}\}?$/.test(value);
+}
+
+export function validateDescriptor(kind: DescriptorKind, text: string): DescriptorIssue[] {
+  try {
+    parseJsonTree(text);
+  } catch (err) {
+    return [{ severity: "error", path: "(root)", message: `Invalid JSON: ${err instanceof Error ? err.message : String(err)}` }];
+  }
+  const descriptor = parseDescriptor(text);
+  const issues: DescriptorIssue[] = [];
+
+  const schema = kind === "uproject" ? UprojectSchema : UpluginSchema;
+  const parsed = schema.safeParse(descriptor);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      const field = issue.path[issue.path.length - 1];
+      const message =
+        issue.code === "invalid_enum_value"
+          ? `Unknown ${field} "${issue.received}"; expected one of ${issue.options.join(", ")}`
+          : issue.message;
+      issues.push({ severity: "error", path: formatPath(issue.path), message });
+    }
+  }
+
+  if (descriptor?.FileVersion !== undefined && descriptor.FileVersion !== 3) {
+    issues.push({ severity: "warning", path: "FileVersion", message: `FileVersion ${descriptor.FileVersion}; current engines write 3` });
+  }
+  if (kind === "uproject" && typeof descriptor?.EngineAssociation === "string" && !isEngineAssociation(descriptor.EngineAssociation)) {
+    issues.push({
+      severity: "warning",
+      path: "EngineAssociation",
+      message: `"${descriptor.EngineAssociation}" is not an engine version (5.4), a source build GUID, or empty`,
+    });
+  }
+
+  // Module names must be unique, ignoring case
+  const modules: any[] = Array.isArray(descriptor?.Modules) ? descriptor.Modules : [];
+  const seenModules = new Map<string, number>();
+  modules.forEach((m, i) => {
+    if (typeof m?.Name !== "string") return;
+    const first = seenModules.get(m.Name.toLowerCase());
+    if (first === undefined) seenModules.set(m.Name.toLowerCase(), i);
+    else issues.push({ severity: "error", path: `Modules[${i}]`, message: `Duplicate module "${m.Name}" (also Modules[${first}])` });
+  });
+
+  // A plugin listed twice is ambiguous; listed as both enabled and disabled, the engine picks one silently
+  const plugins: any[] = Array.isArray(descriptor?.Plugins) ? descriptor.Plugins : [];
+  const seenPlugins = new Map<string, number>();
+  plugins.forEach((p, i) => {
+    if (typeof p?.Name !== "string") return;
+    const first = seenPlugins.get(p.Name.toLowerCase());
+    if (first === undefined) {
+      seenPlugins.set(p.Name.toLowerCase(), i);
+    } else if (plugins[first].Enabled !== p.Enabled) {
+      issues.push({
+        severity: "error",
+        path: `Plugins[${i}]`,
+        message: `Plugin "${p.Name}" is both enabled and disabled (Plugins[${first}] and Plugins[${i}])`,
+      });
+    } else {
+      issues.push({ severity: "warning", path: `Plugins[${i}]`, message: `Plugin "${p.Name}" is listed twice (also Plugins[${first}])` });
+    }
+  });
+
+  return issues;
+}
+
+/** Errors in the edited text that the original did not already have. */
+export function newDescriptorErrors(kind: DescriptorKind, before: string, after: string): DescriptorIssue[] {
+  const key = (i: DescriptorIssue) => `${i.path}\u0000${i.message}`;
+  const existing = new Set(validateDescriptor(kind, before).map(key));
+  return validateDescriptor(kind, after).filter((i) => i.severity === "error" && !existing.has(key(i)));
+}
+
+// --- Edits ---
+
+function entriesNamed(text: string, field: "Modules" | "Plugins", name: string): number[] {
+  const list: any[] = parseDescriptor(text)[field] ?? [];
+  return list.flatMap((entry, i) => (entry?.Name?.toLowerCase() === name.toLowerCase() ? [i] : []));
+}
+
+/** Enable or disable a plugin reference, adding it when the descriptor has none. */
+export function setPluginEnabled(text: string, pluginName: string, enabled: boolean): string {
+  const descriptor = parseDescriptor(text);
+  if (!Array.isArray(descriptor.Plugins)) {
+    return setJsonValue(text, ["Plugins"], [{ Name: pluginName, Enabled: enabled }]);
+  }
+  const matches = entriesNamed(text, "Plugins", pluginName);
+  if (matches.length > 1) {
+    throw new Error(`Plugin "${pluginName}" is listed ${matches.length} times; remove the duplicates first (see ue5_validate_descriptor)`);
+  }
+  if (matches.length === 0) return appendJsonItem(text, ["Plugins"], { Name: pluginName, Enabled: enabled });
+  if (descriptor.Plugins[matches[0]].Enabled === enabled) return text;
+  return setJsonValue(text, ["Plugins", matches[0], "Enabled"], enabled);
+}
+
+export interface ModuleSpec {
+  Name: string;
+  Type: (typeof MODULE_TYPES)[number];
+  LoadingPhase: (typeof LOADING_PHASES)[number];
+  AdditionalDependencies?: string[];
+}
+
+export function addModule(text: string, module: ModuleSpec): string {
+  if (entriesNamed(text, "Modules", module.Name).length > 0) {
+    throw new Error(`Module "${module.Name}" is already in the descriptor`);
+  }
+  return Array.isArray(parseDescriptor(text).Modules)
+    ? appendJsonItem(text, ["Modules"], module)
+    : setJsonValue(text, ["Modules"], [module]);
+}
+
+export function setEngineAssociation(text: string, association: string): string {
+  if (!isEngineAssociation(association)) {
+    throw new Error(`"${association}" is not an engine version (e.g. 5.4), a source build GUID, or empty`);
+  }
+  return parseDescriptor(text).EngineAssociation === association ? text : setJsonValue(text, ["EngineAssociation"], association);
+}
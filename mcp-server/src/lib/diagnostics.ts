@@ -0,0 +1,294 @@
+// Connection checks that ue5_diagnose runs from the server itself, replacing the
+// lsof/curl/docker commands the troubleshooting guide asks users to type. Each
+// check passes, fails, warns or is skipped because an earlier one failed, and
+// every failure carries the fix to try.
+
+import { lookup } from "node:dns/promises";
+import { Socket } from "node:net";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { rcFetch, RcClientConfig } from "./rc-client.js";
+import { RcWebSocketConfig } from "./rc-websocket.js";
+import { AutomationBridgeConfig } from "./automation-bridge.js";
+import { getIniValue, parseIni } from "./ini.js";
+
+export const RC_SETTINGS_SECTION = "/Script/RemoteControlAPI.RemoteControlSettings";
+
+// Engine defaults when DefaultEngine.ini leaves the ports unset
+const RC_DEFAULT_HTTP_PORT = 30010;
+const RC_DEFAULT_WS_PORT = 30020;
+
+const KISMET_MATH_LIBRARY = "/Script/Engine.Default__KismetMathLibrary";
+
+// Beyond this the editor and server clocks disagree enough to confuse event timestamps
+const MAX_CLOCK_SKEW_MS = 2000;
+const SLOW_LATENCY_MS = 50;
+
+export type CheckStatus = "pass" | "fail" | "warn" | "skip";
+
+export interface DiagnosticCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+  /** What to do about a failure or warning */
+  remediation?: string;
+}
+
+export interface DiagnosticsTarget {
+  http: RcClientConfig;
+  ws: RcWebSocketConfig;
+  bridge: AutomationBridgeConfig;
+  /** A closed bridge port fails instead of warning when the bridge is the active backend */
+  bridgeRequired: boolean;
+  /** Project directory containing Config/DefaultEngine.ini; the ini checks are skipped without it */
+  projectPath?: string;
+  timeoutMs: number;
+  /** Round trips for the latency measurement */
+  samples: number;
+}
+
+function message(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function tcpConnect(host: string, port: number, timeoutMs: number): Promise<{ ok: true; ms: number } | { ok: false; error: string }> {
+  const started = Date.now();
+  return new Promise((resolve) => {
+    const socket = new Socket();
+    socket.setTimeout(timeoutMs);
+    socket.once("connect", () => {
+      resolve({ ok: true, ms: Date.now() - started });
+      socket.destroy();
+    });
+    socket.once("timeout", () => {
+      resolve({ ok: false, error: `timed out after ${timeoutMs / 1000}s` });
+      socket.destroy();
+    });
+    socket.once("error", (err: any) => resolve({ ok: false, error: err.code || err.message }));
+    socket.connect(port, host);
+  });
+}
+
+/** Parse an FDateTime as Remote Control returns it ("2024.05.01-13.45.10") or an ISO string. */
+export function parseUeDateTime(value: unknown): number | undefined {
+  if (typeof value !== "string") return undefined;
+  const ue = value.match(/^(\d{4})\.(\d{2})\.(\d{2})-(\d{2})\.(\d{2})\.(\d{2})(?:\.(\d{1,3}))?$/);
+  if (ue) {
+    const [, y, mo, d, h, mi, s, ms] = ue;
+    return Date.UTC(+y, +mo - 1, +d, +h, +mi, +s, ms ? +ms.padEnd(3, "0") : 0);
+  }
+  const iso = Date.parse(value);
+  return Number.isNaN(iso) ? undefined : iso;
+}
+
+// --- Checks ---
+
+async function checkDns(host: string): Promise<DiagnosticCheck> {
+  const name = `DNS resolution of ${host}`;
+  try {
+    const addresses = await lookup(host, { all: true });
+    return { name, status: "pass", detail: addresses.map((a) => a.address).join(", ") };
+  } catch (err: any) {
+    return {
+      name,
+      status: "fail",
+      detail: err.code || message(err),
+      remediation:
+        "Check UE5_HOST (or the editor target's host). Inside Docker use the editor's service name on a shared network, or host.docker.internal for an editor on the host.",
+    };
+  }
+}
+
+async function checkPort(label: string, host: string, port: number, timeoutMs: number, required: boolean, remediation: string): Promise<DiagnosticCheck> {
+  const name = `TCP ${host}:${port} (${label})`;
+  const result = await tcpConnect(host, port, timeoutMs);
+  if (result.ok) return { name, status: "pass", detail: `connected in ${result.ms}ms` };
+  return { name, status: required ? "fail" : "warn", detail: result.error, remediation };
+}
+
+async function checkRemoteInfo(config: RcClientConfig): Promise<DiagnosticCheck> {
+  const name = `HTTP GET http://${config.host}:${config.port}/remote/info`;
+  try {
+    const res = await rcFetch("/remote/info", "GET", undefined, config);
+    if (res.ok) {
+      const routes = Array.isArray(res.data?.HttpRoutes) ? res.data.HttpRoutes.length : 0;
+      return { name, status: "pass", detail: `HTTP ${res.status}, ${routes} routes` };
+    }
+    if (res.status === 401 || res.status === 403) {
+      return {
+        name,
+        status: "fail",
+        detail: `HTTP ${res.status}`,
+        remediation: "The editor requires a passphrase. Set UE5_RC_PASSPHRASE (or the editor target's passphrase) to the value in Project Settings → Remote Control.",
+      };
+    }
+    return {
+      name,
+      status: "fail",
+      detail: `HTTP ${res.status}`,
+      remediation: "Something other than Remote Control answered on this port. Check RemoteControlHttpServerPort in DefaultEngine.ini and that no other service uses the port.",
+    };
+  } catch (err) {
+    return {
+      name,
+      status: "fail",
+      detail: message(err),
+      remediation: "The port accepts connections but the request failed. Make sure the editor has finished loading and is not blocked by a modal dialog.",
+    };
+  }
+}
+
+async function checkLatency(config: RcClientConfig, samples: number): Promise<DiagnosticCheck[]> {
+  const times: number[] = [];
+  let skewMs: number | undefined;
+  let clockDetail = "editor did not return a parseable UtcNow";
+
+  for (let i = 0; i < samples; i++) {
+    const sent = Date.now();
+    try {
+      const res = await rcFetch(
+        "/remote/object/call",
+        "PUT",
+        { objectPath: KISMET_MATH_LIBRARY, functionName: "UtcNow", parameters: {} },
+        config,
+        { idempotent: true }
+      );
+      const received = Date.now();
+      times.push(received - sent);
+      const editorTime = res.ok ? parseUeDateTime(res.data?.ReturnValue) : undefined;
+      // Compare against the midpoint of the round trip; FDateTime strings carry whole seconds
+      if (editorTime !== undefined && skewMs === undefined) {
+        skewMs = editorTime - (sent + received) / 2;
+        clockDetail = `editor clock ${skewMs >= 0 ? "+" : ""}${(skewMs / 1000).toFixed(1)}s relative to the server`;
+      }
+    } catch {
+      // A lost sample shows up as fewer round trips below
+    }
+  }
+
+  const latency: DiagnosticCheck = { name: "Round-trip latency", status: "pass", detail: "" };
+  if (times.length === 0) {
+    latency.status = "fail";
+    latency.detail = `0 of ${samples} calls answered`;
+    latency.remediation = "Function calls fail although /remote/info answers. Check the editor's Output Log (LogRemoteControl) for errors.";
+  } else {
+    const avg = times.reduce((a, b) => a + b, 0) / times.length;
+    latency.detail = `min ${Math.min(...times)}ms / avg ${avg.toFixed(0)}ms / max ${Math.max(...times)}ms over ${times.length} calls`;
+    if (avg > SLOW_LATENCY_MS) {
+      latency.status = "warn";
+      latency.remediation = "Calls are slow. Run the server next to the editor (Docker --network host or the same machine) and avoid VPN hops.";
+    }
+  }
+
+  const clock: DiagnosticCheck = { name: "Clock skew", status: "skip", detail: clockDetail };
+  if (skewMs !== undefined) {
+    const outOfSync = Math.abs(skewMs) > MAX_CLOCK_SKEW_MS;
+    clock.status = outOfSync ? "warn" : "pass";
+    if (outOfSync) clock.remediation = "Sync both machines with NTP (e.g. timedatectl set-ntp true) so event and snapshot timestamps line up.";
+  }
+  return [latency, clock];
+}
+
+async function checkEngineIni(target: DiagnosticsTarget): Promise<DiagnosticCheck[]> {
+  const file = join(target.projectPath!, "Config", "DefaultEngine.ini");
+  let text: string;
+  try {
+    text = await readFile(file, "utf-8");
+  } catch (err: any) {
+    return [
+      {
+        name: "DefaultEngine.ini",
+        status: "fail",
+        detail: err.code === "ENOENT" ? `${file} not found` : message(err),
+        remediation: "Pass the project directory (the one containing the .uproject), or generate the settings with ue5_remote_control_setup.",
+      },
+    ];
+  }
+
+  const sections = parseIni(text);
+  const setup = "Add the settings from ue5_remote_control_setup and restart the editor.";
+  const checks: DiagnosticCheck[] = [];
+
+  const autoStart = getIniValue(sections, RC_SETTINGS_SECTION, "bAutoStartRemoteControl");
+  checks.push(
+    autoStart?.value.toLowerCase() === "true"
+      ? { name: "ini: bAutoStartRemoteControl", status: "pass", detail: `True (line ${autoStart.line})` }
+      : {
+          name: "ini: bAutoStartRemoteControl",
+          status: "fail",
+          detail: autoStart ? `${autoStart.value} (line ${autoStart.line})` : `not set in [${RC_SETTINGS_SECTION}]`,
+          remediation: `Set bAutoStartRemoteControl=True under [${RC_SETTINGS_SECTION}], or run WebControl.StartServer in the editor console each session. ${setup}`,
+        }
+  );
+
+  const ports: [string, number, number][] = [
+    ["RemoteControlHttpServerPort", target.http.port, RC_DEFAULT_HTTP_PORT],
+    ["RemoteControlWebSocketServerPort", target.ws.port, RC_DEFAULT_WS_PORT],
+  ];
+  for (const [key, expected, engineDefault] of ports) {
+    const entry = getIniValue(sections, RC_SETTINGS_SECTION, key);
+    const actual = entry ? parseInt(entry.value, 10) : engineDefault;
+    const where = entry ? `line ${entry.line}` : "engine default";
+    checks.push(
+      actual === expected
+        ? { name: `ini: ${key}`, status: "pass", detail: `${actual} (${where})` }
+        : {
+            name: `ini: ${key}`,
+            status: "fail",
+            detail: `${actual} (${where}), but the server connects to ${expected}`,
+            remediation: `Set ${key}=${expected} under [${RC_SETTINGS_SECTION}], or point the server at port ${actual}. ${setup}`,
+          }
+    );
+  }
+  return checks;
+}
+
+/** Run every check in dependency order: DNS, then ports, then HTTP and latency. */
+export async function runConnectionDiagnostics(target: DiagnosticsTarget): Promise<DiagnosticCheck[]> {
+  const { http, ws, bridge, timeoutMs } = target;
+  const config: RcClientConfig = { ...http, timeoutMs, retries: 0 };
+  const checks: DiagnosticCheck[] = [];
+  const skip = (name: string, reason: string) => checks.push({ name, status: "skip", detail: reason });
+
+  const dns = await checkDns(http.host);
+  checks.push(dns);
+
+  const portFix = (key: string, port: number) =>
+    `Nothing listens on ${port}. Start the editor with Remote Control enabled and check ${key}; on the editor machine \`lsof -i :${port}\` shows the listener, and a firewall may need \`ufw allow ${port}/tcp\`.`;
+  const bridgeFix =
+    "Nothing listens on the Automation Bridge port. Enable the McpAutomationBridge plugin and check MCP_AUTOMATION_HOST/MCP_AUTOMATION_PORT.";
+
+  // The bridge has its own host setting, so it is checked even when UE5_HOST does not resolve
+  const bridgePort = checkPort("Automation Bridge", bridge.host, bridge.port, timeoutMs, target.bridgeRequired, bridgeFix);
+  let httpOpen = false;
+  if (dns.status === "pass") {
+    const [httpPort, wsPort] = await Promise.all([
+      checkPort("Remote Control HTTP", http.host, http.port, timeoutMs, !target.bridgeRequired, portFix("RemoteControlHttpServerPort", http.port)),
+      checkPort("Remote Control WebSocket", ws.host, ws.port, timeoutMs, false, portFix("RemoteControlWebSocketServerPort", ws.port)),
+    ]);
+    checks.push(httpPort, wsPort);
+    httpOpen = httpPort.status === "pass";
+  } else {
+    skip("Remote Control ports", "host did not resolve");
+  }
+  checks.push(await bridgePort);
+
+  if (httpOpen) {
+    const info = await checkRemoteInfo(config);
+    checks.push(info);
+    if (info.status === "pass") {
+      checks.push(...(await checkLatency(config, target.samples)));
+    } else {
+      skip("Round-trip latency", "/remote/info failed");
+    }
+  } else {
+    skip("HTTP /remote/info", "Remote Control HTTP port is not reachable");
+  }
+
+  if (target.projectPath) {
+    checks.push(...(await checkEngineIni(target)));
+  } else {
+    skip("DefaultEngine.ini", "no project_path given");
+  }
+  return checks;
+}
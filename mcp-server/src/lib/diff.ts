@@ -0,0 +1,106 @@
+// Line-based unified diffs for showing file edits before they are written.
+
+export interface UnifiedDiffOptions {
+  /** Label for the original file; "/dev/null" marks a new file */
+  fromFile: string;
+  toFile: string;
+  /** Unchanged lines shown around each change */
+  context?: number;
+}
+
+type Op = { kind: " " | "-" | "+"; line: string };
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+// Cap on the LCS table (4 bytes per cell, so 16 MB); a changed region larger than
+// this is shown as a plain replacement instead of a minimal diff
+const MAX_LCS_CELLS = 4_000_000;
+
+// LCS over the lines between the common prefix and suffix, which keeps the table
+// small for the usual case of a few edits in a large file
+function diffLines(a: string[], b: string[]): Op[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: Op[] = a.slice(0, start).map((line) => ({ kind: " ", line }));
+  const n = endA - start;
+  const m = endB - start;
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    a.slice(start, endA).forEach((line) => ops.push({ kind: "-", line }));
+    b.slice(start, endB).forEach((line) => ops.push({ kind: "+", line }));
+  } else {
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    const at = (i: number, j: number) => i * (m + 1) + j;
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[at(i, j)] =
+          a[start + i] === b[start + j] ? lcs[at(i + 1, j + 1)] + 1 : Math.max(lcs[at(i + 1, j)], lcs[at(i, j + 1)]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        ops.push({ kind: " ", line: a[start + i] });
+        i++;
+        j++;
+      } else if (i < n && (j >= m || lcs[at(i + 1, j)] >= lcs[at(i, j + 1)])) {
+        ops.push({ kind: "-", line: a[start + i] });
+        i++;
+      } else {
+        ops.push({ kind: "+", line: b[start + j] });
+        j++;
+      }
+    }
+  }
+  a.slice(endA).forEach((line) => ops.push({ kind: " ", line }));
+  return ops;
+}
+
+/** Unified diff of two texts, or an empty string when they have the same lines. */
+export function unifiedDiff(before: string, after: string, options: UnifiedDiffOptions): string {
+  const context = options.context ?? 3;
+  const ops = diffLines(splitLines(before), splitLines(after));
+  if (ops.every((op) => op.kind === " ")) return "";
+
+  // Group changes whose context windows touch into one hunk
+  const changed = ops.map((op, k) => (op.kind === " " ? -1 : k)).filter((k) => k >= 0);
+  const hunks: [number, number][] = [];
+  for (const k of changed) {
+    const from = Math.max(0, k - context);
+    const to = Math.min(ops.length, k + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && from <= last[1]) last[1] = to;
+    else hunks.push([from, to]);
+  }
+
+  let out = `--- ${options.fromFile}\n+++ ${options.toFile}\n`;
+  // Line numbers at the hunk start, counted over the ops before it
+  let oldLine = 1;
+  let newLine = 1;
+  let counted = 0;
+  for (const [from, to] of hunks) {
+    for (; counted < from; counted++) {
+      if (ops[counted].kind !== "+") oldLine++;
+      if (ops[counted].kind !== "-") newLine++;
+    }
+    const body = ops.slice(from, to);
+    const oldCount = body.filter((op) => op.kind !== "+").length;
+    const newCount = body.filter((op) => op.kind !== "-").length;
+    out += `@@ -${oldCount ? oldLine : oldLine - 1},${oldCount} +${newCount ? newLine : newLine - 1},${newCount} @@\n`;
+    out += body.map((op) => `${op.kind}${op.line}\n`).join("");
+  }
+  return out;
+}
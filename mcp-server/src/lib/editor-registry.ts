@@ -0,0 +1,157 @@
+// Named UE5 editor connections. The "default" target always mirrors the
+// UE5_HOST/UE5_RC_PORT environment; extra targets come from UE5_EDITORS or the
+// ue5_add_editor tool, and one of them is active at a time.
+
+import { z } from "zod";
+import { createRcClient, getRcConfig, RcClient, RcClientConfig, rcFetch } from "./rc-client.js";
+import { getRcWebSocketConfig, RcWebSocketConfig } from "./rc-websocket.js";
+
+export interface EditorTarget {
+  name: string;
+  host: string;
+  port: number;
+  wsPort?: number;
+  passphrase?: string;
+  description?: string;
+}
+
+export interface EditorHealth {
+  status: "online" | "offline" | "error";
+  checkedAt: string;
+  latencyMs?: number;
+  message?: string;
+  /** Raw /remote/info payload when the editor answered */
+  info?: any;
+}
+
+export const DEFAULT_EDITOR = "default";
+
+const targets = new Map<string, EditorTarget>();
+const health = new Map<string, EditorHealth>();
+let activeEditor = DEFAULT_EDITOR;
+
+/** Optional `editor` argument shared by every editor-facing tool. */
+export const EditorSchema = z
+  .string()
+  .optional()
+  .describe("Named editor target (see ue5_list_editors). Defaults to the active editor");
+
+function defaultTarget(): EditorTarget {
+  const config = getRcConfig();
+  return {
+    name: DEFAULT_EDITOR,
+    host: config.host,
+    port: config.port,
+    wsPort: parseInt(process.env.UE5_RC_WS_PORT || "30020", 10),
+    passphrase: config.passphrase,
+    description: "From UE5_HOST / UE5_RC_PORT",
+  };
+}
+
+// UE5_EDITORS="level=10.0.0.5:30010,lighting=10.0.0.6:30010"
+function loadEnvTargets() {
+  for (const entry of (process.env.UE5_EDITORS || "").split(",")) {
+    const match = entry.trim().match(/^([\w-]+)=([^:]+):(\d+)$/);
+    if (match) {
+      targets.set(match[1], { name: match[1], host: match[2], port: parseInt(match[3], 10), description: "From UE5_EDITORS" });
+    }
+  }
+}
+loadEnvTargets();
+
+export function listEditors(): EditorTarget[] {
+  return [defaultTarget(), ...targets.values()];
+}
+
+export function getEditor(name: string): EditorTarget | undefined {
+  return name === DEFAULT_EDITOR ? defaultTarget() : targets.get(name);
+}
+
+export function addEditor(target: EditorTarget): void {
+  if (target.name === DEFAULT_EDITOR) {
+    throw new Error(`"${DEFAULT_EDITOR}" is reserved for the UE5_HOST/UE5_RC_PORT environment target`);
+  }
+  targets.set(target.name, target);
+  health.delete(target.name);
+}
+
+export function removeEditor(name: string): boolean {
+  if (activeEditor === name) activeEditor = DEFAULT_EDITOR;
+  health.delete(name);
+  return targets.delete(name);
+}
+
+export function getActiveEditorName(): string {
+  return activeEditor;
+}
+
+export function useEditor(name: string): EditorTarget {
+  const target = getEditor(name);
+  if (!target) {
+    throw new Error(`Unknown editor "${name}". Known editors: ${listEditors().map((e) => e.name).join(", ")}`);
+  }
+  activeEditor = name;
+  return target;
+}
+
+/** Client configuration for a named editor, or the active one when no name is given. */
+export function resolveEditorConfig(name?: string): RcClientConfig {
+  const target = getEditor(name ?? activeEditor);
+  if (!target) {
+    throw new Error(`Unknown editor "${name}". Use ue5_list_editors to see the registered targets.`);
+  }
+  return {
+    ...getRcConfig(),
+    host: target.host,
+    port: target.port,
+    passphrase: target.passphrase ?? getRcConfig().passphrase,
+  };
+}
+
+export function resolveEditorWebSocketConfig(name?: string): RcWebSocketConfig {
+  const target = getEditor(name ?? activeEditor);
+  if (!target) {
+    throw new Error(`Unknown editor "${name}". Use ue5_list_editors to see the registered targets.`);
+  }
+  const defaults = getRcWebSocketConfig();
+  return {
+    ...defaults,
+    host: target.host,
+    port: target.wsPort ?? defaults.port,
+    passphrase: target.passphrase ?? defaults.passphrase,
+  };
+}
+
+export function getEditorClient(name?: string): RcClient {
+  return createRcClient(resolveEditorConfig(name));
+}
+
+export function getEditorHealth(name: string): EditorHealth | undefined {
+  return health.get(name);
+}
+
+/** Probe /remote/info once (no retries, short timeout) and remember the outcome. */
+export async function checkEditorHealth(name: string, timeoutMs = 2000): Promise<EditorHealth> {
+  const config = { ...resolveEditorConfig(name), timeoutMs, retries: 0 };
+  const started = Date.now();
+  let result: EditorHealth;
+  try {
+    const res = await rcFetch("/remote/info", "GET", undefined, config);
+    result = res.ok
+      ? { status: "online", checkedAt: new Date().toISOString(), latencyMs: Date.now() - started, info: res.data }
+      : {
+          status: "error",
+          checkedAt: new Date().toISOString(),
+          latencyMs: Date.now() - started,
+          message: `HTTP ${res.status}`,
+        };
+  } catch (err) {
+    result = {
+      status: "offline",
+      checkedAt: new Date().toISOString(),
+      message: err instanceof Error ? err.message : String(err),
+    };
+  }
+  health.set(name, result);
+  return result;
+}
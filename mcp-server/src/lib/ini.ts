@@ -0,0 +1,197 @@
+// Unreal's .ini dialect: [Section] headers followed by Key=Value lines, with ';'
+// comments. A key may carry an array operator — "+Key" adds a value unless it is
+// already present, ".Key" adds it regardless, "-Key" removes it and "!Key" clears
+// every value — while a plain "Key" replaces all earlier values, so a repeated
+// plain key keeps the last one. Sections and keys match case-insensitively, as the
+// engine does.
+
+export type IniOp = "set" | "add" | "append" | "remove" | "clear";
+
+const OP_PREFIXES: Record<string, IniOp> = { "+": "add", ".": "append", "-": "remove", "!": "clear" };
+const PREFIX_FOR_OP: Record<IniOp, string> = { set: "", add: "+", append: ".", remove: "-", clear: "!" };
+
+export interface IniEntry {
+  key: string;
+  /** Value with surrounding quotes removed; struct values like (X=1,Name="a") stay as written */
+  value: string;
+  op: IniOp;
+  /** 1-based line number in the source text */
+  line: number;
+}
+
+export interface IniSection {
+  name: string;
+  line: number;
+  entries: IniEntry[];
+}
+
+export function sameIniName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/** Strip the quotes from a "quoted string" value and resolve its escapes. */
+export function unquoteIniValue(raw: string): string {
+  if (raw.length < 2 || !raw.startsWith('"') || !raw.endsWith('"')) return raw;
+  const body = raw.slice(1, -1);
+  // "a" + "b" style values are not one quoted string; leave them alone
+  if (/(^|[^\\])"/.test(body)) return raw;
+  return body.replace(/\\(.)/g, (_, c: string) => (c === "n" ? "\n" : c === "t" ? "\t" : c));
+}
+
+export function quoteIniValue(value: string): string {
+  return /^\s|\s$|^"|^$/.test(value) ? `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"` : value;
+}
+
+/** Source line for an entry, e.g. "+Paths=/Game/Foo". */
+export function formatIniEntry(key: string, value: string, op: IniOp = "set"): string {
+  return op === "clear" ? `!${key}=ClearArray` : `${PREFIX_FOR_OP[op]}${key}=${value}`;
+}
+
+function parseEntryLine(line: string): Omit<IniEntry, "line"> | undefined {
+  const op = OP_PREFIXES[line[0]] ?? "set";
+  const body = op === "set" ? line : line.slice(1);
+  const eq = body.indexOf("=");
+  // "!Key" needs no value
+  if (eq === -1) return op === "clear" && body.trim() ? { key: body.trim(), value: "", op } : undefined;
+  const key = body.slice(0, eq).trim();
+  if (!key) return undefined;
+  return { key, value: unquoteIniValue(body.slice(eq + 1).trim()), op };
+}
+
+export function parseIni(text: string): IniSection[] {
+  const sections: IniSection[] = [];
+  let current: IniSection | undefined;
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith(";") || line.startsWith("#")) return;
+
+    const header = line.match(/^\[(.+)\]$/);
+    if (header) {
+      current = { name: header[1].trim(), line: i + 1, entries: [] };
+      sections.push(current);
+      return;
+    }
+
+    const entry = current && parseEntryLine(line);
+    if (entry) current!.entries.push({ ...entry, line: i + 1 });
+  });
+
+  return sections;
+}
+
+/** Apply one entry's operator to a key's current values. */
+export function applyIniOp<T extends { value: string }>(values: T[], op: IniOp, next: T): T[] {
+  switch (op) {
+    case "set":
+      return [next];
+    case "add":
+      return values.some((v) => v.value === next.value) ? values : [...values, next];
+    case "append":
+      return [...values, next];
+    case "remove": {
+      const at = values.findIndex((v) => v.value === next.value);
+      return at === -1 ? values : [...values.slice(0, at), ...values.slice(at + 1)];
+    }
+    case "clear":
+      return [];
+  }
+}
+
+/** Last entry that sets or adds a value for a key in a section, or undefined. */
+export function getIniValue(sections: IniSection[], section: string, key: string): IniEntry | undefined {
+  let found: IniEntry | undefined;
+  for (const s of sections) {
+    if (!sameIniName(s.name, section)) continue;
+    for (const entry of s.entries) {
+      if (sameIniName(entry.key, key) && entry.op !== "remove" && entry.op !== "clear") found = entry;
+    }
+  }
+  return found;
+}
+
+// --- Editing ---
+
+interface IniLines {
+  lines: string[];
+  eol: string;
+  trailingEol: boolean;
+  /** Line ranges [header, end) of every block of the section being edited */
+  blocks: [number, number][];
+}
+
+function splitForEdit(text: string, section: string): IniLines {
+  const eol = text.includes("\r\n") ? "\r\n" : "\n";
+  const lines = text === "" ? [] : text.split(/\r?\n/);
+  const trailingEol = lines.length > 0 && lines[lines.length - 1] === "";
+  if (trailingEol) lines.pop();
+
+  const blocks: [number, number][] = [];
+  lines.forEach((raw, i) => {
+    const header = raw.trim().match(/^\[(.+)\]$/);
+    if (!header) return;
+    const open = blocks[blocks.length - 1];
+    if (open && open[1] === -1) open[1] = i;
+    if (sameIniName(header[1].trim(), section)) blocks.push([i, -1]);
+  });
+  const open = blocks[blocks.length - 1];
+  if (open && open[1] === -1) open[1] = lines.length;
+  return { lines, eol, trailingEol, blocks };
+}
+
+// Inserts after the last non-blank line of the section's last block, so a blank
+// separator stays below; a missing section is appended to the file
+function insertLines(edit: IniLines, section: string, added: string[]): void {
+  const { lines, blocks } = edit;
+  const last = blocks[blocks.length - 1];
+  if (last) {
+    let at = last[1];
+    while (at > last[0] + 1 && lines[at - 1].trim() === "") at--;
+    lines.splice(at, 0, ...added);
+  } else {
+    if (lines.length > 0 && lines[lines.length - 1].trim() !== "") lines.push("");
+    lines.push(`[${section}]`, ...added);
+  }
+}
+
+function joinLines(edit: IniLines, grew: boolean): string {
+  return edit.lines.join(edit.eol) + (edit.trailingEol || grew ? edit.eol : "");
+}
+
+/**
+ * Set keys in one section, touching only the lines involved: existing plain keys
+ * are updated in place, missing ones go after the section's last entry, and a
+ * missing section is appended. Comments, other sections and line endings are kept.
+ */
+export function setIniValues(text: string, section: string, values: Record<string, string>): string {
+  const edit = splitForEdit(text, section);
+  const { lines, blocks } = edit;
+
+  const missing: string[] = [];
+  for (const [key, value] of Object.entries(values)) {
+    let found = -1;
+    for (const [header, end] of blocks) {
+      for (let i = header + 1; i < end; i++) {
+        const entry = parseEntryLine(lines[i].trim());
+        if (entry?.op === "set" && sameIniName(entry.key, key) && !lines[i].trim().startsWith(";")) found = i;
+      }
+    }
+    if (found === -1) {
+      missing.push(formatIniEntry(key, value));
+    } else {
+      const current = lines[found];
+      lines[found] = `${current.slice(0, current.indexOf("=")).trimEnd()}=${value}`;
+    }
+  }
+
+  if (missing.length > 0) insertLines(edit, section, missing);
+  return joinLines(edit, missing.length > 0);
+}
+
+/** Append array-operator lines ("+Key=…", "-Key=…", "!Key=ClearArray") to a section. */
+export function appendIniEntries(text: string, section: string, entries: { key: string; value: string; op: IniOp }[]): string {
+  if (entries.length === 0) return text;
+  const edit = splitForEdit(text, section);
+  insertLines(edit, section, entries.map((e) => formatIniEntry(e.key, e.value, e.op)));
+  return joinLines(edit, true);
+}
@@ -0,0 +1,224 @@
+// Formatting-preserving edits to JSON text. The text is parsed into a tree of
+// offsets, and each edit splices only the value it changes, indenting new lines
+// like their neighbours, so the rest of the file (key order, spacing, inline
+// arrays, line endings, a leading byte order mark) comes through untouched.
+
+export type JsonPath = (string | number)[];
+
+export interface JsonNode {
+  type: "object" | "array" | "string" | "number" | "boolean" | "null";
+  /** Offsets of the value in the text, end exclusive */
+  start: number;
+  end: number;
+  properties?: { key: string; value: JsonNode }[];
+  items?: JsonNode[];
+}
+
+export class JsonSyntaxError extends Error {
+  constructor(message: string, readonly offset: number, text: string) {
+    const before = text.slice(0, offset);
+    const line = before.split("\n").length;
+    const column = offset - before.lastIndexOf("\n");
+    super(`${message} at line ${line}, column ${column}`);
+  }
+}
+
+// --- Parsing ---
+
+/** The text without a leading UTF-8 byte order mark, which JSON.parse rejects. */
+export function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+export function parseJsonTree(text: string): JsonNode {
+  // Offsets stay relative to the full text, so edits splice around the BOM
+  let pos = text.length - stripBom(text).length;
+
+  const fail = (message: string): never => {
+    throw new JsonSyntaxError(message, pos, text);
+  };
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+  const expect = (char: string) => {
+    if (text[pos] !== char) fail(`Expected '${char}'`);
+    pos++;
+  };
+
+  function parseString(): string {
+    const start = pos;
+    expect('"');
+    while (pos < text.length && text[pos] !== '"') {
+      if (text[pos] === "\\") pos++;
+      if (text[pos] === "\n") fail("Unterminated string");
+      pos++;
+    }
+    expect('"');
+    return JSON.parse(text.slice(start, pos));
+  }
+
+  function parseValue(): JsonNode {
+    skipWhitespace();
+    const start = pos;
+    const c = text[pos];
+
+    if (c === "{") {
+      pos++;
+      const properties: { key: string; value: JsonNode }[] = [];
+      skipWhitespace();
+      if (text[pos] === "}") {
+        pos++;
+        return { type: "object", start, end: pos, properties };
+      }
+      for (;;) {
+        skipWhitespace();
+        const key = parseString();
+        skipWhitespace();
+        expect(":");
+        properties.push({ key, value: parseValue() });
+        skipWhitespace();
+        if (text[pos] === ",") {
+          pos++;
+          continue;
+        }
+        expect("}");
+        return { type: "object", start, end: pos, properties };
+      }
+    }
+
+    if (c === "[") {
+      pos++;
+      const items: JsonNode[] = [];
+      skipWhitespace();
+      if (text[pos] === "]") {
+        pos++;
+        return { type: "array", start, end: pos, items };
+      }
+      for (;;) {
+        items.push(parseValue());
+        skipWhitespace();
+        if (text[pos] === ",") {
+          pos++;
+          continue;
+        }
+        expect("]");
+        return { type: "array", start, end: pos, items };
+      }
+    }
+
+    if (c === '"') {
+      parseString();
+      return { type: "string", start, end: pos };
+    }
+
+    const literal = text.slice(pos).match(/^(true|false|null|-?\d+(\.\d+)?([eE][+-]?\d+)?)/);
+    if (!literal) return fail("Unexpected character");
+    pos += literal[0].length;
+    const type = literal[0] === "null" ? "null" : literal[0] === "true" || literal[0] === "false" ? "boolean" : "number";
+    return { type, start, end: pos };
+  }
+
+  const root = parseValue();
+  skipWhitespace();
+  if (pos < text.length) fail("Unexpected content after the JSON value");
+  return root;
+}
+
+export function findJsonNode(root: JsonNode, path: JsonPath): JsonNode | undefined {
+  let node: JsonNode | undefined = root;
+  for (const segment of path) {
+    if (!node) return undefined;
+    node =
+      typeof segment === "number"
+        ? node.items?.[segment]
+        : node.properties?.filter((p) => p.key === segment).pop()?.value;
+  }
+  return node;
+}
+
+// --- Formatting ---
+
+function eolOf(text: string): string {
+  return text.includes("\r\n") ? "\r\n" : "\n";
+}
+
+/** One level of indentation as the file uses it; tabs, as UE writes descriptors, when unknown. */
+export function detectIndentUnit(text: string): string {
+  return text.match(/^([ \t]+)"/m)?.[1] ?? "\t";
+}
+
+function lineIndentAt(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+  return text.slice(lineStart).match(/^[ \t]*/)![0];
+}
+
+function isMultiline(text: string, node: JsonNode): boolean {
+  return text.slice(node.start, node.end).includes("\n");
+}
+
+function formatJsonValue(value: unknown, baseIndent: string, unit: string, eol: string): string {
+  return JSON.stringify(value, null, unit).split("\n").join(eol + baseIndent);
+}
+
+function splice(text: string, start: number, end: number, insert: string): string {
+  return text.slice(0, start) + insert + text.slice(end);
+}
+
+// Adds one entry ("key": value or a bare item) at the end of an object or array;
+// entry() gets the indentation of the new line, or undefined to stay on one line
+function appendEntry(text: string, container: JsonNode, entry: (indent?: string) => string): string {
+  const children = container.type === "object" ? container.properties!.map((p) => p.value) : container.items!;
+  const eol = eolOf(text);
+  const unit = detectIndentUnit(text);
+  const close = container.end - 1;
+
+  if (children.length === 0) {
+    const outer = lineIndentAt(text, container.start);
+    return splice(text, container.start + 1, close, `${eol}${outer}${unit}${entry(outer + unit)}${eol}${outer}`);
+  }
+
+  const last = children[children.length - 1];
+  if (!isMultiline(text, container)) {
+    return splice(text, last.end, last.end, `, ${entry()}`);
+  }
+  // A property's value starts on its key's line, so this is the key's indentation too
+  const indent = lineIndentAt(text, last.start);
+  return splice(text, last.end, last.end, `,${eol}${indent}${entry(indent)}`);
+}
+
+// --- Edits ---
+
+/** Replace the value at a path, or add the property when the parent object lacks it. */
+export function setJsonValue(text: string, path: JsonPath, value: unknown): string {
+  const root = parseJsonTree(text);
+  const unit = detectIndentUnit(text);
+  const eol = eolOf(text);
+
+  const existing = findJsonNode(root, path);
+  if (existing) {
+    const indent = lineIndentAt(text, existing.start);
+    // Keep scalars and inline containers on one line, as they were
+    const formatted = isMultiline(text, existing) ? formatJsonValue(value, indent, unit, eol) : JSON.stringify(value);
+    return splice(text, existing.start, existing.end, formatted);
+  }
+
+  const key = path[path.length - 1];
+  const parent = findJsonNode(root, path.slice(0, -1));
+  if (!parent || parent.type !== "object" || typeof key !== "string") {
+    throw new Error(`Cannot set ${path.join(".")}: the parent is not an object`);
+  }
+  return appendEntry(text, parent, (indent) =>
+    indent === undefined ? `${JSON.stringify(key)}: ${JSON.stringify(value)}` : `${JSON.stringify(key)}: ${formatJsonValue(value, indent, unit, eol)}`
+  );
+}
+
+/** Append an item to the array at a path. */
+export function appendJsonItem(text: string, path: JsonPath, value: unknown): string {
+  const array = findJsonNode(parseJsonTree(text), path);
+  if (!array || array.type !== "array") throw new Error(`Cannot append to ${path.join(".")}: not an array`);
+  const unit = detectIndentUnit(text);
+  const eol = eolOf(text);
+  return appendEntry(text, array, (indent) =>
+    indent === undefined ? JSON.stringify(value) : formatJsonValue(value, indent, unit, eol)
+  );
+}
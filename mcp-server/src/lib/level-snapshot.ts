@@ -0,0 +1,320 @@
+// Level snapshots: capture every actor's class, label, transform and a chosen set
+// of properties to JSON, diff two captures, and plan the requests that put a level
+// back the way a snapshot recorded it.
+
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { basename, join, resolve } from "node:path";
+import { isInside } from "./project-files.js";
+import { RcClient, RcRequest, toRcError } from "./rc-client.js";
+
+export interface SnapshotVector {
+  X: number;
+  Y: number;
+  Z: number;
+}
+
+export interface SnapshotRotator {
+  Pitch: number;
+  Yaw: number;
+  Roll: number;
+}
+
+export interface ActorSnapshot {
+  path: string;
+  className: string;
+  label: string;
+  location: SnapshotVector;
+  rotation: SnapshotRotator;
+  scale: SnapshotVector;
+  /** Tracked property values keyed as given ("bHidden", "LightComponent0.Intensity") */
+  properties: Record<string, any>;
+}
+
+export interface LevelSnapshot {
+  version: 1;
+  name: string;
+  createdAt: string;
+  editor: { name: string; host: string; port: number };
+  /** Property names that were requested for every actor */
+  properties: string[];
+  actors: ActorSnapshot[];
+}
+
+export interface ActorChange {
+  path: string;
+  label: string;
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface LevelDiff {
+  added: ActorSnapshot[];
+  removed: ActorSnapshot[];
+  /** Location, rotation or scale changes */
+  moved: ActorChange[];
+  /** Label, class or tracked property changes */
+  changed: ActorChange[];
+  unchanged: number;
+}
+
+export interface DiffTolerance {
+  /** Units for location and scale components */
+  distance: number;
+  /** Degrees for rotation components */
+  angle: number;
+}
+
+const EDITOR_ACTOR_SUBSYSTEM = "/Script/UnrealEd.Default__EditorActorSubsystem";
+const SNAPSHOT_VERSION = 1;
+// Keep /remote/batch payloads well below the editor's request size limits
+export const SNAPSHOT_BATCH_SIZE = 200;
+
+export function getSnapshotDir(): string {
+  return resolve(process.env.UE5_SNAPSHOT_DIR || join(process.cwd(), ".ue5-snapshots"));
+}
+
+// --- Capture ---
+
+function readCall(objectPath: string, functionName: string): RcRequest {
+  return {
+    path: "/remote/object/call",
+    method: "PUT",
+    body: { objectPath, functionName, parameters: {}, generateTransaction: false },
+  };
+}
+
+function readProperty(objectPath: string, propertyName: string): RcRequest {
+  return {
+    path: "/remote/object/property",
+    method: "PUT",
+    body: { objectPath, propertyName, access: "READ_ACCESS" },
+  };
+}
+
+/** "LightComponent0.Intensity" → component path + property; plain names target the actor. */
+function propertyTarget(actorPath: string, key: string): { objectPath: string; propertyName: string } {
+  const dot = key.lastIndexOf(".");
+  return dot === -1
+    ? { objectPath: actorPath, propertyName: key }
+    : { objectPath: `${actorPath}.${key.slice(0, dot)}`, propertyName: key.slice(dot + 1) };
+}
+
+async function runBatched(rc: RcClient, requests: RcRequest[]) {
+  const results = [];
+  for (let i = 0; i < requests.length; i += SNAPSHOT_BATCH_SIZE) {
+    results.push(...(await rc.batch(requests.slice(i, i + SNAPSHOT_BATCH_SIZE), { idempotent: true })));
+  }
+  return results;
+}
+
+export async function captureLevelSnapshot(
+  rc: RcClient,
+  options: { name: string; editorName: string; properties?: string[] }
+): Promise<LevelSnapshot> {
+  const properties = options.properties ?? [];
+  const list = await rc.call(EDITOR_ACTOR_SUBSYSTEM, "GetAllLevelActors", undefined, {
+    idempotent: true,
+    generateTransaction: false,
+  });
+  if (!list.ok) throw toRcError(list);
+  const actorPaths: string[] = list.data?.ReturnValue || [];
+
+  // Fixed reads per actor, followed by one read per tracked property
+  const fixed = ["describe", "K2_GetActorLocation", "K2_GetActorRotation", "GetActorScale3D", "GetActorLabel"];
+  const perActor = fixed.length + properties.length;
+  const requests: RcRequest[] = [];
+  for (const path of actorPaths) {
+    requests.push({ path: "/remote/object/describe", method: "PUT", body: { objectPath: path } });
+    for (const fn of fixed.slice(1)) requests.push(readCall(path, fn));
+    for (const key of properties) {
+      const target = propertyTarget(path, key);
+      requests.push(readProperty(target.objectPath, target.propertyName));
+    }
+  }
+  const responses = await runBatched(rc, requests);
+
+  const actors: ActorSnapshot[] = [];
+  actorPaths.forEach((path, i) => {
+    const [describe, location, rotation, scale, label, ...props] = responses.slice(i * perActor, (i + 1) * perActor);
+    // Actors destroyed between the list and the batch simply drop out
+    if (!describe?.ok) return;
+
+    const values: Record<string, any> = {};
+    properties.forEach((key, p) => {
+      if (props[p]?.ok) values[key] = props[p].data?.[propertyTarget(path, key).propertyName];
+    });
+
+    actors.push({
+      path,
+      className: describe.data?.Class ?? "Unknown",
+      label: label?.ok ? label.data?.ReturnValue ?? "" : "",
+      location: location?.ok ? location.data?.ReturnValue : { X: 0, Y: 0, Z: 0 },
+      rotation: rotation?.ok ? rotation.data?.ReturnValue : { Pitch: 0, Yaw: 0, Roll: 0 },
+      scale: scale?.ok ? scale.data?.ReturnValue : { X: 1, Y: 1, Z: 1 },
+      properties: values,
+    });
+  });
+
+  return {
+    version: SNAPSHOT_VERSION,
+    name: options.name,
+    createdAt: new Date().toISOString(),
+    editor: { name: options.editorName, host: rc.config.host, port: rc.config.port },
+    properties,
+    actors,
+  };
+}
+
+// --- Storage ---
+
+export const SNAPSHOT_NAME = /^[\w.-]+$/;
+
+function invalidName(name: string): Error {
+  return new Error(`Invalid snapshot name "${name}": use letters, digits, '_', '-' and '.'`);
+}
+
+// The snapshot's file; names and explicit paths both have to stay inside the snapshot directory
+function snapshotFile(nameOrPath: string, dir: string): string {
+  if (!nameOrPath.endsWith(".json") && !SNAPSHOT_NAME.test(nameOrPath)) throw invalidName(nameOrPath);
+  const file = nameOrPath.endsWith(".json") ? resolve(dir, nameOrPath) : join(dir, `${nameOrPath}.json`);
+  if (!isInside(dir, file)) throw new Error(`Snapshot files must be inside ${dir}`);
+  return file;
+}
+
+export async function saveSnapshot(snapshot: LevelSnapshot, dir = getSnapshotDir()): Promise<string> {
+  if (!SNAPSHOT_NAME.test(snapshot.name)) throw invalidName(snapshot.name);
+  await mkdir(dir, { recursive: true });
+  const file = join(dir, `${snapshot.name}.json`);
+  await writeFile(file, JSON.stringify(snapshot, null, 2) + "\n", "utf-8");
+  return file;
+}
+
+export async function listSnapshots(dir = getSnapshotDir()): Promise<string[]> {
+  try {
+    return (await readdir(dir)).filter((f) => f.endsWith(".json")).map((f) => basename(f, ".json")).sort();
+  } catch {
+    return [];
+  }
+}
+
+/** Load by snapshot name or by .json path, either relative to or inside the snapshot directory. */
+export async function loadSnapshot(nameOrPath: string, dir = getSnapshotDir()): Promise<LevelSnapshot> {
+  const file = snapshotFile(nameOrPath, dir);
+  let raw: string;
+  try {
+    raw = await readFile(file, "utf-8");
+  } catch {
+    const known = await listSnapshots(dir);
+    throw new Error(
+      `Snapshot "${nameOrPath}" not found in ${dir}. ` +
+        (known.length > 0 ? `Available: ${known.join(", ")}` : "Create one with ue5_snapshot_level.")
+    );
+  }
+  const snapshot = JSON.parse(raw) as LevelSnapshot;
+  if (snapshot.version !== SNAPSHOT_VERSION || !Array.isArray(snapshot.actors)) {
+    throw new Error(`${file} is not a version ${SNAPSHOT_VERSION} level snapshot`);
+  }
+  return snapshot;
+}
+
+// --- Diff ---
+
+function vectorChanged(a: Record<string, number>, b: Record<string, number>, tolerance: number): boolean {
+  return Object.keys(a).some((k) => Math.abs((a[k] ?? 0) - (b?.[k] ?? 0)) > tolerance);
+}
+
+// Rotators wrap, so 359° and -1° are the same heading
+function angleChanged(a: SnapshotRotator, b: SnapshotRotator, tolerance: number): boolean {
+  return (["Pitch", "Yaw", "Roll"] as const).some((k) => {
+    const delta = Math.abs((((a[k] ?? 0) - (b?.[k] ?? 0)) % 360 + 540) % 360 - 180);
+    return delta > tolerance;
+  });
+}
+
+export function diffSnapshots(
+  before: LevelSnapshot,
+  after: LevelSnapshot,
+  tolerance: DiffTolerance = { distance: 0.01, angle: 0.01 }
+): LevelDiff {
+  const afterByPath = new Map(after.actors.map((a) => [a.path, a]));
+  const beforePaths = new Set(before.actors.map((a) => a.path));
+  const diff: LevelDiff = {
+    added: after.actors.filter((a) => !beforePaths.has(a.path)),
+    removed: before.actors.filter((a) => !afterByPath.has(a.path)),
+    moved: [],
+    changed: [],
+    unchanged: 0,
+  };
+
+  for (const old of before.actors) {
+    const now = afterByPath.get(old.path);
+    if (!now) continue;
+    const change = (list: ActorChange[], field: string, b: any, a: any) =>
+      list.push({ path: old.path, label: now.label || old.label, field, before: b, after: a });
+    const count = diff.moved.length + diff.changed.length;
+
+    if (vectorChanged(old.location as any, now.location as any, tolerance.distance)) {
+      change(diff.moved, "location", old.location, now.location);
+    }
+    if (angleChanged(old.rotation, now.rotation, tolerance.angle)) {
+      change(diff.moved, "rotation", old.rotation, now.rotation);
+    }
+    if (vectorChanged(old.scale as any, now.scale as any, tolerance.distance)) {
+      change(diff.moved, "scale", old.scale, now.scale);
+    }
+    if (old.label !== now.label) change(diff.changed, "label", old.label, now.label);
+    if (old.className !== now.className) change(diff.changed, "class", old.className, now.className);
+    for (const key of Object.keys(old.properties)) {
+      if (key in now.properties && JSON.stringify(old.properties[key]) !== JSON.stringify(now.properties[key])) {
+        change(diff.changed, key, old.properties[key], now.properties[key]);
+      }
+    }
+
+    if (diff.moved.length + diff.changed.length === count) diff.unchanged++;
+  }
+  return diff;
+}
+
+// --- Restore ---
+
+/** The write requests that turn the live state (as diffed) back into the snapshot. */
+export function buildRestoreRequests(snapshot: LevelSnapshot, diff: LevelDiff): RcRequest[] {
+  const byPath = new Map(snapshot.actors.map((a) => [a.path, a]));
+  const call = (objectPath: string, functionName: string, parameters: Record<string, any>): RcRequest => ({
+    path: "/remote/object/call",
+    method: "PUT",
+    body: { objectPath, functionName, parameters, generateTransaction: false },
+  });
+
+  const requests: RcRequest[] = [];
+  for (const change of [...diff.moved, ...diff.changed]) {
+    const actor = byPath.get(change.path)!;
+    switch (change.field) {
+      case "location":
+        requests.push(call(actor.path, "K2_SetActorLocation", { NewLocation: actor.location, bSweep: false, bTeleport: true }));
+        break;
+      case "rotation":
+        requests.push(call(actor.path, "K2_SetActorRotation", { NewRotation: actor.rotation, bTeleportPhysics: true }));
+        break;
+      case "scale":
+        requests.push(call(actor.path, "SetActorScale3D", { NewScale3D: actor.scale }));
+        break;
+      case "label":
+        requests.push(call(actor.path, "SetActorLabel", { NewActorLabel: actor.label }));
+        break;
+      case "class":
+        // A different class at the same path cannot be converted back in place
+        break;
+      default: {
+        const target = propertyTarget(actor.path, change.field);
+        requests.push({
+          path: "/remote/object/property",
+          method: "PUT",
+          body: { ...target, propertyValue: actor.properties[change.field] },
+        });
+      }
+    }
+  }
+  return requests;
+}
@@ -0,0 +1,216 @@
+// Checks reflection macros the way UHT and reviewers would: specifiers the macro
+// does not take, specifiers that cannot be combined, Blueprint exposure without a
+// Category, ReplicatedUsing functions that do not exist, meta keys that do not
+// apply to the property's type, and BlueprintPure functions that are not const.
+// Known specifiers, conflicts and meta key types come from data/specifiers.ts.
+// Only what the file itself says is checked; inherited functions and macros
+// expanded from other headers are not visible here.
+
+import { PropertyTypeClass, SPECIFIERS } from "../data/specifiers.js";
+import { MacroUse, parseMacroUses, ReflectionMacro } from "./reflection.js";
+import { splitTopLevel } from "./source-text.js";
+
+export type FindingSeverity = "error" | "warning";
+
+export interface MacroFinding {
+  severity: FindingSeverity;
+  line: number;
+  macro: ReflectionMacro;
+  /** What the macro is attached to, when it could be read */
+  target?: string;
+  message: string;
+}
+
+// --- Specifier tables ---
+
+// Specifier names and conflicting pairs per macro, from the specifier database
+const KNOWN_SPECIFIERS = {} as Record<ReflectionMacro, string[]>;
+const CONFLICTS = {} as Record<ReflectionMacro, [string, string][]>;
+for (const macro of ["UCLASS", "USTRUCT", "UENUM", "UINTERFACE", "UPROPERTY", "UFUNCTION"] as ReflectionMacro[]) {
+  const entries = SPECIFIERS.filter((s) => s.macro === macro && s.kind === "specifier");
+  KNOWN_SPECIFIERS[macro] = entries.map((s) => s.name);
+  const seen = new Set<string>();
+  CONFLICTS[macro] = entries.flatMap((s) =>
+    (s.conflicts ?? []).flatMap((other): [string, string][] => {
+      const key = [s.name, other].sort().join("|");
+      if (seen.has(key)) return [];
+      seen.add(key);
+      return [[s.name, other]];
+    })
+  );
+}
+
+const RPC_SPECIFIERS = ["Server", "Client", "NetMulticast"];
+
+// --- Property types ---
+
+const INTEGER = /^(u?int(8|16|32|64)|int|unsigned|uint8)$/;
+const NUMERIC = /^(u?int(8|16|32|64)|int|float|double|FVector\w*|FRotator\w*|FIntPoint|FIntVector\w*|FLinearColor|FColor|FQuat\w*|FVector2D|FVector4)$/;
+const TEXT_TYPE = /^(FString|FText)$/;
+const NAME_OR_STRING = /^(FName|FString|TArray<\s*(FName|FString)\s*>)$/;
+const OBJECT_REFERENCE = /^(TObjectPtr<.*>|TSoftObjectPtr<.*>|TWeakObjectPtr<.*>|TLazyObjectPtr<.*>|TSubclassOf<.*>|TSoftClassPtr<.*>|[UA]\w*\s*\*|FSoftObjectPath|FSoftClassPath|FPrimaryAssetId|FPrimaryAssetType|FComponentReference)$/;
+const CLASS_REFERENCE = /^(TSubclassOf<.*>|TSoftClassPtr<.*>|UClass\s*\*|TObjectPtr<\s*UClass\s*>|FSoftClassPath|FSoftObjectPath)$/;
+const WIDGET = /^(TObjectPtr<\s*U\w+\s*>|U\w+\s*\*)$/;
+
+// Element type of arrays, sets and maps (value type), so array properties take their element's meta
+function elementType(type: string): string {
+  const container = type.match(/^(TArray|TSet)<\s*(.*)\s*>$/) ?? type.match(/^TMap<[^,]+,\s*(.*)\s*>$/);
+  return container ? container[container.length - 1].trim() : type;
+}
+
+function normalizeType(type: string): string {
+  return type.replace(/\b(const|mutable|class|struct|enum)\s+/g, "").trim();
+}
+
+const TYPE_CLASSES: Record<PropertyTypeClass, (type: string) => boolean> = {
+  numeric: (t) => NUMERIC.test(elementType(t)),
+  integer: (t) => INTEGER.test(t),
+  bool: (t) => t === "bool" || t === "uint8",
+  text: (t) => TEXT_TYPE.test(elementType(t)),
+  name: (t) => NAME_OR_STRING.test(t) || NAME_OR_STRING.test(elementType(t)),
+  object: (t) => OBJECT_REFERENCE.test(elementType(t)),
+  class: (t) => CLASS_REFERENCE.test(elementType(t)),
+  widget: (t) => WIDGET.test(t),
+  widgetAnimation: (t) => /UWidgetAnimation/.test(t),
+  array: (t) => /^TArray</.test(t),
+  map: (t) => /^TMap</.test(t),
+  path: (t) => /^(FFilePath|FDirectoryPath)$/.test(elementType(t)),
+  gameplayTag: (t) => /^FGameplayTag(Container|Query)?$/.test(elementType(t)),
+};
+
+interface MetaRule {
+  appliesTo: (type: string) => boolean;
+  expected: string;
+}
+
+const PROPERTY_META = SPECIFIERS.filter((s) => s.macro === "UPROPERTY" && s.kind === "meta");
+
+const META_RULES: Record<string, MetaRule> = Object.fromEntries(
+  PROPERTY_META.filter((s) => s.propertyTypes).map((s) => [
+    s.name,
+    {
+      appliesTo: (type: string) => s.propertyTypes!.some((c) => TYPE_CLASSES[c](type)),
+      // Lower-cased to follow "applies to", unless it starts with a type name
+      expected: /^[A-Z][a-z]/.test(s.appliesTo) ? s.appliesTo[0].toLowerCase() + s.appliesTo.slice(1) : s.appliesTo,
+    },
+  ])
+);
+
+// Meta keys that belong on UFUNCTION, not UPROPERTY
+const FUNCTION_META = SPECIFIERS.filter(
+  (s) => s.macro === "UFUNCTION" && s.kind === "meta" && !SPECIFIERS.some((p) => p.macro === "UPROPERTY" && p.name === s.name)
+).map((s) => s.name);
+
+// --- Checking ---
+
+interface Specifier {
+  name: string;
+  value?: string;
+}
+
+function parseSpecifier(raw: string): Specifier {
+  const eq = raw.indexOf("=");
+  if (eq === -1) return { name: raw.trim() };
+  return { name: raw.slice(0, eq).trim(), value: raw.slice(eq + 1).trim() };
+}
+
+// Keys of meta = (A, B = "x") / meta = A
+function metaKeys(value: string | undefined): string[] {
+  if (!value) return [];
+  const inner = value.replace(/^\((.*)\)$/s, "$1");
+  return splitTopLevel(inner).map((entry) => parseSpecifier(entry).name);
+}
+
+function unquote(value: string | undefined): string | undefined {
+  return value?.replace(/^"(.*)"$/, "$1");
+}
+
+// Set by a specifier without a value, or with a value other than false
+function isSet(specifiers: Specifier[], name: string): boolean {
+  return specifiers.some((s) => s.name === name && unquote(s.value)?.toLowerCase() !== "false");
+}
+
+// Non-const reference parameters are Blueprint output pins
+function hasOutputParameter(signature: string): boolean {
+  const open = signature.indexOf("(");
+  const params = splitTopLevel(signature.slice(open + 1, signature.lastIndexOf(")")));
+  return params.some((p) => p.includes("&") && !/^const\b/.test(p.trim()));
+}
+
+function checkUse(use: MacroUse, uses: MacroUse[], source: string): MacroFinding[] {
+  const findings: MacroFinding[] = [];
+  const add = (severity: FindingSeverity, message: string) =>
+    findings.push({ severity, line: use.line, macro: use.macro, ...(use.name ? { target: use.name } : {}), message });
+  const specifiers = use.specifiers.map(parseSpecifier);
+  const known = KNOWN_SPECIFIERS[use.macro];
+
+  for (const s of specifiers) {
+    if (!known.some((k) => k.toLowerCase() === s.name.toLowerCase())) add("error", `Unknown ${use.macro} specifier "${s.name}"`);
+  }
+  for (const [a, b] of CONFLICTS[use.macro]) {
+    if (isSet(specifiers, a) && isSet(specifiers, b)) add("error", `${a} and ${b} cannot be combined`);
+  }
+  const hasCategory = specifiers.some((s) => s.name === "Category");
+
+  if (use.macro === "UPROPERTY") {
+    const exposed = ["BlueprintReadWrite", "BlueprintReadOnly"].filter((s) => isSet(specifiers, s));
+    if (exposed.length > 0 && !hasCategory) add("warning", `${exposed[0]} without a Category; UHT requires one in engine and plugin modules`);
+
+    const repUsing = specifiers.find((s) => s.name === "ReplicatedUsing");
+    if (repUsing) {
+      const fn = unquote(repUsing.value);
+      if (!fn) {
+        add("error", "ReplicatedUsing needs a function name");
+      } else if (!uses.some((u) => u.macro === "UFUNCTION" && u.name === fn && u.owner === use.owner)) {
+        const declared = new RegExp(String.raw`\b${fn}\s*\(`).test(source);
+        add(
+          "error",
+          declared
+            ? `ReplicatedUsing function ${fn} is not a UFUNCTION(); rep notifies must be reflected`
+            : `ReplicatedUsing function ${fn} is not declared${use.owner ? ` in ${use.owner}` : ""}`
+        );
+      }
+    }
+
+    const meta = metaKeys(specifiers.find((s) => s.name === "meta")?.value);
+    if (use.type) {
+      const type = normalizeType(use.type);
+      for (const key of meta) {
+        const rule = META_RULES[key];
+        if (rule && !rule.appliesTo(type)) add("warning", `meta ${key} applies to ${rule.expected}, not ${type}`);
+      }
+    }
+    for (const key of meta.filter((k) => FUNCTION_META.includes(k))) {
+      add("warning", `meta ${key} is a UFUNCTION meta key and has no effect on a property`);
+    }
+    if (meta.includes("BitmaskEnum") && !meta.includes("Bitmask")) add("warning", "meta BitmaskEnum has no effect without Bitmask");
+  }
+
+  if (use.macro === "UFUNCTION") {
+    const rpc = RPC_SPECIFIERS.find((s) => isSet(specifiers, s));
+    const blueprint = ["BlueprintCallable", "BlueprintPure", "BlueprintImplementableEvent", "BlueprintNativeEvent"].find((s) => isSet(specifiers, s));
+    const signature = use.type ?? "";
+    const returnsVoid = /^\s*(virtual\s+)?void\s/.test(signature);
+
+    if (rpc && !isSet(specifiers, "Reliable") && !isSet(specifiers, "Unreliable")) add("error", `${rpc} RPCs must be Reliable or Unreliable`);
+    if (!rpc && (isSet(specifiers, "Reliable") || isSet(specifiers, "Unreliable"))) add("error", "Reliable/Unreliable only apply to Server, Client and NetMulticast functions");
+    if (!rpc && isSet(specifiers, "WithValidation")) add("error", "WithValidation only applies to Server, Client and NetMulticast functions");
+    if (rpc && signature && !returnsVoid) add("error", `${rpc} RPCs must return void`);
+    if (blueprint && !hasCategory) add("warning", `${blueprint} without a Category; UHT requires one in engine and plugin modules`);
+
+    if (isSet(specifiers, "BlueprintPure") && signature) {
+      const isStatic = /^\s*static\b/.test(signature);
+      const isConst = /\)\s*const\b/.test(signature);
+      if (!isStatic && !isConst) add("warning", "BlueprintPure function is not const; pure nodes should not change state");
+      if (returnsVoid && !hasOutputParameter(signature)) add("error", "BlueprintPure functions need a return value or an output parameter");
+    }
+  }
+  return findings;
+}
+
+/** Check every reflection macro in a header or snippet. */
+export function validateMacros(source: string): { checked: number; findings: MacroFinding[] } {
+  const uses = parseMacroUses(source);
+  const findings = uses.flatMap((use) => checkUse(use, uses, source)).sort((a, b) => a.line - b.line);
+  return { checked: uses.length, findings };
+}
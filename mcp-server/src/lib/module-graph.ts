@@ -0,0 +1,421 @@
+// A project's C++ modules and how they depend on each other, built from the
+// Build.cs and Target.cs files under Source/ and Plugins/ and checked against the
+// .uproject/.uplugin Modules lists that tell the engine to load them.
+//
+// Whether a Public dependency could be Private is decided from #includes: it has
+// to be Public only when one of the module's Public (or Classes) headers includes
+// a header of that dependency. Engine modules can only be checked with an engine
+// directory to read their headers from.
+
+import { readdir, readFile } from "node:fs/promises";
+import { basename, dirname, join, relative, sep } from "node:path";
+import { DEPENDENCY_LISTS, listValues, parseRulesFile, RulesFile } from "./build-cs.js";
+import { stripBom } from "./json-edit.js";
+import { findFiles, SKIPPED_DIRS } from "./source-tree.js";
+
+// Engine modules that exist only in editor builds
+const EDITOR_ONLY_MODULES = [
+  "UnrealEd",
+  "EditorFramework",
+  "EditorStyle",
+  "EditorSubsystem",
+  "LevelEditor",
+  "PropertyEditor",
+  "BlueprintGraph",
+  "KismetCompiler",
+  "AssetTools",
+  "ContentBrowser",
+];
+
+const EDITOR_MODULE_TYPES = ["Editor", "EditorNoCommandlet", "EditorAndProgram", "UncookedOnly", "DeveloperTool"];
+
+export interface ModuleOwner {
+  kind: "project" | "plugin";
+  name: string;
+  /** The .uproject or .uplugin that lists (or should list) the module */
+  descriptor?: string;
+}
+
+export interface ProjectModule {
+  name: string;
+  dir: string;
+  rules: RulesFile;
+  owner: ModuleOwner;
+  /** Headers under Public/ and Classes/, relative to those folders */
+  publicHeaders: string[];
+}
+
+export interface DescriptorModules {
+  path: string;
+  modules: { Name: string; Type?: string }[];
+}
+
+export interface ProjectModules {
+  projectPath: string;
+  modules: ProjectModule[];
+  targets: RulesFile[];
+  descriptors: DescriptorModules[];
+}
+
+export type DependencyKind = "public" | "private" | "dynamic" | "include";
+
+export interface ModuleEdge {
+  from: string;
+  to: string;
+  kind: DependencyKind;
+  conditional: boolean;
+}
+
+export interface GraphIssue {
+  severity: "error" | "warning" | "info";
+  module?: string;
+  message: string;
+}
+
+export interface ModuleGraph {
+  modules: ProjectModule[];
+  /** Modules depended on that are not in the project (engine, marketplace plugins) */
+  external: string[];
+  edges: ModuleEdge[];
+  /** Groups of project modules that depend on each other in a loop */
+  cycles: string[][];
+  issues: GraphIssue[];
+  /** External Public dependencies whose headers could not be read, so were not checked */
+  unchecked: number;
+}
+
+const KIND_OF_LIST: Record<(typeof DEPENDENCY_LISTS)[number], DependencyKind> = {
+  PublicDependencyModuleNames: "public",
+  PrivateDependencyModuleNames: "private",
+  DynamicallyLoadedModuleNames: "dynamic",
+  PublicIncludePathModuleNames: "include",
+  PrivateIncludePathModuleNames: "include",
+};
+
+// --- Scanning ---
+
+async function publicHeaders(moduleDir: string): Promise<string[]> {
+  const headers: string[] = [];
+  for (const folder of ["Public", "Classes"]) {
+    const root = join(moduleDir, folder);
+    for (const file of await findFiles(root, (n) => n.endsWith(".h"), [])) {
+      headers.push(relative(root, file).split(sep).join("/"));
+    }
+  }
+  return headers;
+}
+
+async function readDescriptorModules(path: string): Promise<DescriptorModules> {
+  try {
+    const descriptor = JSON.parse(stripBom(await readFile(path, "utf-8")));
+    return { path, modules: Array.isArray(descriptor.Modules) ? descriptor.Modules : [] };
+  } catch {
+    return { path, modules: [] };
+  }
+}
+
+export async function scanProjectModules(projectPath: string): Promise<ProjectModules> {
+  const wanted = (n: string) => n.endsWith(".Build.cs") || n.endsWith(".Target.cs") || n.endsWith(".uplugin");
+  const files = [
+    ...(await findFiles(join(projectPath, "Source"), wanted, SKIPPED_DIRS)),
+    ...(await findFiles(join(projectPath, "Plugins"), wanted, SKIPPED_DIRS)),
+  ];
+
+  const uproject = (await readdir(projectPath)).find((f) => f.endsWith(".uproject"));
+  const descriptors = await Promise.all([
+    ...(uproject ? [readDescriptorModules(join(projectPath, uproject))] : []),
+    ...files.filter((f) => f.endsWith(".uplugin")).map(readDescriptorModules),
+  ]);
+  // The innermost plugin folder containing a module owns it
+  const plugins = descriptors.filter((d) => d.path.endsWith(".uplugin")).sort((a, b) => b.path.length - a.path.length);
+  const ownerOf = (dir: string): ModuleOwner => {
+    const plugin = plugins.find((p) => dir.startsWith(dirname(p.path) + sep));
+    if (plugin) return { kind: "plugin", name: basename(plugin.path, ".uplugin"), descriptor: plugin.path };
+    return { kind: "project", name: uproject ? basename(uproject, ".uproject") : basename(projectPath), descriptor: uproject && join(projectPath, uproject) };
+  };
+
+  const modules: ProjectModule[] = [];
+  const targets: RulesFile[] = [];
+  for (const file of files.filter((f) => f.endsWith(".cs"))) {
+    const rules = parseRulesFile(await readFile(file, "utf-8"), file);
+    if (!rules) continue;
+    if (rules.kind === "target") {
+      targets.push(rules);
+      continue;
+    }
+    const dir = dirname(file);
+    modules.push({ name: rules.name, dir, rules, owner: ownerOf(dir), publicHeaders: await publicHeaders(dir) });
+  }
+  return { projectPath, modules, targets, descriptors };
+}
+
+/**
+ * Public headers of engine modules, found by their Build.cs under Engine/Source
+ * and Engine/Plugins. Only the named modules are read.
+ */
+export async function engineModuleHeaders(enginePath: string, names: string[]): Promise<Map<string, string[]>> {
+  const wanted = new Set(names.map((n) => `${n}.Build.cs`));
+  // Module folders never nest other modules under these
+  const skip = [...SKIPPED_DIRS, "Public", "Private", "Classes", "Internal", "Resources", "Shaders", "Config", "Docs"];
+  const found = [
+    ...(await findFiles(join(enginePath, "Engine", "Source"), (n) => wanted.has(n), skip)),
+    ...(await findFiles(join(enginePath, "Engine", "Plugins"), (n) => wanted.has(n), skip)),
+  ];
+  const headers = new Map<string, string[]>();
+  for (const file of found) {
+    headers.set(basename(file, ".Build.cs"), await publicHeaders(dirname(file)));
+  }
+  return headers;
+}
+
+// --- Analysis ---
+
+export function moduleEdges(modules: ProjectModule[]): ModuleEdge[] {
+  const edges: ModuleEdge[] = [];
+  for (const module of modules) {
+    for (const list of DEPENDENCY_LISTS) {
+      for (const entry of module.rules.lists[list] ?? []) {
+        if (!entry.literal || entry.value === module.name) continue;
+        edges.push({ from: module.name, to: entry.value, kind: KIND_OF_LIST[list], conditional: entry.conditional });
+      }
+    }
+  }
+  return edges;
+}
+
+// Tarjan's strongly connected components; only loops are returned
+function findCycles(names: string[], edges: ModuleEdge[]): string[][] {
+  const next = new Map(names.map((n) => [n, [] as string[]]));
+  for (const e of edges) {
+    // Include-path dependencies are how modules break a loop, so they do not form one
+    if ((e.kind === "public" || e.kind === "private") && next.has(e.to)) next.get(e.from)!.push(e.to);
+  }
+
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (n: string) => {
+    index.set(n, index.size);
+    low.set(n, index.get(n)!);
+    stack.push(n);
+    onStack.add(n);
+    for (const m of next.get(n)!) {
+      if (!index.has(m)) {
+        visit(m);
+        low.set(n, Math.min(low.get(n)!, low.get(m)!));
+      } else if (onStack.has(m)) {
+        low.set(n, Math.min(low.get(n)!, index.get(m)!));
+      }
+    }
+    if (low.get(n) === index.get(n)) {
+      const component: string[] = [];
+      let m: string;
+      do {
+        m = stack.pop()!;
+        onStack.delete(m);
+        component.push(m);
+      } while (m !== n);
+      if (component.length > 1) cycles.push(component.reverse());
+    }
+  };
+  for (const n of names) if (!index.has(n)) visit(n);
+  return cycles;
+}
+
+function includesOf(source: string): string[] {
+  const withoutComments = source.replace(/\/\*[\s\S]*?\*\//g, "").replace(/\/\/.*$/gm, "");
+  return [...withoutComments.matchAll(/^\s*#\s*include\s*[<"]([^">]+)[">]/gm)].map((m) => m[1].replace(/\\/g, "/"));
+}
+
+// An include resolves to a header when it names it from the Public root or from a PublicIncludePaths subfolder
+function providesInclude(headers: string[], include: string): boolean {
+  return headers.some((h) => h === include || h.endsWith(`/${include}`));
+}
+
+async function unneededPublicDeps(
+  module: ProjectModule,
+  headersOf: (name: string) => string[] | undefined
+): Promise<{ unneeded: string[]; unchecked: number }> {
+  const publicDeps = [...new Set(listValues(module.rules, "PublicDependencyModuleNames"))].filter((d) => d !== module.name);
+  if (module.publicHeaders.length === 0) return { unneeded: publicDeps, unchecked: 0 };
+
+  const includes: string[] = [];
+  for (const folder of ["Public", "Classes"]) {
+    for (const header of module.publicHeaders) {
+      try {
+        includes.push(...includesOf(await readFile(join(module.dir, folder, header), "utf-8")));
+      } catch {
+        // Listed under the other folder
+      }
+    }
+  }
+
+  const unneeded: string[] = [];
+  let unchecked = 0;
+  for (const dep of publicDeps) {
+    const headers = headersOf(dep);
+    if (!headers) unchecked++;
+    else if (!includes.some((inc) => providesInclude(headers, inc))) unneeded.push(dep);
+  }
+  return { unneeded, unchecked };
+}
+
+export async function analyzeModuleGraph(
+  project: ProjectModules,
+  engineHeaders: Map<string, string[]> = new Map()
+): Promise<ModuleGraph> {
+  const { modules, targets, descriptors } = project;
+  const byName = new Map(modules.map((m) => [m.name, m]));
+  const edges = moduleEdges(modules);
+  const external = [...new Set(edges.map((e) => e.to).filter((to) => !byName.has(to)))].sort();
+  const issues: GraphIssue[] = [];
+
+  const cycles = findCycles(modules.map((m) => m.name), edges);
+  for (const cycle of cycles) {
+    issues.push({
+      severity: "error",
+      message: `Circular dependency: ${[...cycle, cycle[0]].join(" → ")}. Move shared code into a module both can depend on, or turn one side into a PrivateIncludePathModuleNames dependency.`,
+    });
+  }
+
+  // Duplicate module names across Source/ and Plugins/
+  const seen = new Map<string, ProjectModule>();
+  for (const m of modules) {
+    const first = seen.get(m.name);
+    if (first) issues.push({ severity: "error", module: m.name, message: `Defined twice: ${relative(project.projectPath, first.dir)} and ${relative(project.projectPath, m.dir)}` });
+    else seen.set(m.name, m);
+  }
+
+  let unchecked = 0;
+  const headersOf = (name: string) => byName.get(name)?.publicHeaders ?? engineHeaders.get(name);
+  for (const module of modules) {
+    const result = await unneededPublicDeps(module, headersOf);
+    unchecked += result.unchecked;
+    for (const dep of result.unneeded) {
+      issues.push({
+        severity: "info",
+        module: module.name,
+        message:
+          module.publicHeaders.length === 0
+            ? `Public dependency ${dep} could be Private: the module has no Public headers`
+            : `Public dependency ${dep} could be Private: no Public header includes one of its headers`,
+      });
+    }
+  }
+
+  // Each module against the Modules list of the descriptor that owns it
+  for (const module of modules) {
+    const descriptor = descriptors.find((d) => d.path === module.owner.descriptor);
+    const owner = module.owner.descriptor ? basename(module.owner.descriptor) : "the .uproject";
+    const entry = descriptor?.modules.find((m) => m.Name === module.name);
+    if (!entry) {
+      issues.push({
+        severity: "warning",
+        module: module.name,
+        message: `Has a Build.cs but is not in ${owner} Modules, so the engine never loads it (fine only for a module that is just linked into others)`,
+      });
+      continue;
+    }
+    if (entry.Type && !EDITOR_MODULE_TYPES.includes(entry.Type)) {
+      const editorDeps = edges.filter((e) => e.from === module.name && !e.conditional && e.kind !== "include" && EDITOR_ONLY_MODULES.includes(e.to));
+      for (const dep of editorDeps) {
+        issues.push({
+          severity: "error",
+          module: module.name,
+          message: `${entry.Type} module depends on editor-only ${dep.to}; packaged builds will fail. Guard it with if (Target.bBuildEditor) or move the code to an Editor module.`,
+        });
+      }
+    }
+  }
+  for (const descriptor of descriptors) {
+    for (const entry of descriptor.modules) {
+      const module = byName.get(entry.Name);
+      if (!module || module.owner.descriptor !== descriptor.path) {
+        issues.push({
+          severity: "error",
+          module: entry.Name,
+          message: `Listed in ${basename(descriptor.path)} Modules but no ${entry.Name}.Build.cs was found${module ? ` in its folder (there is one in ${module.owner.name})` : ""}`,
+        });
+      }
+    }
+  }
+
+  for (const target of targets) {
+    for (const name of listValues(target, "ExtraModuleNames")) {
+      if (!byName.has(name)) {
+        issues.push({ severity: "warning", message: `${target.name}.Target.cs lists ExtraModuleNames "${name}", which has no Build.cs in the project` });
+      }
+    }
+  }
+
+  return { modules, external, edges, cycles, issues, unchecked };
+}
+
+// --- Output ---
+
+/** Mermaid flowchart: solid arrows for Public, dashed for Private, dotted labels for the rest. */
+export function moduleGraphMermaid(graph: ModuleGraph, includeExternal: boolean): string {
+  const internal = new Set(graph.modules.map((m) => m.name));
+  const inCycle = new Set(graph.cycles.flat());
+  let output = "graph LR\n";
+
+  const groups = new Map<string, ProjectModule[]>();
+  for (const m of graph.modules) {
+    const key = m.owner.kind === "plugin" ? m.owner.name : "";
+    groups.set(key, [...(groups.get(key) ?? []), m]);
+  }
+  for (const [plugin, members] of groups) {
+    if (plugin) output += `  subgraph plugin_${plugin}["${plugin} (plugin)"]\n`;
+    for (const m of members) output += `${plugin ? "    " : "  "}${m.name}${inCycle.has(m.name) ? ":::cycle" : ""}\n`;
+    if (plugin) output += "  end\n";
+  }
+  if (includeExternal) {
+    for (const name of graph.external) output += `  ${name}:::external\n`;
+  }
+
+  for (const e of graph.edges) {
+    if (!includeExternal && !internal.has(e.to)) continue;
+    const arrow = e.kind === "public" ? "-->" : e.kind === "private" ? "-.->" : `-. ${e.kind} .->`;
+    output += `  ${e.from} ${e.conditional && e.kind !== "dynamic" && e.kind !== "include" ? arrow.replace(">", ">|if|") : arrow} ${e.to}\n`;
+  }
+
+  output += "  classDef cycle stroke:#d33,stroke-width:2px\n";
+  if (includeExternal) output += "  classDef external fill:#eee,stroke:#999\n";
+  return output;
+}
+
+export function moduleGraphJson(graph: ModuleGraph, project: ProjectModules): object {
+  const rel = (path: string) => relative(project.projectPath, path).split(sep).join("/");
+  return {
+    modules: graph.modules.map((m) => ({
+      name: m.name,
+      owner: m.owner.kind === "plugin" ? `${m.owner.name} (plugin)` : m.owner.name,
+      buildFile: rel(m.rules.path),
+      dependencies: Object.fromEntries(
+        DEPENDENCY_LISTS.filter((l) => m.rules.lists[l]).map((l) => [
+          l,
+          m.rules.lists[l].map((e) => (e.conditional ? { name: e.value, condition: e.condition ?? "conditional" } : e.value)),
+        ])
+      ),
+      includePaths: [...listValues(m.rules, "PublicIncludePaths", true), ...listValues(m.rules, "PrivateIncludePaths", true)],
+      pch: {
+        usage: m.rules.settings.PCHUsage,
+        privateHeader: m.rules.settings.PrivatePCHHeaderFile,
+        sharedHeader: m.rules.settings.SharedPCHHeaderFile,
+      },
+    })),
+    targets: project.targets.map((t) => ({
+      name: t.name,
+      type: t.settings.Type,
+      buildFile: rel(t.path),
+      extraModuleNames: listValues(t, "ExtraModuleNames"),
+    })),
+    external: graph.external,
+    edges: graph.edges,
+    cycles: graph.cycles,
+    issues: graph.issues,
+  };
+}
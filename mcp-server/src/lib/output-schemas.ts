@@ -0,0 +1,56 @@
+// Zod shapes shared by tool `outputSchema`s. Structured output uses the same
+// lower-case field names as tool inputs ({x, y, z}, {pitch, yaw, roll}) so one
+// tool's structuredContent can be passed straight into the next tool's arguments.
+
+import { z } from "zod";
+
+export const VectorOutput = z.object({ x: z.number(), y: z.number(), z: z.number() });
+
+export const RotatorOutput = z.object({ pitch: z.number(), yaw: z.number(), roll: z.number() });
+
+export const ReflectedMemberOutput = z.object({
+  name: z.string(),
+  type: z.string(),
+  specifiers: z.array(z.string()),
+  line: z.number(),
+});
+
+export const ApiClassOutput = z.object({
+  name: z.string(),
+  module: z.string(),
+  parent: z.string(),
+  description: z.string(),
+  headerPath: z.string(),
+  category: z.string(),
+  commonMacros: z.array(z.string()).optional(),
+  // Only on types read from headers (project index)
+  kind: z.enum(["class", "struct", "enum", "interface"]).optional(),
+  specifiers: z.array(z.string()).optional(),
+  interfaces: z.array(z.string()).optional(),
+  properties: z.array(ReflectedMemberOutput).optional(),
+  functions: z.array(ReflectedMemberOutput).optional(),
+  values: z.array(z.string()).optional(),
+  file: z.string().optional(),
+  line: z.number().optional(),
+});
+
+export const LearningResourceOutput = z.object({
+  title: z.string(),
+  url: z.string(),
+  type: z.string(),
+  level: z.string(),
+  format: z.string(),
+  topics: z.array(z.string()),
+  free: z.boolean(),
+  description: z.string(),
+});
+
+/** {X, Y, Z} from the Remote Control API → {x, y, z}; missing components become 0. */
+export function toVectorOutput(v: any): z.infer<typeof VectorOutput> {
+  return { x: Number(v?.X ?? 0), y: Number(v?.Y ?? 0), z: Number(v?.Z ?? 0) };
+}
+
+/** {Pitch, Yaw, Roll} from the Remote Control API → {pitch, yaw, roll}. */
+export function toRotatorOutput(r: any): z.infer<typeof RotatorOutput> {
+  return { pitch: Number(r?.Pitch ?? 0), yaw: Number(r?.Yaw ?? 0), roll: Number(r?.Roll ?? 0) };
+}
@@ -0,0 +1,78 @@
+// Edits to files inside a UE5 project. Tools plan every edit first so they can
+// show a diff, then write them with a timestamped backup of each original.
+
+import { constants } from "node:fs";
+import { copyFile, mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, isAbsolute, relative, resolve } from "node:path";
+import { unifiedDiff } from "./diff.js";
+
+export interface FileEdit {
+  path: string;
+  /** Current content; undefined when the file does not exist yet */
+  before?: string;
+  after: string;
+}
+
+export interface AppliedEdit {
+  path: string;
+  /** Copy of the original, when there was one */
+  backup?: string;
+}
+
+export async function readOptionalFile(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, "utf-8");
+  } catch (err: any) {
+    if (err.code === "ENOENT") return undefined;
+    throw err;
+  }
+}
+
+/** Whether `path` is `dir` itself or somewhere below it, after resolving any ".." segments. */
+export function isInside(dir: string, path: string): boolean {
+  const rel = relative(resolve(dir), resolve(path));
+  return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+}
+
+export function isChanged(edit: FileEdit): boolean {
+  return edit.before !== edit.after;
+}
+
+/** Unified diff of one edit, with paths shown relative to the project directory. */
+export function diffEdit(edit: FileEdit, projectPath: string): string {
+  const name = relative(projectPath, edit.path);
+  return unifiedDiff(edit.before ?? "", edit.after, {
+    fromFile: edit.before === undefined ? "/dev/null" : `a/${name}`,
+    toFile: `b/${name}`,
+  });
+}
+
+function backupStamp(date = new Date()): string {
+  return date.toISOString().replace(/[-:.]/g, "").replace("T", "-").slice(0, 18);
+}
+
+// Copy to <path>.<stamp>.bak, or <path>.<stamp>-<n>.bak when an earlier backup took that name
+async function backupFile(path: string, stamp: string): Promise<string> {
+  for (let n = 0; ; n++) {
+    const backup = `${path}.${stamp}${n ? `-${n}` : ""}.bak`;
+    try {
+      await copyFile(path, backup, constants.COPYFILE_EXCL);
+      return backup;
+    } catch (err: any) {
+      if (err.code !== "EEXIST") throw err;
+    }
+  }
+}
+
+/** Write every changed file, backing up existing ones next to the original first. */
+export async function applyEdits(edits: FileEdit[]): Promise<AppliedEdit[]> {
+  const stamp = backupStamp();
+  const applied: AppliedEdit[] = [];
+  for (const edit of edits.filter(isChanged)) {
+    const backup = edit.before !== undefined ? await backupFile(edit.path, stamp) : undefined;
+    await mkdir(dirname(edit.path), { recursive: true });
+    await writeFile(edit.path, edit.after, "utf-8");
+    applied.push({ path: edit.path, backup });
+  }
+  return applied;
+}
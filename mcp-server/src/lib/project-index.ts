@@ -0,0 +1,71 @@
+// Reflected types of indexed projects, kept for the life of the server so the
+// API tools can search project classes next to the engine index. A project is
+// scanned the first time a tool names it and again whenever ue5_index_project
+// is asked to refresh it.
+
+import { readFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { UE5ClassInfo } from "../data/ue5-api-index.js";
+import { getEngineCatalog } from "./api-index.js";
+import { parseReflectedTypes, ReflectedClassInfo, toClassInfo } from "./reflection.js";
+import { findFiles, includePath, moduleOf, modulesFromBuildFiles } from "./source-tree.js";
+
+export const PROJECT_CATEGORY = "Project";
+
+export interface ProjectIndex {
+  projectPath: string;
+  indexedAt: string;
+  headers: number;
+  classes: ReflectedClassInfo[];
+}
+
+const indexes = new Map<string, ProjectIndex>();
+
+export async function scanProject(projectPath: string): Promise<ProjectIndex> {
+  const roots = [join(projectPath, "Source"), join(projectPath, "Plugins")];
+  const files = (await Promise.all(roots.map((r) => findFiles(r, (n) => n.endsWith(".h") || n.endsWith(".Build.cs"))))).flat();
+  const modules = modulesFromBuildFiles(files.filter((f) => f.endsWith(".Build.cs")));
+  const headers = files.filter((f) => f.endsWith(".h"));
+
+  const classes: ReflectedClassInfo[] = [];
+  for (const file of headers) {
+    const source = await readFile(file, "utf-8");
+    // Most headers in a project reflect nothing; skip them before parsing
+    if (!/\b(UCLASS|USTRUCT|UENUM|UINTERFACE)\s*\(/.test(source)) continue;
+    const module = moduleOf(file, modules);
+    for (const type of parseReflectedTypes(source)) {
+      classes.push(
+        toClassInfo(type, {
+          module: module?.name ?? "Unknown",
+          headerPath: module ? includePath(file, module.dir) : file,
+          file,
+          category: PROJECT_CATEGORY,
+        })
+      );
+    }
+  }
+  return { projectPath, indexedAt: new Date().toISOString(), headers: headers.length, classes };
+}
+
+/** Index for a project, scanning it when it has not been indexed yet or `refresh` is set. */
+export async function indexProject(projectPath: string, refresh = false): Promise<ProjectIndex> {
+  const key = resolve(projectPath);
+  const existing = indexes.get(key);
+  if (existing && !refresh) return existing;
+  const index = await scanProject(key);
+  indexes.set(key, index);
+  return index;
+}
+
+export function listProjectIndexes(): ProjectIndex[] {
+  return [...indexes.values()];
+}
+
+/** Every indexed project type followed by the engine index; project types come first so they win on name clashes. */
+export function allClasses(): (UE5ClassInfo | ReflectedClassInfo)[] {
+  return [...listProjectIndexes().flatMap((i) => i.classes), ...getEngineCatalog().classes];
+}
+
+export function isReflectedClass(cls: UE5ClassInfo): cls is ReflectedClassInfo {
+  return "kind" in cls;
+}
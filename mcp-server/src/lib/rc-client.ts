@@ -0,0 +1,381 @@
+// Shared HTTP client for the UE5 Remote Control API.
+// Every tool group talks to the editor through these helpers so that timeouts,
+// retries, auth and error classification behave the same everywhere.
+
+// --- Configuration ---
+
+export interface RcClientConfig {
+  host: string;
+  port: number;
+  /** Sent as the `Passphrase` header when the editor enforces one */
+  passphrase?: string;
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs: number;
+  /** Extra attempts for idempotent requests (0 disables retries) */
+  retries: number;
+  /** Base delay for exponential backoff between attempts */
+  retryDelayMs: number;
+}
+
+export function getRcConfig(): RcClientConfig {
+  return {
+    host: process.env.UE5_HOST || "localhost",
+    port: parseInt(process.env.UE5_RC_PORT || "30010", 10),
+    passphrase: process.env.UE5_RC_PASSPHRASE || undefined,
+    timeoutMs: parseInt(process.env.UE5_RC_TIMEOUT_MS || "10000", 10),
+    retries: parseInt(process.env.UE5_RC_RETRIES || "2", 10),
+    retryDelayMs: parseInt(process.env.UE5_RC_RETRY_DELAY_MS || "250", 10),
+  };
+}
+
+export function rcBaseUrl(config: RcClientConfig = getRcConfig()): string {
+  return `http://${config.host}:${config.port}`;
+}
+
+// --- Errors ---
+
+export type RcErrorCode =
+  | "CONNECTION_REFUSED"
+  | "TIMEOUT"
+  | "OBJECT_NOT_FOUND"
+  | "FUNCTION_NOT_FOUND"
+  | "BAD_PARAMETERS"
+  | "HTTP_ERROR"
+  | "BRIDGE_ACTION_FAILED"
+  | "NON_LOOPBACK_BLOCKED"
+  | "BACKEND_UNSUPPORTED";
+
+export class RcError extends Error {
+  readonly code: RcErrorCode;
+  readonly status?: number;
+  readonly hint: string;
+
+  constructor(code: RcErrorCode, message: string, hint: string, status?: number) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.hint = hint;
+    this.status = status;
+  }
+}
+
+export class RcConnectionRefusedError extends RcError {
+  constructor(url: string, cause: string) {
+    super(
+      "CONNECTION_REFUSED",
+      `Failed to connect to UE5 editor at ${url}: ${cause}`,
+      "Check that the editor is running, the Remote Control API plugin is enabled, and UE5_HOST/UE5_RC_PORT point at the HTTP server port."
+    );
+  }
+}
+
+export class RcTimeoutError extends RcError {
+  constructor(url: string, timeoutMs: number) {
+    super(
+      "TIMEOUT",
+      `Request to ${url} timed out after ${timeoutMs / 1000}s`,
+      "The editor may be busy (compiling shaders, loading a level) or paused in a modal dialog. Raise UE5_RC_TIMEOUT_MS for long-running calls."
+    );
+  }
+}
+
+export class RcObjectNotFoundError extends RcError {
+  readonly objectPath?: string;
+
+  constructor(objectPath: string | undefined, detail: string, status?: number) {
+    super(
+      "OBJECT_NOT_FOUND",
+      `Object not found${objectPath ? `: ${objectPath}` : ""} (${detail})`,
+      "Use ue5_list_actors to get current actor paths — paths change when actors are renamed, deleted, or the level is reloaded.",
+      status
+    );
+    this.objectPath = objectPath;
+  }
+}
+
+export class RcFunctionNotFoundError extends RcError {
+  readonly functionName?: string;
+
+  constructor(functionName: string | undefined, objectPath: string | undefined, detail: string, status?: number) {
+    super(
+      "FUNCTION_NOT_FOUND",
+      `Function ${functionName ?? "?"} not found on ${objectPath ?? "object"} (${detail})`,
+      "Only BlueprintCallable functions are exposed. Use ue5_describe_actor to list the functions the object supports.",
+      status
+    );
+    this.functionName = functionName;
+  }
+}
+
+export class RcBadParametersError extends RcError {
+  constructor(detail: string, status?: number) {
+    super(
+      "BAD_PARAMETERS",
+      `Invalid parameters: ${detail}`,
+      "Parameter names must match the C++ signature exactly (e.g. NewLocation, bSweep) and structs use X/Y/Z or Pitch/Yaw/Roll keys.",
+      status
+    );
+  }
+}
+
+// --- Requests ---
+
+export type RcMethod = "GET" | "PUT" | "POST" | "DELETE";
+
+export interface RcRequest {
+  path: string;
+  method: RcMethod;
+  body?: any;
+}
+
+export interface RcResponse {
+  ok: boolean;
+  status: number;
+  data: any;
+  request: RcRequest;
+}
+
+export interface RcRequestOptions {
+  /**
+   * Whether the request may be repeated safely. Defaults to the HTTP semantics
+   * of the verb, but object calls are sent as PUT and are usually not idempotent,
+   * so rcCall opts out unless told otherwise.
+   */
+  idempotent?: boolean;
+}
+
+const IDEMPOTENT_METHODS: RcMethod[] = ["GET", "PUT", "DELETE"];
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function attempt(url: string, request: RcRequest, config: RcClientConfig): Promise<RcResponse> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), config.timeoutMs);
+
+  const headers: Record<string, string> = {};
+  if (request.body !== undefined) headers["Content-Type"] = "application/json";
+  if (config.passphrase) headers["Passphrase"] = config.passphrase;
+
+  try {
+    const res = await fetch(url, {
+      method: request.method,
+      headers,
+      body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+      signal: controller.signal,
+    });
+
+    let data: any;
+    const text = await res.text();
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = text;
+    }
+
+    return { ok: res.ok, status: res.status, data, request };
+  } catch (err: any) {
+    if (err.name === "AbortError") {
+      throw new RcTimeoutError(url, config.timeoutMs);
+    }
+    throw new RcConnectionRefusedError(url, err.cause?.code || err.cause?.message || err.message);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export async function rcFetch(
+  path: string,
+  method: RcMethod = "GET",
+  body?: unknown,
+  config: RcClientConfig = getRcConfig(),
+  options: RcRequestOptions = {}
+): Promise<RcResponse> {
+  const url = `${rcBaseUrl(config)}${path}`;
+  const request: RcRequest = { path, method, body };
+  const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.includes(method);
+  const maxAttempts = idempotent ? config.retries + 1 : 1;
+
+  for (let i = 1; ; i++) {
+    try {
+      const res = await attempt(url, request, config);
+      // 5xx usually means the editor is mid-load; worth another try
+      if (res.status < 500 || i >= maxAttempts) return res;
+    } catch (err) {
+      if (i >= maxAttempts) throw err;
+    }
+    await sleep(config.retryDelayMs * 2 ** (i - 1));
+  }
+}
+
+export async function rcCall(
+  objectPath: string,
+  functionName: string,
+  parameters?: Record<string, any>,
+  config?: RcClientConfig,
+  options: RcRequestOptions & { generateTransaction?: boolean } = {}
+): Promise<RcResponse> {
+  return rcFetch(
+    "/remote/object/call",
+    "PUT",
+    {
+      objectPath,
+      functionName,
+      parameters: parameters || {},
+      generateTransaction: options.generateTransaction ?? true,
+    },
+    config,
+    { idempotent: options.idempotent ?? false }
+  );
+}
+
+/**
+ * Read a property, or write it when `propertyValue` is given. For writes,
+ * generateTransaction picks the access mode: true records an undo entry
+ * (WRITE_TRANSACTION_ACCESS), false writes without one so the change can join a
+ * transaction that is already open (WRITE_ACCESS). Omitted, the editor decides.
+ * Writes that may record an undo entry are not retried unless the caller marks
+ * them idempotent: a retry after a lost response would add a second entry.
+ */
+export async function rcProperty(
+  objectPath: string,
+  propertyName: string,
+  propertyValue?: any,
+  config?: RcClientConfig,
+  options: RcRequestOptions & { generateTransaction?: boolean } = {}
+): Promise<RcResponse> {
+  const body: any = { objectPath, propertyName };
+  if (propertyValue !== undefined) {
+    body.propertyValue = propertyValue;
+    if (options.generateTransaction !== undefined) {
+      body.access = options.generateTransaction ? "WRITE_TRANSACTION_ACCESS" : "WRITE_ACCESS";
+    }
+    return rcFetch("/remote/object/property", "PUT", body, config, {
+      idempotent: options.idempotent ?? options.generateTransaction === false,
+    });
+  }
+  // GET property via access: "READ_ACCESS"
+  body.access = "READ_ACCESS";
+  return rcFetch("/remote/object/property", "PUT", body, config);
+}
+
+/**
+ * Send several requests through /remote/batch and return one RcResponse per
+ * request, in request order. Only a failure of the batch itself throws; per-item
+ * failures come back as non-OK responses that toRcError understands.
+ */
+export async function rcBatch(
+  requests: RcRequest[],
+  config?: RcClientConfig,
+  options: RcRequestOptions = {}
+): Promise<RcResponse[]> {
+  if (requests.length === 0) return [];
+  const res = await rcFetch(
+    "/remote/batch",
+    "PUT",
+    {
+      Requests: requests.map((r, index) => ({ RequestId: index, URL: r.path, Verb: r.method, Body: r.body })),
+    },
+    config,
+    { idempotent: options.idempotent ?? false }
+  );
+  if (!res.ok) throw toRcError(res);
+
+  const responses: any[] = res.data?.Responses ?? [];
+  return requests.map((request, index) => {
+    const item = responses.find((r) => r?.RequestId === index) ?? responses[index];
+    const status = Number(item?.ResponseCode ?? item?.StatusCode ?? 0);
+    // Older RC versions embed the body as a JSON string
+    let data = item?.ResponseBody;
+    if (typeof data === "string") {
+      try {
+        data = JSON.parse(data);
+      } catch {
+        // keep the raw text
+      }
+    }
+    return { ok: status >= 200 && status < 300, status, data, request };
+  });
+}
+
+// --- Error classification ---
+
+function errorDetail(data: any): string {
+  if (typeof data === "string") return data || "no response body";
+  return data?.errorMessage || data?.ErrorMessage || data?.message || JSON.stringify(data);
+}
+
+/**
+ * Turn a non-OK Remote Control response into a typed error. The RC plugin reports
+ * most failures as 400/404 with an `errorMessage`, so the message text decides
+ * between a missing object, a missing function and bad parameters.
+ */
+export function toRcError(res: RcResponse): RcError {
+  const detail = errorDetail(res.data);
+  const lower = detail.toLowerCase();
+  const objectPath: string | undefined = res.request.body?.objectPath;
+  const functionName: string | undefined = res.request.body?.functionName;
+
+  const missing = /does not exist|not found|could not find|unable to find|failed to find/.test(lower);
+
+  if (missing && functionName && lower.includes("function")) {
+    return new RcFunctionNotFoundError(functionName, objectPath, detail, res.status);
+  }
+  if (missing && !lower.includes("property")) {
+    return new RcObjectNotFoundError(objectPath, detail, res.status);
+  }
+  if (res.status === 404) {
+    return new RcObjectNotFoundError(objectPath, detail, res.status);
+  }
+  if (res.status === 400 || /parameter|argument|deserializ|property/.test(lower)) {
+    return new RcBadParametersError(detail, res.status);
+  }
+  return new RcError(
+    "HTTP_ERROR",
+    `HTTP ${res.status}: ${detail}`,
+    "Check the editor's Output Log (LogRemoteControl) for details.",
+    res.status
+  );
+}
+
+/** Format any thrown value with its remediation hint when it is an RcError. */
+export function describeRcError(err: unknown): string {
+  if (err instanceof RcError) {
+    return `${err.message}\n\nHint: ${err.hint}`;
+  }
+  return err instanceof Error ? err.message : String(err);
+}
+
+// --- Bound client ---
+
+/** The request helpers bound to one editor's configuration. */
+export interface RcClient {
+  config: RcClientConfig;
+  fetch(path: string, method?: RcMethod, body?: unknown, options?: RcRequestOptions): Promise<RcResponse>;
+  call(
+    objectPath: string,
+    functionName: string,
+    parameters?: Record<string, any>,
+    options?: RcRequestOptions & { generateTransaction?: boolean }
+  ): Promise<RcResponse>;
+  property(
+    objectPath: string,
+    propertyName: string,
+    propertyValue?: any,
+    options?: RcRequestOptions & { generateTransaction?: boolean }
+  ): Promise<RcResponse>;
+  batch(requests: RcRequest[], options?: RcRequestOptions): Promise<RcResponse[]>;
+}
+
+export function createRcClient(config: RcClientConfig = getRcConfig()): RcClient {
+  return {
+    config,
+    fetch: (path, method, body, options) => rcFetch(path, method, body, config, options),
+    call: (objectPath, functionName, parameters, options) =>
+      rcCall(objectPath, functionName, parameters, config, options),
+    property: (objectPath, propertyName, propertyValue, options) =>
+      rcProperty(objectPath, propertyName, propertyValue, config, options),
+    batch: (requests, options) => rcBatch(requests, config, options),
+  };
+}
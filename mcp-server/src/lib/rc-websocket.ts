@@ -0,0 +1,277 @@
+// WebSocket client for the UE5 Remote Control API.
+// Carries the same requests as the HTTP client (wrapped in "http" messages) and
+// receives preset change events pushed by the editor.
+
+import WebSocket from "ws";
+import {
+  RcConnectionRefusedError,
+  RcTimeoutError,
+  RcMethod,
+  RcResponse,
+} from "./rc-client.js";
+
+// --- Configuration ---
+
+export interface RcWebSocketConfig {
+  host: string;
+  port: number;
+  passphrase?: string;
+  /** Timeout for the handshake and for each request/response round trip */
+  timeoutMs: number;
+}
+
+export function getRcWebSocketConfig(): RcWebSocketConfig {
+  return {
+    host: process.env.UE5_HOST || "localhost",
+    port: parseInt(process.env.UE5_RC_WS_PORT || "30020", 10),
+    passphrase: process.env.UE5_RC_PASSPHRASE || undefined,
+    timeoutMs: parseInt(process.env.UE5_RC_TIMEOUT_MS || "10000", 10),
+  };
+}
+
+// --- Events ---
+
+export interface RcEvent {
+  /** Monotonic sequence number, usable as a polling cursor */
+  seq: number;
+  receivedAt: string;
+  /** Event type as sent by the editor, e.g. PresetFieldsChanged */
+  type: string;
+  presetName?: string;
+  data: any;
+}
+
+export interface RcChangedField {
+  presetName?: string;
+  label?: string;
+  objectPath?: string;
+  propertyValue?: any;
+}
+
+/** Flatten a PresetFieldsChanged event into one entry per changed field. */
+export function changedFields(event: RcEvent): RcChangedField[] {
+  const fields = event.data?.ChangedFields;
+  if (!Array.isArray(fields)) return [];
+  return fields.map((f: any) => ({
+    presetName: event.presetName,
+    label: f.PropertyLabel ?? f.Label,
+    objectPath: f.ObjectPath,
+    propertyValue: f.PropertyValue,
+  }));
+}
+
+const MAX_BUFFERED_EVENTS = 1000;
+
+interface PendingRequest {
+  resolve: (res: RcResponse) => void;
+  reject: (err: Error) => void;
+  timer: NodeJS.Timeout;
+  path: string;
+  method: RcMethod;
+  body?: unknown;
+}
+
+// --- Client ---
+
+export class RcWebSocketClient {
+  private socket?: WebSocket;
+  private connecting?: Promise<void>;
+  private nextId = 1;
+  private nextSeq = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+  private readonly events: RcEvent[] = [];
+  private readonly listeners = new Set<(event: RcEvent) => void>();
+  private readonly presets = new Set<string>();
+
+  constructor(readonly config: RcWebSocketConfig = getRcWebSocketConfig()) {}
+
+  get url(): string {
+    return `ws://${this.config.host}:${this.config.port}`;
+  }
+
+  get connected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  get subscribedPresets(): string[] {
+    return [...this.presets];
+  }
+
+  async connect(): Promise<void> {
+    if (this.connected) return;
+    if (this.connecting) return this.connecting;
+
+    this.connecting = new Promise<void>((resolve, reject) => {
+      const headers: Record<string, string> = {};
+      if (this.config.passphrase) headers["Passphrase"] = this.config.passphrase;
+
+      const socket = new WebSocket(this.url, { headers, handshakeTimeout: this.config.timeoutMs });
+
+      socket.once("open", () => {
+        this.socket = socket;
+        resolve();
+      });
+      // Stays attached after open so a dropped socket never surfaces as an unhandled error;
+      // rejecting an already-settled promise is a no-op
+      socket.on("error", (err: any) => {
+        reject(
+          err.message?.includes("timed out")
+            ? new RcTimeoutError(this.url, this.config.timeoutMs)
+            : new RcConnectionRefusedError(this.url, err.code || err.message)
+        );
+      });
+      socket.on("message", (raw) => this.handleMessage(raw.toString()));
+      socket.on("close", () => {
+        if (this.socket === socket) this.socket = undefined;
+        this.failPending(new RcConnectionRefusedError(this.url, "WebSocket closed"));
+      });
+    }).finally(() => {
+      this.connecting = undefined;
+    });
+
+    await this.connecting;
+
+    // Subscriptions do not survive a reconnect, so replay them
+    for (const preset of this.presets) {
+      this.send({ MessageName: "preset.register", Parameters: { PresetName: preset, IgnoreRemoteChanges: false } });
+    }
+  }
+
+  close(): void {
+    this.socket?.close();
+    this.socket = undefined;
+  }
+
+  /** Run a Remote Control HTTP route over the socket. */
+  async http(path: string, method: RcMethod = "GET", body?: unknown): Promise<RcResponse> {
+    await this.connect();
+    const id = this.nextId++;
+
+    return new Promise<RcResponse>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new RcTimeoutError(`${this.url}${path}`, this.config.timeoutMs));
+      }, this.config.timeoutMs);
+
+      this.pending.set(id, { resolve, reject, timer, path, method, body });
+      this.send({
+        MessageName: "http",
+        Id: id,
+        Parameters: { Url: path, Verb: method, Body: body ?? {} },
+      });
+    });
+  }
+
+  async subscribePreset(presetName: string): Promise<void> {
+    await this.connect();
+    if (this.presets.has(presetName)) return;
+    this.presets.add(presetName);
+    this.send({ MessageName: "preset.register", Parameters: { PresetName: presetName, IgnoreRemoteChanges: false } });
+  }
+
+  async unsubscribePreset(presetName: string): Promise<void> {
+    if (!this.presets.delete(presetName) || !this.connected) return;
+    this.send({ MessageName: "preset.unregister", Parameters: { PresetName: presetName } });
+  }
+
+  onEvent(listener: (event: RcEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Buffered events with a sequence number greater than `since`. */
+  eventsSince(since = 0, limit = 100): RcEvent[] {
+    return this.events.filter((e) => e.seq > since).slice(0, limit);
+  }
+
+  get lastSeq(): number {
+    return this.nextSeq - 1;
+  }
+
+  /** Resolve with the first event (buffered after `since`, or new) that matches. */
+  waitForEvent(
+    predicate: (event: RcEvent) => boolean,
+    timeoutMs: number,
+    since = this.lastSeq
+  ): Promise<RcEvent | undefined> {
+    const buffered = this.eventsSince(since, MAX_BUFFERED_EVENTS).find(predicate);
+    if (buffered) return Promise.resolve(buffered);
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        resolve(undefined);
+      }, timeoutMs);
+      const unsubscribe = this.onEvent((event) => {
+        if (!predicate(event)) return;
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(event);
+      });
+    });
+  }
+
+  private send(message: unknown): void {
+    this.socket?.send(JSON.stringify(message));
+  }
+
+  private handleMessage(text: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return;
+    }
+
+    // Responses to "http" messages carry the request id back
+    if (message.RequestId !== undefined && this.pending.has(message.RequestId)) {
+      const req = this.pending.get(message.RequestId)!;
+      this.pending.delete(message.RequestId);
+      clearTimeout(req.timer);
+      const status = Number(message.ResponseCode ?? 200);
+      req.resolve({
+        ok: status >= 200 && status < 300,
+        status,
+        data: message.ResponseBody,
+        request: { path: req.path, method: req.method, body: req.body },
+      });
+      return;
+    }
+
+    if (typeof message.Type === "string") {
+      const event: RcEvent = {
+        seq: this.nextSeq++,
+        receivedAt: new Date().toISOString(),
+        type: message.Type,
+        presetName: message.PresetName,
+        data: message,
+      };
+      this.events.push(event);
+      if (this.events.length > MAX_BUFFERED_EVENTS) this.events.shift();
+      for (const listener of this.listeners) listener(event);
+    }
+  }
+
+  private failPending(err: Error): void {
+    for (const [id, req] of this.pending) {
+      clearTimeout(req.timer);
+      req.reject(err);
+      this.pending.delete(id);
+    }
+  }
+}
+
+// --- Shared instance ---
+
+const shared = new Map<string, RcWebSocketClient>();
+
+/** One long-lived client per endpoint so subscriptions and event buffers persist across tool calls. */
+export function getRcWebSocket(config: RcWebSocketConfig = getRcWebSocketConfig()): RcWebSocketClient {
+  const key = `${config.host}:${config.port}`;
+  let client = shared.get(key);
+  if (!client) {
+    client = new RcWebSocketClient(config);
+    shared.set(key, client);
+  }
+  return client;
+}
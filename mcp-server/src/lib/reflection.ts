@@ -0,0 +1,281 @@
+// Reads the types a header exposes to Unreal's reflection system — everything
+// marked UCLASS, USTRUCT, UENUM or UINTERFACE — with their parents, specifiers and
+// UPROPERTY/UFUNCTION members, the way UHT would find them but without running it.
+// Preprocessor blocks are not evaluated, so members under #if WITH_EDITOR are
+// listed like any other.
+
+import { UE5ClassInfo } from "../data/ue5-api-index.js";
+import { lineAt, matchingClose, splitTopLevel, stripComments } from "./source-text.js";
+
+export type ReflectedKind = "class" | "struct" | "enum" | "interface";
+
+const MACRO_OF_KIND: Record<ReflectedKind, string> = {
+  class: "UCLASS",
+  struct: "USTRUCT",
+  enum: "UENUM",
+  interface: "UINTERFACE",
+};
+
+export interface ReflectedMember {
+  name: string;
+  /** Property type, or the function's full signature */
+  type: string;
+  specifiers: string[];
+  line: number;
+}
+
+export interface ReflectedType {
+  kind: ReflectedKind;
+  name: string;
+  /** First base class; undefined for enums and root structs */
+  parent?: string;
+  /** Other bases, e.g. implemented I-interfaces */
+  interfaces: string[];
+  specifiers: string[];
+  /** First sentence of the doc comment above the macro */
+  description?: string;
+  properties: ReflectedMember[];
+  functions: ReflectedMember[];
+  /** Enumerators, for enums */
+  values?: string[];
+  line: number;
+}
+
+/** A project or engine type as an API index record, with what the header scan found. */
+export interface ReflectedClassInfo extends UE5ClassInfo {
+  kind: ReflectedKind;
+  specifiers: string[];
+  interfaces: string[];
+  properties: ReflectedMember[];
+  functions: ReflectedMember[];
+  values?: string[];
+  /** Header path on disk and line of the declaration */
+  file: string;
+  line: number;
+}
+
+// --- Parsing ---
+
+function macroArguments(text: string, open: number): { specifiers: string[]; end: number } {
+  const end = matchingClose(text, open);
+  return { specifiers: splitTopLevel(text.slice(open + 1, end - 1)).map((s) => s.replace(/\s+/g, " ")), end };
+}
+
+// Doc comment ending right before `offset` in the original source
+function docComment(source: string, offset: number): string | undefined {
+  const before = source.slice(0, offset).trimEnd();
+  let raw: string | undefined;
+  if (before.endsWith("*/")) {
+    const start = before.lastIndexOf("/*");
+    raw = before.slice(start + 2, -2).replace(/^\*+/, "");
+  } else {
+    const lines = before.split("\n");
+    const comment: string[] = [];
+    while (lines.length > 0 && /^\s*\/\//.test(lines[lines.length - 1])) comment.unshift(lines.pop()!.replace(/^\s*\/\/+/, ""));
+    if (comment.length > 0) raw = comment.join(" ");
+  }
+  if (!raw) return undefined;
+  const text = raw
+    .split("\n")
+    .map((l) => l.replace(/^\s*\*?\s?/, "").trim())
+    .filter((l) => l && !l.startsWith("@"))
+    .join(" ")
+    .trim();
+  if (!text) return undefined;
+  const sentence = text.match(/^.*?[.!?](\s|$)/)?.[0].trim() ?? text;
+  return sentence.length > 200 ? `${sentence.slice(0, 197)}...` : sentence;
+}
+
+// Text of a member declaration after its macro: up to the ';', or the '{' of an inline function body
+function declarationAfter(text: string, start: number, isFunction: boolean): string {
+  let depth = 0;
+  let sawParams = false;
+  for (let i = start; i < text.length; i++) {
+    const c = text[i];
+    if (c === "(" || c === "[" || (c === "{" && !(isFunction && sawParams && depth === 0))) depth++;
+    else if (c === ")" || c === "]" || c === "}") {
+      depth--;
+      if (c === ")" && depth === 0) sawParams = true;
+    } else if (depth === 0 && (c === ";" || (c === "{" && isFunction && sawParams))) {
+      return text.slice(start, i).replace(/\s+/g, " ").trim();
+    }
+  }
+  return text.slice(start).replace(/\s+/g, " ").trim();
+}
+
+function parseProperty(declaration: string): { name: string; type: string } | undefined {
+  // Drop initializers (= 5, {5}), bitfields (: 1) and array sizes ([4])
+  let decl = declaration.replace(/\s*=.*$/, "").replace(/\s*\{.*\}\s*$/, "").replace(/\s*:\s*\d+\s*$/, "");
+  decl = decl.replace(/\s*\[[^\]]*\]\s*$/, "");
+  const match = decl.match(/^(.*?)\s*\b(\w+)$/);
+  if (!match || !match[1]) return undefined;
+  return { name: match[2], type: match[1].trim() };
+}
+
+function parseFunction(declaration: string): { name: string; type: string } | undefined {
+  const match = declaration.match(/(\w+)\s*\(/);
+  if (!match) return undefined;
+  // Keep the signature through its qualifiers, without override/final
+  const signature = declaration.replace(/\s*\b(override|final)\b/g, "").trim();
+  return { name: match[1], type: signature };
+}
+
+function parseMembers(text: string, bodyStart: number, bodyEnd: number): { properties: ReflectedMember[]; functions: ReflectedMember[] } {
+  const properties: ReflectedMember[] = [];
+  const functions: ReflectedMember[] = [];
+  const body = text.slice(0, bodyEnd);
+  const macros = /\b(UPROPERTY|UFUNCTION)\s*\(/g;
+  macros.lastIndex = bodyStart;
+  for (let match; (match = macros.exec(body)); ) {
+    const isFunction = match[1] === "UFUNCTION";
+    const { specifiers, end } = macroArguments(text, match.index + match[0].length - 1);
+    const declaration = declarationAfter(text, end, isFunction);
+    const parsed = isFunction ? parseFunction(declaration) : parseProperty(declaration);
+    if (parsed) (isFunction ? functions : properties).push({ ...parsed, specifiers, line: lineAt(text, match.index) });
+    macros.lastIndex = end;
+  }
+  return { properties, functions };
+}
+
+// Bases from ": public AActor, public IInterface"
+function parseBases(list: string | undefined): string[] {
+  if (!list) return [];
+  return splitTopLevel(list).map((b) => b.replace(/\b(public|protected|private|virtual)\b/g, "").trim());
+}
+
+const API_MACRO = String.raw`(?:\w+_API\s+)?`;
+const DEPRECATION = String.raw`(?:UE_DEPRECATED\s*\([^)]*\)\s*)?`;
+
+export function parseReflectedTypes(source: string): ReflectedType[] {
+  const text = stripComments(source);
+  const types: ReflectedType[] = [];
+  const macros = /\b(UCLASS|USTRUCT|UENUM|UINTERFACE)\s*\(/g;
+
+  for (let match; (match = macros.exec(text)); ) {
+    const kind = (Object.keys(MACRO_OF_KIND) as ReflectedKind[]).find((k) => MACRO_OF_KIND[k] === match![1])!;
+    // Skip the macro's own #define and uses inside other macros
+    if (/#\s*define\s*$/.test(text.slice(Math.max(0, match.index - 20), match.index))) continue;
+    const { specifiers, end } = macroArguments(text, match.index + match[0].length - 1);
+    const rest = text.slice(end);
+    const base = { kind, specifiers, description: docComment(source, match.index), line: lineAt(text, match.index) };
+
+    if (kind === "enum") {
+      const decl =
+        rest.match(new RegExp(String.raw`^\s*enum\s+(?:class\s+)?${DEPRECATION}(\w+)\s*(?::\s*\w+\s*)?\{`)) ??
+        rest.match(/^\s*namespace\s+(\w+)\s*\{\s*enum\s+Type\b[^{;]*\{/);
+      if (!decl) continue;
+      const open = end + decl[0].length - 1;
+      const close = matchingClose(text, open);
+      const values = splitTopLevel(text.slice(open + 1, close - 1))
+        .map((v) => v.replace(/UMETA\s*\(.*\)/s, "").match(/^\s*(\w+)/)?.[1])
+        .filter((v): v is string => !!v);
+      types.push({ ...base, name: decl[1], interfaces: [], properties: [], functions: [], values });
+      macros.lastIndex = close;
+      continue;
+    }
+
+    const decl = rest.match(new RegExp(String.raw`^\s*(?:class|struct)\s+${DEPRECATION}${API_MACRO}(\w+)(?:\s+final)?\s*(?::([^{;]+))?\{`));
+    if (!decl) continue;
+    const open = end + decl[0].length - 1;
+    const close = matchingClose(text, open);
+    const [parent, ...interfaces] = parseBases(decl[2]);
+    let members = parseMembers(text, open, close);
+
+    // UINTERFACE declares the U-class; the functions live on the I-class after it
+    if (kind === "interface") {
+      const iName = `I${decl[1].slice(1)}`;
+      const iDecl = text.slice(close).match(new RegExp(String.raw`\bclass\s+${API_MACRO}${iName}\b[^{;]*\{`));
+      if (iDecl) {
+        const iOpen = close + iDecl.index! + iDecl[0].length - 1;
+        members = parseMembers(text, iOpen, matchingClose(text, iOpen));
+      }
+    }
+
+    types.push({ ...base, name: decl[1], parent, interfaces, ...members });
+    macros.lastIndex = open + 1;
+  }
+  return types;
+}
+
+// --- Macro uses ---
+
+export type ReflectionMacro = "UCLASS" | "USTRUCT" | "UENUM" | "UINTERFACE" | "UPROPERTY" | "UFUNCTION";
+
+/** One reflection macro and what it is attached to, for checking its specifiers. */
+export interface MacroUse {
+  macro: ReflectionMacro;
+  specifiers: string[];
+  /** Declared type, property or function name */
+  name?: string;
+  /** Property type, or the function's full signature */
+  type?: string;
+  /** Class or struct whose body contains the macro, for members */
+  owner?: string;
+  line: number;
+}
+
+// Class and struct bodies, to tell which type a member macro belongs to
+function typeBodies(text: string): { name: string; open: number; close: number }[] {
+  const bodies: { name: string; open: number; close: number }[] = [];
+  const decl = new RegExp(String.raw`\b(?:class|struct)\s+${DEPRECATION}${API_MACRO}(\w+)(?:\s+final)?\s*(?::[^{;()]+)?\{`, "g");
+  for (let match; (match = decl.exec(text)); ) {
+    const open = match.index + match[0].length - 1;
+    bodies.push({ name: match[1], open, close: matchingClose(text, open) });
+  }
+  return bodies;
+}
+
+/**
+ * Every UCLASS/USTRUCT/UENUM/UINTERFACE/UPROPERTY/UFUNCTION in a header or a
+ * snippet, including members outside any class (a snippet of declarations).
+ */
+export function parseMacroUses(source: string): MacroUse[] {
+  const text = stripComments(source);
+  const bodies = typeBodies(text);
+  const uses: MacroUse[] = [];
+  const macros = /\b(UCLASS|USTRUCT|UENUM|UINTERFACE|UPROPERTY|UFUNCTION)\s*\(/g;
+
+  for (let match; (match = macros.exec(text)); ) {
+    if (/#\s*define\s*$/.test(text.slice(Math.max(0, match.index - 20), match.index))) continue;
+    const macro = match[1] as ReflectionMacro;
+    const { specifiers, end } = macroArguments(text, match.index + match[0].length - 1);
+    const use: MacroUse = { macro, specifiers, line: lineAt(text, match.index) };
+
+    if (macro === "UPROPERTY" || macro === "UFUNCTION") {
+      const isFunction = macro === "UFUNCTION";
+      const parsed = (isFunction ? parseFunction : parseProperty)(declarationAfter(text, end, isFunction));
+      if (parsed) Object.assign(use, parsed);
+      const owner = bodies.filter((b) => b.open < match!.index && match!.index < b.close).sort((a, b) => b.open - a.open)[0];
+      if (owner) use.owner = owner.name;
+    } else {
+      const decl = text.slice(end).match(/^\s*(?:(?:class|struct|enum\s+class|enum|namespace)\s+)(?:\w+_API\s+)?(\w+)/);
+      if (decl) use.name = decl[1];
+    }
+    uses.push(use);
+    macros.lastIndex = end;
+  }
+  return uses;
+}
+
+// --- Index records ---
+
+export function toClassInfo(type: ReflectedType, source: { module: string; headerPath: string; file: string; category: string }): ReflectedClassInfo {
+  const macro = `${MACRO_OF_KIND[type.kind]}(${type.specifiers.join(", ")})`;
+  return {
+    name: type.name,
+    module: source.module,
+    parent: type.parent ?? "",
+    description: type.description ?? `${macro} declared in the ${source.module} module.`,
+    headerPath: source.headerPath,
+    category: source.category,
+    commonMacros: [macro],
+    kind: type.kind,
+    specifiers: type.specifiers,
+    interfaces: type.interfaces,
+    properties: type.properties,
+    functions: type.functions,
+    ...(type.values ? { values: type.values } : {}),
+    file: source.file,
+    line: type.line,
+  };
+}
@@ -0,0 +1,55 @@
+// Walking a project's or engine's source folders: finding files while skipping
+// build output, telling which module a file belongs to (the nearest folder with a
+// *.Build.cs), and the path other code would #include a header by.
+
+import { readdir } from "node:fs/promises";
+import { basename, dirname, join, relative, sep } from "node:path";
+
+export const SKIPPED_DIRS = ["Intermediate", "Binaries", "Saved", "DerivedDataCache", "Content", ".git", "node_modules"];
+
+// Folders a module's headers are included relative to
+const INCLUDE_ROOTS = ["Public", "Classes", "Private", "Internal"];
+
+export async function findFiles(dir: string, match: (name: string) => boolean, skip: string[] = SKIPPED_DIRS): Promise<string[]> {
+  const results: string[] = [];
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return results;
+  }
+  for (const entry of entries) {
+    const full = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!skip.includes(entry.name)) results.push(...(await findFiles(full, match, skip)));
+    } else if (match(entry.name)) {
+      results.push(full);
+    }
+  }
+  return results;
+}
+
+export interface SourceModule {
+  name: string;
+  dir: string;
+}
+
+/** The module owning a file: the deepest module folder that contains it. */
+export function moduleOf(file: string, modules: SourceModule[]): SourceModule | undefined {
+  let best: SourceModule | undefined;
+  for (const module of modules) {
+    if (file.startsWith(module.dir + sep) && (!best || module.dir.length > best.dir.length)) best = module;
+  }
+  return best;
+}
+
+/** Modules from a list of *.Build.cs paths. */
+export function modulesFromBuildFiles(buildFiles: string[]): SourceModule[] {
+  return buildFiles.map((file) => ({ name: basename(file, ".Build.cs"), dir: dirname(file) }));
+}
+
+/** How a header is #included: relative to its module's Public/Classes/Private folder, else the module folder. */
+export function includePath(header: string, moduleDir: string): string {
+  const parts = relative(moduleDir, header).split(sep);
+  return (INCLUDE_ROOTS.includes(parts[0]) && parts.length > 1 ? parts.slice(1) : parts).join("/");
+}
@@ -0,0 +1,94 @@
+// Rendering and searching the specifier database. Searches are plain word
+// matching: names count most, then the words people use for a specifier
+// ("details panel", "slider"), then its description. Questions like "how do I
+// hide this in the details panel" work because filler words are dropped first.
+
+import { MACRO_GUIDES, SpecifierInfo, SpecifierMacro, SPECIFIERS } from "../data/specifiers.js";
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "can", "do", "does", "exist", "exists", "for", "from", "how", "i", "in", "is", "it", "make",
+  "my", "of", "on", "or", "should", "the", "there", "this", "to", "use", "what", "when", "which", "with", "without",
+]);
+
+// Words that name what is being searched rather than what it does
+const GENERIC = new Set(["key", "keys", "meta", "metadata", "specifier", "specifiers"]);
+
+/** How the specifier is written, e.g. `meta = (ClampMin = "0")` */
+export function specifierSyntax(spec: SpecifierInfo): string {
+  const written = spec.value ?? spec.name;
+  return spec.kind === "meta" && spec.macro !== "UMETA" ? `meta = (${written})` : written;
+}
+
+function queryWords(query: string): string[] {
+  const words = query
+    .toLowerCase()
+    .split(/[^a-z0-9_]+/)
+    .filter((w) => w && !STOPWORDS.has(w));
+  const specific = words.filter((w) => !GENERIC.has(w));
+  return specific.length > 0 ? specific : words;
+}
+
+function score(spec: SpecifierInfo, words: string[], query: string): number {
+  const name = spec.name.toLowerCase();
+  const keywords = (spec.keywords ?? []).map((k) => k.toLowerCase());
+  const related = [...(spec.metaKeys ?? []), ...(spec.conflicts ?? [])].map((k) => k.toLowerCase());
+  const text = `${spec.description} ${spec.appliesTo}`.toLowerCase();
+
+  let total = 0;
+  for (const word of words) {
+    if (name === word) total += 10;
+    else if (word.length >= 3 && name.includes(word)) total += 4;
+    if (related.includes(word)) total += 3;
+    if (keywords.some((k) => k.split(" ").includes(word))) total += 3;
+    if (word.length >= 3 && text.includes(word)) total += 1;
+    if (spec.macro.toLowerCase() === word) total += 1;
+  }
+  // Whole keyword phrases in the question ("details panel", "rep notify")
+  for (const k of keywords) if (k.includes(" ") && query.includes(k)) total += 4;
+  return total;
+}
+
+/** Specifiers matching a free-text question, best first. */
+export function searchSpecifiers(query: string, macro?: SpecifierMacro): SpecifierInfo[] {
+  const words = queryWords(query);
+  const normalized = query.toLowerCase();
+  return SPECIFIERS.filter((s) => !macro || s.macro === macro)
+    .map((spec, order) => ({ spec, order, score: score(spec, words, normalized) }))
+    .filter((r) => r.score > 1)
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map((r) => r.spec);
+}
+
+/** One specifier with everything the database knows about it. */
+export function formatSpecifier(spec: SpecifierInfo): string {
+  let out = `### ${spec.macro}(${specifierSyntax(spec)})\n${spec.description}\n\n`;
+  out += `- **Applies to**: ${spec.appliesTo}\n`;
+  if (spec.conflicts?.length) out += `- **Conflicts with**: ${spec.conflicts.join(", ")}\n`;
+  if (spec.metaKeys?.length) out += `- **Related meta keys**: ${spec.metaKeys.join(", ")}\n`;
+  if (spec.since) out += `- **Since**: UE ${spec.since}\n`;
+  out += `\n\`\`\`cpp\n${spec.example}\n\`\`\`\n`;
+  return out;
+}
+
+/** The ue5_macro_reference page for one macro: its specifiers by group, meta keys, then examples. */
+export function macroReference(macro: SpecifierMacro): string {
+  const guide = MACRO_GUIDES.find((g) => g.macro === macro)!;
+  const entries = SPECIFIERS.filter((s) => s.macro === macro);
+  let out = `## ${macro} Specifiers\n\n${guide.summary}\n`;
+
+  for (const group of guide.groups) {
+    const inGroup = entries.filter((s) => s.group === group);
+    if (inGroup.length === 0) continue;
+    out += `\n### ${group === "Meta" ? "Meta Keys" : group}\n`;
+    for (const spec of inGroup) {
+      const notes = [
+        ...(spec.conflicts?.length ? [`not with ${spec.conflicts.join("/")}`] : []),
+        ...(spec.since ? [`UE ${spec.since}+`] : []),
+      ];
+      out += `- \`${specifierSyntax(spec)}\` — ${spec.description}${notes.length ? ` (${notes.join("; ")})` : ""}\n`;
+    }
+  }
+
+  out += `\n### Examples\n\`\`\`cpp\n${guide.example}\n\`\`\``;
+  return out;
+}
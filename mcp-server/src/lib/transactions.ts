@@ -0,0 +1,134 @@
+// Editor transaction scopes for multi-step tools.
+// A scope opens one named transaction through KismetSystemLibrary so every step
+// lands in a single undo entry, and cancels it (plus any registered compensations)
+// when a step fails, so the user never sees a half-applied operation.
+
+import { RcClient, RcError, RcRequest, RcResponse, toRcError } from "./rc-client.js";
+
+const KISMET_SYSTEM_LIBRARY = "/Script/Engine.Default__KismetSystemLibrary";
+
+export class RcTransactionRolledBackError extends RcError {
+  readonly step: string;
+  readonly rollbackErrors: string[];
+
+  constructor(description: string, step: string, cause: unknown, rollbackErrors: string[]) {
+    const inner = cause instanceof Error ? cause.message : String(cause);
+    super(
+      cause instanceof RcError ? cause.code : "HTTP_ERROR",
+      `"${description}" was rolled back because step "${step}" failed: ${inner}` +
+        (rollbackErrors.length > 0 ? `\nRollback problems: ${rollbackErrors.join("; ")}` : ""),
+      cause instanceof RcError ? cause.hint : "Check the editor's Output Log for details.",
+      cause instanceof RcError ? cause.status : undefined
+    );
+    this.step = step;
+    this.rollbackErrors = rollbackErrors;
+  }
+}
+
+export interface TransactionScope {
+  /** Call a function as part of the transaction; throws a typed RcError on failure. */
+  call(objectPath: string, functionName: string, parameters?: Record<string, any>, step?: string): Promise<any>;
+  /** Write a property as part of the transaction; throws a typed RcError on failure. */
+  property(objectPath: string, propertyName: string, propertyValue: any, step?: string): Promise<any>;
+  /** Send requests through /remote/batch as one step; throws on the first failed item. */
+  batch(requests: RcRequest[], step?: string): Promise<RcResponse[]>;
+  /**
+   * Register an undo action for work the editor transaction may not capture (e.g. spawned actors).
+   * A compensation that throws or resolves to a failed RcResponse is reported in the rollback error.
+   */
+  onRollback(compensate: () => Promise<unknown>): void;
+  /** Whether the editor accepted BeginTransaction (otherwise only compensations roll back). */
+  readonly grouped: boolean;
+}
+
+function isFailedResponse(value: unknown): value is RcResponse {
+  return typeof value === "object" && value !== null && (value as RcResponse).ok === false && "request" in value;
+}
+
+/**
+ * Run `body` inside a single named editor transaction. If any step throws, the
+ * transaction is cancelled, compensations run in reverse order, and the error is
+ * rethrown as RcTransactionRolledBackError.
+ */
+export async function withEditorTransaction<T>(
+  rc: RcClient,
+  description: string,
+  body: (tx: TransactionScope) => Promise<T>
+): Promise<T> {
+  const compensations: (() => Promise<unknown>)[] = [];
+  let currentStep = "begin";
+
+  // Older editors or locked-down RC setups may not expose the Kismet transaction
+  // functions; fall back to per-call transactions plus compensations.
+  const begin = await rc.call(
+    KISMET_SYSTEM_LIBRARY,
+    "BeginTransaction",
+    { Context: "ue5-mcp-server", Description: description, PrimaryObject: null },
+    { generateTransaction: false }
+  );
+  const grouped = begin.ok && typeof begin.data?.ReturnValue === "number" && begin.data.ReturnValue >= 0;
+  const index: number | undefined = grouped ? begin.data.ReturnValue : undefined;
+
+  const run = async (step: string, send: () => ReturnType<RcClient["call"]>) => {
+    currentStep = step;
+    const res = await send();
+    if (!res.ok) throw toRcError(res);
+    return res.data;
+  };
+
+  const tx: TransactionScope = {
+    grouped,
+    call: (objectPath, functionName, parameters, step) =>
+      run(step ?? functionName, () =>
+        rc.call(objectPath, functionName, parameters, { generateTransaction: !grouped })
+      ),
+    property: (objectPath, propertyName, propertyValue, step) =>
+      run(step ?? `set ${propertyName}`, () =>
+        rc.property(objectPath, propertyName, propertyValue, { generateTransaction: !grouped })
+      ),
+    batch: async (requests, step) => {
+      currentStep = step ?? "batch";
+      // Object calls inside the batch join the open transaction instead of making their own
+      const responses = await rc.batch(
+        requests.map((r) =>
+          r.path === "/remote/object/call" ? { ...r, body: { ...r.body, generateTransaction: !grouped } } : r
+        )
+      );
+      const failed = responses.find((r) => !r.ok);
+      if (failed) throw toRcError(failed);
+      return responses;
+    },
+    onRollback: (compensate) => {
+      compensations.push(compensate);
+    },
+  };
+
+  try {
+    const result = await body(tx);
+    if (grouped) {
+      // A transaction left open would take every later editor change into this undo
+      // entry, so a failed EndTransaction rolls back like any other step
+      currentStep = "EndTransaction";
+      const end = await rc.call(KISMET_SYSTEM_LIBRARY, "EndTransaction", {}, { generateTransaction: false });
+      if (!end.ok) throw toRcError(end);
+    }
+    return result;
+  } catch (err) {
+    const rollbackErrors: string[] = [];
+    if (grouped) {
+      const cancel = await rc
+        .call(KISMET_SYSTEM_LIBRARY, "CancelTransaction", { Index: index }, { generateTransaction: false })
+        .catch((e: Error) => ({ ok: false, status: 0, data: e.message }));
+      if (!cancel.ok) rollbackErrors.push(`CancelTransaction failed (${cancel.status || cancel.data})`);
+    }
+    for (const compensate of compensations.reverse()) {
+      try {
+        const outcome = await compensate();
+        if (isFailedResponse(outcome)) rollbackErrors.push(toRcError(outcome).message);
+      } catch (e) {
+        rollbackErrors.push(e instanceof Error ? e.message : String(e));
+      }
+    }
+    throw new RcTransactionRolledBackError(description, currentStep, err, rollbackErrors);
+  }
+}
@@ -0,0 +1,41 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerDocTools } from "./tools/documentation.js";
+import { registerProjectTools } from "./tools/project.js";
+import { registerLearningTools } from "./tools/learning.js";
+import { registerCppTools } from "./tools/cpp.js";
+import { registerRemoteControlTools } from "./tools/remote-control.js";
+import { registerEditorControlTools } from "./tools/editor-control.js";
+import { registerEventTools } from "./tools/events.js";
+import { registerEditorTools } from "./tools/editors.js";
+import { registerSnapshotTools } from "./tools/snapshots.js";
+import { registerSelectionTools } from "./tools/selection.js";
+import { registerConfigTools } from "./tools/config.js";
+import { registerDescriptorTools } from "./tools/descriptors.js";
+
+export const SERVER_NAME = "ue5-mcp-server";
+export const SERVER_VERSION = "1.1.0";
+
+// Each transport session gets its own McpServer; tool state that must be shared
+// between sessions (editor connections, event buffers) lives in module scope.
+export function createServer(): McpServer {
+  const server = new McpServer({
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
+  });
+
+  // Register all tool groups
+  registerDocTools(server);
+  registerProjectTools(server);
+  registerLearningTools(server);
+  registerCppTools(server);
+  registerRemoteControlTools(server);
+  registerEditorControlTools(server);
+  registerEventTools(server);
+  registerEditorTools(server);
+  registerSnapshotTools(server);
+  registerSelectionTools(server);
+  registerConfigTools(server);
+  registerDescriptorTools(server);
+
+  return server;
+}
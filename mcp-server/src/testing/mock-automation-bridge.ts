@@ -0,0 +1,152 @@
+// Local TCP stand-in for the McpAutomationBridge plugin. Speaks the client's
+// length-prefixed framing and answers actions by driving the same mock level the
+// fake Remote Control API uses, so both protocols can be pointed at one state.
+
+import { AddressInfo, createServer, Server, Socket } from "node:net";
+import { encodeFrame, FrameDecoder } from "../lib/automation-bridge.js";
+import { createMockRcDispatcher, MOCK_ENGINE_VERSION, MOCK_LEVEL_PATH, MockRcDispatcher } from "./mock-rc-server.js";
+
+const EDITOR_ACTOR_SUBSYSTEM = "/Script/UnrealEd.Default__EditorActorSubsystem";
+const GAMEPLAY_STATICS = "/Script/Engine.Default__GameplayStatics";
+
+export const MOCK_BRIDGE_VERSION = "0.9.0-mock";
+
+type ActionHandler = (params: Record<string, any>) => any;
+
+export interface MockAutomationBridgeOptions {
+  /** TCP port; 0 picks a free one */
+  port?: number;
+  /** Share a level with a mock RC server by passing its dispatcher */
+  dispatcher?: MockRcDispatcher;
+}
+
+export interface MockAutomationBridge {
+  port: number;
+  dispatcher: MockRcDispatcher;
+  /** Every action received, in order */
+  actionLog: { action: string; payload: any }[];
+  /** Drop every open client connection, as an editor restart would */
+  dropConnections(): void;
+  close(): Promise<void>;
+}
+
+export async function startMockAutomationBridge(options: MockAutomationBridgeOptions = {}): Promise<MockAutomationBridge> {
+  const dispatcher = options.dispatcher ?? createMockRcDispatcher();
+  const actionLog: { action: string; payload: any }[] = [];
+  const sockets = new Set<Socket>();
+
+  // Runs one RC call against the mock level; a failed call becomes the action's error
+  const call = (objectPath: string, functionName: string, parameters: Record<string, any> = {}) => {
+    const reply = dispatcher.dispatch("/remote/object/call", "PUT", { objectPath, functionName, parameters });
+    if (reply.status >= 300) throw new Error(reply.body?.errorMessage ?? `HTTP ${reply.status}`);
+    return reply.body;
+  };
+  const vector = (v: any) => (v ? { X: v.x ?? v.X ?? 0, Y: v.y ?? v.Y ?? 0, Z: v.z ?? v.Z ?? 0 } : undefined);
+
+  const fieldReaders: Record<string, (path: string) => any> = {
+    label: (path) => call(path, "GetActorLabel").ReturnValue,
+    className: (path) => dispatcher.dispatch("/remote/object/describe", "PUT", { objectPath: path }).body?.Class,
+    tags: (path) => dispatcher.dispatch("/remote/object/property", "PUT", { objectPath: path, propertyName: "Tags", access: "READ_ACCESS" }).body?.Tags,
+    folder: (path) => call(path, "GetFolderPath").ReturnValue,
+    location: (path) => call(path, "K2_GetActorLocation").ReturnValue,
+    bounds: (path) => {
+      const bounds = call(path, "GetActorBounds");
+      return { origin: bounds.Origin, extent: bounds.BoxExtent };
+    },
+  };
+
+  const actions: Record<string, ActionHandler> = {
+    ping: () => ({ pluginVersion: MOCK_BRIDGE_VERSION, engineVersion: MOCK_ENGINE_VERSION, actions: Object.keys(actions) }),
+    spawn_actor: (p) => {
+      const actorPath: string = call(EDITOR_ACTOR_SUBSYSTEM, "SpawnActorFromClass", {
+        ActorClass: p.classPath,
+        Location: vector(p.location) ?? { X: 0, Y: 0, Z: 0 },
+      }).ReturnValue;
+      if (p.meshPath) call(`${actorPath}.StaticMeshComponent0`, "SetStaticMesh", { NewMesh: p.meshPath });
+      if (p.simulatePhysics) call(`${actorPath}.StaticMeshComponent0`, "SetSimulatePhysics", { bSimulate: true });
+      if (p.label) call(actorPath, "SetActorLabel", { NewActorLabel: p.label });
+      if (p.rotation) {
+        call(actorPath, "K2_SetActorRotation", {
+          NewRotation: { Pitch: p.rotation.pitch, Yaw: p.rotation.yaw, Roll: p.rotation.roll },
+        });
+      }
+      if (p.scale) call(actorPath, "SetActorScale3D", { NewScale3D: vector(p.scale) });
+      for (const c of p.calls ?? []) call(c.component ? `${actorPath}.${c.component}` : actorPath, c.functionName, c.parameters);
+      return { actorPath, transactional: false };
+    },
+    delete_actor: (p) => ({ deleted: call(EDITOR_ACTOR_SUBSYSTEM, "DestroyActor", { ActorToDestroy: p.actorPath }).ReturnValue !== false }),
+    set_object_property: (p) => {
+      const reply = dispatcher.dispatch("/remote/object/property", "PUT", {
+        objectPath: p.objectPath,
+        propertyName: p.propertyName,
+        propertyValue: p.value,
+      });
+      if (reply.status >= 300) throw new Error(reply.body?.errorMessage ?? `HTTP ${reply.status}`);
+      return {};
+    },
+    call_function: (p) => call(p.objectPath, p.functionName, p.parameters),
+    list_actors: () => ({ actors: call(EDITOR_ACTOR_SUBSYSTEM, "GetAllLevelActors").ReturnValue }),
+    get_actors_of_class: (p) => ({
+      actors: call(GAMEPLAY_STATICS, "GetAllActorsOfClass", {
+        WorldContextObject: MOCK_LEVEL_PATH.split(":")[0],
+        ActorClass: p.classPath,
+      }).OutActors,
+    }),
+    get_selected_actors: () => ({ actors: call(EDITOR_ACTOR_SUBSYSTEM, "GetSelectedLevelActors").ReturnValue }),
+    get_actor_fields: (p) => ({
+      actors: (p.actors ?? []).map((path: string) => {
+        const record: Record<string, any> = { path };
+        for (const field of p.fields ?? []) {
+          if (fieldReaders[field]) record[field] = fieldReaders[field](path);
+        }
+        return record;
+      }),
+    }),
+  };
+
+  function respond(socket: Socket, message: any) {
+    const { requestId, action, payload } = message ?? {};
+    actionLog.push({ action, payload });
+    const handler = actions[action];
+    if (!handler) {
+      socket.write(encodeFrame({ type: "automation_response", requestId, success: false, error: `Unknown action: ${action}` }));
+      return;
+    }
+    try {
+      const result = handler(payload ?? {});
+      socket.write(encodeFrame({ type: "automation_response", requestId, success: true, result }));
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      socket.write(encodeFrame({ type: "automation_response", requestId, success: false, error }));
+    }
+  }
+
+  const server: Server = createServer((socket) => {
+    sockets.add(socket);
+    const decoder = new FrameDecoder();
+    socket.on("data", (chunk) => {
+      try {
+        decoder.push(chunk).forEach((m) => respond(socket, m));
+      } catch {
+        socket.destroy();
+      }
+    });
+    socket.on("error", () => socket.destroy());
+    socket.on("close", () => sockets.delete(socket));
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    dispatcher,
+    actionLog,
+    dropConnections() {
+      for (const socket of sockets) socket.destroy();
+    },
+    async close() {
+      for (const socket of sockets) socket.destroy();
+      await new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve())));
+    },
+  };
+}
@@ -0,0 +1,36 @@
+// Standalone mock editor: serves the fake Remote Control API so the MCP server
+// can be pointed at it with UE5_HOST=127.0.0.1 UE5_RC_PORT=<port>, and the fake
+// Automation Bridge on MCP_AUTOMATION_PORT over the same level.
+
+import { addMockActor, createMockLevelState, startMockRcServer } from "./mock-rc-server.js";
+import { startMockAutomationBridge } from "./mock-automation-bridge.js";
+
+async function main() {
+  const state = createMockLevelState();
+  addMockActor(state, "/Script/Engine.StaticMeshActor", { label: "Floor", scale: { X: 10, Y: 10, Z: 1 } });
+  addMockActor(state, "/Script/Engine.DirectionalLight", { label: "Sun", rotation: { Pitch: -45, Yaw: 30, Roll: 0 } });
+  addMockActor(state, "/Script/Engine.PlayerStart", { label: "PlayerStart", location: { X: 0, Y: 0, Z: 100 } });
+
+  const server = await startMockRcServer({
+    port: parseInt(process.env.UE5_RC_PORT || "30010", 10),
+    wsPort: parseInt(process.env.UE5_RC_WS_PORT || "30020", 10),
+    state,
+  });
+  const bridge = await startMockAutomationBridge({
+    port: parseInt(process.env.MCP_AUTOMATION_PORT || "8091", 10),
+    dispatcher: server,
+  });
+  console.error(`Mock UE5 Remote Control API on ${server.url} (WebSocket port ${server.wsPort})`);
+  console.error(`Mock Automation Bridge on tcp://127.0.0.1:${bridge.port}`);
+
+  const shutdown = () => {
+    Promise.all([server.close(), bridge.close()]).finally(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("Failed to start mock editor:", error);
+  process.exit(1);
+});
@@ -0,0 +1,728 @@
+// In-process fake of the UE5 Remote Control API for offline integration tests.
+// Implements the HTTP routes the editor-control tools use (plus the WebSocket
+// "http" channel) on top of a simulated level, so every ue5_* tool can run
+// end-to-end on a machine without an editor or GPU.
+
+import express, { Request, Response } from "express";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { WebSocketServer } from "ws";
+
+// --- Simulated state ---
+
+export interface Vector {
+  X: number;
+  Y: number;
+  Z: number;
+}
+
+export interface Rotator {
+  Pitch: number;
+  Yaw: number;
+  Roll: number;
+}
+
+export interface MockComponent {
+  name: string;
+  className: string;
+  properties: Record<string, any>;
+}
+
+export interface MockActor {
+  path: string;
+  className: string;
+  label: string;
+  location: Vector;
+  rotation: Rotator;
+  scale: Vector;
+  tags: string[];
+  folder: string;
+  selected: boolean;
+  properties: Record<string, any>;
+  components: Record<string, MockComponent>;
+}
+
+export interface MockTransaction {
+  index: number;
+  description: string;
+  status: "open" | "committed" | "cancelled" | "undone";
+  /** Level contents when the transaction began, restored on cancel/undo */
+  before: { actors: Map<string, MockActor>; materials: Map<string, Record<string, any>> };
+}
+
+export interface MockLevelState {
+  actors: Map<string, MockActor>;
+  camera: { location: Vector; rotation: Rotator };
+  pie: "none" | "play" | "simulate";
+  consoleLog: string[];
+  /** Every object call received, in order — handy for asserting on tool behaviour */
+  callLog: { objectPath: string; functionName: string; parameters: Record<string, any> }[];
+  materials: Map<string, Record<string, any>>;
+  transactions: MockTransaction[];
+}
+
+export const MOCK_LEVEL_PATH = "/Game/Maps/MockLevel.MockLevel:PersistentLevel";
+
+const EDITOR_ACTOR_SUBSYSTEM = "/Script/UnrealEd.Default__EditorActorSubsystem";
+const UNREAL_EDITOR_SUBSYSTEM = "/Script/UnrealEd.Default__UnrealEditorSubsystem";
+const LOADING_AND_SAVING_UTILS = "/Script/UnrealEd.Default__EditorLoadingAndSavingUtils";
+const KISMET_SYSTEM_LIBRARY = "/Script/Engine.Default__KismetSystemLibrary";
+const KISMET_MATH_LIBRARY = "/Script/Engine.Default__KismetMathLibrary";
+const GAMEPLAY_STATICS = "/Script/Engine.Default__GameplayStatics";
+
+export const MOCK_ENGINE_VERSION = "5.4.0-mock";
+
+// Enough of the engine's actor hierarchy for subclass queries
+const MOCK_CLASS_PARENTS: Record<string, string> = {
+  PointLight: "Light",
+  SpotLight: "Light",
+  DirectionalLight: "Light",
+  RectLight: "Light",
+  Light: "Actor",
+  SkyLight: "Info",
+  ExponentialHeightFog: "Info",
+  Info: "Actor",
+  PlayerStart: "NavigationObjectBase",
+  NavigationObjectBase: "Actor",
+  TriggerBox: "TriggerBase",
+  TriggerSphere: "TriggerBase",
+  TriggerBase: "Actor",
+  Character: "Pawn",
+  Pawn: "Actor",
+};
+
+function isMockSubclass(className: string, ancestor: string): boolean {
+  for (let c: string | undefined = className; c; c = c === "Actor" ? undefined : MOCK_CLASS_PARENTS[c] ?? "Actor") {
+    if (c === ancestor) return true;
+  }
+  return false;
+}
+
+const MOCK_ASSETS = [
+  { Name: "Cube", Class: "StaticMesh", Path: "/Engine/BasicShapes/Cube.Cube" },
+  { Name: "Sphere", Class: "StaticMesh", Path: "/Engine/BasicShapes/Sphere.Sphere" },
+  { Name: "Cylinder", Class: "StaticMesh", Path: "/Engine/BasicShapes/Cylinder.Cylinder" },
+  { Name: "Cone", Class: "StaticMesh", Path: "/Engine/BasicShapes/Cone.Cone" },
+  { Name: "Plane", Class: "StaticMesh", Path: "/Engine/BasicShapes/Plane.Plane" },
+  { Name: "BasicShapeMaterial", Class: "Material", Path: "/Engine/BasicShapes/BasicShapeMaterial.BasicShapeMaterial" },
+  { Name: "M_Red", Class: "Material", Path: "/Game/Materials/M_Red.M_Red" },
+  { Name: "BP_Door", Class: "Blueprint", Path: "/Game/Blueprints/BP_Door.BP_Door" },
+];
+
+function shortClassName(classPath: string): string {
+  return classPath.split(/[./]/).pop() || classPath;
+}
+
+function defaultComponents(className: string): Record<string, MockComponent> {
+  if (className === "StaticMeshActor") {
+    return {
+      StaticMeshComponent0: {
+        name: "StaticMeshComponent0",
+        className: "StaticMeshComponent",
+        properties: { StaticMesh: null, Mobility: "Static", bSimulatePhysics: false, bEnableGravity: true, OverrideMaterials: [] },
+      },
+    };
+  }
+  if (className === "SkyLight") {
+    return {
+      SkyLightComponent0: {
+        name: "SkyLightComponent0",
+        className: "SkyLightComponent",
+        properties: { Intensity: 1, LightColor: { R: 255, G: 255, B: 255, A: 255 }, CastShadows: true },
+      },
+    };
+  }
+  if (className.endsWith("Light")) {
+    return {
+      LightComponent0: {
+        name: "LightComponent0",
+        className: `${className}Component`,
+        properties: { Intensity: 5000, LightColor: { R: 255, G: 255, B: 255, A: 255 }, CastShadows: true },
+      },
+    };
+  }
+  return {
+    DefaultSceneRoot: { name: "DefaultSceneRoot", className: "SceneComponent", properties: {} },
+  };
+}
+
+export function createMockLevelState(): MockLevelState {
+  return {
+    actors: new Map(),
+    camera: { location: { X: 0, Y: 0, Z: 500 }, rotation: { Pitch: -30, Yaw: 0, Roll: 0 } },
+    pie: "none",
+    consoleLog: [],
+    callLog: [],
+    materials: new Map(),
+    transactions: [],
+  };
+}
+
+export function addMockActor(
+  state: MockLevelState,
+  className: string,
+  init: Partial<Omit<MockActor, "path" | "className" | "components">> = {}
+): MockActor {
+  const short = shortClassName(className);
+  let n = 0;
+  while (state.actors.has(`${MOCK_LEVEL_PATH}.${short}_${n}`)) n++;
+  const actor: MockActor = {
+    path: `${MOCK_LEVEL_PATH}.${short}_${n}`,
+    className: short,
+    label: init.label ?? `${short}${n === 0 ? "" : n}`,
+    location: init.location ?? { X: 0, Y: 0, Z: 0 },
+    rotation: init.rotation ?? { Pitch: 0, Yaw: 0, Roll: 0 },
+    scale: init.scale ?? { X: 1, Y: 1, Z: 1 },
+    tags: init.tags ?? [],
+    folder: init.folder ?? "",
+    selected: init.selected ?? false,
+    properties: { bHidden: false, ...init.properties },
+    components: defaultComponents(short),
+  };
+  state.actors.set(actor.path, actor);
+  return actor;
+}
+
+// --- Dispatch ---
+
+export interface MockReply {
+  status: number;
+  body: any;
+}
+
+interface Fault {
+  functionName?: string;
+  objectPath?: string;
+  status: number;
+  message: string;
+  remaining: number;
+}
+
+function ok(body: any = {}): MockReply {
+  return { status: 200, body };
+}
+
+function fail(status: number, errorMessage: string): MockReply {
+  return { status, body: { errorMessage } };
+}
+
+function toVector(v: any, fallback: Vector): Vector {
+  return { X: v?.X ?? fallback.X, Y: v?.Y ?? fallback.Y, Z: v?.Z ?? fallback.Z };
+}
+
+function toRotator(r: any, fallback: Rotator): Rotator {
+  return { Pitch: r?.Pitch ?? fallback.Pitch, Yaw: r?.Yaw ?? fallback.Yaw, Roll: r?.Roll ?? fallback.Roll };
+}
+
+type Handler = (state: MockLevelState, params: Record<string, any>, target: any) => MockReply;
+
+function restoreLevel(state: MockLevelState, transaction: MockTransaction) {
+  const before = structuredClone(transaction.before);
+  state.actors.clear();
+  for (const [path, actor] of before.actors) state.actors.set(path, actor);
+  state.materials.clear();
+  for (const [path, params] of before.materials) state.materials.set(path, params);
+}
+
+const SUBSYSTEM_FUNCTIONS: Record<string, Record<string, Handler>> = {
+  [EDITOR_ACTOR_SUBSYSTEM]: {
+    SpawnActorFromClass: (state, p) => {
+      if (!p.ActorClass) return fail(400, "Parameter ActorClass is required");
+      const actor = addMockActor(state, p.ActorClass, {
+        location: toVector(p.Location, { X: 0, Y: 0, Z: 0 }),
+        rotation: toRotator(p.Rotation, { Pitch: 0, Yaw: 0, Roll: 0 }),
+      });
+      return ok({ ReturnValue: actor.path });
+    },
+    GetAllLevelActors: (state) => ok({ ReturnValue: [...state.actors.keys()] }),
+    GetSelectedLevelActors: (state) =>
+      ok({ ReturnValue: [...state.actors.values()].filter((a) => a.selected).map((a) => a.path) }),
+    SetSelectedLevelActors: (state, p) => {
+      const wanted = new Set<string>(p.ActorsToSelect ?? []);
+      for (const actor of state.actors.values()) actor.selected = wanted.has(actor.path);
+      return ok();
+    },
+    SetActorSelectionState: (state, p) => {
+      const actor = state.actors.get(p.Actor);
+      if (!actor) return fail(400, `Object: ${p.Actor} does not exist.`);
+      actor.selected = !!p.bShouldBeSelected;
+      return ok();
+    },
+    ClearActorSelectionSet: (state) => {
+      for (const actor of state.actors.values()) actor.selected = false;
+      return ok();
+    },
+    SelectNothing: (state) => {
+      for (const actor of state.actors.values()) actor.selected = false;
+      return ok();
+    },
+    DestroyActor: (state, p) => ok({ ReturnValue: state.actors.delete(p.ActorToDestroy) }),
+    DestroySelectedActors: (state) => {
+      for (const actor of [...state.actors.values()]) {
+        if (actor.selected) state.actors.delete(actor.path);
+      }
+      return ok();
+    },
+    DuplicateSelectedActors: (state) => {
+      const copies: string[] = [];
+      for (const actor of [...state.actors.values()].filter((a) => a.selected)) {
+        actor.selected = false;
+        const copy = addMockActor(state, actor.className, { ...structuredClone(actor), label: `${actor.label}2`, selected: true });
+        copy.components = structuredClone(actor.components);
+        copies.push(copy.path);
+      }
+      return ok({ ReturnValue: copies });
+    },
+  },
+  [UNREAL_EDITOR_SUBSYSTEM]: {
+    GetLevelViewportCameraInfo: (state) =>
+      ok({ CameraLocation: state.camera.location, CameraRotation: state.camera.rotation, ReturnValue: true }),
+    SetLevelViewportCameraInfo: (state, p) => {
+      state.camera.location = toVector(p.CameraLocation, state.camera.location);
+      state.camera.rotation = toRotator(p.CameraRotation, state.camera.rotation);
+      return ok();
+    },
+    GetEditorWorld: () => ok({ ReturnValue: MOCK_LEVEL_PATH.split(":")[0] }),
+    GetGameWorld: (state) => ok({ ReturnValue: state.pie === "none" ? null : "/Game/Maps/UEDPIE_0_MockLevel.MockLevel" }),
+    StartPIE: (state, p) => {
+      state.pie = p.bSimulateInEditor ? "simulate" : "play";
+      return ok();
+    },
+    EndPIE: (state) => {
+      state.pie = "none";
+      return ok();
+    },
+    Undo: (state) => {
+      const last = state.transactions.filter((t) => t.status === "committed").pop();
+      if (!last) return ok({ ReturnValue: false });
+      restoreLevel(state, last);
+      last.status = "undone";
+      return ok({ ReturnValue: true });
+    },
+    Redo: () => ok({ ReturnValue: true }),
+  },
+  [LOADING_AND_SAVING_UTILS]: {
+    SaveCurrentLevel: () => ok({ ReturnValue: true }),
+    SaveDirtyPackages: () => ok({ ReturnValue: true }),
+  },
+  [GAMEPLAY_STATICS]: {
+    GetAllActorsOfClass: (state, p) => {
+      if (!p.ActorClass) return fail(400, "Parameter ActorClass is required");
+      // Like the engine, find nothing when the context object has no world (e.g. a CDO)
+      const world = String(p.WorldContextObject ?? "");
+      if (!world || !MOCK_LEVEL_PATH.startsWith(world)) return ok({ OutActors: [] });
+      const ancestor = shortClassName(p.ActorClass);
+      return ok({
+        OutActors: [...state.actors.values()].filter((a) => isMockSubclass(a.className, ancestor)).map((a) => a.path),
+      });
+    },
+  },
+  [KISMET_MATH_LIBRARY]: {
+    // FDateTime exports as "yyyy.mm.dd-hh.mm.ss"
+    UtcNow: () => ok({ ReturnValue: new Date().toISOString().replace(/-/g, ".").replace("T", "-").replace(/:/g, ".").slice(0, 19) }),
+  },
+  [KISMET_SYSTEM_LIBRARY]: {
+    GetEngineVersion: () => ok({ ReturnValue: MOCK_ENGINE_VERSION }),
+    ExecuteConsoleCommand: (state, p) => {
+      state.consoleLog.push(p.Command);
+      return ok();
+    },
+    BeginTransaction: (state, p) => {
+      const transaction: MockTransaction = {
+        index: state.transactions.length,
+        description: String(p.Description ?? ""),
+        status: "open",
+        before: structuredClone({ actors: state.actors, materials: state.materials }),
+      };
+      state.transactions.push(transaction);
+      return ok({ ReturnValue: transaction.index });
+    },
+    EndTransaction: (state) => {
+      const open = state.transactions.filter((t) => t.status === "open").pop();
+      if (!open) return ok({ ReturnValue: -1 });
+      open.status = "committed";
+      return ok({ ReturnValue: open.index });
+    },
+    CancelTransaction: (state, p) => {
+      const transaction = state.transactions[p.Index];
+      if (!transaction || transaction.status !== "open") {
+        return fail(400, `CancelTransaction: no open transaction with index ${p.Index}`);
+      }
+      restoreLevel(state, transaction);
+      transaction.status = "cancelled";
+      return ok();
+    },
+  },
+};
+
+const ACTOR_FUNCTIONS: Record<string, Handler> = {
+  K2_SetActorLocation: (_s, p, a: MockActor) => {
+    a.location = toVector(p.NewLocation, a.location);
+    return ok({ ReturnValue: true });
+  },
+  K2_SetActorRotation: (_s, p, a: MockActor) => {
+    a.rotation = toRotator(p.NewRotation, a.rotation);
+    return ok({ ReturnValue: true });
+  },
+  SetActorScale3D: (_s, p, a: MockActor) => {
+    a.scale = toVector(p.NewScale3D, a.scale);
+    return ok();
+  },
+  K2_SetActorTransform: (_s, p, a: MockActor) => {
+    a.location = toVector(p.NewTransform?.Translation, a.location);
+    a.rotation = toRotator(p.NewTransform?.Rotation, a.rotation);
+    a.scale = toVector(p.NewTransform?.Scale3D, a.scale);
+    return ok({ ReturnValue: true });
+  },
+  SetActorLabel: (_s, p, a: MockActor) => {
+    a.label = String(p.NewActorLabel ?? a.label);
+    return ok();
+  },
+  SetFolderPath: (_s, p, a: MockActor) => {
+    a.folder = String(p.NewFolderPath ?? "");
+    return ok();
+  },
+  K2_GetActorLocation: (_s, _p, a: MockActor) => ok({ ReturnValue: a.location }),
+  K2_GetActorRotation: (_s, _p, a: MockActor) => ok({ ReturnValue: a.rotation }),
+  GetActorScale3D: (_s, _p, a: MockActor) => ok({ ReturnValue: a.scale }),
+  GetActorLabel: (_s, _p, a: MockActor) => ok({ ReturnValue: a.label }),
+  GetFolderPath: (_s, _p, a: MockActor) => ok({ ReturnValue: a.folder }),
+  GetActorBounds: (_s, _p, a: MockActor) =>
+    ok({ Origin: a.location, BoxExtent: { X: 50 * a.scale.X, Y: 50 * a.scale.Y, Z: 50 * a.scale.Z } }),
+  ActorHasTag: (_s, p, a: MockActor) => ok({ ReturnValue: a.tags.includes(p.Tag) }),
+};
+
+// Component setters map straight onto a stored property
+const COMPONENT_SETTERS: Record<string, [param: string, property: string]> = {
+  SetStaticMesh: ["NewMesh", "StaticMesh"],
+  SetMobility: ["NewMobility", "Mobility"],
+  SetSimulatePhysics: ["bSimulate", "bSimulatePhysics"],
+  SetEnableGravity: ["bGravityEnabled", "bEnableGravity"],
+  SetIntensity: ["NewIntensity", "Intensity"],
+  SetLightColor: ["NewLightColor", "LightColor"],
+  SetAttenuationRadius: ["NewRadius", "AttenuationRadius"],
+  SetInnerConeAngle: ["NewInnerConeAngle", "InnerConeAngle"],
+  SetOuterConeAngle: ["NewOuterConeAngle", "OuterConeAngle"],
+  SetCastShadows: ["NewCastShadows", "CastShadows"],
+  SetPhysicsLinearVelocity: ["NewVel", "PhysicsLinearVelocity"],
+};
+
+const COMPONENT_IMPULSES = ["AddForce", "AddImpulse", "AddTorqueInDegrees"];
+
+// --- Server ---
+
+export interface MockRcServerOptions {
+  /** HTTP port; 0 picks a free one */
+  port?: number;
+  /** Also serve the WebSocket API; 0 picks a free port, undefined disables it */
+  wsPort?: number;
+  state?: MockLevelState;
+}
+
+/** The fake Remote Control routes over one level state, without any networking. */
+export interface MockRcDispatcher {
+  state: MockLevelState;
+  /** Handle one RC route without going through HTTP */
+  dispatch(path: string, verb: string, body: any): MockReply;
+  /** Make the next `times` matching calls fail with the given status and message */
+  injectFault(match: { functionName?: string; objectPath?: string }, status: number, message: string, times?: number): void;
+}
+
+export interface MockRcServer extends MockRcDispatcher {
+  port: number;
+  wsPort?: number;
+  url: string;
+  /** Send an event (e.g. PresetFieldsChanged) to every connected WebSocket client */
+  pushEvent(message: unknown): void;
+  close(): Promise<void>;
+}
+
+export function createMockRcDispatcher(state: MockLevelState = createMockLevelState()): MockRcDispatcher {
+  const faults: Fault[] = [];
+
+  function resolveObject(objectPath: string):
+    | { kind: "subsystem"; functions: Record<string, Handler> }
+    | { kind: "actor"; actor: MockActor }
+    | { kind: "component"; actor: MockActor; component: MockComponent }
+    | { kind: "material"; path: string; params: Record<string, any> }
+    | undefined {
+    if (SUBSYSTEM_FUNCTIONS[objectPath]) return { kind: "subsystem", functions: SUBSYSTEM_FUNCTIONS[objectPath] };
+    const actor = state.actors.get(objectPath);
+    if (actor) return { kind: "actor", actor };
+    const material = state.materials.get(objectPath);
+    if (material) return { kind: "material", path: objectPath, params: material };
+    const dot = objectPath.lastIndexOf(".");
+    const owner = state.actors.get(objectPath.slice(0, dot));
+    const component = owner?.components[objectPath.slice(dot + 1)];
+    if (owner && component) return { kind: "component", actor: owner, component };
+    return undefined;
+  }
+
+  function callFunction(body: any): MockReply {
+    const { objectPath, functionName } = body ?? {};
+    const parameters = body?.parameters ?? {};
+    if (!objectPath || !functionName) return fail(400, "Missing objectPath or functionName");
+    state.callLog.push({ objectPath, functionName, parameters });
+
+    const fault = faults.find(
+      (f) =>
+        f.remaining > 0 &&
+        (!f.functionName || f.functionName === functionName) &&
+        (!f.objectPath || f.objectPath === objectPath)
+    );
+    if (fault) {
+      fault.remaining--;
+      return fail(fault.status, fault.message);
+    }
+
+    const target = resolveObject(objectPath);
+    if (!target) return fail(400, `Object: ${objectPath} does not exist.`);
+    const missing = () => fail(400, `Function: ${functionName} does not exist on object: ${objectPath}`);
+
+    switch (target.kind) {
+      case "subsystem": {
+        const handler = target.functions[functionName];
+        return handler ? handler(state, parameters, undefined) : missing();
+      }
+      case "actor": {
+        const handler = ACTOR_FUNCTIONS[functionName];
+        return handler ? handler(state, parameters, target.actor) : missing();
+      }
+      case "component": {
+        const setter = COMPONENT_SETTERS[functionName];
+        if (setter) {
+          target.component.properties[setter[1]] = parameters[setter[0]];
+          return ok();
+        }
+        if (COMPONENT_IMPULSES.includes(functionName)) {
+          if (!target.component.properties.bSimulatePhysics) {
+            return fail(400, `${functionName}: component ${objectPath} is not simulating physics`);
+          }
+          return ok();
+        }
+        if (functionName === "SetMaterial") {
+          const materials = target.component.properties.OverrideMaterials ?? [];
+          materials[parameters.ElementIndex ?? 0] = parameters.Material;
+          target.component.properties.OverrideMaterials = materials;
+          return ok();
+        }
+        if (functionName === "GetMaterial") {
+          const materials = target.component.properties.OverrideMaterials ?? [];
+          return ok({ ReturnValue: materials[parameters.ElementIndex ?? 0] ?? null });
+        }
+        if (functionName === "CreateDynamicMaterialInstance") {
+          const path = `${objectPath}.MaterialInstanceDynamic_${state.materials.size}`;
+          state.materials.set(path, {});
+          const materials = target.component.properties.OverrideMaterials ?? [];
+          materials[parameters.ElementIndex ?? 0] = path;
+          target.component.properties.OverrideMaterials = materials;
+          return ok({ ReturnValue: path });
+        }
+        return missing();
+      }
+      case "material": {
+        if (functionName === "SetScalarParameterValue" || functionName === "SetVectorParameterValue") {
+          target.params[parameters.ParameterName] = parameters.Value;
+          return ok();
+        }
+        return missing();
+      }
+    }
+  }
+
+  function propertyOwner(objectPath: string): Record<string, any> | undefined {
+    const target = resolveObject(objectPath);
+    if (target?.kind === "actor") return target.actor.properties;
+    if (target?.kind === "component") return target.component.properties;
+    return undefined;
+  }
+
+  function accessProperty(body: any): MockReply {
+    const { objectPath, propertyName, propertyValue, access } = body ?? {};
+    const props = propertyOwner(objectPath);
+    if (!props) return fail(400, `Object: ${objectPath} does not exist.`);
+    const actor = state.actors.get(objectPath);
+
+    // Transform-ish pseudo properties readable on actors
+    const virtual: Record<string, any> = actor
+      ? { ActorLabel: actor.label, Tags: actor.tags, FolderPath: actor.folder }
+      : {};
+
+    if (access === "READ_ACCESS" || propertyValue === undefined) {
+      if (!propertyName) return ok({ ...props, ...virtual });
+      if (!(propertyName in props) && !(propertyName in virtual)) {
+        return fail(400, `Property: ${propertyName} does not exist on object: ${objectPath}`);
+      }
+      return ok({ [propertyName]: propertyName in virtual ? virtual[propertyName] : props[propertyName] });
+    }
+
+    if (!(propertyName in props) && !(propertyName in virtual)) {
+      return fail(400, `Property: ${propertyName} does not exist on object: ${objectPath}`);
+    }
+    if (actor && propertyName === "Tags") actor.tags = propertyValue;
+    else if (actor && propertyName === "ActorLabel") actor.label = propertyValue;
+    else if (actor && propertyName === "FolderPath") actor.folder = propertyValue;
+    else props[propertyName] = propertyValue;
+    return ok();
+  }
+
+  function describe(body: any): MockReply {
+    const { objectPath } = body ?? {};
+    const target = resolveObject(objectPath);
+    if (!target) return fail(400, `Object: ${objectPath} does not exist.`);
+
+    if (target.kind === "subsystem") {
+      return ok({
+        Name: shortClassName(objectPath),
+        Class: objectPath,
+        Properties: [],
+        Functions: Object.keys(target.functions).map((Name) => ({ Name })),
+      });
+    }
+    if (target.kind === "actor") {
+      const a = target.actor;
+      return ok({
+        Name: shortClassName(a.path),
+        Class: `/Script/Engine.${a.className}`,
+        DisplayName: a.label,
+        Path: a.path,
+        Properties: [
+          { Name: "ActorLabel", Type: "FString", Value: a.label },
+          { Name: "Tags", Type: "TArray<FName>", Value: a.tags },
+          { Name: "FolderPath", Type: "FName", Value: a.folder },
+          { Name: "RelativeLocation", Type: "FVector", Value: a.location },
+          { Name: "RelativeRotation", Type: "FRotator", Value: a.rotation },
+          { Name: "RelativeScale3D", Type: "FVector", Value: a.scale },
+          ...Object.entries(a.properties).map(([Name, Value]) => ({ Name, Type: typeof Value, Value })),
+        ],
+        Functions: Object.keys(ACTOR_FUNCTIONS).map((Name) => ({ Name })),
+        Components: Object.keys(a.components),
+      });
+    }
+    if (target.kind === "component") {
+      return ok({
+        Name: target.component.name,
+        Class: `/Script/Engine.${target.component.className}`,
+        Properties: Object.entries(target.component.properties).map(([Name, Value]) => ({ Name, Type: typeof Value, Value })),
+        Functions: [...Object.keys(COMPONENT_SETTERS), ...COMPONENT_IMPULSES, "SetMaterial", "GetMaterial", "CreateDynamicMaterialInstance"].map(
+          (Name) => ({ Name })
+        ),
+      });
+    }
+    return ok({ Name: shortClassName(target.path), Class: "/Script/Engine.MaterialInstanceDynamic", Properties: [], Functions: [] });
+  }
+
+  function searchAssets(body: any): MockReply {
+    const query = String(body?.Query ?? "").toLowerCase();
+    const classes: string[] | undefined = body?.Filter?.ClassNames;
+    const paths: string[] | undefined = body?.Filter?.PackagePaths;
+    const assets = MOCK_ASSETS.filter(
+      (a) =>
+        a.Name.toLowerCase().includes(query) &&
+        (!classes || classes.includes(a.Class)) &&
+        (!paths || paths.some((p) => a.Path.startsWith(p)))
+    ).slice(0, body?.Limit ?? 100);
+    return ok({ Assets: assets });
+  }
+
+  function dispatch(path: string, verb: string, body: any): MockReply {
+    const route = path.split("?")[0];
+    switch (route) {
+      case "/remote/info":
+        return ok({
+          HttpRoutes: [
+            "/remote/info",
+            "/remote/object/call",
+            "/remote/object/property",
+            "/remote/object/describe",
+            "/remote/search/assets",
+            "/remote/batch",
+          ].map((Path) => ({ Path, Verb: Path === "/remote/info" ? "GET" : "PUT" })),
+          ActivePreset: null,
+        });
+      case "/remote/object/call":
+        return callFunction(body);
+      case "/remote/object/property":
+        return accessProperty(body);
+      case "/remote/object/describe":
+        return describe(body);
+      case "/remote/search/assets":
+        return searchAssets(body);
+      case "/remote/batch": {
+        const requests: any[] = body?.Requests ?? [];
+        return ok({
+          Responses: requests.map((r) => {
+            const reply = dispatch(r.URL, r.Verb ?? "PUT", r.Body);
+            return { RequestId: r.RequestId, ResponseCode: reply.status, ResponseBody: reply.body };
+          }),
+        });
+      }
+      default:
+        return fail(404, `Route ${verb} ${route} not found`);
+    }
+  }
+
+  return {
+    state,
+    dispatch,
+    injectFault(match, status, message, times = 1) {
+      faults.push({ ...match, status, message, remaining: times });
+    },
+  };
+}
+
+export async function startMockRcServer(options: MockRcServerOptions = {}): Promise<MockRcServer> {
+  const dispatcher = createMockRcDispatcher(options.state);
+  const { dispatch } = dispatcher;
+
+  const app = express();
+  app.use(express.json({ limit: "10mb" }));
+  app.all(/^\/remote\//, (req: Request, res: Response) => {
+    const reply = dispatch(req.path, req.method, req.body);
+    res.status(reply.status).json(reply.body);
+  });
+
+  const httpServer: Server = createServer(app);
+  await new Promise<void>((resolve) => httpServer.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const port = (httpServer.address() as AddressInfo).port;
+
+  let wss: WebSocketServer | undefined;
+  let wsPort: number | undefined;
+  if (options.wsPort !== undefined) {
+    wss = new WebSocketServer({ port: options.wsPort, host: "127.0.0.1" });
+    await new Promise<void>((resolve) => wss!.once("listening", resolve));
+    wsPort = (wss.address() as AddressInfo).port;
+    wss.on("connection", (socket) => {
+      socket.on("message", (raw) => {
+        let message: any;
+        try {
+          message = JSON.parse(raw.toString());
+        } catch {
+          return;
+        }
+        if (message.MessageName === "http") {
+          const p = message.Parameters ?? {};
+          const reply = dispatch(p.Url, p.Verb ?? "GET", p.Body);
+          socket.send(JSON.stringify({ RequestId: message.Id, ResponseCode: reply.status, ResponseBody: reply.body }));
+        }
+      });
+    });
+  }
+
+  return {
+    ...dispatcher,
+    port,
+    wsPort,
+    url: `http://127.0.0.1:${port}`,
+    pushEvent(message) {
+      for (const client of wss?.clients ?? []) client.send(JSON.stringify(message));
+    },
+    async close() {
+      if (wss) {
+        for (const client of wss.clients) client.terminate();
+        await new Promise<void>((resolve) => wss!.close(() => resolve()));
+      }
+      await new Promise<void>((resolve, reject) => httpServer.close((err) => (err ? reject(err) : resolve())));
+    },
+  };
+}
@@ -0,0 +1,321 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { join, relative } from "node:path";
+import { appendIniEntries, formatIniEntry, parseIni, quoteIniValue, setIniValues } from "../lib/ini.js";
+import {
+  ConfigFile,
+  ConfigHierarchyOptions,
+  ConfigValue,
+  findKey,
+  findSection,
+  loadConfigHierarchy,
+  ResolvedConfig,
+  ResolvedKey,
+  resolveConfig,
+} from "../lib/config-hierarchy.js";
+import { applyEdits, diffEdit, FileEdit, isChanged, readOptionalFile } from "../lib/project-files.js";
+
+// --- MCP Response Helpers ---
+
+function textResult(text: string) {
+  return { content: [{ type: "text" as const, text }] };
+}
+
+function errorResult(message: string) {
+  return { content: [{ type: "text" as const, text: `Error: ${message}` }], isError: true };
+}
+
+// --- Shared Inputs ---
+
+const CategorySchema = z
+  .string()
+  .regex(/^\w+$/)
+  .default("Engine")
+  .describe("Config category: Engine, Game, Input, Editor, EditorPerProjectUserSettings, Scalability, …");
+
+const PlatformSchema = z
+  .string()
+  .regex(/^\w+$/)
+  .optional()
+  .describe("Platform whose Platform and Saved layers apply (Windows, Linux, Mac, Android, IOS)");
+
+const EnginePathSchema = z
+  .string()
+  .optional()
+  .describe("Engine directory (containing Engine/Config) for the Base layers. Defaults to UE5_ENGINE_PATH");
+
+function hierarchyOptions(projectPath: string, category: string, platform?: string, enginePath?: string): ConfigHierarchyOptions {
+  return { projectPath, category, platform, enginePath: enginePath ?? (process.env.UE5_ENGINE_PATH || undefined) };
+}
+
+// --- Formatting ---
+
+// Long sections and diffs stay readable; ue5_config_get with a key shows everything
+const MAX_LISTED = 100;
+
+function displayPath(path: string, options: ConfigHierarchyOptions): string {
+  if (options.enginePath && path.startsWith(options.enginePath)) return `[Engine]/${relative(options.enginePath, path)}`;
+  return relative(options.projectPath, path);
+}
+
+function cell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, "\\n");
+}
+
+function formatValues(values: ConfigValue[]): string {
+  if (values.length === 0) return "(empty)";
+  if (values.length === 1) return values[0].value;
+  return `[${values.map((v) => v.value).join(", ")}]`;
+}
+
+function sourceOf(key: ResolvedKey, options: ConfigHierarchyOptions): string {
+  const last = key.values[key.values.length - 1] ?? key.history[key.history.length - 1];
+  return `${displayPath(last.file, options)}:${last.line}`;
+}
+
+function layerTable(files: ConfigFile[], options: ConfigHierarchyOptions): string {
+  let output = `| Layer | File | Status |\n|-------|------|--------|\n`;
+  for (const f of files) {
+    output += `| ${f.layer} | ${displayPath(f.path, options)} | ${f.sections ? `${f.sections.length} sections` : "not found"} |\n`;
+  }
+  if (!options.enginePath) output += `\nBase layers skipped: pass engine_path or set UE5_ENGINE_PATH.\n`;
+  if (!options.platform) output += `\nPlatform and Saved layers skipped: pass platform to include them.\n`;
+  return output;
+}
+
+function formatKey(key: ResolvedKey, options: ConfigHierarchyOptions): string {
+  let output = `### [${key.section}] ${key.key}\n\n`;
+  output += `- **Effective value**: \`${formatValues(key.values)}\`\n`;
+  if (key.values.length > 1) {
+    output += `- **Array entries**:\n`;
+    key.values.forEach((v) => (output += `  - \`${v.value}\` — ${displayPath(v.file, options)}:${v.line}\n`));
+  } else {
+    output += `- **Set by**: ${sourceOf(key, options)}\n`;
+  }
+  output += `\n**History** (applied in order):\n\n| File | Line | Entry |\n|------|------|-------|\n`;
+  for (const h of key.history) {
+    output += `| ${displayPath(h.file, options)} | ${h.line} | \`${cell(formatIniEntry(key.key, h.value, h.op))}\` |\n`;
+  }
+  return output;
+}
+
+// --- Tool Registration ---
+
+export function registerConfigTools(server: McpServer) {
+  // 1. ue5_config_get — Effective value and where it was set
+  server.registerTool(
+    "ue5_config_get",
+    {
+      title: "Get UE5 Config Value",
+      description:
+        "Read a project's config the way the engine does: apply the Base → Default → Platform → Saved .ini layers (including +, -, . and ! array operators) and show the effective value with the file and line that set it. Omit key to list a section, or section to list the layers and their sections.",
+      inputSchema: {
+        project_path: z.string().describe("UE5 project directory (containing the .uproject)"),
+        category: CategorySchema,
+        section: z.string().optional().describe("Section name, e.g. /Script/Engine.RendererSettings"),
+        key: z.string().optional().describe("Key within the section, e.g. r.DefaultFeature.AutoExposure"),
+        platform: PlatformSchema,
+        engine_path: EnginePathSchema,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ project_path, category, section, key, platform, engine_path }) => {
+      try {
+        const options = hierarchyOptions(project_path, category, platform, engine_path);
+        const files = await loadConfigHierarchy(options);
+        const config = resolveConfig(files);
+
+        let output = `## ${category} Config${platform ? ` (${platform})` : ""}\n\n`;
+        if (!section) {
+          output += layerTable(files, options);
+          output += `\n### Sections (${config.size})\n\n`;
+          for (const [name, keys] of config) output += `- [${name}] — ${keys.size} keys\n`;
+          return textResult(output);
+        }
+
+        const keys = findSection(config, section);
+        if (!keys) {
+          return errorResult(`Section [${section}] is not set in any ${category} config layer. Run ue5_config_get without section to list them.`);
+        }
+        if (key) {
+          const resolved = keys.get(key.toLowerCase());
+          if (!resolved) return errorResult(`[${section}] has no key "${key}" in any ${category} config layer`);
+          return textResult(output + formatKey(resolved, options));
+        }
+
+        output += `### [${section}] (${keys.size} keys)\n\n| Key | Effective Value | Set By |\n|-----|-----------------|--------|\n`;
+        for (const k of [...keys.values()].slice(0, MAX_LISTED)) {
+          output += `| ${k.key} | \`${cell(formatValues(k.values))}\` | ${sourceOf(k, options)} |\n`;
+        }
+        if (keys.size > MAX_LISTED) output += `\n…and ${keys.size - MAX_LISTED} more\n`;
+        return textResult(output);
+      } catch (err) {
+        return errorResult(err instanceof Error ? err.message : String(err));
+      }
+    }
+  );
+
+  // 2. ue5_config_set — Write a key into the Default or Platform layer
+  server.registerTool(
+    "ue5_config_set",
+    {
+      title: "Set UE5 Config Value",
+      description:
+        "Write a key into the project's Default{Category}.ini (or its Platform ini). op 'set' replaces the value in place; 'add', 'append', 'remove' and 'clear' write +, ., - and ! array lines. Shows a unified diff and the resulting effective value; the original file is backed up. Use dry_run to preview.",
+      inputSchema: {
+        project_path: z.string().describe("UE5 project directory (containing the .uproject)"),
+        category: CategorySchema,
+        section: z.string().describe("Section name, e.g. /Script/EngineSettings.GameMapsSettings"),
+        key: z.string().regex(/^[^=\s;+\-.!][^=]*$/).describe("Key to write, without an array operator"),
+        value: z.string().optional().describe("Value to write (not needed for op 'clear')"),
+        op: z.enum(["set", "add", "append", "remove", "clear"]).default("set").describe("How the value combines with earlier layers"),
+        layer: z
+          .enum(["default", "platform"])
+          .default("default")
+          .describe("Write to Config/Default{Category}.ini or Config/{Platform}/{Platform}{Category}.ini"),
+        platform: PlatformSchema,
+        engine_path: EnginePathSchema,
+        dry_run: z.boolean().default(false).describe("Show the diff without writing"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
+    },
+    async ({ project_path, category, section, key, value, op, layer, platform, engine_path, dry_run }) => {
+      try {
+        if (op !== "clear" && value === undefined) return errorResult(`op "${op}" needs a value`);
+        if (layer === "platform" && !platform) return errorResult(`layer "platform" needs a platform`);
+
+        const path =
+          layer === "platform"
+            ? join(project_path, "Config", platform!, `${platform}${category}.ini`)
+            : join(project_path, "Config", `Default${category}.ini`);
+        const before = await readOptionalFile(path);
+        const written = quoteIniValue(value ?? "");
+        const after =
+          op === "set"
+            ? setIniValues(before ?? "", section, { [key]: written })
+            : appendIniEntries(before ?? "", section, [{ key, value: written, op }]);
+        const edit: FileEdit = { path, before, after };
+
+        // Resolve with the edited text in place of the file, so a dry run shows the outcome too
+        const options = hierarchyOptions(project_path, category, platform, engine_path);
+        const files = (await loadConfigHierarchy(options)).map((f) => (f.path === path ? { ...f, sections: parseIni(after) } : f));
+        const resolved = findKey(resolveConfig(files), section, key);
+
+        let output = `## Config ${dry_run ? "Preview" : "Updated"}: [${section}] ${key}\n\n`;
+        if (!isChanged(edit)) {
+          output += `${relative(project_path, path)} already has this entry; nothing to write.\n\n`;
+        } else {
+          output += "```diff\n" + diffEdit(edit, project_path) + "```\n\n";
+          if (dry_run) {
+            output += `**Dry run** — nothing written.\n\n`;
+          } else {
+            const [applied] = await applyEdits([edit]);
+            output += `**Written** ${applied.path}${applied.backup ? ` (backup: ${applied.backup})` : " (new file)"}\n\n`;
+          }
+        }
+        if (resolved) {
+          output += `**Effective value**: \`${formatValues(resolved.values)}\` (set by ${sourceOf(resolved, options)})\n`;
+          const last = resolved.history[resolved.history.length - 1];
+          if (last.file !== path) {
+            output += `\nNote: ${displayPath(last.file, options)} is applied later and overrides this layer.\n`;
+          }
+        }
+        return textResult(output);
+      } catch (err) {
+        return errorResult(err instanceof Error ? err.message : String(err));
+      }
+    }
+  );
+
+  // 3. ue5_config_diff — Compare effective config between projects or platforms
+  server.registerTool(
+    "ue5_config_diff",
+    {
+      title: "Diff UE5 Config",
+      description:
+        "Compare the effective config (all layers resolved) of two projects, or of one project on two platforms. Lists keys only on one side and keys whose effective values differ.",
+      inputSchema: {
+        project_path: z.string().describe("UE5 project directory (containing the .uproject)"),
+        other_project_path: z.string().optional().describe("Second project to compare against. Defaults to project_path"),
+        category: CategorySchema,
+        platform: PlatformSchema,
+        other_platform: z.string().regex(/^\w+$/).optional().describe("Platform for the second side. Defaults to platform"),
+        section: z.string().optional().describe("Only compare this section"),
+        engine_path: EnginePathSchema,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ project_path, other_project_path, category, platform, other_platform, section, engine_path }) => {
+      try {
+        const a = hierarchyOptions(project_path, category, platform, engine_path);
+        const b = hierarchyOptions(other_project_path ?? project_path, category, other_platform ?? platform, engine_path);
+        if (a.projectPath === b.projectPath && a.platform === b.platform) {
+          return errorResult("Both sides are the same: pass other_project_path or other_platform");
+        }
+        const [configA, configB] = await Promise.all([
+          loadConfigHierarchy(a).then(resolveConfig),
+          loadConfigHierarchy(b).then(resolveConfig),
+        ]);
+
+        const label = (o: ConfigHierarchyOptions) => `${o.projectPath}${o.platform ? ` (${o.platform})` : " (no platform)"}`;
+        const keysOf = (config: ResolvedConfig) => {
+          const all = new Map<string, ResolvedKey>();
+          for (const [name, keys] of config) {
+            if (section && name.toLowerCase() !== section.toLowerCase()) continue;
+            for (const k of keys.values()) all.set(`${name.toLowerCase()}\u0000${k.key.toLowerCase()}`, k);
+          }
+          return all;
+        };
+        const keysA = keysOf(configA);
+        const keysB = keysOf(configB);
+
+        const onlyA = [...keysA].filter(([id]) => !keysB.has(id)).map(([, k]) => k);
+        const onlyB = [...keysB].filter(([id]) => !keysA.has(id)).map(([, k]) => k);
+        const changed = [...keysA]
+          .filter(([id, k]) => keysB.has(id) && formatValues(k.values) !== formatValues(keysB.get(id)!.values))
+          .map(([id, k]) => [k, keysB.get(id)!] as const);
+
+        let output = `## ${category} Config Diff${section ? `: [${section}]` : ""}\n\n`;
+        output += `- **A**: ${label(a)}\n- **B**: ${label(b)}\n`;
+        output += `- **Only in A**: ${onlyA.length}\n- **Only in B**: ${onlyB.length}\n- **Different**: ${changed.length}\n`;
+
+        const keyTable = (keys: ResolvedKey[], options: ConfigHierarchyOptions) => {
+          let table = `| Section | Key | Value | Set By |\n|---------|-----|-------|--------|\n`;
+          for (const k of keys.slice(0, MAX_LISTED)) {
+            table += `| ${k.section} | ${k.key} | \`${cell(formatValues(k.values))}\` | ${sourceOf(k, options)} |\n`;
+          }
+          if (keys.length > MAX_LISTED) table += `\n…and ${keys.length - MAX_LISTED} more\n`;
+          return table;
+        };
+        if (changed.length > 0) {
+          output += `\n### Different\n\n| Section | Key | A | B |\n|---------|-----|---|---|\n`;
+          for (const [ka, kb] of changed.slice(0, MAX_LISTED)) {
+            output += `| ${ka.section} | ${ka.key} | \`${cell(formatValues(ka.values))}\` | \`${cell(formatValues(kb.values))}\` |\n`;
+          }
+          if (changed.length > MAX_LISTED) output += `\n…and ${changed.length - MAX_LISTED} more\n`;
+        }
+        if (onlyA.length > 0) output += `\n### Only in A\n\n${keyTable(onlyA, a)}`;
+        if (onlyB.length > 0) output += `\n### Only in B\n\n${keyTable(onlyB, b)}`;
+        if (changed.length + onlyA.length + onlyB.length === 0) output += `\nThe effective configs are identical.\n`;
+        return textResult(output);
+      } catch (err) {
+        return errorResult(err instanceof Error ? err.message : String(err));
+      }
+    }
+  );
+}
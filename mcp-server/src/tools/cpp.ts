@@ -1,5 +1,45 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { readFile } from "node:fs/promises";
+import { basename, join, relative, resolve } from "node:path";
 import { z } from "zod";
+import { addDeclarations, addDefinitions, declaresMember, findClassBody, LIFETIME_DECLARATION } from "../lib/class-edit.js";
+import {
+  ClassSpec,
+  emptyMemberCode,
+  FunctionSpec,
+  MemberCode,
+  PropertySpec,
+  renderClassSpec,
+  specReplicates,
+} from "../lib/class-members.js";
+import { SPECIFIER_MACROS, SpecifierMacro } from "../data/specifiers.js";
+import { placeClassFiles } from "../lib/class-placement.js";
+import { validateMacros } from "../lib/macro-validator.js";
+import { applyEdits, diffEdit, FileEdit, isChanged, isInside, readOptionalFile } from "../lib/project-files.js";
+import { indexProject } from "../lib/project-index.js";
+import { findFiles } from "../lib/source-tree.js";
+import { formatSpecifier, macroReference, searchSpecifiers } from "../lib/specifier-search.js";
+
+const CPP_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Subfolders a project might already keep each class type in, most common first
+const CLASS_FOLDERS: Record<string, string[]> = {
+  Actor: ["Actors", "Actor", "Gameplay"],
+  Character: ["Characters", "Character", "Player"],
+  ActorComponent: ["Components", "Component"],
+  SceneComponent: ["Components", "Component"],
+  GameplayAbility: ["Abilities", "AbilitySystem", "GAS"],
+  AttributeSet: ["Attributes", "AttributeSets", "AbilitySystem", "GAS"],
+  GameMode: ["GameModes", "Game", "Core", "Framework"],
+  PlayerController: ["Player", "Controllers", "Core", "Framework"],
+  PlayerState: ["Player", "Core", "Framework"],
+  GameState: ["Game", "Core", "Framework"],
+  Subsystem: ["Subsystems", "Subsystem"],
+  Interface: ["Interfaces", "Interface"],
+  DataAsset: ["Data", "DataAssets"],
+  UserWidget: ["UI", "Widgets"],
+  Object: [],
+};
 
 export function registerCppTools(server: McpServer) {
   server.registerTool(
@@ -7,10 +47,11 @@ export function registerCppTools(server: McpServer) {
     {
       title: "Generate UE5 C++ Class",
       description:
-        "Generate a complete UE5 C++ header and source file pair with proper boilerplate, macros, and Epic coding standard compliance.",
+        "Generate a complete UE5 C++ header and source file pair with proper boilerplate, macros, and Epic coding standard compliance. A spec adds UPROPERTYs (with replication and OnRep), UFUNCTIONs (Blueprint, native events, RPCs with _Implementation/_Validate stubs) and default subobject components. With project_path, the files are placed in the module's Public/ and Private/ folders (using an existing subfolder such as Public/Characters) and shown as a diff; set write_to_project to write them.",
       inputSchema: {
         class_name: z
           .string()
+          .regex(CPP_IDENTIFIER, "class_name must be a C++ identifier")
           .describe("Class name without prefix (e.g., 'PlayerCharacter', 'HealthComponent')"),
         class_type: z
           .enum([
@@ -46,9 +87,28 @@ export function registerCppTools(server: McpServer) {
           .boolean()
           .default(false)
           .describe("Include GetLifetimeReplicatedProps and sample replicated property"),
+        spec: ClassSpec.optional().describe(
+          "Members to generate: properties, functions and components (actor classes only). Replicated properties and RPCs turn on replication"
+        ),
+        project_path: z
+          .string()
+          .optional()
+          .describe("UE5 project root; module_name must be one of its modules. Shows where the files go and a diff"),
+        subfolder: z
+          .string()
+          .optional()
+          .describe("Subfolder under Public/ and Private/ (e.g. 'Characters'). Defaults to an existing folder for the class type"),
+        write_to_project: z
+          .boolean()
+          .default(false)
+          .describe("Write the files into project_path (otherwise preview only)"),
+        overwrite: z
+          .boolean()
+          .default(false)
+          .describe("Replace files that already exist (the originals are backed up)"),
       },
       annotations: {
-        readOnlyHint: true,
+        readOnlyHint: false,
         destructiveHint: false,
         idempotentHint: true,
         openWorldHint: false,
@@ -61,6 +121,11 @@ export function registerCppTools(server: McpServer) {
       subsystem_type,
       include_tick,
       include_replication,
+      spec,
+      project_path,
+      subfolder,
+      write_to_project,
+      overwrite,
     }) => {
       const apiMacro = `${module_name.toUpperCase()}_API`;
 
@@ -150,6 +215,28 @@ export function registerCppTools(server: McpServer) {
       const fullClassName = `${config.prefix}${class_name}`;
       const fileName = class_name;
 
+      let members: MemberCode = emptyMemberCode();
+      if (spec) {
+        if (class_type === "Interface") {
+          return {
+            isError: true,
+            content: [{ type: "text", text: "Error: spec is not supported for Interface classes" }],
+          };
+        }
+        try {
+          members = renderClassSpec(spec, { className: fullClassName, category: class_name, ownerIsActor: config.prefix === "A" });
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
+          };
+        }
+      }
+      // The sample property only stands in when the spec has no replicated members of its own
+      const specReplication = spec !== undefined && specReplicates(spec);
+      const replicates = include_replication || specReplication;
+      const sampleReplication = include_replication && !specReplication;
+
       // Build header
       let header = `#pragma once
 
@@ -162,6 +249,10 @@ export function registerCppTools(server: McpServer) {
 
       header += `\n#include "${fileName}.generated.h"\n\n`;
 
+      if (members.forwardDeclarations.length > 0) {
+        header += `${[...new Set(members.forwardDeclarations)].join("\n")}\n\n`;
+      }
+
       // Special handling for Interface
       if (class_type === "Interface") {
         header += `UINTERFACE(MinimalAPI, Blueprintable)
@@ -211,8 +302,10 @@ public:
           }
         }
 
-        if (include_replication) {
+        if (replicates) {
           header += `\npublic:\n\tvirtual void GetLifetimeReplicatedProps(TArray<FLifetimeProperty>& OutLifetimeProps) const override;\n`;
+        }
+        if (sampleReplication) {
           header += `\nprotected:\n\tUPROPERTY(ReplicatedUsing = OnRep_ExampleValue)\n\tfloat ExampleValue = 0.0f;\n\n\tUFUNCTION()\n\tvoid OnRep_ExampleValue();\n`;
         }
 
@@ -236,13 +329,39 @@ public:
           header += `\nprotected:\n\tvirtual void SetupInputComponent() override;\n`;
         }
 
+        // Spec members, one block per access level
+        for (const [access, declarations] of Object.entries(members.declarations)) {
+          if (declarations.length > 0) header += `\n${access}:\n${declarations.join("\n")}`;
+        }
+
         header += `};\n`;
       }
 
+      // Resolve the project location first: the .cpp includes the header by its path under Public/
+      let placement;
+      if (project_path) {
+        try {
+          placement = await placeClassFiles(project_path, module_name, fileName, CLASS_FOLDERS[class_type], subfolder);
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
+          };
+        }
+      } else if (write_to_project) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: "Error: write_to_project needs project_path" }],
+        };
+      }
+
       // Build source file
-      let source = `#include "${fileName}.h"\n`;
+      let source = `#include "${placement?.includePath ?? `${fileName}.h`}"\n`;
 
-      if (include_replication) {
+      for (const include of [...new Set(members.sourceIncludes)].sort()) {
+        source += `#include "${include}"\n`;
+      }
+      if (replicates) {
         source += `#include "Net/UnrealNetwork.h"\n`;
       }
 
@@ -259,8 +378,13 @@ public:
         ) {
           source += `\tPrimaryComponentTick.bCanEverTick = true;\n`;
         }
-        if (include_replication && ["Actor", "Character"].includes(class_type)) {
+        if (replicates && ["Actor", "Character"].includes(class_type)) {
           source += `\tbReplicates = true;\n`;
+        } else if (replicates && (class_type === "ActorComponent" || class_type === "SceneComponent")) {
+          source += `\tSetIsReplicatedByDefault(true);\n`;
+        }
+        if (members.constructor.length > 0) {
+          source += `\n${members.constructor.map((l) => `\t${l}\n`).join("")}`;
         }
         source += `}\n\n`;
 
@@ -288,8 +412,11 @@ public:
         }
 
         // Replication
-        if (include_replication) {
-          source += `void ${fullClassName}::GetLifetimeReplicatedProps(TArray<FLifetimeProperty>& OutLifetimeProps) const\n{\n\tSuper::GetLifetimeReplicatedProps(OutLifetimeProps);\n\tDOREPLIFETIME(${fullClassName}, ExampleValue);\n}\n\n`;
+        if (replicates) {
+          const entries = sampleReplication ? [`DOREPLIFETIME(${fullClassName}, ExampleValue);`] : members.replicated;
+          source += `void ${fullClassName}::GetLifetimeReplicatedProps(TArray<FLifetimeProperty>& OutLifetimeProps) const\n{\n\tSuper::GetLifetimeReplicatedProps(OutLifetimeProps);\n${entries.map((e) => `\t${e}\n`).join("")}}\n\n`;
+        }
+        if (sampleReplication) {
           source += `void ${fullClassName}::OnRep_ExampleValue()\n{\n\t// Handle replication update\n}\n\n`;
         }
 
@@ -313,6 +440,44 @@ public:
         if (class_type === "PlayerController") {
           source += `void ${fullClassName}::SetupInputComponent()\n{\n\tSuper::SetupInputComponent();\n}\n\n`;
         }
+
+        for (const definition of members.definitions) source += `${definition}\n`;
+      }
+
+      const notes = members.notes.map((n) => `- ${n}\n`).join("");
+
+      if (placement) {
+        const edits: FileEdit[] = [
+          { path: placement.headerPath, before: await readOptionalFile(placement.headerPath), after: header },
+          { path: placement.sourcePath, before: await readOptionalFile(placement.sourcePath), after: source.trimEnd() + "\n" },
+        ];
+        const existing = edits.filter((e) => e.before !== undefined && isChanged(e)).map((e) => e.path);
+
+        let output = `## Generated UE5 C++ Class: ${fullClassName}\n\n`;
+        output += `### Project Files (module ${placement.module}${placement.subfolder ? `, subfolder ${placement.subfolder}` : ""})\n`;
+        output += "```diff\n" + edits.map((e) => diffEdit(e, project_path!)).join("") + "```\n\n";
+        if (notes) output += `### Notes\n${notes}\n`;
+
+        if (!edits.some(isChanged)) {
+          output += `Both files already contain this class; nothing to write.\n`;
+        } else if (existing.length > 0 && !overwrite) {
+          const message = `${existing.map((p) => relative(project_path!, p)).join(" and ")} already exist${existing.length === 1 ? "s" : ""}; pass overwrite: true to replace (the originals are backed up).`;
+          if (write_to_project) {
+            return { isError: true, content: [{ type: "text", text: `Error: ${message}` }] };
+          }
+          output += `**Preview only** — ${message}\n`;
+        } else if (!write_to_project) {
+          output += `**Preview only** — re-run with \`write_to_project: true\` to write these files.\n`;
+        } else {
+          const applied = await applyEdits(edits);
+          output += `**Written**\n`;
+          for (const a of applied) output += `- ${a.path}${a.backup ? ` (backup: ${a.backup})` : ""}\n`;
+          output += `\nRegenerate project files or rebuild so the editor picks up the new class.\n`;
+        }
+
+        return {
+          content: [{ type: "text", text: output }],
+        };
       }
 
       const output = `## Generated UE5 C++ Class: ${fullClassName}
@@ -329,7 +494,7 @@ ${source.trimEnd()}
 ### File Placement
 - Header: \`Source/${module_name}/Public/${fileName}.h\`
 - Source: \`Source/${module_name}/Private/${fileName}.cpp\`
-`;
+${notes ? `\n### Notes\n${notes}` : ""}`;
 
       return {
         content: [{ type: "text", text: output }],
@@ -342,11 +507,9 @@ ${source.trimEnd()}
     {
       title: "UE5 Macro Reference",
       description:
-        "Look up UE5 C++ macro syntax and usage — UPROPERTY, UFUNCTION, UCLASS, USTRUCT, UENUM, and their specifiers.",
+        "Look up UE5 C++ macro syntax and usage — UPROPERTY, UFUNCTION, UCLASS, USTRUCT, UENUM, UINTERFACE, UPARAM, UDELEGATE and UMETA: every specifier and meta key with what it does and what it conflicts with, plus examples.",
       inputSchema: {
-        macro: z
-          .enum(["UPROPERTY", "UFUNCTION", "UCLASS", "USTRUCT", "UENUM", "UINTERFACE"])
-          .describe("The macro to look up"),
+        macro: z.enum(SPECIFIER_MACROS as [SpecifierMacro, ...SpecifierMacro[]]).describe("The macro to look up"),
       },
       annotations: {
         readOnlyHint: true,
@@ -356,206 +519,202 @@ ${source.trimEnd()}
       },
     },
     async ({ macro }) => {
-      const references: Record<string, string> = {
-        UPROPERTY: `## UPROPERTY Specifiers
-
-### Visibility
-- \`EditAnywhere\` — Editable in Details panel on instances and defaults
-- \`EditDefaultsOnly\` — Editable only on class defaults (not instances)
-- \`EditInstanceOnly\` — Editable only on placed instances
-- \`VisibleAnywhere\` — Visible but not editable in Details panel
-- \`VisibleDefaultsOnly\` — Visible only on class defaults
-- \`VisibleInstanceOnly\` — Visible only on placed instances
-
-### Blueprint Access
-- \`BlueprintReadOnly\` — Readable in Blueprints
-- \`BlueprintReadWrite\` — Readable and writable in Blueprints
-
-### Replication
-- \`Replicated\` — Replicated to clients
-- \`ReplicatedUsing = OnRep_FuncName\` — Replicated with notification function
-- \`NotReplicated\` — Excluded from replication
-
-### Other
-- \`Category = "CategoryName"\` — Groups in Details panel (required for BP access)
-- \`meta = (AllowPrivateAccess = "true")\` — Allow BP access to private members
-- \`Transient\` — Not serialized (reset on load)
-- \`SaveGame\` — Included in save game serialization
-- \`Config\` — Loaded from config files
-- \`Interp\` — Editable in Sequencer
-
-### Examples
-\`\`\`cpp
-UPROPERTY(EditAnywhere, BlueprintReadWrite, Category = "Combat")
-float BaseDamage = 10.0f;
-
-UPROPERTY(VisibleAnywhere, BlueprintReadOnly, Category = "Components")
-TObjectPtr<UStaticMeshComponent> MeshComp;
-
-UPROPERTY(ReplicatedUsing = OnRep_Health)
-float Health;
-
-UPROPERTY(EditDefaultsOnly, BlueprintReadOnly, Category = "Config",
-    meta = (AllowPrivateAccess = "true"))
-TSubclassOf<UGameplayAbility> DefaultAbility;
-\`\`\``,
-
-        UFUNCTION: `## UFUNCTION Specifiers
-
-### Blueprint Access
-- \`BlueprintCallable\` — Can be called from Blueprint graphs
-- \`BlueprintPure\` — Pure function (no execution pin, no side effects)
-- \`BlueprintImplementableEvent\` — Defined in C++, implemented in Blueprint
-- \`BlueprintNativeEvent\` — Default C++ implementation, overridable in Blueprint
-
-### Networking
-- \`Server\` — Runs on server (RPC)
-- \`Client\` — Runs on owning client (RPC)
-- \`NetMulticast\` — Runs on all (server + all clients)
-- \`Reliable\` — Guaranteed delivery (use sparingly)
-- \`Unreliable\` — Best effort (use for frequent updates)
-- \`WithValidation\` — Adds validation function (required for Server RPCs in Shipping)
-
-### Other
-- \`Category = "CategoryName"\` — Required for BP-exposed functions
-- \`Exec\` — Console command callable
-- \`CallInEditor\` — Button appears in Details panel
-
-### Examples
-\`\`\`cpp
-UFUNCTION(BlueprintCallable, Category = "Combat")
-void ApplyDamage(AActor* Target, float Amount);
-
-UFUNCTION(BlueprintPure, Category = "Stats")
-float GetHealthPercent() const;
-
-UFUNCTION(BlueprintImplementableEvent, Category = "Events")
-void OnDeath();
-
-UFUNCTION(BlueprintNativeEvent, Category = "Events")
-void OnHit(const FHitResult& Hit);
-// Implement as: void AMyActor::OnHit_Implementation(const FHitResult& Hit)
-
-UFUNCTION(Server, Reliable, WithValidation)
-void ServerFireWeapon(FVector Origin, FVector Direction);
-// Implement: void AMyActor::ServerFireWeapon_Implementation(...)
-// Validate: bool AMyActor::ServerFireWeapon_Validate(...)
-\`\`\``,
-
-        UCLASS: `## UCLASS Specifiers
-
-### Common
-- \`Blueprintable\` — Can be base class for Blueprint
-- \`BlueprintType\` — Can be used as variable type in Blueprint
-- \`Abstract\` — Cannot be instantiated (base class only)
-- \`NotBlueprintable\` — Cannot be subclassed in Blueprint
-- \`Transient\` — Not saved to disk
-
-### Spawning
-- \`ClassGroup = (Custom)\` — Groups in editor class picker
-- \`meta = (BlueprintSpawnableComponent)\` — Component can be added via Blueprint
-- \`HideCategories = (CategoryName)\` — Hide property categories in Details
-- \`ShowCategories = (CategoryName)\` — Show hidden categories
-
-### Examples
-\`\`\`cpp
-UCLASS()
-class MYPROJECT_API AMyActor : public AActor { ... };
-
-UCLASS(BlueprintType, Blueprintable)
-class MYPROJECT_API UMyObject : public UObject { ... };
-
-UCLASS(ClassGroup=(Custom), meta=(BlueprintSpawnableComponent))
-class MYPROJECT_API UMyComponent : public UActorComponent { ... };
-
-UCLASS(Abstract, Blueprintable)
-class MYPROJECT_API ABaseWeapon : public AActor { ... };
-\`\`\``,
-
-        USTRUCT: `## USTRUCT Specifiers
-
-### Common
-- \`BlueprintType\` — Usable as Blueprint variable
-- \`Atomic\` — Always serialized as a single unit
-
-### Examples
-\`\`\`cpp
-USTRUCT(BlueprintType)
-struct FDamageInfo
-{
-    GENERATED_BODY()
-
-    UPROPERTY(EditAnywhere, BlueprintReadWrite)
-    float Amount = 0.0f;
-
-    UPROPERTY(EditAnywhere, BlueprintReadWrite)
-    TObjectPtr<AActor> Instigator = nullptr;
-
-    UPROPERTY(EditAnywhere, BlueprintReadWrite)
-    FGameplayTag DamageType;
-};
-\`\`\``,
-
-        UENUM: `## UENUM Specifiers
-
-### Common
-- \`BlueprintType\` — Usable in Blueprints
+      return {
+        content: [{ type: "text", text: macroReference(macro) }],
+      };
+    }
+  );
 
-### Examples
-\`\`\`cpp
-UENUM(BlueprintType)
-enum class EWeaponType : uint8
-{
-    None        UMETA(DisplayName = "None"),
-    Melee       UMETA(DisplayName = "Melee"),
-    Ranged      UMETA(DisplayName = "Ranged"),
-    Magic       UMETA(DisplayName = "Magic"),
-};
+  server.registerTool(
+    "ue5_search_specifiers",
+    {
+      title: "Search UE5 Specifiers",
+      description:
+        "Search reflection specifiers and meta keys by what they do — e.g. \"hide in the details panel\", \"slider range\", \"ClampMin\", \"rep notify\". Returns each match's syntax, where it applies, conflicts, related meta keys, the engine version it appeared in and an example.",
+      inputSchema: {
+        query: z.string().min(1).describe("A specifier name or a question about what you want to do"),
+        macro: z
+          .enum(SPECIFIER_MACROS as [SpecifierMacro, ...SpecifierMacro[]])
+          .optional()
+          .describe("Only search this macro's specifiers"),
+        limit: z.number().min(1).max(30).default(8).describe("Max results"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ query, macro, limit }) => {
+      const results = searchSpecifiers(query, macro);
+      if (results.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No specifiers found matching "${query}"${macro ? ` for ${macro}` : ""}. Try a specifier name or fewer words, or browse with ue5_macro_reference.`,
+            },
+          ],
+        };
+      }
 
-// Usage:
-UPROPERTY(EditAnywhere, BlueprintReadWrite, Category = "Weapon")
-EWeaponType WeaponType = EWeaponType::None;
-\`\`\``,
+      const shown = results.slice(0, limit);
+      let output = `## Specifiers matching "${query}"\n\n`;
+      output += shown.map(formatSpecifier).join("\n");
+      if (results.length > shown.length) output += `\n_${results.length - shown.length} more; raise limit to see them._\n`;
+      return {
+        content: [{ type: "text", text: output }],
+      };
+    }
+  );
 
-        UINTERFACE: `## UINTERFACE Specifiers
+  server.registerTool(
+    "ue5_add_member",
+    {
+      title: "Add Member to UE5 Class",
+      description:
+        "Add a UPROPERTY or UFUNCTION to an existing class in a project. The declaration goes into the class's header under the matching access section; function definitions (with _Implementation/_Validate stubs for RPCs and native events), OnRep functions and DOREPLIFETIME entries go into its .cpp, adding GetLifetimeReplicatedProps when the class has none. Shows a unified diff and backs up the originals. Use dry_run to preview.",
+      inputSchema: {
+        project_path: z.string().describe("UE5 project root"),
+        class_name: z
+          .string()
+          .regex(CPP_IDENTIFIER, "class_name must be a C++ identifier")
+          .describe("C++ class name with its prefix (e.g., 'AMyCharacter')"),
+        property: PropertySpec.optional().describe("Property to add (give either property or function)"),
+        function: FunctionSpec.optional().describe("Function to add (give either property or function)"),
+        header_path: z.string().optional().describe("Header declaring the class; found through the project index if omitted"),
+        source_path: z.string().optional().describe("The class's .cpp; defaults to the .cpp with the header's name in the project"),
+        dry_run: z.boolean().default(false).describe("Show the diff without writing"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
+    },
+    async ({ project_path, class_name, property, function: fn, header_path, source_path, dry_run }) => {
+      const fail = (message: string) => ({ isError: true, content: [{ type: "text" as const, text: `Error: ${message}` }] });
+      if (!property === !fn) return fail("Give exactly one of property or function");
+      const member = (property ?? fn)!;
+
+      // Given paths are relative to the project, and only its own files are edited
+      const projectRoot = resolve(project_path);
+      const inProject = (path: string) => {
+        const full = resolve(projectRoot, path);
+        if (!isInside(projectRoot, full)) throw new Error(`${path} is outside the project ${projectRoot}`);
+        return full;
+      };
 
-### Common
-- \`MinimalAPI\` — Minimal export (recommended)
-- \`Blueprintable\` — Can be implemented in Blueprint
-- \`BlueprintType\` — Can be used as variable type
+      try {
+        let headerPath: string;
+        if (header_path) {
+          headerPath = inProject(header_path);
+        } else {
+          const index = await indexProject(project_path, true);
+          const cls = index.classes.find((c) => c.name === class_name && (c.kind === "class" || c.kind === "struct"));
+          if (!cls) return fail(`${class_name} is not a UCLASS or USTRUCT in ${project_path}; pass header_path for other classes`);
+          headerPath = resolve(cls.file);
+        }
 
-### Examples
-\`\`\`cpp
-UINTERFACE(MinimalAPI, Blueprintable)
-class UDamageable : public UInterface
-{
-    GENERATED_BODY()
-};
+        const header = await readFile(headerPath, "utf-8");
+        const body = findClassBody(header, class_name);
+        if (declaresMember(header, body, member.name)) return fail(`${class_name} already declares ${member.name}`);
+        const code = renderClassSpec(
+          { properties: property ? [property] : [], functions: fn ? [fn] : [], components: [] },
+          {
+            className: class_name,
+            category: class_name.replace(/^[AUFI](?=[A-Z])/, ""),
+            // UHT only accepts the A prefix on AActor subclasses, as in ue5_generate_class
+            ownerIsActor: body.kind === "class" && /^A[A-Z]/.test(class_name),
+            propertyAccess: body.kind === "struct" ? "public" : "protected",
+          }
+        );
+        if (code.replicated.length > 0 && !declaresMember(header, body, "GetLifetimeReplicatedProps")) {
+          code.declarations.public.push(LIFETIME_DECLARATION);
+        }
 
-class MYPROJECT_API IDamageable
-{
-    GENERATED_BODY()
+        const edits: FileEdit[] = [{ path: headerPath, before: header, after: addDeclarations(header, body, code.declarations) }];
+        const needsSource = code.definitions.length > 0 || code.replicated.length > 0;
+        let sourcePath = source_path && inProject(source_path);
+        if (!sourcePath && needsSource) {
+          const name = `${basename(headerPath, ".h")}.cpp`;
+          const candidates = (
+            await Promise.all(["Source", "Plugins"].map((d) => findFiles(join(projectRoot, d), (n) => n === name)))
+          ).flat();
+          // The one sharing the most of the header's path, i.e. in the same module
+          const shared = (p: string) => [...p].findIndex((c, i) => c !== headerPath[i]);
+          sourcePath = candidates.sort((a, b) => shared(b) - shared(a))[0];
+        }
+        if (needsSource) {
+          if (!sourcePath) return fail(`No ${basename(headerPath, ".h")}.cpp found for ${class_name}; pass source_path`);
+          const source = await readFile(sourcePath, "utf-8");
+          edits.push({ path: sourcePath, before: source, after: addDefinitions(source, class_name, code) });
+        }
 
-public:
-    UFUNCTION(BlueprintNativeEvent, BlueprintCallable, Category = "Damage")
-    float TakeDamage(float Amount, AActor* Instigator);
+        let output = `## Add ${property ? "Property" : "Function"}: ${class_name}::${member.name}${dry_run ? " (Preview)" : ""}\n\n`;
+        output += "```diff\n" + edits.map((e) => diffEdit(e, project_path)).join("") + "```\n\n";
+        if (dry_run) {
+          output += `**Dry run** — nothing written.\n`;
+        } else {
+          const applied = await applyEdits(edits);
+          output += `**Written**\n`;
+          for (const a of applied) output += `- ${a.path}${a.backup ? ` (backup: ${a.backup})` : ""}\n`;
+        }
+        return { content: [{ type: "text", text: output }] };
+      } catch (error) {
+        return fail(error instanceof Error ? error.message : String(error));
+      }
+    }
+  );
 
-    UFUNCTION(BlueprintNativeEvent, BlueprintCallable, Category = "Damage")
-    bool IsDead() const;
-};
+  server.registerTool(
+    "ue5_validate_macros",
+    {
+      title: "Validate UE5 Reflection Macros",
+      description:
+        "Check the UCLASS/USTRUCT/UENUM/UINTERFACE/UPROPERTY/UFUNCTION macros in a code snippet or a header: unknown or conflicting specifiers (EditAnywhere + VisibleAnywhere), Blueprint exposure without Category, ReplicatedUsing functions that are missing or not UFUNCTIONs, meta keys that do not fit the property type, RPC specifier mistakes and BlueprintPure functions that are not const. Each finding has its file:line.",
+      inputSchema: {
+        code: z.string().optional().describe("C++ snippet to check"),
+        file_path: z.string().optional().describe("Header (or other source file) to check"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ code, file_path }) => {
+      if (!code === !file_path) {
+        return { isError: true, content: [{ type: "text", text: "Error: Give exactly one of code or file_path" }] };
+      }
+      let source = code ?? "";
+      if (file_path) {
+        try {
+          source = await readFile(file_path, "utf-8");
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
+          };
+        }
+      }
 
-// Implementation in an Actor:
-class AMyCharacter : public ACharacter, public IDamageable
-{
-    // Override:
-    virtual float TakeDamage_Implementation(float Amount, AActor* Instigator) override;
-    virtual bool IsDead_Implementation() const override;
-};
-\`\`\``,
-      };
+      const location = file_path ?? "snippet";
+      const { checked, findings } = validateMacros(source);
+      const errors = findings.filter((f) => f.severity === "error").length;
+      let output = `## Macro Validation: ${file_path ? basename(file_path) : "snippet"}\n\n`;
+      output += `${checked} macro${checked === 1 ? "" : "s"} checked: ${errors} error${errors === 1 ? "" : "s"}, ${findings.length - errors} warning${findings.length - errors === 1 ? "" : "s"}\n\n`;
+      for (const f of findings) {
+        output += `- **${f.severity}** \`${location}:${f.line}\` ${f.macro}${f.target ? ` ${f.target}` : ""} — ${f.message}\n`;
+      }
+      if (checked === 0) output += "No reflection macros found.\n";
+      else if (findings.length === 0) output += "No problems found.\n";
 
       return {
-        content: [{ type: "text", text: references[macro] }],
+        content: [{ type: "text", text: output }],
       };
     }
   );
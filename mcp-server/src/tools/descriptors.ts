@@ -0,0 +1,213 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { basename, dirname } from "node:path";
+import { readFile } from "node:fs/promises";
+import {
+  addModule,
+  DescriptorIssue,
+  DescriptorKind,
+  LOADING_PHASES,
+  MODULE_TYPES,
+  newDescriptorErrors,
+  resolveDescriptorPath,
+  setEngineAssociation,
+  setPluginEnabled,
+  validateDescriptor,
+} from "../lib/descriptor.js";
+import { applyEdits, diffEdit, FileEdit, isChanged } from "../lib/project-files.js";
+
+// --- MCP Response Helpers ---
+
+function textResult(text: string) {
+  return { content: [{ type: "text" as const, text }] };
+}
+
+function errorResult(message: string) {
+  return { content: [{ type: "text" as const, text: `Error: ${message}` }], isError: true };
+}
+
+// --- Shared Inputs ---
+
+const DescriptorPathSchema = z
+  .string()
+  .describe("Path to a .uproject or .uplugin file, or a project directory (uses its .uproject)");
+
+const DryRunSchema = z.boolean().default(false).describe("Show the diff without writing");
+
+const EDIT_ANNOTATIONS = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+// --- Formatting ---
+
+function issueList(issues: DescriptorIssue[]): string {
+  return issues.map((i) => `- **${i.severity === "error" ? "Error" : "Warning"}** \`${i.path}\`: ${i.message}\n`).join("");
+}
+
+/**
+ * Shared flow of every edit tool: read the descriptor, apply the edit, refuse it
+ * when it would introduce validation errors, then show the diff and write it
+ * (with a backup) unless this is a dry run.
+ */
+async function editDescriptor(
+  path: string,
+  dryRun: boolean,
+  heading: string,
+  edit: (text: string, kind: DescriptorKind) => string
+) {
+  try {
+    const descriptor = await resolveDescriptorPath(path);
+    const before = await readFile(descriptor.path, "utf-8");
+    const after = edit(before, descriptor.kind);
+    const change: FileEdit = { path: descriptor.path, before, after };
+
+    const introduced = newDescriptorErrors(descriptor.kind, before, after);
+    if (introduced.length > 0) {
+      return errorResult(`The edit would make ${basename(descriptor.path)} invalid:\n${issueList(introduced)}`);
+    }
+
+    let output = `## ${heading}${dryRun ? " (Preview)" : ""}\n\n`;
+    if (!isChanged(change)) {
+      return textResult(output + `${basename(descriptor.path)} already has this setting; nothing to write.\n`);
+    }
+    output += "```diff\n" + diffEdit(change, dirname(descriptor.path)) + "```\n\n";
+    if (dryRun) {
+      output += `**Dry run** — nothing written.\n`;
+    } else {
+      const [applied] = await applyEdits([change]);
+      output += `**Written** ${applied.path} (backup: ${applied.backup})\n`;
+    }
+
+    const warnings = validateDescriptor(descriptor.kind, after).filter((i) => i.severity === "warning");
+    if (warnings.length > 0) output += `\n### Warnings\n\n${issueList(warnings)}`;
+    return textResult(output);
+  } catch (err) {
+    return errorResult(err instanceof Error ? err.message : String(err));
+  }
+}
+
+// --- Tool Registration ---
+
+export function registerDescriptorTools(server: McpServer) {
+  // 1. ue5_enable_plugin — Enable a plugin reference
+  server.registerTool(
+    "ue5_enable_plugin",
+    {
+      title: "Enable UE5 Plugin",
+      description:
+        "Enable a plugin in a .uproject or .uplugin: sets Enabled to true on its entry in Plugins, or adds one. Only the changed lines are touched; indentation, key order and line endings are kept. Shows a unified diff and backs up the original. Use dry_run to preview.",
+      inputSchema: {
+        path: DescriptorPathSchema,
+        plugin: z.string().min(1).describe("Plugin name, e.g. RemoteControl, EnhancedInput"),
+        dry_run: DryRunSchema,
+      },
+      annotations: EDIT_ANNOTATIONS,
+    },
+    async ({ path, plugin, dry_run }) =>
+      editDescriptor(path, dry_run, `Enable Plugin: ${plugin}`, (text) => setPluginEnabled(text, plugin, true))
+  );
+
+  // 2. ue5_disable_plugin — Disable a plugin reference
+  server.registerTool(
+    "ue5_disable_plugin",
+    {
+      title: "Disable UE5 Plugin",
+      description:
+        "Disable a plugin in a .uproject or .uplugin: sets Enabled to false on its entry in Plugins, or adds a disabled entry so a plugin that is enabled by default stays off. Preserves formatting, shows a unified diff and backs up the original. Use dry_run to preview.",
+      inputSchema: {
+        path: DescriptorPathSchema,
+        plugin: z.string().min(1).describe("Plugin name"),
+        dry_run: DryRunSchema,
+      },
+      annotations: EDIT_ANNOTATIONS,
+    },
+    async ({ path, plugin, dry_run }) =>
+      editDescriptor(path, dry_run, `Disable Plugin: ${plugin}`, (text) => setPluginEnabled(text, plugin, false))
+  );
+
+  // 3. ue5_add_module — Add a module entry
+  server.registerTool(
+    "ue5_add_module",
+    {
+      title: "Add UE5 Module",
+      description:
+        "Add a module to the Modules list of a .uproject or .uplugin. Fails if a module with that name is already listed. Only the descriptor is edited; the module's Source/ folder, Build.cs and module class are not created. Shows a unified diff and backs up the original. Use dry_run to preview.",
+      inputSchema: {
+        path: DescriptorPathSchema,
+        name: z.string().regex(/^[A-Za-z_]\w*$/).describe("Module name, matching its Source/<Name> folder"),
+        type: z.enum(MODULE_TYPES).default("Runtime").describe("Host type: where the module is loaded"),
+        loading_phase: z.enum(LOADING_PHASES).default("Default").describe("When during startup the module is loaded"),
+        additional_dependencies: z.array(z.string()).optional().describe("Modules that must be loaded first, e.g. [\"Engine\"]"),
+        dry_run: DryRunSchema,
+      },
+      annotations: EDIT_ANNOTATIONS,
+    },
+    async ({ path, name, type, loading_phase, additional_dependencies, dry_run }) =>
+      editDescriptor(path, dry_run, `Add Module: ${name}`, (text) =>
+        addModule(text, {
+          Name: name,
+          Type: type,
+          LoadingPhase: loading_phase,
+          ...(additional_dependencies?.length ? { AdditionalDependencies: additional_dependencies } : {}),
+        })
+      )
+  );
+
+  // 4. ue5_set_engine_association — Point a project at an engine
+  server.registerTool(
+    "ue5_set_engine_association",
+    {
+      title: "Set UE5 Engine Association",
+      description:
+        "Set the EngineAssociation of a .uproject: an installed engine version (5.4), the {GUID} of a registered source build, or an empty string for an engine found next to the project. Preserves formatting, shows a unified diff and backs up the original. Use dry_run to preview.",
+      inputSchema: {
+        path: DescriptorPathSchema,
+        engine_association: z.string().describe("Engine version, source build GUID, or \"\""),
+        dry_run: DryRunSchema,
+      },
+      annotations: EDIT_ANNOTATIONS,
+    },
+    async ({ path, engine_association, dry_run }) =>
+      editDescriptor(path, dry_run, `Engine Association: ${engine_association || "(empty)"}`, (text, kind) => {
+        if (kind !== "uproject") throw new Error("EngineAssociation is a .uproject field; plugins use EngineVersion");
+        return setEngineAssociation(text, engine_association);
+      })
+  );
+
+  // 5. ue5_validate_descriptor — Schema and consistency checks
+  server.registerTool(
+    "ue5_validate_descriptor",
+    {
+      title: "Validate UE5 Descriptor",
+      description:
+        "Check a .uproject or .uplugin against the descriptor schema: JSON syntax, field types, unknown module Type or LoadingPhase values, duplicate modules, plugins listed as both enabled and disabled, and an unrecognised FileVersion or EngineAssociation. The same checks guard the descriptor edit tools.",
+      inputSchema: {
+        path: DescriptorPathSchema,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ path }) => {
+      try {
+        const descriptor = await resolveDescriptorPath(path);
+        const issues = validateDescriptor(descriptor.kind, await readFile(descriptor.path, "utf-8"));
+        const errors = issues.filter((i) => i.severity === "error").length;
+
+        let output = `## Descriptor Validation: ${basename(descriptor.path)}\n\n`;
+        if (issues.length === 0) return textResult(output + `No issues found.\n`);
+        output += `**${errors} error(s), ${issues.length - errors} warning(s)**\n\n`;
+        output += issueList(issues);
+        return textResult(output);
+      } catch (err) {
+        return errorResult(err instanceof Error ? err.message : String(err));
+      }
+    }
+  );
+}
@@ -1,6 +1,46 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { UE5_CLASSES, UE5_CATEGORIES } from "../data/ue5-api-index.js";
+import { UE5ClassInfo } from "../data/ue5-api-index.js";
+import { buildApiIndex, getApiIndexPath, getEngineCatalog, useApiIndex, writeApiIndex } from "../lib/api-index.js";
+import { ApiClassOutput } from "../lib/output-schemas.js";
+import { allClasses, indexProject, isReflectedClass, listProjectIndexes, PROJECT_CATEGORY } from "../lib/project-index.js";
+import { ReflectedClassInfo, ReflectedMember } from "../lib/reflection.js";
+
+// Members listed per project class before the rest are summarised as a count
+const MAX_MEMBERS = 10;
+
+// A generated engine index has thousands of classes; past this, a miss suggests similar names instead of listing all
+const MAX_AVAILABLE = 100;
+
+const ProjectPathSchema = z
+  .string()
+  .optional()
+  .describe("UE5 project root; its Source/ and Plugins/ headers are indexed so project classes are included");
+
+function memberList(title: string, members: ReflectedMember[]): string {
+  if (members.length === 0) return "";
+  let output = `- **${title}** (${members.length}):\n`;
+  for (const m of members.slice(0, MAX_MEMBERS)) {
+    output += `  - \`${m.type}${title === "Properties" ? ` ${m.name}` : ""}\`${m.specifiers.length ? ` — ${m.specifiers.join(", ")}` : ""}\n`;
+  }
+  if (members.length > MAX_MEMBERS) output += `  - …and ${members.length - MAX_MEMBERS} more\n`;
+  return output;
+}
+
+// Source, specifiers and members of a type read from project headers
+function reflectedDetails(cls: ReflectedClassInfo): string {
+  let output = `- **Declared**: \`${cls.file}:${cls.line}\` as ${cls.commonMacros?.[0]}\n`;
+  if (cls.interfaces.length > 0) output += `- **Implements**: ${cls.interfaces.join(", ")}\n`;
+  if (cls.values) output += `- **Values**: ${cls.values.join(", ")}\n`;
+  output += memberList("Properties", cls.properties);
+  output += memberList("Functions", cls.functions);
+  return output;
+}
+
+function matchesMember(cls: UE5ClassInfo, queryLower: string): boolean {
+  if (!isReflectedClass(cls)) return false;
+  return [...cls.properties, ...cls.functions].some((m) => m.name.toLowerCase().includes(queryLower));
+}
 
 export function registerDocTools(server: McpServer) {
   server.registerTool(
@@ -8,32 +48,28 @@ export function registerDocTools(server: McpServer) {
     {
       title: "Search UE5 API Reference",
       description:
-        "Search the Unreal Engine 5 API class index by name, category, or module. Returns class info, parent hierarchy, header paths, and descriptions.",
+        "Search the Unreal Engine 5 API class index by name, category, or module. Returns class info, parent hierarchy, header paths, and descriptions. With project_path, the project's own UCLASS/USTRUCT/UENUM/UINTERFACE types (category \"Project\") are searched too, including their UPROPERTY and UFUNCTION names.",
       inputSchema: {
         query: z
           .string()
           .describe("Search term — class name, category, or keyword"),
         category: z
-          .enum([
-            "Framework",
-            "Components",
-            "GAS",
-            "Input",
-            "AI",
-            "UI",
-            "Subsystems",
-            "Rendering",
-            "Animation",
-            "all",
-          ])
+          .string()
           .optional()
-          .describe("Filter by category"),
+          .describe("Filter by category (see ue5_list_categories), \"Project\" for indexed project types, or \"all\""),
         limit: z
           .number()
           .min(1)
           .max(50)
           .default(10)
           .describe("Max results to return"),
+        project_path: ProjectPathSchema,
+      },
+      outputSchema: {
+        query: z.string(),
+        category: z.string().optional(),
+        count: z.number(),
+        classes: z.array(ApiClassOutput),
       },
       annotations: {
         readOnlyHint: true,
@@ -42,14 +78,16 @@ export function registerDocTools(server: McpServer) {
         openWorldHint: false,
       },
     },
-    async ({ query, category, limit }) => {
+    async ({ query, category, limit, project_path }) => {
+      if (project_path) await indexProject(project_path);
       const queryLower = query.toLowerCase();
-      let results = UE5_CLASSES.filter((cls) => {
+      let results = allClasses().filter((cls) => {
         const matchesQuery =
           cls.name.toLowerCase().includes(queryLower) ||
           cls.description.toLowerCase().includes(queryLower) ||
           cls.module.toLowerCase().includes(queryLower) ||
-          cls.category.toLowerCase().includes(queryLower);
+          cls.category.toLowerCase().includes(queryLower) ||
+          matchesMember(cls, queryLower);
 
         const matchesCategory =
           !category || category === "all" || cls.category === category;
@@ -67,6 +105,7 @@ export function registerDocTools(server: McpServer) {
               text: `No UE5 classes found matching "${query}"${category && category !== "all" ? ` in category "${category}"` : ""}. Try a broader search term.`,
             },
           ],
+          structuredContent: { query, category, count: 0, classes: [] },
         };
       }
 
@@ -75,10 +114,11 @@ export function registerDocTools(server: McpServer) {
           (cls) =>
             `### ${cls.name}\n` +
             `- **Module**: ${cls.module}\n` +
-            `- **Parent**: ${cls.parent}\n` +
+            `- **Parent**: ${cls.parent || "(none)"}\n` +
             `- **Header**: \`${cls.headerPath}\`\n` +
             `- **Category**: ${cls.category}\n` +
-            `- ${cls.description}\n`
+            `- ${cls.description}\n` +
+            (isReflectedClass(cls) ? reflectedDetails(cls) : "")
         )
         .join("\n");
 
@@ -89,6 +129,7 @@ export function registerDocTools(server: McpServer) {
             text: `## UE5 API Search: "${query}" (${results.length} results)\n\n${markdown}`,
           },
         ],
+        structuredContent: { query, category, count: results.length, classes: results },
       };
     }
   );
@@ -98,11 +139,21 @@ export function registerDocTools(server: McpServer) {
     {
       title: "Get UE5 Class Hierarchy",
       description:
-        "Show the inheritance hierarchy for a specific UE5 class, including all known parent classes and siblings.",
+        "Show the inheritance hierarchy for a specific UE5 class, including all known parent classes and siblings. With project_path, project classes are included, so a game class shows its chain up through the engine classes it derives from.",
       inputSchema: {
         class_name: z
           .string()
           .describe("UE5 class name (e.g., ACharacter, UAbilitySystemComponent)"),
+        project_path: ProjectPathSchema,
+      },
+      outputSchema: {
+        found: z.boolean(),
+        className: z.string(),
+        class: ApiClassOutput.optional(),
+        chain: z.array(z.string()).optional().describe("Root (UObject) first, the class itself last"),
+        children: z.array(z.string()).optional(),
+        siblings: z.array(z.string()).optional(),
+        available: z.array(z.string()).optional().describe("Indexed class names, when the class was not found"),
       },
       annotations: {
         readOnlyHint: true,
@@ -111,46 +162,55 @@ export function registerDocTools(server: McpServer) {
         openWorldHint: false,
       },
     },
-    async ({ class_name }) => {
-      const cls = UE5_CLASSES.find(
+    async ({ class_name, project_path }) => {
+      if (project_path) await indexProject(project_path);
+      const classes = allClasses();
+      const cls = classes.find(
         (c) => c.name.toLowerCase() === class_name.toLowerCase()
       );
 
       if (!cls) {
+        // Compare without the A/U/F/E/I prefix so "Character" suggests ACharacter
+        const stem = class_name.replace(/^[AUFEI](?=[A-Z])/, "").toLowerCase();
+        const available =
+          classes.length > MAX_AVAILABLE
+            ? classes.filter((c) => c.name.toLowerCase().includes(stem)).slice(0, MAX_AVAILABLE).map((c) => c.name)
+            : classes.map((c) => c.name);
         return {
           content: [
             {
               type: "text",
-              text: `Class "${class_name}" not found in the index. Available classes: ${UE5_CLASSES.map((c) => c.name).join(", ")}`,
+              text: `Class "${class_name}" not found in the index. ${classes.length > MAX_AVAILABLE ? "Similar" : "Available"} classes: ${available.join(", ") || "none"}`,
             },
           ],
+          structuredContent: { found: false, className: class_name, available },
         };
       }
 
       // Build hierarchy chain
       const hierarchy: string[] = [cls.name];
-      let current = cls;
-      while (current) {
-        const parent = UE5_CLASSES.find((c) => c.name === current.parent);
-        if (parent) {
-          hierarchy.unshift(parent.name);
-          current = parent;
-        } else {
-          if (current.parent && current.parent !== "UObject") {
-            hierarchy.unshift(current.parent);
-          }
-          hierarchy.unshift("UObject");
+      let current: UE5ClassInfo = cls;
+      while (current.parent) {
+        const parent = classes.find((c) => c.name === current.parent);
+        if (!parent) {
+          hierarchy.unshift(current.parent);
           break;
         }
+        if (hierarchy.includes(parent.name)) break;
+        hierarchy.unshift(parent.name);
+        current = parent;
       }
+      // Structs and enums are not UObjects
+      const isObject = !isReflectedClass(cls) || cls.kind === "class" || cls.kind === "interface";
+      if (isObject && hierarchy[0] !== "UObject") hierarchy.unshift("UObject");
 
       // Find children
-      const children = UE5_CLASSES.filter((c) => c.parent === cls.name);
+      const children = classes.filter((c) => c.parent === cls.name);
 
       // Find siblings
-      const siblings = UE5_CLASSES.filter(
-        (c) => c.parent === cls.parent && c.name !== cls.name
-      );
+      const siblings = cls.parent
+        ? classes.filter((c) => c.parent === cls.parent && c.name !== cls.name)
+        : [];
 
       let output = `## Class Hierarchy: ${cls.name}\n\n`;
       output += `### Inheritance Chain\n`;
@@ -162,7 +222,9 @@ export function registerDocTools(server: McpServer) {
       output += `### Details\n`;
       output += `- **Module**: ${cls.module}\n`;
       output += `- **Header**: \`#include "${cls.headerPath}"\`\n`;
-      output += `- ${cls.description}\n\n`;
+      output += `- ${cls.description}\n`;
+      if (isReflectedClass(cls)) output += reflectedDetails(cls);
+      output += "\n";
 
       if (children.length > 0) {
         output += `### Direct Children (${children.length})\n`;
@@ -181,6 +243,14 @@ export function registerDocTools(server: McpServer) {
 
       return {
         content: [{ type: "text", text: output }],
+        structuredContent: {
+          found: true,
+          className: cls.name,
+          class: cls,
+          chain: hierarchy,
+          children: children.map((c) => c.name),
+          siblings: siblings.map((c) => c.name),
+        },
       };
     }
   );
@@ -192,6 +262,10 @@ export function registerDocTools(server: McpServer) {
       description:
         "List all available UE5 class categories with counts. Useful for discovering what's available in the API index.",
       inputSchema: {},
+      outputSchema: {
+        categories: z.array(z.object({ category: z.string(), count: z.number() })),
+        total: z.number(),
+      },
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -200,24 +274,162 @@ export function registerDocTools(server: McpServer) {
       },
     },
     async () => {
-      const categoryCounts = UE5_CATEGORIES.map((cat) => ({
-        category: cat,
-        count: UE5_CLASSES.filter((c) => c.category === cat).length,
-      }));
+      const catalog = getEngineCatalog();
+      const counts = new Map<string, number>();
+      for (const c of catalog.classes) counts.set(c.category, (counts.get(c.category) ?? 0) + 1);
+      const categoryCounts = catalog.categories.map((cat) => ({ category: cat, count: counts.get(cat) ?? 0 }));
+      const projectCount = listProjectIndexes().reduce((n, i) => n + i.classes.length, 0);
+      if (projectCount > 0) categoryCounts.push({ category: PROJECT_CATEGORY, count: projectCount });
 
       let output = `## UE5 API Categories\n\n`;
+      output += catalog.engineVersion
+        ? `Engine index: UE ${catalog.engineVersion} (${catalog.source})\n\n`
+        : `Engine index: built-in list (run ue5_build_api_index to generate one from engine headers)\n\n`;
       output += `| Category | Classes |\n|----------|--------|\n`;
       categoryCounts.forEach(({ category, count }) => {
         output += `| ${category} | ${count} |\n`;
       });
-      output += `\n**Total classes indexed**: ${UE5_CLASSES.length}\n`;
+      output += `\n**Total classes indexed**: ${catalog.classes.length + projectCount}\n`;
 
       return {
         content: [{ type: "text", text: output }],
+        structuredContent: { categories: categoryCounts, total: catalog.classes.length + projectCount },
       };
     }
   );
 
+  server.registerTool(
+    "ue5_index_project",
+    {
+      title: "Index UE5 Project Classes",
+      description:
+        "Scan a project's Source/ and Plugins/ headers for UCLASS, USTRUCT, UENUM and UINTERFACE declarations — parent, specifiers, UPROPERTY/UFUNCTION members and file:line — and add them to the API index as category \"Project\", so ue5_search_api and ue5_class_hierarchy answer for project types. Re-run after editing headers.",
+      inputSchema: {
+        project_path: z.string().describe("Absolute path to UE5 project root (containing .uproject file)"),
+      },
+      outputSchema: {
+        projectPath: z.string(),
+        headers: z.number(),
+        counts: z.object({ class: z.number(), struct: z.number(), enum: z.number(), interface: z.number() }),
+        modules: z.array(z.object({ module: z.string(), count: z.number() })),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ project_path }) => {
+      try {
+        const index = await indexProject(project_path, true);
+        const counts = { class: 0, struct: 0, enum: 0, interface: 0 };
+        const perModule = new Map<string, number>();
+        for (const cls of index.classes) {
+          counts[cls.kind]++;
+          perModule.set(cls.module, (perModule.get(cls.module) ?? 0) + 1);
+        }
+        const modules = [...perModule].map(([module, count]) => ({ module, count }));
+
+        let output = `## Project Index: ${index.projectPath}\n\n`;
+        output += `Scanned ${index.headers} headers: ${counts.class} classes, ${counts.struct} structs, ${counts.enum} enums, ${counts.interface} interfaces.\n\n`;
+        if (modules.length > 0) {
+          output += `| Module | Types |\n|--------|-------|\n`;
+          for (const { module, count } of modules) output += `| ${module} | ${count} |\n`;
+          output += `\nSearch them with ue5_search_api (category "${PROJECT_CATEGORY}") or ue5_class_hierarchy.\n`;
+        }
+
+        return {
+          content: [{ type: "text", text: output }],
+          structuredContent: { projectPath: index.projectPath, headers: index.headers, counts, modules },
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `Error indexing project: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    "ue5_build_api_index",
+    {
+      title: "Build UE5 API Index",
+      description:
+        "Generate the engine API index from an engine checkout: walk Engine/Source and Engine/Plugins, read every UCLASS/USTRUCT/UENUM/UINTERFACE in a module's Public or Classes headers, and take each type's module from the nearest Build.cs and its header path from the include root. Writes versioned JSON that the server loads at startup (UE5_API_INDEX, default ue5-mcp-server/api-index.json in the user cache directory) and switches ue5_search_api, ue5_class_hierarchy and ue5_list_categories to it immediately. Scanning a full engine takes a few minutes.",
+      inputSchema: {
+        engine_path: z
+          .string()
+          .optional()
+          .describe("Engine directory (containing Engine/Source). Defaults to UE5_ENGINE_PATH"),
+        output_path: z.string().optional().describe("Where to write the index. Defaults to UE5_API_INDEX or ue5-mcp-server/api-index.json in the user cache directory"),
+        include_members: z
+          .boolean()
+          .default(false)
+          .describe("Also store each type's UPROPERTY/UFUNCTION members, so searches match member names (much larger file)"),
+      },
+      outputSchema: {
+        path: z.string(),
+        engineVersion: z.string(),
+        total: z.number(),
+        categories: z.array(z.object({ category: z.string(), count: z.number() })),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ engine_path, output_path, include_members }) => {
+      try {
+        const enginePath = engine_path ?? process.env.UE5_ENGINE_PATH;
+        if (!enginePath) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: "No engine directory: pass engine_path or set UE5_ENGINE_PATH." }],
+          };
+        }
+        const path = output_path ?? getApiIndexPath();
+        const index = await buildApiIndex(enginePath, { includeMembers: include_members });
+        await writeApiIndex(index, path);
+        useApiIndex(index, path);
+
+        const counts = new Map<string, number>();
+        for (const c of index.classes) counts.set(c.category, (counts.get(c.category) ?? 0) + 1);
+        const categories = index.categories.map((category) => ({ category, count: counts.get(category)! }));
+
+        let output = `## API Index Built: UE ${index.engineVersion}\n\n`;
+        output += `- **Types**: ${index.classes.length}\n`;
+        output += `- **Modules**: ${new Set(index.classes.map((c) => c.module)).size}\n`;
+        output += `- **Written**: ${path}\n\n`;
+        output += `| Category | Types |\n|----------|-------|\n`;
+        for (const { category, count } of categories) output += `| ${category} | ${count} |\n`;
+
+        return {
+          content: [{ type: "text", text: output }],
+          structuredContent: { path, engineVersion: index.engineVersion, total: index.classes.length, categories },
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `Error building API index: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
   server.registerTool(
     "ue5_doc_url",
     {
@@ -229,6 +441,11 @@ export function registerDocTools(server: McpServer) {
           .string()
           .describe("Topic to look up (e.g., 'Gameplay Ability System', 'Nanite', 'Enhanced Input')"),
       },
+      outputSchema: {
+        topic: z.string(),
+        url: z.string().optional().describe("Exact match, when there is one"),
+        matches: z.array(z.object({ topic: z.string(), url: z.string() })),
+      },
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -284,6 +501,11 @@ export function registerDocTools(server: McpServer) {
               text: `## UE5 Documentation: ${topic}\n\n**URL**: https://${matchedUrl}\n\nOpen this URL in your browser for the official Epic documentation.`,
             },
           ],
+          structuredContent: {
+            topic,
+            url: `https://${matchedUrl}`,
+            matches: [{ topic: topicLower, url: `https://${matchedUrl}` }],
+          },
         };
       }
 
@@ -303,6 +525,7 @@ export function registerDocTools(server: McpServer) {
               text: `## Possible matches for "${topic}"\n\n${output}`,
             },
           ],
+          structuredContent: { topic, matches: matches.map(([key, url]) => ({ topic: key, url: `https://${url}` })) },
         };
       }
 
@@ -313,6 +536,7 @@ export function registerDocTools(server: McpServer) {
             text: `No documentation URL found for "${topic}". Try searching at:\nhttps://${DOC_BASE}/\n\nAvailable topics: ${Object.keys(topicMap).join(", ")}`,
           },
         ],
+        structuredContent: { topic, matches: [] },
       };
     }
   );
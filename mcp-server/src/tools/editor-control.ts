@@ -1,73 +1,28 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import { toRcError, describeRcError, RcError, RcRequest, RcResponse } from "../lib/rc-client.js";
+import { EditorSchema, getActiveEditorName, getEditorClient } from "../lib/editor-registry.js";
+import { withEditorTransaction } from "../lib/transactions.js";
+import { RotatorOutput, toRotatorOutput, toVectorOutput, VectorOutput } from "../lib/output-schemas.js";
+import { ActorFilterShape, describeActorFilter, invalidateActorCache, toActorQuery } from "../lib/actor-query.js";
+import { assertRemoteControl, getEditorBackend, getRemoteControlClient, SpawnCall } from "../backends/index.js";
 
-// --- Configuration ---
-
-function getConfig() {
-  return {
-    host: process.env.UE5_HOST || "localhost",
-    port: parseInt(process.env.UE5_RC_PORT || "30010", 10),
-  };
-}
-
-function baseUrl(): string {
-  const { host, port } = getConfig();
-  return `http://${host}:${port}`;
-}
-
-// --- HTTP Client ---
+// --- MCP Response Helpers ---
 
-interface RcResponse {
-  ok: boolean;
-  status: number;
-  data: any;
+function errorResult(message: string) {
+  return { content: [{ type: "text" as const, text: `Error: ${message}` }], isError: true };
 }
 
-async function rcFetch(
-  path: string,
-  method: "GET" | "PUT" | "POST" | "DELETE" = "GET",
-  body?: unknown
-): Promise<RcResponse> {
-  const url = `${baseUrl()}${path}`;
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 10_000);
-
-  try {
-    const res = await fetch(url, {
-      method,
-      headers: body ? { "Content-Type": "application/json" } : undefined,
-      body: body ? JSON.stringify(body) : undefined,
-      signal: controller.signal,
-    });
-
-    let data: any;
-    const text = await res.text();
-    try {
-      data = JSON.parse(text);
-    } catch {
-      data = text;
-    }
-
-    return { ok: res.ok, status: res.status, data };
-  } catch (err: any) {
-    if (err.name === "AbortError") {
-      throw new Error(`Request to ${url} timed out after 10s`);
-    }
-    throw new Error(`Failed to connect to UE5 editor at ${url}: ${err.message}`);
-  } finally {
-    clearTimeout(timeout);
-  }
+function structuredResult<T extends Record<string, unknown>>(text: string, structuredContent: T) {
+  return { content: [{ type: "text" as const, text }], structuredContent };
 }
 
-// --- MCP Response Helpers ---
-
-function textResult(text: string) {
-  return { content: [{ type: "text" as const, text }] };
+function rcErrorResult(prefix: string, res: RcResponse) {
+  return errorResult(`${prefix}: ${describeRcError(toRcError(res))}`);
 }
 
-function errorResult(message: string) {
-  return { content: [{ type: "text" as const, text: `Error: ${message}` }], isError: true };
-}
+// Getter calls can be retried safely and should not litter the undo history
+const READ_ONLY_CALL = { idempotent: true, generateTransaction: false };
 
 // --- Lookup Maps ---
 
@@ -125,28 +80,6 @@ const ScaleSchema = z
   .optional()
   .describe("Scale {x, y, z}");
 
-// --- RC API call helper ---
-
-async function rcCall(objectPath: string, functionName: string, parameters?: Record<string, any>) {
-  return rcFetch("/remote/object/call", "PUT", {
-    objectPath,
-    functionName,
-    parameters: parameters || {},
-    generateTransaction: true,
-  });
-}
-
-async function rcProperty(objectPath: string, propertyName: string, propertyValue?: any) {
-  const body: any = { objectPath, propertyName };
-  if (propertyValue !== undefined) {
-    body.propertyValue = propertyValue;
-    return rcFetch("/remote/object/property", "PUT", body);
-  }
-  // GET property via access: "READ_ACCESS"
-  body.access = "READ_ACCESS";
-  return rcFetch("/remote/object/property", "PUT", body);
-}
-
 // --- Tool Registration ---
 
 export function registerEditorControlTools(server: McpServer) {
@@ -157,7 +90,15 @@ export function registerEditorControlTools(server: McpServer) {
       title: "Test UE5 Editor Connection",
       description:
         "Test connectivity to the UE5 editor's Remote Control API. Returns editor info and version if connected.",
-      inputSchema: {},
+      inputSchema: {
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        editor: z.string(),
+        host: z.string(),
+        port: z.number(),
+        info: z.record(z.any()).describe("Raw /remote/info payload"),
+      },
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -165,14 +106,16 @@ export function registerEditorControlTools(server: McpServer) {
         openWorldHint: true,
       },
     },
-    async () => {
+    async ({ editor }) => {
       try {
-        const res = await rcFetch("/remote/info", "GET");
+        const rc = getEditorClient(editor);
+        const res = await rc.fetch("/remote/info", "GET");
         if (!res.ok) {
-          return errorResult(`Editor returned HTTP ${res.status}: ${JSON.stringify(res.data)}`);
+          return rcErrorResult("Editor returned an error", res);
         }
-        const { host, port } = getConfig();
+        const { host, port } = rc.config;
         let output = `## UE5 Editor Connected\n\n`;
+        output += `- **Editor**: ${editor ?? getActiveEditorName()}\n`;
         output += `- **Endpoint**: ${host}:${port}\n`;
         if (typeof res.data === "object") {
           for (const [key, value] of Object.entries(res.data)) {
@@ -180,9 +123,14 @@ export function registerEditorControlTools(server: McpServer) {
           }
         }
         output += `\nRemote Control API is active and responding.`;
-        return textResult(output);
-      } catch (err: any) {
-        return errorResult(err.message);
+        return structuredResult(output, {
+          editor: editor ?? getActiveEditorName(),
+          host,
+          port,
+          info: typeof res.data === "object" && res.data ? res.data : {},
+        });
+      } catch (err) {
+        return errorResult(describeRcError(err));
       }
     }
   );
@@ -215,6 +163,13 @@ export function registerEditorControlTools(server: McpServer) {
           .boolean()
           .default(false)
           .describe("Enable physics simulation (sets Mobility to Movable, enables gravity)"),
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        actorPath: z.string(),
+        classPath: z.string(),
+        steps: z.array(z.string()),
+        transaction: z.string().describe("Name of the single undo entry"),
       },
       annotations: {
         readOnlyHint: false,
@@ -223,110 +178,36 @@ export function registerEditorControlTools(server: McpServer) {
         openWorldHint: true,
       },
     },
-    async ({ actor_class, mesh, label, location, rotation, scale, simulate_physics }) => {
+    async ({ actor_class, mesh, label, location, rotation, scale, simulate_physics, editor }) => {
       try {
+        const backend = await getEditorBackend(editor);
+
         // Resolve actor class
         const classPath = ACTOR_CLASSES[actor_class] || actor_class;
-
-        // Step 1: Spawn actor via EditorActorSubsystem
-        const spawnRes = await rcCall(
-          "/Script/UnrealEd.Default__EditorActorSubsystem",
-          "SpawnActorFromClass",
-          {
-            ActorClass: classPath,
-            Location: location
-              ? { X: location.x, Y: location.y, Z: location.z }
-              : { X: 0, Y: 0, Z: 0 },
-          }
-        );
-
-        if (!spawnRes.ok) {
-          return errorResult(`Spawn failed (HTTP ${spawnRes.status}): ${JSON.stringify(spawnRes.data)}`);
-        }
-
-        const actorPath = spawnRes.data?.ReturnValue;
-        if (!actorPath) {
-          return errorResult(`Spawn returned no actor path. Response: ${JSON.stringify(spawnRes.data)}`);
-        }
-
-        const steps: string[] = [`Spawned \`${classPath}\` → \`${actorPath}\``];
-
-        // Step 2: Set mesh if specified
-        if (mesh) {
-          const meshPath = ENGINE_MESHES[mesh] || mesh;
-          const meshComp = `${actorPath}.StaticMeshComponent0`;
-          const meshRes = await rcCall(meshComp, "SetStaticMesh", { NewMesh: meshPath });
-          if (meshRes.ok) {
-            steps.push(`Set mesh: ${meshPath}`);
-          } else {
-            steps.push(`Warning: Failed to set mesh (${meshRes.status})`);
-          }
-        }
-
-        // Step 3: Enable physics (must set Movable before SetSimulatePhysics)
-        if (simulate_physics) {
-          const meshComp = `${actorPath}.StaticMeshComponent0`;
-          const mobRes = await rcCall(meshComp, "SetMobility", { NewMobility: "Movable" });
-          if (mobRes.ok) {
-            steps.push("Set mobility: Movable");
-          } else {
-            steps.push(`Warning: Failed to set mobility (${mobRes.status})`);
-          }
-          const physRes = await rcCall(meshComp, "SetSimulatePhysics", { bSimulate: true });
-          if (physRes.ok) {
-            steps.push("Enabled physics simulation");
-          } else {
-            steps.push(`Warning: Failed to enable physics (${physRes.status})`);
-          }
-          const gravRes = await rcCall(meshComp, "SetEnableGravity", { bGravityEnabled: true });
-          if (gravRes.ok) {
-            steps.push("Enabled gravity");
-          } else {
-            steps.push(`Warning: Failed to enable gravity (${gravRes.status})`);
-          }
-        }
-
-        // Step 4: Set label
-        if (label) {
-          const labelRes = await rcCall(actorPath, "SetActorLabel", { NewActorLabel: label });
-          if (labelRes.ok) {
-            steps.push(`Set label: "${label}"`);
-          } else {
-            steps.push(`Warning: Failed to set label (${labelRes.status})`);
-          }
-        }
-
-        // Step 5: Set rotation
-        if (rotation) {
-          const rotRes = await rcCall(actorPath, "K2_SetActorRotation", {
-            NewRotation: { Pitch: rotation.pitch, Yaw: rotation.yaw, Roll: rotation.roll },
-            bTeleportPhysics: true,
-          });
-          if (rotRes.ok) {
-            steps.push(`Set rotation: pitch=${rotation.pitch} yaw=${rotation.yaw} roll=${rotation.roll}`);
-          } else {
-            steps.push(`Warning: Failed to set rotation (${rotRes.status})`);
-          }
-        }
-
-        // Step 6: Set scale
-        if (scale) {
-          const scaleRes = await rcCall(actorPath, "SetActorScale3D", {
-            NewScale3D: { X: scale.x, Y: scale.y, Z: scale.z },
-          });
-          if (scaleRes.ok) {
-            steps.push(`Set scale: ${scale.x}, ${scale.y}, ${scale.z}`);
-          } else {
-            steps.push(`Warning: Failed to set scale (${scaleRes.status})`);
-          }
-        }
+        const transaction = `Spawn ${actor_class}`;
+        const { actorPath, steps, transactional } = await backend.spawnActor({
+          classPath,
+          mesh: mesh ? ENGINE_MESHES[mesh] || mesh : undefined,
+          simulatePhysics: simulate_physics,
+          label,
+          location,
+          rotation,
+          scale,
+          transaction,
+        });
 
         let output = `## Actor Spawned\n\n`;
         output += `- **Path**: \`${actorPath}\`\n`;
         output += steps.map((s) => `- ${s}`).join("\n");
-        return textResult(output);
-      } catch (err: any) {
-        return errorResult(err.message);
+        if (transactional) output += `\n\nOne undo entry: "${transaction}"`;
+        return structuredResult(output, {
+          actorPath,
+          classPath,
+          steps,
+          transaction,
+        });
+      } catch (err) {
+        return errorResult(describeRcError(err));
       }
     }
   );
@@ -337,18 +218,42 @@ export function registerEditorControlTools(server: McpServer) {
     {
       title: "List Actors in UE5 Level",
       description:
-        "List all actors in the current level. Optionally filter by class name substring.",
+        "Find actors in the current level. Filter by class (subclasses included), label glob, tags, folder, bounding-box region, distance from a point and selection state; results are sorted and paginated with a cursor. Actor data is cached per editor (UE5_ACTOR_CACHE_TTL_MS, default 30s) so repeated queries on large levels stay cheap.",
       inputSchema: {
-        class_filter: z
-          .string()
+        ...ActorFilterShape,
+        sort: z
+          .enum(["label", "path", "class", "distance"])
           .optional()
-          .describe("Filter actors by class name substring (e.g., 'StaticMesh', 'Light')"),
+          .describe("Sort key (default: distance when `near` is given, otherwise label)"),
+        order: z.enum(["asc", "desc"]).default("asc"),
         limit: z
           .number()
           .min(1)
           .max(500)
           .default(50)
-          .describe("Maximum number of actors to return"),
+          .describe("Page size"),
+        cursor: z.string().optional().describe("nextCursor from a previous call with the same filters"),
+        refresh: z.boolean().default(false).describe("Bypass the actor cache"),
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        actors: z.array(z.string()).describe("Actor object paths on this page"),
+        details: z.array(
+          z.object({
+            path: z.string(),
+            label: z.string().optional(),
+            className: z.string().optional(),
+            tags: z.array(z.string()).optional(),
+            folder: z.string().optional(),
+            location: VectorOutput.optional(),
+            bounds: z.object({ origin: VectorOutput, extent: VectorOutput }).optional(),
+            distance: z.number().optional(),
+          })
+        ),
+        shown: z.number(),
+        total: z.number().describe("Matches across all pages"),
+        nextCursor: z.string().optional(),
+        classFilter: z.string().optional(),
       },
       annotations: {
         readOnlyHint: true,
@@ -357,37 +262,34 @@ export function registerEditorControlTools(server: McpServer) {
         openWorldHint: true,
       },
     },
-    async ({ class_filter, limit }) => {
+    async ({ sort, order, limit, cursor, refresh, editor, ...filter }) => {
       try {
-        const res = await rcCall(
-          "/Script/UnrealEd.Default__EditorActorSubsystem",
-          "GetAllLevelActors"
-        );
-
-        if (!res.ok) {
-          return errorResult(`Failed to list actors (HTTP ${res.status}): ${JSON.stringify(res.data)}`);
-        }
-
-        let actors: string[] = res.data?.ReturnValue || [];
-
-        if (class_filter) {
-          const filterLower = class_filter.toLowerCase();
-          actors = actors.filter((a: string) => a.toLowerCase().includes(filterLower));
-        }
-
-        const total = actors.length;
-        actors = actors.slice(0, limit);
+        const backend = await getEditorBackend(editor);
+        const result = await backend.query({ ...toActorQuery(filter), sort, order, limit, cursor, refresh });
+        const filters = describeActorFilter(filter);
 
         let output = `## Level Actors`;
-        if (class_filter) output += ` (filter: "${class_filter}")`;
-        output += `\n\nShowing ${actors.length} of ${total} actors\n\n`;
-        actors.forEach((a, i) => {
-          output += `${i + 1}. \`${a}\`\n`;
+        if (filters.length > 0) output += ` (${filters.join("; ")})`;
+        output += `\n\nShowing ${result.actors.length} of ${result.total} actors\n\n`;
+        result.actors.forEach((a, i) => {
+          output += `${i + 1}. **${a.label || "?"}** (${a.className?.split(".").pop() ?? "?"}) \`${a.path}\``;
+          if (a.distance !== undefined) output += ` — ${a.distance} units`;
+          output += "\n";
         });
+        if (result.nextCursor) {
+          output += `\nMore results: call again with cursor \`${result.nextCursor}\``;
+        }
 
-        return textResult(output);
-      } catch (err: any) {
-        return errorResult(err.message);
+        return structuredResult(output, {
+          actors: result.actors.map((a) => a.path),
+          details: result.actors,
+          shown: result.actors.length,
+          total: result.total,
+          nextCursor: result.nextCursor,
+          classFilter: filter.class_filter,
+        });
+      } catch (err) {
+        return errorResult(describeRcError(err));
       }
     }
   );
@@ -400,6 +302,11 @@ export function registerEditorControlTools(server: McpServer) {
       description: "Delete an actor from the current level by its object path.",
       inputSchema: {
         actor_path: z.string().describe("Full object path of the actor to delete"),
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        actorPath: z.string(),
+        deleted: z.boolean(),
       },
       annotations: {
         readOnlyHint: false,
@@ -408,21 +315,16 @@ export function registerEditorControlTools(server: McpServer) {
         openWorldHint: true,
       },
     },
-    async ({ actor_path }) => {
+    async ({ actor_path, editor }) => {
       try {
-        const res = await rcCall(
-          "/Script/UnrealEd.Default__EditorActorSubsystem",
-          "DestroyActor",
-          { ActorToDestroy: actor_path }
-        );
-
-        if (!res.ok) {
-          return errorResult(`Delete failed (HTTP ${res.status}): ${JSON.stringify(res.data)}`);
-        }
-
-        return textResult(`Deleted actor: \`${actor_path}\``);
-      } catch (err: any) {
-        return errorResult(err.message);
+        const backend = await getEditorBackend(editor);
+        const deleted = await backend.destroyActor(actor_path);
+        const text = deleted
+          ? `Deleted actor: \`${actor_path}\``
+          : `Nothing deleted: no actor at \`${actor_path}\`. Use ue5_list_actors to find its current path.`;
+        return structuredResult(text, { actorPath: actor_path, deleted });
+      } catch (err) {
+        return errorResult(describeRcError(err));
       }
     }
   );
@@ -433,7 +335,7 @@ export function registerEditorControlTools(server: McpServer) {
     {
       title: "Modify Actor in UE5 Level",
       description:
-        "Modify an existing actor: change location, rotation, scale, label, or set arbitrary properties.",
+        "Modify an existing actor: change location, rotation, scale, label, or set arbitrary properties. The changes share one undo entry; a change that fails is reported and the others still apply.",
       inputSchema: {
         actor_path: z.string().describe("Full object path of the actor"),
         location: LocationSchema,
@@ -444,6 +346,18 @@ export function registerEditorControlTools(server: McpServer) {
           .record(z.any())
           .optional()
           .describe("Arbitrary properties to set as {propertyName: value} pairs"),
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        actorPath: z.string(),
+        changes: z.array(
+          z.object({
+            field: z.string(),
+            value: z.any(),
+            ok: z.boolean(),
+            status: z.number().optional().describe("HTTP status when the change failed"),
+          })
+        ),
       },
       annotations: {
         readOnlyHint: false,
@@ -452,65 +366,77 @@ export function registerEditorControlTools(server: McpServer) {
         openWorldHint: true,
       },
     },
-    async ({ actor_path, location, rotation, scale, label, properties }) => {
+    async ({ actor_path, location, rotation, scale, label, properties, editor }) => {
       try {
-        const steps: string[] = [];
-
-        if (location) {
-          const res = await rcCall(actor_path, "K2_SetActorLocation", {
-            NewLocation: { X: location.x, Y: location.y, Z: location.z },
-            bSweep: false,
-            bTeleport: true,
-          });
-          steps.push(res.ok
-            ? `Location → (${location.x}, ${location.y}, ${location.z})`
-            : `Warning: Failed to set location (${res.status})`);
+        const changes: { field: string; value: any; ok: boolean; status?: number }[] = [];
+        if (!location && !rotation && !scale && !label && Object.keys(properties ?? {}).length === 0) {
+          return structuredResult("No modifications specified.", { actorPath: actor_path, changes });
         }
 
-        if (rotation) {
-          const res = await rcCall(actor_path, "K2_SetActorRotation", {
-            NewRotation: { Pitch: rotation.pitch, Yaw: rotation.yaw, Roll: rotation.roll },
-            bTeleportPhysics: true,
-          });
-          steps.push(res.ok
-            ? `Rotation → (${rotation.pitch}, ${rotation.yaw}, ${rotation.roll})`
-            : `Warning: Failed to set rotation (${res.status})`);
-        }
+        const backend = await getEditorBackend(editor);
+        const steps: string[] = [];
+        // Every change lands in one undo entry
+        await backend.transaction(`Modify ${actor_path.split(".").pop()}`, async (scoped) => {
+          // Each change is applied on its own; one failure does not stop the rest
+          const apply = async (field: string, value: any, done: string, change: () => Promise<unknown>) => {
+            try {
+              await change();
+              changes.push({ field, value, ok: true });
+              steps.push(done);
+            } catch (err) {
+              const status = err instanceof RcError ? err.status : undefined;
+              changes.push({ field, value, ok: false, status });
+              steps.push(`Warning: Failed to set ${field} (${status ?? (err instanceof Error ? err.message : String(err))})`);
+            }
+          };
+
+          if (location) {
+            await apply("location", location, `Location → (${location.x}, ${location.y}, ${location.z})`, () =>
+              scoped.callFunction(actor_path, "K2_SetActorLocation", {
+                NewLocation: { X: location.x, Y: location.y, Z: location.z },
+                bSweep: false,
+                bTeleport: true,
+              })
+            );
+          }
 
-        if (scale) {
-          const res = await rcCall(actor_path, "SetActorScale3D", {
-            NewScale3D: { X: scale.x, Y: scale.y, Z: scale.z },
-          });
-          steps.push(res.ok
-            ? `Scale → (${scale.x}, ${scale.y}, ${scale.z})`
-            : `Warning: Failed to set scale (${res.status})`);
-        }
+          if (rotation) {
+            await apply("rotation", rotation, `Rotation → (${rotation.pitch}, ${rotation.yaw}, ${rotation.roll})`, () =>
+              scoped.callFunction(actor_path, "K2_SetActorRotation", {
+                NewRotation: { Pitch: rotation.pitch, Yaw: rotation.yaw, Roll: rotation.roll },
+                bTeleportPhysics: true,
+              })
+            );
+          }
 
-        if (label) {
-          const res = await rcCall(actor_path, "SetActorLabel", { NewActorLabel: label });
-          steps.push(res.ok
-            ? `Label → "${label}"`
-            : `Warning: Failed to set label (${res.status})`);
-        }
+          if (scale) {
+            await apply("scale", scale, `Scale → (${scale.x}, ${scale.y}, ${scale.z})`, () =>
+              scoped.callFunction(actor_path, "SetActorScale3D", {
+                NewScale3D: { X: scale.x, Y: scale.y, Z: scale.z },
+              })
+            );
+          }
 
-        if (properties) {
-          for (const [propName, propValue] of Object.entries(properties)) {
-            const res = await rcProperty(actor_path, propName, propValue);
-            steps.push(res.ok
-              ? `${propName} → ${JSON.stringify(propValue)}`
-              : `Warning: Failed to set ${propName} (${res.status})`);
+          if (label) {
+            await apply("label", label, `Label → "${label}"`, () =>
+              scoped.callFunction(actor_path, "SetActorLabel", { NewActorLabel: label })
+            );
           }
-        }
 
-        if (steps.length === 0) {
-          return textResult("No modifications specified.");
-        }
+          if (properties) {
+            for (const [propName, propValue] of Object.entries(properties)) {
+              await apply(propName, propValue, `${propName} → ${JSON.stringify(propValue)}`, () =>
+                scoped.setProperty(actor_path, propName, propValue)
+              );
+            }
+          }
+        });
 
         let output = `## Modified \`${actor_path}\`\n\n`;
         output += steps.map((s) => `- ${s}`).join("\n");
-        return textResult(output);
-      } catch (err: any) {
-        return errorResult(err.message);
+        return structuredResult(output, { actorPath: actor_path, changes });
+      } catch (err) {
+        return errorResult(describeRcError(err));
       }
     }
   );
@@ -532,6 +458,12 @@ export function registerEditorControlTools(server: McpServer) {
           .string()
           .default("StaticMeshComponent0")
           .describe("Mesh component name"),
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        componentPath: z.string(),
+        slotIndex: z.number(),
+        materialPath: z.string(),
       },
       annotations: {
         readOnlyHint: false,
@@ -540,23 +472,25 @@ export function registerEditorControlTools(server: McpServer) {
         openWorldHint: true,
       },
     },
-    async ({ actor_path, material_path, slot_index, component_name }) => {
+    async ({ actor_path, material_path, slot_index, component_name, editor }) => {
       try {
+        const rc = getRemoteControlClient("ue5_set_material", editor);
         const compPath = `${actor_path}.${component_name}`;
-        const res = await rcCall(compPath, "SetMaterial", {
+        const res = await rc.call(compPath, "SetMaterial", {
           ElementIndex: slot_index,
           Material: material_path,
         });
 
         if (!res.ok) {
-          return errorResult(`SetMaterial failed (HTTP ${res.status}): ${JSON.stringify(res.data)}`);
+          return rcErrorResult("SetMaterial failed", res);
         }
 
-        return textResult(
-          `Set material on \`${compPath}\` slot ${slot_index} → \`${material_path}\``
+        return structuredResult(
+          `Set material on \`${compPath}\` slot ${slot_index} → \`${material_path}\``,
+          { componentPath: compPath, slotIndex: slot_index, materialPath: material_path }
         );
-      } catch (err: any) {
-        return errorResult(err.message);
+      } catch (err) {
+        return errorResult(describeRcError(err));
       }
     }
   );
@@ -579,6 +513,11 @@ export function registerEditorControlTools(server: McpServer) {
           .string()
           .default("StaticMeshComponent0")
           .describe("Mesh component name"),
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        componentPath: z.string(),
+        meshPath: z.string(),
       },
       annotations: {
         readOnlyHint: false,
@@ -587,19 +526,24 @@ export function registerEditorControlTools(server: McpServer) {
         openWorldHint: true,
       },
     },
-    async ({ actor_path, mesh, component_name }) => {
+    async ({ actor_path, mesh, component_name, editor }) => {
       try {
+        const rc = getRemoteControlClient("ue5_set_mesh", editor);
         const meshPath = ENGINE_MESHES[mesh] || mesh;
         const compPath = `${actor_path}.${component_name}`;
-        const res = await rcProperty(compPath, "StaticMesh", meshPath);
+        const res = await rc.property(compPath, "StaticMesh", meshPath);
 
         if (!res.ok) {
-          return errorResult(`Set mesh failed (HTTP ${res.status}): ${JSON.stringify(res.data)}`);
+          return rcErrorResult("Set mesh failed", res);
         }
+        invalidateActorCache(rc.config, [actor_path]);
 
-        return textResult(`Set mesh on \`${compPath}\` → \`${meshPath}\``);
-      } catch (err: any) {
-        return errorResult(err.message);
+        return structuredResult(`Set mesh on \`${compPath}\` → \`${meshPath}\``, {
+          componentPath: compPath,
+          meshPath,
+        });
+      } catch (err) {
+        return errorResult(describeRcError(err));
       }
     }
   );
@@ -613,6 +557,15 @@ export function registerEditorControlTools(server: McpServer) {
         "Get a full property dump of an actor via the Remote Control describe endpoint.",
       inputSchema: {
         actor_path: z.string().describe("Full object path of the actor"),
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        actorPath: z.string(),
+        name: z.string().optional(),
+        className: z.string().optional(),
+        properties: z.array(z.object({ name: z.string(), type: z.string().optional(), value: z.any() })),
+        functions: z.array(z.string()),
+        components: z.array(z.string()).optional(),
       },
       annotations: {
         readOnlyHint: true,
@@ -621,14 +574,15 @@ export function registerEditorControlTools(server: McpServer) {
         openWorldHint: true,
       },
     },
-    async ({ actor_path }) => {
+    async ({ actor_path, editor }) => {
       try {
-        const res = await rcFetch("/remote/object/describe", "PUT", {
+        const rc = getRemoteControlClient("ue5_describe_actor", editor);
+        const res = await rc.fetch("/remote/object/describe", "PUT", {
           objectPath: actor_path,
         });
 
         if (!res.ok) {
-          return errorResult(`Describe failed (HTTP ${res.status}): ${JSON.stringify(res.data)}`);
+          return rcErrorResult("Describe failed", res);
         }
 
         const data = res.data;
@@ -663,9 +617,19 @@ export function registerEditorControlTools(server: McpServer) {
           }
         }
 
-        return textResult(output);
-      } catch (err: any) {
-        return errorResult(err.message);
+        // Structured output carries every property and function, not just the first page
+        return structuredResult(output, {
+          actorPath: actor_path,
+          name: data.Name,
+          className: data.Class,
+          properties: Array.isArray(data.Properties)
+            ? data.Properties.map((p: any) => ({ name: String(p.Name), type: p.Type, value: p.Value }))
+            : [],
+          functions: Array.isArray(data.Functions) ? data.Functions.map((fn: any) => String(fn.Name || fn)) : [],
+          components: Array.isArray(data.Components) ? data.Components.map(String) : undefined,
+        });
+      } catch (err) {
+        return errorResult(describeRcError(err));
       }
     }
   );
@@ -688,6 +652,12 @@ export function registerEditorControlTools(server: McpServer) {
           .optional()
           .describe("Filter by asset path prefix (e.g., /Game/Meshes)"),
         limit: z.number().min(1).max(200).default(25).describe("Max results"),
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        query: z.string(),
+        total: z.number(),
+        assets: z.array(z.object({ path: z.string(), name: z.string().optional(), className: z.string().optional() })),
       },
       annotations: {
         readOnlyHint: true,
@@ -696,8 +666,9 @@ export function registerEditorControlTools(server: McpServer) {
         openWorldHint: true,
       },
     },
-    async ({ query, class_name, path, limit }) => {
+    async ({ query, class_name, path, limit, editor }) => {
       try {
+        const rc = getRemoteControlClient("ue5_search_assets", editor);
         const body: any = {
           Query: query,
           Limit: limit,
@@ -705,32 +676,39 @@ export function registerEditorControlTools(server: McpServer) {
         if (class_name) body.Filter = { ClassNames: [class_name] };
         if (path) body.Filter = { ...body.Filter, PackagePaths: [path] };
 
-        const res = await rcFetch("/remote/search/assets", "PUT", body);
+        const res = await rc.fetch("/remote/search/assets", "PUT", body);
 
         if (!res.ok) {
-          return errorResult(`Asset search failed (HTTP ${res.status}): ${JSON.stringify(res.data)}`);
+          return rcErrorResult("Asset search failed", res);
         }
 
         const assets = res.data?.Assets || res.data || [];
         if (!Array.isArray(assets) || assets.length === 0) {
-          return textResult(`No assets found matching "${query}".`);
+          return structuredResult(`No assets found matching "${query}".`, { query, total: 0, assets: [] });
         }
 
+        // Asset records differ between engine versions; normalize to path/name/class
+        const records = assets.slice(0, limit).map((asset: any) =>
+          typeof asset === "string"
+            ? { path: asset }
+            : {
+                path: String(asset.Path || asset.AssetPath || asset.ObjectPath || asset.Name || JSON.stringify(asset)),
+                name: asset.Name,
+                className: asset.Class || asset.ClassName,
+              }
+        );
+
         let output = `## Asset Search: "${query}"\n\n`;
         output += `Found ${assets.length} assets\n\n`;
-        for (const asset of assets.slice(0, limit)) {
-          if (typeof asset === "string") {
-            output += `- \`${asset}\`\n`;
-          } else {
-            output += `- \`${asset.AssetPath || asset.ObjectPath || asset.Name || JSON.stringify(asset)}\``;
-            if (asset.ClassName) output += ` (${asset.ClassName})`;
-            output += "\n";
-          }
+        for (const asset of records) {
+          output += `- \`${asset.path}\``;
+          if (asset.className) output += ` (${asset.className})`;
+          output += "\n";
         }
 
-        return textResult(output);
-      } catch (err: any) {
-        return errorResult(err.message);
+        return structuredResult(output, { query, total: assets.length, assets: records });
+      } catch (err) {
+        return errorResult(describeRcError(err));
       }
     }
   );
@@ -738,7 +716,14 @@ export function registerEditorControlTools(server: McpServer) {
   // 10. ue5_editor_command — Dispatch table for common editor actions
   const EDITOR_COMMANDS: Record<
     string,
-    { objectPath: string; functionName: string; parameters?: Record<string, any>; description: string }
+    {
+      objectPath: string;
+      functionName: string;
+      parameters?: Record<string, any>;
+      description: string;
+      /** Undo/redo must not be wrapped in a transaction of their own */
+      transactional?: boolean;
+    }
   > = {
     play: {
       objectPath: "/Script/UnrealEd.Default__UnrealEditorSubsystem",
@@ -771,12 +756,14 @@ export function registerEditorControlTools(server: McpServer) {
     undo: {
       objectPath: "/Script/UnrealEd.Default__UnrealEditorSubsystem",
       functionName: "Undo",
-      description: "Undo the last action",
+      description: "Undo the last action (multi-step tools record a single entry)",
+      transactional: false,
     },
     redo: {
       objectPath: "/Script/UnrealEd.Default__UnrealEditorSubsystem",
       functionName: "Redo",
       description: "Redo the last undone action",
+      transactional: false,
     },
     select_none: {
       objectPath: "/Script/UnrealEd.Default__EditorActorSubsystem",
@@ -805,6 +792,13 @@ export function registerEditorControlTools(server: McpServer) {
         command: z
           .enum(Object.keys(EDITOR_COMMANDS) as [string, ...string[]])
           .describe("Editor command to execute"),
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        command: z.string(),
+        objectPath: z.string(),
+        functionName: z.string(),
+        result: z.any().optional().describe("Function return payload, if any"),
       },
       annotations: {
         readOnlyHint: false,
@@ -813,24 +807,32 @@ export function registerEditorControlTools(server: McpServer) {
         openWorldHint: true,
       },
     },
-    async ({ command }) => {
+    async ({ command, editor }) => {
       try {
+        const rc = getRemoteControlClient("ue5_editor_command", editor);
         const cmd = EDITOR_COMMANDS[command];
         if (!cmd) {
           return errorResult(`Unknown command: ${command}`);
         }
 
-        const res = await rcCall(cmd.objectPath, cmd.functionName, cmd.parameters);
+        const res = await rc.call(cmd.objectPath, cmd.functionName, cmd.parameters, {
+          generateTransaction: cmd.transactional ?? true,
+        });
 
         if (!res.ok) {
-          return errorResult(
-            `Command "${command}" failed (HTTP ${res.status}): ${JSON.stringify(res.data)}`
-          );
+          return rcErrorResult(`Command "${command}" failed`, res);
         }
-
-        return textResult(`Executed: **${cmd.description}**`);
-      } catch (err: any) {
-        return errorResult(err.message);
+        // Undo, redo, delete and duplicate can touch any actor
+        invalidateActorCache(rc.config);
+
+        return structuredResult(`Executed: **${cmd.description}**`, {
+          command,
+          objectPath: cmd.objectPath,
+          functionName: cmd.functionName,
+          result: res.data,
+        });
+      } catch (err) {
+        return errorResult(describeRcError(err));
       }
     }
   );
@@ -871,6 +873,22 @@ export function registerEditorControlTools(server: McpServer) {
           .min(1)
           .max(50)
           .describe("Array of operations to execute"),
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        succeeded: z.number(),
+        failed: z.number(),
+        results: z.array(
+          z.object({
+            index: z.number(),
+            type: z.enum(["call", "property"]),
+            objectPath: z.string(),
+            name: z.string().describe("Function or property name"),
+            status: z.number().describe("Per-operation HTTP status (0 if the editor sent none)"),
+            ok: z.boolean(),
+            response: z.any().optional(),
+          })
+        ),
       },
       annotations: {
         readOnlyHint: false,
@@ -879,66 +897,66 @@ export function registerEditorControlTools(server: McpServer) {
         openWorldHint: true,
       },
     },
-    async ({ operations }) => {
+    async ({ operations, editor }) => {
       try {
-        const requests = operations.map((op, index) => {
-          if (op.type === "call") {
-            return {
-              RequestId: index,
-              URL: "/remote/object/call",
-              Verb: "PUT",
-              Body: {
-                objectPath: op.object_path,
-                functionName: op.function_name,
-                parameters: op.parameters || {},
-                generateTransaction: true,
-              },
-            };
-          } else {
-            return {
-              RequestId: index,
-              URL: "/remote/object/property",
-              Verb: "PUT",
-              Body: {
-                objectPath: op.object_path,
-                propertyName: op.property_name,
-                propertyValue: op.property_value,
-              },
-            };
-          }
-        });
-
-        const res = await rcFetch("/remote/batch", "PUT", { Requests: requests });
+        const rc = getRemoteControlClient("ue5_batch", editor);
+        const requests: RcRequest[] = operations.map((op) =>
+          op.type === "call"
+            ? {
+                path: "/remote/object/call",
+                method: "PUT",
+                body: {
+                  objectPath: op.object_path,
+                  functionName: op.function_name,
+                  parameters: op.parameters || {},
+                  generateTransaction: true,
+                },
+              }
+            : {
+                path: "/remote/object/property",
+                method: "PUT",
+                body: {
+                  objectPath: op.object_path,
+                  propertyName: op.property_name,
+                  propertyValue: op.property_value,
+                },
+              }
+        );
 
-        if (!res.ok) {
-          return errorResult(`Batch request failed (HTTP ${res.status}): ${JSON.stringify(res.data)}`);
-        }
+        // Per-item failures come back as non-OK responses; an item the editor sent no status for counts as failed
+        const responses = await rc.batch(requests);
+        invalidateActorCache(rc.config);
 
-        const responses = res.data?.Responses || res.data || [];
         let output = `## Batch Results (${operations.length} operations)\n\n`;
-
-        for (let i = 0; i < operations.length; i++) {
-          const op = operations[i];
-          const resp = Array.isArray(responses)
-            ? responses.find((r: any) => r.RequestId === i) || responses[i]
-            : undefined;
-
-          const status = resp?.StatusCode || resp?.status || "?";
-          const ok = status >= 200 && status < 300;
-          const icon = ok ? "OK" : "FAIL";
-
-          output += `${i + 1}. [${icon}] `;
+        const results = operations.map((op, i) => {
+          const res = responses[i];
+          output += `${i + 1}. [${res.ok ? "OK" : "FAIL"}] `;
           if (op.type === "call") {
             output += `call \`${op.object_path}\`.${op.function_name}()`;
           } else {
             output += `set \`${op.object_path}\`.${op.property_name}`;
           }
-          output += ` — ${status}\n`;
-        }
+          output += ` — ${res.status || "no status"}`;
+          output += res.ok ? "\n" : `: ${toRcError(res).message}\n`;
+
+          return {
+            index: i,
+            type: op.type,
+            objectPath: op.object_path,
+            name: String((op.type === "call" ? op.function_name : op.property_name) ?? ""),
+            status: res.status,
+            ok: res.ok,
+            response: res.data,
+          };
+        });
 
-        return textResult(output);
-      } catch (err: any) {
-        return errorResult(err.message);
+        return structuredResult(output, {
+          succeeded: results.filter((r) => r.ok).length,
+          failed: results.filter((r) => !r.ok).length,
+          results,
+        });
+      } catch (err) {
+        return errorResult(describeRcError(err));
       }
     }
   );
@@ -952,6 +970,10 @@ export function registerEditorControlTools(server: McpServer) {
         "Execute an arbitrary Unreal Engine console command. Useful for CVars (r.ShadowQuality, r.DynamicGlobalIlluminationMethod, sg.ShadowQuality), rendering settings, performance tuning, and any command you'd type in the ~ console.",
       inputSchema: {
         command: z.string().describe("Console command to execute (e.g., 'stat fps', 'r.ShadowQuality 3', 'highresshot 1920x1080')"),
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        command: z.string(),
       },
       annotations: {
         readOnlyHint: false,
@@ -960,10 +982,12 @@ export function registerEditorControlTools(server: McpServer) {
         openWorldHint: true,
       },
     },
-    async ({ command }) => {
+    async ({ command, editor }) => {
       try {
+        const rc = getRemoteControlClient("ue5_console_command", editor);
+
         // KismetSystemLibrary::ExecuteConsoleCommand via the editor world
-        const res = await rcCall(
+        const res = await rc.call(
           "/Script/Engine.Default__KismetSystemLibrary",
           "ExecuteConsoleCommand",
           {
@@ -973,12 +997,12 @@ export function registerEditorControlTools(server: McpServer) {
         );
 
         if (!res.ok) {
-          return errorResult(`Console command failed (HTTP ${res.status}): ${JSON.stringify(res.data)}`);
+          return rcErrorResult("Console command failed", res);
         }
 
-        return textResult(`Executed console command: \`${command}\``);
-      } catch (err: any) {
-        return errorResult(err.message);
+        return structuredResult(`Executed console command: \`${command}\``, { command });
+      } catch (err) {
+        return errorResult(describeRcError(err));
       }
     }
   );
@@ -993,6 +1017,11 @@ export function registerEditorControlTools(server: McpServer) {
       inputSchema: {
         location: LocationSchema,
         rotation: RotationSchema,
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        location: VectorOutput,
+        rotation: RotatorOutput,
       },
       annotations: {
         readOnlyHint: false,
@@ -1001,8 +1030,9 @@ export function registerEditorControlTools(server: McpServer) {
         openWorldHint: true,
       },
     },
-    async ({ location, rotation }) => {
+    async ({ location, rotation, editor }) => {
       try {
+        const backend = await getEditorBackend(editor);
         const params: Record<string, any> = {};
         if (location) {
           params.CameraLocation = { X: location.x, Y: location.y, Z: location.z };
@@ -1017,37 +1047,34 @@ export function registerEditorControlTools(server: McpServer) {
 
         // If only one is provided, get the other from current state
         if (!location || !rotation) {
-          const getRes = await rcCall(
-            "/Script/UnrealEd.Default__UnrealEditorSubsystem",
-            "GetLevelViewportCameraInfo",
-            {}
-          );
-          if (getRes.ok && getRes.data) {
-            if (!location && getRes.data.CameraLocation) {
-              params.CameraLocation = getRes.data.CameraLocation;
+          const current = await backend
+            .callFunction("/Script/UnrealEd.Default__UnrealEditorSubsystem", "GetLevelViewportCameraInfo", {}, { readOnly: true })
+            .catch(() => undefined);
+          if (current) {
+            if (!location && current.CameraLocation) {
+              params.CameraLocation = current.CameraLocation;
             }
-            if (!rotation && getRes.data.CameraRotation) {
-              params.CameraRotation = getRes.data.CameraRotation;
+            if (!rotation && current.CameraRotation) {
+              params.CameraRotation = current.CameraRotation;
             }
           }
         }
 
-        const res = await rcCall(
-          "/Script/UnrealEd.Default__UnrealEditorSubsystem",
-          "SetLevelViewportCameraInfo",
-          params
-        );
-
-        if (!res.ok) {
-          return errorResult(`Set camera failed (HTTP ${res.status}): ${JSON.stringify(res.data)}`);
+        try {
+          await backend.callFunction("/Script/UnrealEd.Default__UnrealEditorSubsystem", "SetLevelViewportCameraInfo", params);
+        } catch (err) {
+          return errorResult(`Set camera failed: ${describeRcError(err)}`);
         }
 
         let output = "## Camera Updated\n\n";
         if (location) output += `- **Location**: (${location.x}, ${location.y}, ${location.z})\n`;
         if (rotation) output += `- **Rotation**: pitch=${rotation.pitch} yaw=${rotation.yaw} roll=${rotation.roll}\n`;
-        return textResult(output);
-      } catch (err: any) {
-        return errorResult(err.message);
+        return structuredResult(output, {
+          location: toVectorOutput(params.CameraLocation),
+          rotation: toRotatorOutput(params.CameraRotation),
+        });
+      } catch (err) {
+        return errorResult(describeRcError(err));
       }
     }
   );
@@ -1058,7 +1085,13 @@ export function registerEditorControlTools(server: McpServer) {
     {
       title: "Get UE5 Viewport Camera",
       description: "Get the current editor viewport camera location and rotation.",
-      inputSchema: {},
+      inputSchema: {
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        location: VectorOutput,
+        rotation: RotatorOutput,
+      },
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -1066,27 +1099,30 @@ export function registerEditorControlTools(server: McpServer) {
         openWorldHint: true,
       },
     },
-    async () => {
+    async ({ editor }) => {
       try {
-        const res = await rcCall(
-          "/Script/UnrealEd.Default__UnrealEditorSubsystem",
-          "GetLevelViewportCameraInfo",
-          {}
-        );
-
-        if (!res.ok) {
-          return errorResult(`Get camera failed (HTTP ${res.status}): ${JSON.stringify(res.data)}`);
+        const backend = await getEditorBackend(editor);
+        let camera: any;
+        try {
+          camera = await backend.callFunction(
+            "/Script/UnrealEd.Default__UnrealEditorSubsystem",
+            "GetLevelViewportCameraInfo",
+            {},
+            { readOnly: true }
+          );
+        } catch (err) {
+          return errorResult(`Get camera failed: ${describeRcError(err)}`);
         }
 
-        const loc = res.data?.CameraLocation || {};
-        const rot = res.data?.CameraRotation || {};
+        const loc = camera?.CameraLocation || {};
+        const rot = camera?.CameraRotation || {};
 
         let output = "## Current Viewport Camera\n\n";
         output += `- **Location**: X=${loc.X ?? 0} Y=${loc.Y ?? 0} Z=${loc.Z ?? 0}\n`;
         output += `- **Rotation**: Pitch=${rot.Pitch ?? 0} Yaw=${rot.Yaw ?? 0} Roll=${rot.Roll ?? 0}\n`;
-        return textResult(output);
-      } catch (err: any) {
-        return errorResult(err.message);
+        return structuredResult(output, { location: toVectorOutput(loc), rotation: toRotatorOutput(rot) });
+      } catch (err) {
+        return errorResult(describeRcError(err));
       }
     }
   );
@@ -1126,6 +1162,13 @@ export function registerEditorControlTools(server: McpServer) {
         inner_cone_angle: z.number().optional().describe("Inner cone angle in degrees (spot lights only)"),
         outer_cone_angle: z.number().optional().describe("Outer cone angle in degrees (spot lights only)"),
         cast_shadows: z.boolean().default(true).describe("Whether the light casts shadows"),
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        actorPath: z.string(),
+        lightType: z.string(),
+        steps: z.array(z.string()),
+        transaction: z.string().describe("Name of the single undo entry"),
       },
       annotations: {
         readOnlyHint: false,
@@ -1134,98 +1177,81 @@ export function registerEditorControlTools(server: McpServer) {
         openWorldHint: true,
       },
     },
-    async ({ light_type, location, rotation, label, intensity, color, attenuation_radius, inner_cone_angle, outer_cone_angle, cast_shadows }) => {
+    async ({ light_type, location, rotation, label, intensity, color, attenuation_radius, inner_cone_angle, outer_cone_angle, cast_shadows, editor }) => {
       try {
-        const classPath = LIGHT_CLASSES[light_type];
+        assertRemoteControl("ue5_spawn_light");
+        const backend = await getEditorBackend(editor);
         const loc = location || { x: 0, y: 0, z: 300 };
+        const transaction = `Spawn ${light_type}`;
 
-        // Spawn the light
-        const spawnRes = await rcCall(
-          "/Script/UnrealEd.Default__EditorActorSubsystem",
-          "SpawnActorFromClass",
-          {
-            ActorClass: classPath,
-            Location: { X: loc.x, Y: loc.y, Z: loc.z },
-          }
-        );
-
-        if (!spawnRes.ok) {
-          return errorResult(`Spawn light failed (HTTP ${spawnRes.status}): ${JSON.stringify(spawnRes.data)}`);
-        }
-
-        const actorPath = spawnRes.data?.ReturnValue;
-        if (!actorPath) {
-          return errorResult(`Spawn returned no actor path.`);
-        }
-
-        const steps: string[] = [`Spawned ${light_type} → \`${actorPath}\``];
-
-        // Find the light component (it's always LightComponent0)
-        const lightComp = `${actorPath}.LightComponent0`;
-
-        // Set intensity
-        const intRes = await rcCall(lightComp, "SetIntensity", { NewIntensity: intensity });
-        if (intRes.ok) {
-          steps.push(`Intensity: ${intensity}`);
-        }
-
-        // Set color
+        // Sky lights use their own component; every other light type names it LightComponent0
+        const component = light_type === "SkyLight" ? "SkyLightComponent0" : "LightComponent0";
+        const calls: SpawnCall[] = [
+          { component, functionName: "SetIntensity", parameters: { NewIntensity: intensity }, step: `Intensity: ${intensity}` },
+        ];
         if (color) {
-          const colRes = await rcCall(lightComp, "SetLightColor", {
-            NewLightColor: { R: color.r, G: color.g, B: color.b, A: 255 },
+          calls.push({
+            component,
+            functionName: "SetLightColor",
+            parameters: { NewLightColor: { R: color.r, G: color.g, B: color.b, A: 255 } },
+            step: `Color: (${color.r}, ${color.g}, ${color.b})`,
           });
-          if (colRes.ok) {
-            steps.push(`Color: (${color.r}, ${color.g}, ${color.b})`);
-          }
         }
-
-        // Set attenuation radius (point/spot/rect)
+        // Attenuation radius applies to point/spot/rect lights
         if (attenuation_radius && light_type !== "DirectionalLight" && light_type !== "SkyLight") {
-          const attRes = await rcCall(lightComp, "SetAttenuationRadius", { NewRadius: attenuation_radius });
-          if (attRes.ok) {
-            steps.push(`Attenuation radius: ${attenuation_radius}`);
-          }
+          calls.push({
+            component,
+            functionName: "SetAttenuationRadius",
+            parameters: { NewRadius: attenuation_radius },
+            step: `Attenuation radius: ${attenuation_radius}`,
+          });
         }
-
-        // Spot light cone angles
         if (light_type === "SpotLight") {
           if (inner_cone_angle !== undefined) {
-            await rcCall(lightComp, "SetInnerConeAngle", { NewInnerConeAngle: inner_cone_angle });
-            steps.push(`Inner cone: ${inner_cone_angle}°`);
+            calls.push({
+              component,
+              functionName: "SetInnerConeAngle",
+              parameters: { NewInnerConeAngle: inner_cone_angle },
+              step: `Inner cone: ${inner_cone_angle}°`,
+            });
           }
           if (outer_cone_angle !== undefined) {
-            await rcCall(lightComp, "SetOuterConeAngle", { NewOuterConeAngle: outer_cone_angle });
-            steps.push(`Outer cone: ${outer_cone_angle}°`);
+            calls.push({
+              component,
+              functionName: "SetOuterConeAngle",
+              parameters: { NewOuterConeAngle: outer_cone_angle },
+              step: `Outer cone: ${outer_cone_angle}°`,
+            });
           }
         }
+        calls.push({
+          component,
+          functionName: "SetCastShadows",
+          parameters: { NewCastShadows: cast_shadows },
+          step: `Cast shadows: ${cast_shadows}`,
+        });
 
-        // Cast shadows
-        const shadowRes = await rcCall(lightComp, "SetCastShadows", { NewCastShadows: cast_shadows });
-        if (shadowRes.ok) {
-          steps.push(`Cast shadows: ${cast_shadows}`);
-        }
-
-        // Set rotation
-        if (rotation) {
-          await rcCall(actorPath, "K2_SetActorRotation", {
-            NewRotation: { Pitch: rotation.pitch, Yaw: rotation.yaw, Roll: rotation.roll },
-            bTeleportPhysics: true,
-          });
-          steps.push(`Rotation: pitch=${rotation.pitch} yaw=${rotation.yaw} roll=${rotation.roll}`);
-        }
-
-        // Set label
-        if (label) {
-          await rcCall(actorPath, "SetActorLabel", { NewActorLabel: label });
-          steps.push(`Label: "${label}"`);
-        }
+        const { actorPath, steps, transactional } = await backend.spawnActor({
+          classPath: LIGHT_CLASSES[light_type],
+          location: loc,
+          rotation,
+          label,
+          calls,
+          transaction,
+        });
 
         let output = `## Light Spawned\n\n`;
         output += `- **Path**: \`${actorPath}\`\n`;
         output += steps.map((s) => `- ${s}`).join("\n");
-        return textResult(output);
-      } catch (err: any) {
-        return errorResult(err.message);
+        if (transactional) output += `\n\nOne undo entry: "${transaction}"`;
+        return structuredResult(output, {
+          actorPath,
+          lightType: light_type,
+          steps,
+          transaction,
+        });
+      } catch (err) {
+        return errorResult(describeRcError(err));
       }
     }
   );
@@ -1251,6 +1277,12 @@ export function registerEditorControlTools(server: McpServer) {
           .string()
           .default("StaticMeshComponent0")
           .describe("Physics component name"),
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        componentPath: z.string(),
+        mode: z.enum(["force", "impulse", "velocity", "torque"]),
+        value: VectorOutput,
       },
       annotations: {
         readOnlyHint: false,
@@ -1259,8 +1291,9 @@ export function registerEditorControlTools(server: McpServer) {
         openWorldHint: true,
       },
     },
-    async ({ actor_path, mode, value, component_name }) => {
+    async ({ actor_path, mode, value, component_name, editor }) => {
       try {
+        const rc = getRemoteControlClient("ue5_apply_force", editor);
         const compPath = `${actor_path}.${component_name}`;
         const vec = { X: value.x, Y: value.y, Z: value.z };
 
@@ -1286,17 +1319,18 @@ export function registerEditorControlTools(server: McpServer) {
             break;
         }
 
-        const res = await rcCall(compPath, functionName, parameters);
+        const res = await rc.call(compPath, functionName, parameters);
 
         if (!res.ok) {
-          return errorResult(`${mode} failed (HTTP ${res.status}): ${JSON.stringify(res.data)}`);
+          return rcErrorResult(`${mode} failed`, res);
         }
 
-        return textResult(
-          `Applied ${mode} to \`${compPath}\`: (${value.x}, ${value.y}, ${value.z})`
+        return structuredResult(
+          `Applied ${mode} to \`${compPath}\`: (${value.x}, ${value.y}, ${value.z})`,
+          { componentPath: compPath, mode, value }
         );
-      } catch (err: any) {
-        return errorResult(err.message);
+      } catch (err) {
+        return errorResult(describeRcError(err));
       }
     }
   );
@@ -1327,6 +1361,15 @@ export function registerEditorControlTools(server: McpServer) {
           )
           .optional()
           .describe("Vector/color parameters as {name: {r, g, b, a}} (e.g., {BaseColor: {r: 1, g: 0.8, b: 0.3, a: 1}})"),
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        actorPath: z.string(),
+        componentPath: z.string(),
+        slotIndex: z.number(),
+        materialPath: z.string().describe("Object path of the new MaterialInstanceDynamic"),
+        scalarParams: z.record(z.number()),
+        vectorParams: z.record(z.object({ r: z.number(), g: z.number(), b: z.number(), a: z.number() })),
       },
       annotations: {
         readOnlyHint: false,
@@ -1335,59 +1378,73 @@ export function registerEditorControlTools(server: McpServer) {
         openWorldHint: true,
       },
     },
-    async ({ actor_path, slot_index, component_name, scalar_params, vector_params }) => {
+    async ({ actor_path, slot_index, component_name, scalar_params, vector_params, editor }) => {
       try {
+        const rc = getRemoteControlClient("ue5_create_dynamic_material", editor);
         const compPath = `${actor_path}.${component_name}`;
+        const steps: string[] = [];
 
-        // Create the dynamic material instance
-        const createRes = await rcCall(compPath, "CreateDynamicMaterialInstance", {
-          ElementIndex: slot_index,
-        });
-
-        if (!createRes.ok) {
-          return errorResult(
-            `CreateDynamicMaterialInstance failed (HTTP ${createRes.status}): ${JSON.stringify(createRes.data)}`
+        // Remember the slot's current material so a failed parameter can put it back
+        const original = await rc.call(compPath, "GetMaterial", { ElementIndex: slot_index }, READ_ONLY_CALL);
+        const originalMaterial: string | undefined = original.ok ? original.data?.ReturnValue : undefined;
+
+        const matPath = await withEditorTransaction(rc, "Create Dynamic Material", async (tx) => {
+          // Create the dynamic material instance
+          const created = await tx.call(
+            compPath,
+            "CreateDynamicMaterialInstance",
+            { ElementIndex: slot_index },
+            "create dynamic material instance"
           );
-        }
-
-        const matPath = createRes.data?.ReturnValue;
-        if (!matPath) {
-          return errorResult("No material instance path returned.");
-        }
 
-        const steps: string[] = [`Created dynamic material: \`${matPath}\``];
+          const path: string | undefined = created?.ReturnValue;
+          if (!path) {
+            throw new Error("No material instance path returned.");
+          }
+          if (originalMaterial) {
+            tx.onRollback(() =>
+              rc.call(compPath, "SetMaterial", { ElementIndex: slot_index, Material: originalMaterial }, { generateTransaction: false })
+            );
+          }
+          steps.push(`Created dynamic material: \`${path}\``);
 
-        // Set scalar parameters
-        if (scalar_params) {
-          for (const [name, value] of Object.entries(scalar_params)) {
-            const res = await rcCall(matPath, "SetScalarParameterValue", {
-              ParameterName: name,
-              Value: value,
-            });
-            steps.push(res.ok ? `${name} = ${value}` : `Warning: ${name} failed (${res.status})`);
+          // Set scalar parameters
+          if (scalar_params) {
+            for (const [name, value] of Object.entries(scalar_params)) {
+              await tx.call(path, "SetScalarParameterValue", { ParameterName: name, Value: value }, `set ${name}`);
+              steps.push(`${name} = ${value}`);
+            }
           }
-        }
 
-        // Set vector parameters
-        if (vector_params) {
-          for (const [name, value] of Object.entries(vector_params)) {
-            const res = await rcCall(matPath, "SetVectorParameterValue", {
-              ParameterName: name,
-              Value: { R: value.r, G: value.g, B: value.b, A: value.a },
-            });
-            steps.push(res.ok
-              ? `${name} = (${value.r}, ${value.g}, ${value.b}, ${value.a})`
-              : `Warning: ${name} failed (${res.status})`);
+          // Set vector parameters
+          if (vector_params) {
+            for (const [name, value] of Object.entries(vector_params)) {
+              await tx.call(
+                path,
+                "SetVectorParameterValue",
+                { ParameterName: name, Value: { R: value.r, G: value.g, B: value.b, A: value.a } },
+                `set ${name}`
+              );
+              steps.push(`${name} = (${value.r}, ${value.g}, ${value.b}, ${value.a})`);
+            }
           }
-        }
+          return path;
+        });
 
         let output = `## Dynamic Material Created\n\n`;
         output += `- **Actor**: \`${actor_path}\`\n`;
         output += `- **Material**: \`${matPath}\`\n`;
         output += steps.map((s) => `- ${s}`).join("\n");
-        return textResult(output);
-      } catch (err: any) {
-        return errorResult(err.message);
+        return structuredResult(output, {
+          actorPath: actor_path,
+          componentPath: compPath,
+          slotIndex: slot_index,
+          materialPath: matPath,
+          scalarParams: scalar_params ?? {},
+          vectorParams: vector_params ?? {},
+        });
+      } catch (err) {
+        return errorResult(describeRcError(err));
       }
     }
   );
@@ -0,0 +1,247 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  addEditor,
+  checkEditorHealth,
+  DEFAULT_EDITOR,
+  getActiveEditorName,
+  getEditorHealth,
+  listEditors,
+  useEditor,
+  EditorHealth,
+} from "../lib/editor-registry.js";
+import { BACKEND_KINDS, getActiveBackendKind, getEditorBackend, useBackend } from "../backends/index.js";
+import { BackendProbe, discoverBackends } from "../backends/discovery.js";
+
+// --- MCP Response Helpers ---
+
+function textResult(text: string) {
+  return { content: [{ type: "text" as const, text }] };
+}
+
+function errorResult(message: string) {
+  return { content: [{ type: "text" as const, text: `Error: ${message}` }], isError: true };
+}
+
+function formatHealth(health: EditorHealth | undefined): string {
+  if (!health) return "unchecked";
+  switch (health.status) {
+    case "online":
+      return `online (${health.latencyMs}ms)`;
+    case "error":
+      return `error: ${health.message}`;
+    case "offline":
+      return "offline";
+  }
+}
+
+function formatProbe(p: BackendProbe): string {
+  const status = p.status === "reachable" ? `reachable (${p.latencyMs}ms)` : p.status;
+  const versions = [p.engineVersion && `UE ${p.engineVersion}`, p.pluginVersion && `plugin ${p.pluginVersion}`].filter(Boolean).join(", ");
+  return `| ${p.probe} | ${p.host}:${p.port} | ${p.source} | ${status} | ${versions || "-"} | ${p.detail ?? ""} |`;
+}
+
+// --- Tool Registration ---
+
+export function registerEditorTools(server: McpServer) {
+  // 1. ue5_add_editor — Register a named editor target
+  server.registerTool(
+    "ue5_add_editor",
+    {
+      title: "Add UE5 Editor Target",
+      description:
+        "Register a named UE5 editor (Remote Control host/port) so editor tools can address it with the `editor` argument. Re-adding a name replaces its connection settings.",
+      inputSchema: {
+        name: z
+          .string()
+          .regex(/^[\w-]+$/)
+          .describe("Short target name (e.g., 'lighting', 'pie')"),
+        host: z.string().describe("Editor host name or IP"),
+        port: z.number().int().min(1).max(65535).default(30010).describe("Remote Control HTTP port"),
+        ws_port: z.number().int().min(1).max(65535).optional().describe("Remote Control WebSocket port"),
+        passphrase: z.string().optional().describe("Remote Control passphrase, if the editor enforces one"),
+        description: z.string().optional().describe("What this editor is used for"),
+        make_active: z.boolean().default(false).describe("Switch to this editor after adding it"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ name, host, port, ws_port, passphrase, description, make_active }) => {
+      try {
+        addEditor({ name, host, port, wsPort: ws_port, passphrase, description });
+        if (make_active) useEditor(name);
+        const health = await checkEditorHealth(name);
+
+        let output = `## Editor Added: ${name}\n\n`;
+        output += `- **Endpoint**: ${host}:${port}${ws_port ? ` (WebSocket ${ws_port})` : ""}\n`;
+        output += `- **Status**: ${formatHealth(health)}\n`;
+        output += `- **Active**: ${getActiveEditorName() === name ? "yes" : `no (active: ${getActiveEditorName()})`}\n`;
+        return textResult(output);
+      } catch (err) {
+        return errorResult(err instanceof Error ? err.message : String(err));
+      }
+    }
+  );
+
+  // 2. ue5_list_editors — Show targets with health
+  server.registerTool(
+    "ue5_list_editors",
+    {
+      title: "List UE5 Editor Targets",
+      description:
+        "List registered UE5 editor targets with their endpoints and health (probed via /remote/info). The active editor is used when a tool call omits `editor`.",
+      inputSchema: {
+        check_health: z.boolean().default(true).describe("Probe each editor now instead of showing the last known status"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ check_health }) => {
+      const editors = listEditors();
+      if (check_health) {
+        await Promise.all(editors.map((e) => checkEditorHealth(e.name)));
+      }
+
+      let output = `## UE5 Editors (${editors.length})\n\n`;
+      output += `| | Name | Endpoint | Status | Description |\n|---|------|----------|--------|-------------|\n`;
+      for (const e of editors) {
+        const active = e.name === getActiveEditorName() ? "*" : "";
+        output += `| ${active} | ${e.name} | ${e.host}:${e.port} | ${formatHealth(getEditorHealth(e.name))} | ${e.description ?? ""} |\n`;
+      }
+      output += `\n\\* active editor. Add more with ue5_add_editor or the UE5_EDITORS environment variable.`;
+      output += `\n\nEditor tools use the **${getActiveBackendKind()}** backend (change with ue5_use_backend).`;
+      return textResult(output);
+    }
+  );
+
+  // 3. ue5_use_editor — Switch the active target
+  server.registerTool(
+    "ue5_use_editor",
+    {
+      title: "Switch Active UE5 Editor",
+      description:
+        `Make a registered editor the default target for editor tools. Use "${DEFAULT_EDITOR}" to return to the UE5_HOST/UE5_RC_PORT editor.`,
+      inputSchema: {
+        name: z.string().describe("Editor name from ue5_list_editors"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ name }) => {
+      try {
+        const target = useEditor(name);
+        const health = await checkEditorHealth(name);
+        return textResult(
+          `Active editor → **${name}** (${target.host}:${target.port}, ${formatHealth(health)})`
+        );
+      } catch (err) {
+        return errorResult(err instanceof Error ? err.message : String(err));
+      }
+    }
+  );
+  // 4. ue5_use_backend — Switch the protocol editor tools speak
+  server.registerTool(
+    "ue5_use_backend",
+    {
+      title: "Switch UE5 Editor Backend",
+      description:
+        "Choose how the editor tools (spawn, list, delete, modify, camera, selection) reach the editor: 'remote-control' (Remote Control HTTP API), 'automation-bridge' (McpAutomationBridge plugin) or 'mock' (an in-process fake level for trying workflows without UE5). Starts as UE5_BACKEND, default remote-control. Other editor tools (materials, console commands, batch, snapshots, events) need Remote Control and report an error on the other backends.",
+      inputSchema: {
+        backend: z.enum(BACKEND_KINDS).describe("Backend to use from now on"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ backend }) => {
+      const previous = getActiveBackendKind();
+      try {
+        useBackend(backend);
+        const active = await getEditorBackend();
+        return textResult(`Editor backend → **${active.kind}** (${active.endpoint}), was ${previous}`);
+      } catch (err) {
+        useBackend(previous);
+        return errorResult(err instanceof Error ? err.message : String(err));
+      }
+    }
+  );
+  // 5. ue5_discover_backends — Probe live endpoints and pick a backend
+  server.registerTool(
+    "ue5_discover_backends",
+    {
+      title: "Discover UE5 Editor Backends",
+      description:
+        "Probe every configured endpoint — Remote Control HTTP (/remote/info) and WebSocket for each registered editor, the Automation Bridge TCP listener, and the well-known ports from ue5_mcp_architecture_guide — and report what answers, its engine/plugin versions, and which ue5_* tools it can serve. By default switches the editor tools to the best reachable backend.",
+      inputSchema: {
+        timeout_ms: z.number().int().min(100).max(30000).default(1500).describe("Per-probe timeout in milliseconds"),
+        apply: z
+          .boolean()
+          .default(true)
+          .describe("Switch to the recommended backend (and editor) when one is found"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ timeout_ms, apply }) => {
+      try {
+        const { probes, recommended } = await discoverBackends({ timeoutMs: timeout_ms });
+
+        let output = `## Backend Discovery\n\n`;
+        output += `| Probe | Endpoint | Source | Status | Versions | Detail |\n|-------|----------|--------|--------|----------|--------|\n`;
+        output += probes.map(formatProbe).join("\n") + "\n";
+
+        const serving = probes.filter((p) => p.status === "reachable" && p.tools.length > 0);
+        if (serving.length > 0) {
+          output += `\n### Tools by Endpoint\n\n`;
+          for (const p of serving) {
+            output += `- **${p.probe}** ${p.host}:${p.port}${p.editor ? ` (editor ${p.editor})` : ""}: ${p.tools.join(", ")}\n`;
+          }
+          const unregistered = serving.filter((p) => p.backend === "remote-control" && !p.editor);
+          if (unregistered.length > 0) {
+            output += `\nRegister ${unregistered.map((p) => `${p.host}:${p.port}`).join(", ")} with ue5_add_editor to use it.\n`;
+          }
+        }
+
+        output += `\n### Recommendation\n\n`;
+        if (!recommended) {
+          output += `No backend this server can drive answered. Editor tools stay on **${getActiveBackendKind()}**. `;
+          output += `Check the editor is running (ue5_troubleshoot_mcp), or use ue5_use_backend "mock" to try workflows without UE5.\n`;
+          return textResult(output);
+        }
+
+        output += `**${recommended.backend}**${recommended.editor ? ` on editor **${recommended.editor}**` : ""}: ${recommended.reason}.\n`;
+        if (!apply) {
+          output += `\nNot applied (apply=false). Switch with ue5_use_backend${recommended.editor ? " and ue5_use_editor" : ""}.\n`;
+          return textResult(output);
+        }
+        const previous = getActiveBackendKind();
+        useBackend(recommended.backend);
+        if (recommended.editor && recommended.editor !== getActiveEditorName()) useEditor(recommended.editor);
+        const active = await getEditorBackend();
+        output += `\nEditor backend → **${active.kind}** (${active.endpoint}), was ${previous}\n`;
+        return textResult(output);
+      } catch (err) {
+        return errorResult(err instanceof Error ? err.message : String(err));
+      }
+    }
+  );
+}
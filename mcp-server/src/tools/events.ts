@@ -0,0 +1,257 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { describeRcError, toRcError } from "../lib/rc-client.js";
+import { changedFields, getRcWebSocket, RcEvent } from "../lib/rc-websocket.js";
+import { EditorSchema, resolveEditorWebSocketConfig } from "../lib/editor-registry.js";
+import { assertRemoteControl } from "../backends/index.js";
+
+// --- MCP Response Helpers ---
+
+function textResult(text: string) {
+  return { content: [{ type: "text" as const, text }] };
+}
+
+function errorResult(message: string) {
+  return { content: [{ type: "text" as const, text: `Error: ${message}` }], isError: true };
+}
+
+// --- Value comparison ---
+
+/** Deep equality where numbers may differ by up to `tolerance`. */
+function valuesEqual(a: any, b: any, tolerance: number): boolean {
+  if (typeof a === "number" && typeof b === "number") {
+    return Math.abs(a - b) <= tolerance;
+  }
+  if (a && b && typeof a === "object" && typeof b === "object") {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      if (!valuesEqual(a[key], b[key], tolerance)) return false;
+    }
+    return true;
+  }
+  return a === b;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function formatEvent(event: RcEvent): string {
+  let line = `${event.seq}. [${event.receivedAt}] **${event.type}**`;
+  if (event.presetName) line += ` (preset: ${event.presetName})`;
+  const fields = changedFields(event);
+  if (fields.length > 0) {
+    line += "\n" + fields
+      .map((f) => `   - ${f.label ?? "?"}${f.objectPath ? ` on \`${f.objectPath}\`` : ""} → ${JSON.stringify(f.propertyValue)}`)
+      .join("\n");
+  }
+  return line;
+}
+
+// --- Tool Registration ---
+
+export function registerEventTools(server: McpServer) {
+  // 1. ue5_watch_property — Block until a property changes, settles or reaches a value
+  server.registerTool(
+    "ue5_watch_property",
+    {
+      title: "Watch UE5 Property",
+      description:
+        "Wait on the Remote Control WebSocket until an object property (or a getter's return value) changes, settles, or equals an expected value. Use to wait for physics actors to come to rest or for PIE to end without repeated tool calls. When a preset is given, the wait is driven by preset change events instead of sampling.",
+      inputSchema: {
+        object_path: z.string().describe("Object to watch (actor or component path)"),
+        property_name: z
+          .string()
+          .optional()
+          .describe("Property to read (e.g., RelativeLocation). Required unless function_name is given"),
+        function_name: z
+          .string()
+          .optional()
+          .describe("Getter to call instead of reading a property (e.g., K2_GetActorLocation, GetGameWorld)"),
+        condition: z
+          .enum(["change", "settle", "equals"])
+          .default("change")
+          .describe("change: any difference from the first sample; settle: unchanged for settle_samples reads; equals: matches expected"),
+        expected: z.any().optional().describe("Target value for the 'equals' condition"),
+        tolerance: z.number().min(0).default(0.01).describe("Numeric tolerance when comparing values"),
+        settle_samples: z.number().min(2).max(50).default(3).describe("Consecutive equal samples that count as settled"),
+        interval_ms: z.number().min(50).max(10_000).default(250).describe("Sampling interval"),
+        timeout_seconds: z.number().min(1).max(300).default(30).describe("Give up after this many seconds"),
+        preset: z
+          .string()
+          .optional()
+          .describe("Remote Control preset exposing the property; subscribes and waits for its change events"),
+        editor: EditorSchema,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({
+      object_path,
+      property_name,
+      function_name,
+      condition,
+      expected,
+      tolerance,
+      settle_samples,
+      interval_ms,
+      timeout_seconds,
+      preset,
+      editor,
+    }) => {
+      if (!property_name && !function_name) {
+        return errorResult("Specify property_name or function_name.");
+      }
+      if (condition === "equals" && expected === undefined) {
+        return errorResult("The 'equals' condition needs an expected value.");
+      }
+
+      const deadline = Date.now() + timeout_seconds * 1000;
+
+      try {
+        assertRemoteControl("ue5_watch_property");
+        const ws = getRcWebSocket(resolveEditorWebSocketConfig(editor));
+
+        const sample = async () => {
+          const res = function_name
+            ? await ws.http("/remote/object/call", "PUT", {
+                objectPath: object_path,
+                functionName: function_name,
+                parameters: {},
+                generateTransaction: false,
+              })
+            : await ws.http("/remote/object/property", "PUT", {
+                objectPath: object_path,
+                propertyName: property_name,
+                access: "READ_ACCESS",
+              });
+          if (!res.ok) throw toRcError(res);
+          return function_name ? res.data?.ReturnValue : res.data?.[property_name!] ?? res.data;
+        };
+
+        const initial = await sample();
+        let current = initial;
+        let stable = 1;
+        let samples = 1;
+
+        const satisfied = (prev: any, next: any) => {
+          switch (condition) {
+            case "change":
+              return !valuesEqual(initial, next, tolerance);
+            case "equals":
+              return valuesEqual(next, expected, tolerance);
+            case "settle":
+              stable = valuesEqual(prev, next, tolerance) ? stable + 1 : 1;
+              return stable >= settle_samples;
+          }
+        };
+
+        let done = condition === "equals" && valuesEqual(initial, expected, tolerance);
+
+        if (preset && !done) {
+          // Event-driven: only re-read the value when the preset reports a change to it
+          await ws.subscribePreset(preset);
+          const label = property_name ?? function_name;
+          while (!done && Date.now() < deadline) {
+            const event = await ws.waitForEvent(
+              (e) =>
+                e.presetName === preset &&
+                changedFields(e).some((f) => f.objectPath === object_path || f.label === label),
+              condition === "settle" ? interval_ms : deadline - Date.now()
+            );
+            const next = await sample();
+            samples++;
+            // No event within the interval means nothing moved, which is what settling is
+            done = (event !== undefined || condition === "settle") && satisfied(current, next);
+            current = next;
+          }
+        } else {
+          while (!done && Date.now() < deadline) {
+            await sleep(interval_ms);
+            const next = await sample();
+            samples++;
+            done = satisfied(current, next);
+            current = next;
+          }
+        }
+
+        const elapsed = ((timeout_seconds * 1000 - (deadline - Date.now())) / 1000).toFixed(1);
+        let output = done ? `## Condition Met: ${condition}\n\n` : `## Timed Out Waiting For: ${condition}\n\n`;
+        output += `- **Object**: \`${object_path}\`\n`;
+        output += `- **Watched**: ${property_name ?? `${function_name}()`}\n`;
+        output += `- **Initial**: \`${JSON.stringify(initial)}\`\n`;
+        output += `- **Final**: \`${JSON.stringify(current)}\`\n`;
+        output += `- **Samples**: ${samples} over ${elapsed}s${preset ? ` (preset: ${preset})` : ""}\n`;
+
+        return done ? textResult(output) : { ...textResult(output), isError: true };
+      } catch (err) {
+        return errorResult(describeRcError(err));
+      }
+    }
+  );
+
+  // 2. ue5_poll_events — Drain buffered WebSocket events
+  server.registerTool(
+    "ue5_poll_events",
+    {
+      title: "Poll UE5 Remote Control Events",
+      description:
+        "Return Remote Control WebSocket events received since a cursor, optionally subscribing to presets first and waiting for the next event. Pass the returned cursor to the next call to page through events.",
+      inputSchema: {
+        subscribe: z
+          .array(z.string())
+          .optional()
+          .describe("Preset names to subscribe to before polling"),
+        since: z.number().min(0).default(0).describe("Cursor from a previous call (0 = all buffered events)"),
+        limit: z.number().min(1).max(500).default(50).describe("Maximum events to return"),
+        wait_seconds: z
+          .number()
+          .min(0)
+          .max(120)
+          .default(0)
+          .describe("If no events are buffered, wait up to this long for the next one"),
+        editor: EditorSchema,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ subscribe, since, limit, wait_seconds, editor }) => {
+      try {
+        assertRemoteControl("ue5_poll_events");
+        const ws = getRcWebSocket(resolveEditorWebSocketConfig(editor));
+        await ws.connect();
+        for (const preset of subscribe ?? []) {
+          await ws.subscribePreset(preset);
+        }
+
+        let events = ws.eventsSince(since, limit);
+        if (events.length === 0 && wait_seconds > 0) {
+          await ws.waitForEvent(() => true, wait_seconds * 1000, since);
+          events = ws.eventsSince(since, limit);
+        }
+
+        const cursor = events.length > 0 ? events[events.length - 1].seq : Math.max(since, ws.lastSeq);
+
+        let output = `## Remote Control Events\n\n`;
+        output += `- **Subscribed presets**: ${ws.subscribedPresets.join(", ") || "none"}\n`;
+        output += `- **Cursor**: ${cursor}\n\n`;
+        if (events.length === 0) {
+          output += "No new events.";
+        } else {
+          output += events.map(formatEvent).join("\n");
+        }
+        return textResult(output);
+      } catch (err) {
+        return errorResult(describeRcError(err));
+      }
+    }
+  );
+}
@@ -1,6 +1,29 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { LEARNING_RESOURCES } from "../data/learning-resources.js";
+import { LearningResourceOutput } from "../lib/output-schemas.js";
+
+interface LearningStage {
+  heading: string;
+  items: string[];
+}
+
+// Learning paths are authored as markdown; pull out "### Step" headings and their
+// numbered items so callers get the same structure without re-parsing
+function parseLearningPath(markdown: string): { title: string; stages: LearningStage[] } {
+  const title = markdown.match(/^## (.+)$/m)?.[1] ?? "";
+  const stages: LearningStage[] = [];
+  for (const line of markdown.split("\n")) {
+    const heading = line.match(/^### (.+)$/);
+    if (heading) {
+      stages.push({ heading: heading[1], items: [] });
+      continue;
+    }
+    const item = line.match(/^\d+\.\s+(.+)$/);
+    if (item && stages.length > 0) stages[stages.length - 1].items.push(item[1]);
+  }
+  return { title, stages };
+}
 
 export function registerLearningTools(server: McpServer) {
   server.registerTool(
@@ -33,6 +56,10 @@ export function registerLearningTools(server: McpServer) {
           .default(10)
           .describe("Max results"),
       },
+      outputSchema: {
+        count: z.number(),
+        resources: z.array(LearningResourceOutput),
+      },
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -65,6 +92,7 @@ export function registerLearningTools(server: McpServer) {
               text: `No resources found matching your criteria. Try broader search terms or remove filters.`,
             },
           ],
+          structuredContent: { count: 0, resources: [] },
         };
       }
 
@@ -88,6 +116,7 @@ export function registerLearningTools(server: McpServer) {
             text: `## UE5 Learning Resources (${results.length} results)\n\n${markdown}`,
           },
         ],
+        structuredContent: { count: results.length, resources: results },
       };
     }
   );
@@ -117,6 +146,11 @@ export function registerLearningTools(server: McpServer) {
           ])
           .describe("Topic to build a learning path for"),
       },
+      outputSchema: {
+        topic: z.string(),
+        title: z.string(),
+        stages: z.array(z.object({ heading: z.string(), items: z.array(z.string()) })),
+      },
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -432,11 +466,13 @@ export function registerLearningTools(server: McpServer) {
               text: `No learning path available for "${topic}". Available topics: ${Object.keys(paths).join(", ")}`,
             },
           ],
+          structuredContent: { topic, title: "", stages: [] },
         };
       }
 
       return {
         content: [{ type: "text", text: path }],
+        structuredContent: { topic, ...parseLearningPath(path) },
       };
     }
   );
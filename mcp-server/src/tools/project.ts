@@ -2,6 +2,15 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { readdir, readFile, stat } from "fs/promises";
 import { join, extname, basename } from "path";
+import { listValues, parseRulesFile } from "../lib/build-cs.js";
+import { stripBom } from "../lib/json-edit.js";
+import {
+  analyzeModuleGraph,
+  engineModuleHeaders,
+  moduleGraphJson,
+  moduleGraphMermaid,
+  scanProjectModules,
+} from "../lib/module-graph.js";
 
 export function registerProjectTools(server: McpServer) {
   server.registerTool(
@@ -44,7 +53,7 @@ export function registerProjectTools(server: McpServer) {
           join(project_path, uprojectFile),
           "utf-8"
         );
-        const uproject = JSON.parse(uprojectContent);
+        const uproject = JSON.parse(stripBom(uprojectContent));
 
         let output = `## UE5 Project Analysis: ${basename(uprojectFile, ".uproject")}\n\n`;
         output += `### Project File\n`;
@@ -81,6 +90,20 @@ export function registerProjectTools(server: McpServer) {
           output += `- **Headers (.h)**: ${headers.length}\n`;
           output += `- **Sources (.cpp)**: ${sources.length}\n`;
 
+          // Module dependencies from Build.cs
+          const buildFiles = sourceFiles.filter((f) => f.endsWith(".Build.cs"));
+          if (buildFiles.length > 0) {
+            output += `\n### Module Dependencies\n`;
+            for (const file of buildFiles) {
+              const rules = parseRulesFile(await readFile(file, "utf-8"), file);
+              if (!rules) continue;
+              const publicDeps = listValues(rules, "PublicDependencyModuleNames");
+              const privateDeps = listValues(rules, "PrivateDependencyModuleNames");
+              output += `- **${rules.name}** — Public: ${publicDeps.join(", ") || "none"}; Private: ${privateDeps.join(", ") || "none"}\n`;
+            }
+            output += `\nRun ue5_module_graph for the full dependency graph and checks.\n`;
+          }
+
           // Detect key patterns
           const patterns: string[] = [];
           const fileContents = await Promise.all(
@@ -142,6 +165,91 @@ export function registerProjectTools(server: McpServer) {
     }
   );
 
+  server.registerTool(
+    "ue5_module_graph",
+    {
+      title: "UE5 Module Dependency Graph",
+      description:
+        "Parse every *.Build.cs and *.Target.cs under Source/ and Plugins/ (dependency lists, include paths, PCH settings) and emit the module dependency graph as JSON and a mermaid diagram. Flags circular dependencies, Public dependencies that no Public header needs, modules missing from or extra in the .uproject/.uplugin Modules lists, and runtime modules that depend on editor-only modules.",
+      inputSchema: {
+        project_path: z
+          .string()
+          .describe("Absolute path to UE5 project root (containing .uproject file)"),
+        engine_path: z
+          .string()
+          .optional()
+          .describe("Engine directory, used to read engine module headers when checking Public dependencies. Defaults to UE5_ENGINE_PATH"),
+        include_external: z
+          .boolean()
+          .default(false)
+          .describe("Also draw engine and third-party modules in the mermaid diagram"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ project_path, engine_path, include_external }) => {
+      try {
+        const project = await scanProjectModules(project_path);
+        if (project.modules.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No *.Build.cs files found under "${project_path}/Source" or "${project_path}/Plugins". Is this a C++ project?`,
+              },
+            ],
+          };
+        }
+
+        const enginePath = engine_path ?? (process.env.UE5_ENGINE_PATH || undefined);
+        const internal = new Set(project.modules.map((m) => m.name));
+        const externalPublicDeps = [
+          ...new Set(project.modules.flatMap((m) => listValues(m.rules, "PublicDependencyModuleNames"))),
+        ].filter((d) => !internal.has(d));
+        const engineHeaders = enginePath ? await engineModuleHeaders(enginePath, externalPublicDeps) : undefined;
+        const graph = await analyzeModuleGraph(project, engineHeaders);
+
+        let output = `## Module Graph: ${basename(project_path)}\n\n`;
+        output += `- **Modules**: ${graph.modules.length} (${graph.modules.filter((m) => m.owner.kind === "plugin").length} in plugins)\n`;
+        output += `- **Targets**: ${project.targets.map((t) => `${t.name} (${t.settings.Type?.replace(/^TargetType\./, "") ?? "?"})`).join(", ") || "none"}\n`;
+        output += `- **External dependencies**: ${graph.external.length}\n`;
+        output += `- **Cycles**: ${graph.cycles.length}\n`;
+
+        if (graph.issues.length > 0) {
+          const order = { error: 0, warning: 1, info: 2 };
+          output += `\n### Issues (${graph.issues.length})\n`;
+          for (const issue of [...graph.issues].sort((a, b) => order[a.severity] - order[b.severity])) {
+            output += `- **${issue.severity}**${issue.module ? ` ${issue.module}` : ""}: ${issue.message}\n`;
+          }
+        }
+        if (graph.unchecked > 0) {
+          output += `\n${graph.unchecked} Public dependencies on engine modules were not checked${enginePath ? " (module not found in the engine)" : "; pass engine_path or set UE5_ENGINE_PATH"}.\n`;
+        }
+
+        output += `\n### Diagram\n\`\`\`mermaid\n${moduleGraphMermaid(graph, include_external)}\`\`\`\n`;
+        output += `\n### JSON\n\`\`\`json\n${JSON.stringify(moduleGraphJson(graph, project), null, 2)}\n\`\`\`\n`;
+
+        return {
+          content: [{ type: "text", text: output }],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `Error building module graph: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
   server.registerTool(
     "ue5_generate_claude_md",
     {
@@ -1,93 +1,14 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-
-interface McpArchitecture {
-  name: string;
-  type: string;
-  protocol: string;
-  port: number;
-  language: string;
-  toolCount: number;
-  bestFor: string;
-  repo: string;
-  dockerImage?: string;
-  strengths: string[];
-  setup: string;
-}
-
-const MCP_ARCHITECTURES: McpArchitecture[] = [
-  {
-    name: "Official MCP Server (Remote Control API)",
-    type: "remote-control",
-    protocol: "HTTP/WebSocket",
-    port: 6766,
-    language: "TypeScript",
-    toolCount: 24,
-    bestFor: "Non-intrusive editor automation, multi-client scenarios",
-    repo: "hub.docker.com/r/mcp/unreal-engine-mcp-server",
-    dockerImage: "mcp/unreal-engine-mcp-server:latest",
-    strengths: [
-      "Uses UE5 built-in Remote Control Plugin — no engine modification",
-      "HTTP REST API for stateless operations",
-      "WebSocket for real-time subscriptions and events",
-      "Works with packaged games (not just editor)",
-      "Official Docker image available",
-    ],
-    setup: `1. Enable Remote Control Plugin in UE5 Editor (Edit → Plugins → Remote Control API)
-2. Configure DefaultEngine.ini:
-   [/Script/RemoteControlAPI.RemoteControlSettings]
-   bAutoStartRemoteControl=True
-   RemoteControlHttpServerPort=6766
-   RemoteControlWebSocketServerPort=6767
-3. Run: docker pull mcp/unreal-engine-mcp-server:latest
-4. Connect: docker run -it --rm -e UE_HOST=host.docker.internal -e UE_RC_HTTP_PORT=6766 mcp/unreal-engine-mcp-server:latest`,
-  },
-  {
-    name: "ChiR24 Unreal MCP (Automation Bridge)",
-    type: "automation-bridge",
-    protocol: "TCP",
-    port: 8091,
-    language: "TypeScript + C++",
-    toolCount: 36,
-    bestFor: "High-performance structured workflows, deep engine access",
-    repo: "github.com/ChiR24/Unreal_mcp",
-    strengths: [
-      "Native C++ plugin for maximum performance (TCP sockets)",
-      "36 tools with action-based dispatch",
-      "Optional GraphQL API for complex queries",
-      "Geometry Script integration for procedural meshes",
-      "Full asset browser and import system",
-    ],
-    setup: `1. Clone: git clone https://github.com/ChiR24/Unreal_mcp.git
-2. Copy plugins/McpAutomationBridge to your project's Plugins/ directory
-3. Open project in UE5 — click "Yes" when prompted to rebuild
-4. Restart editor (plugin loads on next launch)
-5. Build MCP server: docker build -t unreal-mcp:latest .
-6. Run: docker run -it --rm -e MCP_AUTOMATION_HOST=127.0.0.1 -e MCP_AUTOMATION_PORT=8091 unreal-mcp:latest`,
-  },
-  {
-    name: "Flopperam Unreal MCP (Advanced World Building)",
-    type: "world-building",
-    protocol: "TCP",
-    port: 6776,
-    language: "Python",
-    toolCount: 20,
-    bestFor: "Generative AI-driven world design, rapid prototyping",
-    repo: "github.com/flopperam/unreal-engine-mcp",
-    strengths: [
-      "Generate entire towns, castles, structures from natural language",
-      "Full Blueprint creation and modification",
-      "Physics simulation with complex constraints",
-      "'Flop Agent' — autonomous AI agent running inside UE5",
-      "Starter project included (UE 5.5+)",
-    ],
-    setup: `1. Clone: git clone https://github.com/flopperam/unreal-engine-mcp.git
-2. Option A — Use included starter project: cd MCPGameProject
-3. Option B — Copy UnrealMCP plugin to your project's Plugins/
-4. Run server: cd Python && python3 -m uv run unreal_mcp_server_advanced.py
-5. Or via Docker: docker run -it --rm -e UE_PROJECT_PATH=/project/MyGame.uproject python:3.11-slim`,
-  },
-];
+import { join } from "node:path";
+import { MCP_ARCHITECTURES } from "../data/mcp-architectures.js";
+import { EditorSchema, getActiveEditorName, resolveEditorConfig, resolveEditorWebSocketConfig } from "../lib/editor-registry.js";
+import { getAutomationBridgeConfig } from "../lib/automation-bridge.js";
+import { DiagnosticCheck, RC_SETTINGS_SECTION, runConnectionDiagnostics } from "../lib/diagnostics.js";
+import { setIniValues } from "../lib/ini.js";
+import { AppliedEdit, applyEdits, diffEdit, FileEdit, isChanged, readOptionalFile } from "../lib/project-files.js";
+import { findUprojectFile, setPluginEnabled } from "../lib/descriptor.js";
+import { getActiveBackendKind } from "../backends/index.js";
 
 interface McpTool {
   name: string;
@@ -136,6 +57,26 @@ const MCP_TOOLS: McpTool[] = [
   { name: "list_assets", category: "Assets", description: "Browse and search assets by path, type, or tag", server: "all" },
 ];
 
+// DefaultEngine.ini settings and .uproject plugin entry that turn Remote Control on
+async function planRemoteControlEdits(projectPath: string, httpPort: number, wsPort: number): Promise<FileEdit[]> {
+  const uprojectPath = await findUprojectFile(projectPath);
+  const iniPath = join(projectPath, "Config", "DefaultEngine.ini");
+  const ini = await readOptionalFile(iniPath);
+  const uproject = (await readOptionalFile(uprojectPath))!;
+  return [
+    {
+      path: iniPath,
+      before: ini,
+      after: setIniValues(ini ?? "", RC_SETTINGS_SECTION, {
+        bAutoStartRemoteControl: "True",
+        RemoteControlHttpServerPort: String(httpPort),
+        RemoteControlWebSocketServerPort: String(wsPort),
+      }),
+    },
+    { path: uprojectPath, before: uproject, after: setPluginEnabled(uproject, "RemoteControl", true) },
+  ];
+}
+
 export function registerRemoteControlTools(server: McpServer) {
   server.registerTool(
     "ue5_mcp_architecture_guide",
@@ -173,6 +114,7 @@ export function registerRemoteControlTools(server: McpServer) {
         output += `| Engine Mod | None (plugin) | C++ plugin | C++ plugin |\n`;
         output += `| Docker Image | Official | Build from src | Build from src |\n\n`;
         output += `**Recommendation**: Start with Official for simplicity, migrate to ChiR24 for performance, use Flopperam for AI-driven world building.\n\n`;
+        output += `Run **ue5_discover_backends** to see which of these are reachable from this server right now.\n\n`;
       }
 
       for (const arch of archs) {
@@ -199,7 +141,7 @@ export function registerRemoteControlTools(server: McpServer) {
     {
       title: "Generate Remote Control API Configuration",
       description:
-        "Generate the configuration needed to enable the Remote Control API in a UE5 project: DefaultEngine.ini settings, plugin enablement, Docker Compose with MCP server, and verification commands.",
+        "Generate the configuration needed to enable the Remote Control API in a UE5 project: DefaultEngine.ini settings, plugin enablement, Docker Compose with MCP server, and verification commands. Given a project_path, shows the edits to Config/DefaultEngine.ini and the .uproject as a unified diff; with apply=true it writes them, keeping a .bak copy of each original.",
       inputSchema: {
         http_port: z.number().default(6766).describe("HTTP port for Remote Control API"),
         ws_port: z.number().default(6767).describe("WebSocket port for Remote Control API"),
@@ -208,28 +150,65 @@ export function registerRemoteControlTools(server: McpServer) {
           .enum(["official", "chir24", "flopperam"])
           .default("official")
           .describe("Which MCP server to configure"),
+        project_path: z
+          .string()
+          .optional()
+          .describe("UE5 project directory (containing the .uproject) to configure instead of printing steps 1-2"),
+        apply: z
+          .boolean()
+          .default(false)
+          .describe("Write the project changes (requires project_path). Without it the diff is only previewed"),
       },
       annotations: {
-        readOnlyHint: true,
+        readOnlyHint: false,
         destructiveHint: false,
         idempotentHint: true,
         openWorldHint: false,
       },
     },
-    async ({ http_port, ws_port, include_docker, mcp_server }) => {
+    async ({ http_port, ws_port, include_docker, mcp_server, project_path, apply }) => {
+      const fail = (message: string) => ({ content: [{ type: "text" as const, text: `Error: ${message}` }], isError: true });
+      if (apply && !project_path) return fail("apply requires project_path");
       let output = `## Remote Control API Setup\n\n`;
 
-      // DefaultEngine.ini
-      output += `### 1. DefaultEngine.ini\nAdd to your project's \`Config/DefaultEngine.ini\`:\n`;
-      output += "```ini\n";
-      output += `[/Script/RemoteControlAPI.RemoteControlSettings]\n`;
-      output += `bAutoStartRemoteControl=True\n`;
-      output += `RemoteControlHttpServerPort=${http_port}\n`;
-      output += `RemoteControlWebSocketServerPort=${ws_port}\n`;
-      output += "```\n\n";
+      if (project_path) {
+        let changed: FileEdit[];
+        let applied: AppliedEdit[] = [];
+        try {
+          changed = (await planRemoteControlEdits(project_path, http_port, ws_port)).filter(isChanged);
+          if (apply) applied = await applyEdits(changed);
+        } catch (err) {
+          return fail(err instanceof Error ? err.message : String(err));
+        }
+
+        output += `### 1-2. Project Configuration (${project_path})\n`;
+        if (changed.length === 0) {
+          output += `Already configured: DefaultEngine.ini has the Remote Control settings and the RemoteControl plugin is enabled.\n\n`;
+        } else {
+          output += "```diff\n" + changed.map((e) => diffEdit(e, project_path)).join("") + "```\n\n";
+          if (apply) {
+            output += `**Written** — restart the editor to load the plugin and settings.\n`;
+            for (const a of applied) {
+              output += `- ${a.path}${a.backup ? ` (backup: ${a.backup})` : " (new file)"}\n`;
+            }
+            output += `\n`;
+          } else {
+            output += `**Preview only** — re-run with \`apply: true\` to write these changes (each original is kept as a .bak copy).\n\n`;
+          }
+        }
+      } else {
+        // DefaultEngine.ini
+        output += `### 1. DefaultEngine.ini\nAdd to your project's \`Config/DefaultEngine.ini\`:\n`;
+        output += "```ini\n";
+        output += `[/Script/RemoteControlAPI.RemoteControlSettings]\n`;
+        output += `bAutoStartRemoteControl=True\n`;
+        output += `RemoteControlHttpServerPort=${http_port}\n`;
+        output += `RemoteControlWebSocketServerPort=${ws_port}\n`;
+        output += "```\n\n";
 
-      // Plugin enablement
-      output += `### 2. Enable Plugin\nIn UE5 Editor: **Edit → Plugins → Search "Remote Control" → Enable "Remote Control API" → Restart**\n\n`;
+        // Plugin enablement
+        output += `### 2. Enable Plugin\nIn UE5 Editor: **Edit → Plugins → Search "Remote Control" → Enable "Remote Control API" → Restart**\n\n`;
+      }
 
       // Verification
       output += `### 3. Verify Connection\n`;
@@ -392,6 +371,8 @@ export function registerRemoteControlTools(server: McpServer) {
 
 **Symptom**: \`Error: Failed to connect to Unreal Engine at {HOST}:{PORT}\`
 
+Run **ue5_diagnose** to have the server perform these checks itself and report a pass/fail checklist.
+
 ### Diagnostic Commands
 \`\`\`bash
 # 1. Verify Remote Control is enabled
@@ -423,7 +404,8 @@ RemoteControlWebSocketServerPort=6767
 ### Common Fixes
 - Ensure both containers are on the same Docker network
 - Use \`--network host\` for lowest latency
-- Set \`MCP_AUTOMATION_ALLOW_NON_LOOPBACK=false\` for security`,
+- Set \`MCP_AUTOMATION_ALLOW_NON_LOOPBACK=false\` for security
+- Run \`ue5_discover_backends\` to probe every configured port and switch to whichever backend answers`,
 
         "gpu-detection": `## Troubleshoot: GPU Not Detected in Container
 
@@ -594,6 +576,69 @@ RUN apt-get install -y \\
     }
   );
 
+  server.registerTool(
+    "ue5_diagnose",
+    {
+      title: "Diagnose UE5 Editor Connection",
+      description:
+        "Run the mcp-connection troubleshooting checks from the server: DNS resolution of the editor host, TCP connects to the Remote Control HTTP/WebSocket and Automation Bridge ports, an HTTP probe of /remote/info, round-trip latency and clock skew, and (given a project path) the Remote Control settings in Config/DefaultEngine.ini. Returns a pass/fail checklist with a fix for each failed check.",
+      inputSchema: {
+        editor: EditorSchema,
+        project_path: z
+          .string()
+          .optional()
+          .describe("UE5 project directory (containing the .uproject) whose DefaultEngine.ini should be checked"),
+        timeout_ms: z.number().int().min(100).max(30000).default(2000).describe("Timeout for each network check"),
+        samples: z.number().int().min(1).max(50).default(5).describe("Round trips for the latency measurement"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ editor, project_path, timeout_ms, samples }) => {
+      try {
+        const http = resolveEditorConfig(editor);
+        const backend = getActiveBackendKind();
+        const checks = await runConnectionDiagnostics({
+          http,
+          ws: resolveEditorWebSocketConfig(editor),
+          bridge: getAutomationBridgeConfig(),
+          bridgeRequired: backend === "automation-bridge",
+          projectPath: project_path,
+          timeoutMs: timeout_ms,
+          samples,
+        });
+
+        const count = (status: DiagnosticCheck["status"]) => checks.filter((c) => c.status === status).length;
+        let output = `## UE5 Connection Diagnosis\n\n`;
+        output += `- **Editor**: ${editor ?? getActiveEditorName()} (${http.host}:${http.port})\n`;
+        output += `- **Backend**: ${backend}\n`;
+        output += `- **Result**: ${count("pass")} passed, ${count("fail")} failed, ${count("warn")} warnings, ${count("skip")} skipped\n\n`;
+        output += `| Result | Check | Detail |\n|--------|-------|--------|\n`;
+        for (const c of checks) {
+          output += `| ${c.status.toUpperCase()} | ${c.name} | ${c.detail} |\n`;
+        }
+
+        const actionable = checks.filter((c) => c.remediation);
+        if (actionable.length > 0) {
+          output += `\n### Remediation\n\n`;
+          actionable.forEach((c, i) => (output += `${i + 1}. **${c.name}** (${c.status}): ${c.remediation}\n`));
+        } else if (count("fail") === 0) {
+          output += `\nEverything checked is healthy.`;
+        }
+        return { content: [{ type: "text" as const, text: output }] };
+      } catch (err) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${err instanceof Error ? err.message : String(err)}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
   server.registerTool(
     "ue5_mcp_security",
     {
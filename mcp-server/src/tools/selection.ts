@@ -0,0 +1,325 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { describeRcError } from "../lib/rc-client.js";
+import { EditorSchema } from "../lib/editor-registry.js";
+import { RotatorOutput, toRotatorOutput, VectorOutput } from "../lib/output-schemas.js";
+import {
+  ActorFilter,
+  ActorFilterShape,
+  ActorRecord,
+  describeActorFilter,
+  QueryVector,
+  toActorQuery,
+} from "../lib/actor-query.js";
+import { EditorBackend, getEditorBackend } from "../backends/index.js";
+
+// --- MCP Response Helpers ---
+
+function errorResult(message: string) {
+  return { content: [{ type: "text" as const, text: `Error: ${message}` }], isError: true };
+}
+
+function structuredResult<T extends Record<string, unknown>>(text: string, structuredContent: T) {
+  return { content: [{ type: "text" as const, text }], structuredContent };
+}
+
+const EDITOR_ACTOR_SUBSYSTEM = "/Script/UnrealEd.Default__EditorActorSubsystem";
+const UNREAL_EDITOR_SUBSYSTEM = "/Script/UnrealEd.Default__UnrealEditorSubsystem";
+
+// Selections are applied in one SetSelectedLevelActors call; keep them sane
+const MAX_SELECTION = 10000;
+// Markdown output lists at most this many actors; structured output has them all
+const MAX_LISTED = 50;
+
+const SelectedActorOutput = z.object({
+  path: z.string(),
+  label: z.string().optional(),
+  className: z.string().optional(),
+});
+
+async function getSelectedPaths(backend: EditorBackend): Promise<string[]> {
+  const result = await backend.query({ selected: true, sort: "path", limit: Number.MAX_SAFE_INTEGER, fields: [] });
+  return result.actors.map((a) => a.path);
+}
+
+/** Every actor matching a ue5_list_actors-style filter, without paging. */
+async function resolveFilter(backend: EditorBackend, filter: ActorFilter): Promise<string[]> {
+  const result = await backend.query({
+    ...toActorQuery(filter),
+    sort: "path",
+    limit: MAX_SELECTION + 1,
+    fields: [],
+  });
+  if (result.total > MAX_SELECTION) {
+    throw new Error(`Filter matches ${result.total} actors; selections are limited to ${MAX_SELECTION}. Narrow the filter.`);
+  }
+  return result.actors.map((a) => a.path);
+}
+
+function actorLabel(actor: ActorRecord): string {
+  return `- **${actor.label || actor.path.split(".").pop()}** (${actor.className?.split(".").pop() ?? "?"}) \`${actor.path}\``;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function roundVector(v: QueryVector): QueryVector {
+  return { x: round2(v.x), y: round2(v.y), z: round2(v.z) };
+}
+
+// Direction the camera looks for a given rotator, in UE's left-handed Z-up space
+function forwardVector(pitch: number, yaw: number): QueryVector {
+  const p = (pitch * Math.PI) / 180;
+  const y = (yaw * Math.PI) / 180;
+  return { x: Math.cos(p) * Math.cos(y), y: Math.cos(p) * Math.sin(y), z: Math.sin(p) };
+}
+
+// --- Tool Registration ---
+
+export function registerSelectionTools(server: McpServer) {
+  // 1. ue5_get_selection — Read the editor's actor selection
+  server.registerTool(
+    "ue5_get_selection",
+    {
+      title: "Get UE5 Actor Selection",
+      description: "List the actors currently selected in the level editor, with labels and classes.",
+      inputSchema: {
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        actors: z.array(z.string()).describe("Selected actor paths"),
+        details: z.array(SelectedActorOutput),
+        count: z.number(),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ editor }) => {
+      try {
+        const backend = await getEditorBackend(editor);
+        const result = await backend.query({
+          selected: true,
+          limit: MAX_SELECTION,
+          fields: ["label", "className"],
+        });
+
+        let output = `## Selection (${result.total} actors)\n\n`;
+        if (result.total === 0) {
+          output += "Nothing is selected.";
+        } else {
+          output += result.actors.slice(0, MAX_LISTED).map(actorLabel).join("\n") + "\n";
+          if (result.total > MAX_LISTED) output += `\n…and ${result.total - MAX_LISTED} more\n`;
+        }
+        return structuredResult(output, {
+          actors: result.actors.map((a) => a.path),
+          details: result.actors.map(({ path, label, className }) => ({ path, label, className })),
+          count: result.total,
+        });
+      } catch (err) {
+        return errorResult(describeRcError(err));
+      }
+    }
+  );
+
+  // 2. ue5_select_actors — Set, extend or shrink the selection
+  server.registerTool(
+    "ue5_select_actors",
+    {
+      title: "Select Actors in UE5 Editor",
+      description:
+        "Change the level editor's actor selection so the *_selected editor commands (delete_selected, duplicate_selected, ...) and ue5_focus_selection act on them. Pick actors by explicit paths, by a ue5_list_actors-style filter, or both (union). Mode 'set' replaces the selection, 'add' extends it, 'remove' deselects the given actors. 'set' with neither paths nor filter clears the selection.",
+      inputSchema: {
+        mode: z.enum(["set", "add", "remove"]).default("set"),
+        paths: z.array(z.string()).optional().describe("Actor object paths, e.g. from ue5_list_actors"),
+        filter: z
+          .object(ActorFilterShape)
+          .optional()
+          .describe("Select every actor matching these ue5_list_actors filters (all pages)"),
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        mode: z.enum(["set", "add", "remove"]),
+        selected: z.array(z.string()).describe("Actor paths selected after the change"),
+        count: z.number(),
+        matched: z.number().describe("Actors named by paths and filter"),
+        missing: z.array(z.string()).describe("Given paths that are not actors in the level"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ mode, paths, filter, editor }) => {
+      if (!paths && !filter && mode !== "set") {
+        return errorResult("Provide paths and/or filter to choose which actors to add or remove.");
+      }
+      try {
+        const backend = await getEditorBackend(editor);
+
+        const targets = new Set<string>();
+        const missing: string[] = [];
+        if (paths && paths.length > 0) {
+          // Unknown paths would fail the whole SetSelectedLevelActors call
+          const level = new Set(
+            (await backend.query({ sort: "path", limit: Number.MAX_SAFE_INTEGER, fields: [] })).actors.map((a) => a.path)
+          );
+          for (const path of paths) {
+            if (level.has(path)) targets.add(path);
+            else missing.push(path);
+          }
+        }
+        if (filter) {
+          for (const path of await resolveFilter(backend, filter)) targets.add(path);
+        }
+
+        let next: string[];
+        if (mode === "set") {
+          next = [...targets];
+        } else {
+          const current = await getSelectedPaths(backend);
+          next =
+            mode === "add"
+              ? [...new Set([...current, ...targets])]
+              : current.filter((p) => !targets.has(p));
+        }
+        if (next.length > MAX_SELECTION) {
+          return errorResult(`Selection would contain ${next.length} actors; the limit is ${MAX_SELECTION}.`);
+        }
+
+        try {
+          await backend.callFunction(EDITOR_ACTOR_SUBSYSTEM, "SetSelectedLevelActors", { ActorsToSelect: next });
+        } catch (err) {
+          return errorResult(`Set selection failed: ${describeRcError(err)}`);
+        }
+
+        let output = `## Selection Updated (${mode})\n\n`;
+        if (filter) {
+          const filters = describeActorFilter(filter);
+          output += `- **Filter**: ${filters.length > 0 ? filters.join("; ") : "all actors"}\n`;
+        }
+        output += `- **Matched**: ${targets.size}\n`;
+        output += `- **Selected now**: ${next.length}\n`;
+        if (missing.length > 0) {
+          output += `\n### Not found (skipped)\n\n${missing.map((p) => `- \`${p}\``).join("\n")}\n`;
+        }
+        return structuredResult(output, {
+          mode,
+          selected: next,
+          count: next.length,
+          matched: targets.size,
+          missing,
+        });
+      } catch (err) {
+        return errorResult(describeRcError(err));
+      }
+    }
+  );
+
+  // 3. ue5_focus_selection — Frame the viewport on the selected actors
+  server.registerTool(
+    "ue5_focus_selection",
+    {
+      title: "Focus UE5 Viewport on Selection",
+      description:
+        "Move the level viewport camera so the combined bounds of the selected actors fill the view. Keeps the current camera rotation unless one is given, and backs the camera off along its view direction.",
+      inputSchema: {
+        rotation: z
+          .object({ pitch: z.number(), yaw: z.number(), roll: z.number() })
+          .optional()
+          .describe("View rotation to frame from (default: keep current camera rotation)"),
+        padding: z.number().min(1).max(10).default(1.5).describe("Multiplier on the framing distance"),
+        fov: z.number().min(10).max(170).default(90).describe("Horizontal field of view the framing assumes, in degrees"),
+        editor: EditorSchema,
+      },
+      outputSchema: {
+        location: VectorOutput,
+        rotation: RotatorOutput,
+        center: VectorOutput,
+        radius: z.number().describe("Radius of the sphere around the selection's bounds"),
+        actors: z.number(),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ rotation, padding, fov, editor }) => {
+      try {
+        const backend = await getEditorBackend(editor);
+        const result = await backend.query({
+          selected: true,
+          sort: "path",
+          limit: MAX_SELECTION,
+          fields: ["bounds"],
+          // Selected actors are the ones most likely to have just been moved by hand
+          refresh: true,
+        });
+        const bounded = result.actors.filter((a) => a.bounds);
+        if (bounded.length === 0) {
+          return errorResult("Nothing is selected. Use ue5_select_actors first.");
+        }
+
+        const min = { x: Infinity, y: Infinity, z: Infinity };
+        const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+        for (const { bounds } of bounded) {
+          for (const axis of ["x", "y", "z"] as const) {
+            min[axis] = Math.min(min[axis], bounds!.origin[axis] - bounds!.extent[axis]);
+            max[axis] = Math.max(max[axis], bounds!.origin[axis] + bounds!.extent[axis]);
+          }
+        }
+        const center = { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2, z: (min.z + max.z) / 2 };
+        const radius = Math.max(Math.hypot(max.x - min.x, max.y - min.y, max.z - min.z) / 2, 50);
+
+        let view = rotation;
+        if (!view) {
+          const current = await backend.callFunction(UNREAL_EDITOR_SUBSYSTEM, "GetLevelViewportCameraInfo", {}, { readOnly: true });
+          view = toRotatorOutput(current?.CameraRotation);
+        }
+
+        // Distance at which a sphere of `radius` just fits the field of view
+        const distance = (radius / Math.tan(((fov / 2) * Math.PI) / 180)) * padding;
+        const forward = forwardVector(view.pitch, view.yaw);
+        const location = {
+          x: center.x - forward.x * distance,
+          y: center.y - forward.y * distance,
+          z: center.z - forward.z * distance,
+        };
+
+        try {
+          await backend.callFunction(UNREAL_EDITOR_SUBSYSTEM, "SetLevelViewportCameraInfo", {
+            CameraLocation: { X: location.x, Y: location.y, Z: location.z },
+            CameraRotation: { Pitch: view.pitch, Yaw: view.yaw, Roll: view.roll },
+          });
+        } catch (err) {
+          return errorResult(`Set camera failed: ${describeRcError(err)}`);
+        }
+
+        const shown = roundVector(location);
+        const focus = roundVector(center);
+        let output = `## Viewport Focused on ${bounded.length} Actor${bounded.length === 1 ? "" : "s"}\n\n`;
+        output += `- **Bounds center**: (${focus.x}, ${focus.y}, ${focus.z})\n`;
+        output += `- **Radius**: ${round2(radius)}\n`;
+        output += `- **Camera location**: (${shown.x}, ${shown.y}, ${shown.z})\n`;
+        output += `- **Camera rotation**: pitch=${view.pitch} yaw=${view.yaw} roll=${view.roll}\n`;
+        return structuredResult(output, {
+          location: shown,
+          rotation: view,
+          center: focus,
+          radius: round2(radius),
+          actors: bounded.length,
+        });
+      } catch (err) {
+        return errorResult(describeRcError(err));
+      }
+    }
+  );
+}
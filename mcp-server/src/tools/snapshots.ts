@@ -0,0 +1,282 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { describeRcError, RcRequest } from "../lib/rc-client.js";
+import { EditorSchema, getActiveEditorName } from "../lib/editor-registry.js";
+import { withEditorTransaction } from "../lib/transactions.js";
+import { invalidateActorCache } from "../lib/actor-query.js";
+import { getRemoteControlClient } from "../backends/index.js";
+import {
+  ActorChange,
+  ActorSnapshot,
+  buildRestoreRequests,
+  captureLevelSnapshot,
+  diffSnapshots,
+  getSnapshotDir,
+  LevelDiff,
+  LevelSnapshot,
+  loadSnapshot,
+  saveSnapshot,
+  SNAPSHOT_BATCH_SIZE,
+  SNAPSHOT_NAME,
+} from "../lib/level-snapshot.js";
+
+// --- MCP Response Helpers ---
+
+function textResult(text: string) {
+  return { content: [{ type: "text" as const, text }] };
+}
+
+function errorResult(message: string) {
+  return { content: [{ type: "text" as const, text: `Error: ${message}` }], isError: true };
+}
+
+// --- Formatting ---
+
+// Diffs of big levels stay readable; the JSON files hold the full detail
+const MAX_LISTED = 50;
+
+function formatValue(value: any): string {
+  if (value && typeof value === "object") {
+    const keys = Object.keys(value);
+    if (keys.every((k) => typeof value[k] === "number")) {
+      return `(${keys.map((k) => Math.round(value[k] * 100) / 100).join(", ")})`;
+    }
+    return JSON.stringify(value);
+  }
+  return JSON.stringify(value);
+}
+
+function actorLine(actor: ActorSnapshot): string {
+  return `- **${actor.label || actor.path.split(".").pop()}** (${actor.className.split(".").pop()}) — \`${actor.path}\``;
+}
+
+function changeTable(changes: ActorChange[], columns = ["Before", "After"]): string {
+  let output = `| Actor | Field | ${columns[0]} | ${columns[1]} |\n|-------|-------|--------|-------|\n`;
+  for (const c of changes.slice(0, MAX_LISTED)) {
+    output += `| ${c.label} | ${c.field} | ${formatValue(c.before)} | ${formatValue(c.after)} |\n`;
+  }
+  if (changes.length > MAX_LISTED) output += `\n…and ${changes.length - MAX_LISTED} more\n`;
+  return output;
+}
+
+function formatDiff(diff: LevelDiff, beforeName: string, afterName: string): string {
+  let output = `## Level Diff: ${beforeName} → ${afterName}\n\n`;
+  output += `- **Added**: ${diff.added.length}\n`;
+  output += `- **Removed**: ${diff.removed.length}\n`;
+  output += `- **Moved**: ${new Set(diff.moved.map((c) => c.path)).size} actors (${diff.moved.length} changes)\n`;
+  output += `- **Re-propertied**: ${new Set(diff.changed.map((c) => c.path)).size} actors (${diff.changed.length} changes)\n`;
+  output += `- **Unchanged**: ${diff.unchanged}\n`;
+
+  if (diff.added.length > 0) {
+    output += `\n### Added\n\n${diff.added.slice(0, MAX_LISTED).map(actorLine).join("\n")}\n`;
+  }
+  if (diff.removed.length > 0) {
+    output += `\n### Removed\n\n${diff.removed.slice(0, MAX_LISTED).map(actorLine).join("\n")}\n`;
+  }
+  if (diff.moved.length > 0) {
+    output += `\n### Moved\n\n${changeTable(diff.moved)}`;
+  }
+  if (diff.changed.length > 0) {
+    output += `\n### Changed Properties\n\n${changeTable(diff.changed)}`;
+  }
+  return output;
+}
+
+function defaultSnapshotName(): string {
+  return `snapshot-${new Date().toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15)}`;
+}
+
+const SnapshotNameSchema = z
+  .string()
+  .min(1)
+  .describe("Snapshot name (file name without .json in the snapshot directory) or the path of a .json file in that directory");
+
+// --- Tool Registration ---
+
+export function registerSnapshotTools(server: McpServer) {
+  // 1. ue5_snapshot_level — Record every actor to JSON
+  server.registerTool(
+    "ue5_snapshot_level",
+    {
+      title: "Snapshot UE5 Level State",
+      description:
+        `Record every actor in the current level (class, label, location, rotation, scale, and any extra properties you list) to a JSON file in the snapshot directory (UE5_SNAPSHOT_DIR, currently ${getSnapshotDir()}). Take one before large edits so ue5_diff_level and ue5_restore_snapshot can show and undo them.`,
+      inputSchema: {
+        name: z
+          .string()
+          .regex(SNAPSHOT_NAME)
+          .optional()
+          .describe("Snapshot name (default: snapshot-<timestamp>). Reusing a name overwrites it"),
+        properties: z
+          .array(z.string())
+          .default([])
+          .describe(
+            "Extra properties to record per actor. Plain names read the actor (e.g., 'bHidden'); 'Component.Property' reads a component (e.g., 'LightComponent0.Intensity')"
+          ),
+        editor: EditorSchema,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ name, properties, editor }) => {
+      try {
+        const rc = getRemoteControlClient("ue5_snapshot_level", editor);
+        const snapshot = await captureLevelSnapshot(rc, {
+          name: name ?? defaultSnapshotName(),
+          editorName: editor ?? getActiveEditorName(),
+          properties,
+        });
+        const file = await saveSnapshot(snapshot);
+
+        const classes = new Map<string, number>();
+        for (const actor of snapshot.actors) {
+          const short = actor.className.split(".").pop()!;
+          classes.set(short, (classes.get(short) ?? 0) + 1);
+        }
+
+        let output = `## Level Snapshot: ${snapshot.name}\n\n`;
+        output += `- **File**: \`${file}\`\n`;
+        output += `- **Actors**: ${snapshot.actors.length}\n`;
+        output += `- **Tracked properties**: ${properties.length > 0 ? properties.join(", ") : "transform and label only"}\n\n`;
+        output += `| Class | Count |\n|-------|-------|\n`;
+        for (const [cls, count] of [...classes].sort((a, b) => b[1] - a[1])) {
+          output += `| ${cls} | ${count} |\n`;
+        }
+        return textResult(output);
+      } catch (err) {
+        return errorResult(describeRcError(err));
+      }
+    }
+  );
+
+  // 2. ue5_diff_level — Compare snapshots or a snapshot against the live level
+  server.registerTool(
+    "ue5_diff_level",
+    {
+      title: "Diff UE5 Level Snapshots",
+      description:
+        "Compare two level snapshots, or a snapshot against the live editor, and report added, removed, moved (location/rotation/scale) and re-propertied actors.",
+      inputSchema: {
+        before: SnapshotNameSchema,
+        after: SnapshotNameSchema.optional().describe(
+          "Snapshot to compare against. Omit to compare against the live editor, reading the same properties the 'before' snapshot tracked"
+        ),
+        distance_tolerance: z.number().min(0).default(0.01).describe("Ignore location/scale changes up to this size"),
+        angle_tolerance: z.number().min(0).default(0.01).describe("Ignore rotation changes up to this many degrees"),
+        editor: EditorSchema,
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ before, after, distance_tolerance, angle_tolerance, editor }) => {
+      try {
+        const base = await loadSnapshot(before);
+        let target: LevelSnapshot;
+        if (after) {
+          target = await loadSnapshot(after);
+        } else {
+          target = await captureLevelSnapshot(getRemoteControlClient("ue5_diff_level", editor), {
+            name: "live",
+            editorName: editor ?? getActiveEditorName(),
+            properties: base.properties,
+          });
+        }
+
+        const diff = diffSnapshots(base, target, { distance: distance_tolerance, angle: angle_tolerance });
+        return textResult(formatDiff(diff, base.name, after ? target.name : "live editor"));
+      } catch (err) {
+        return errorResult(describeRcError(err));
+      }
+    }
+  );
+
+  // 3. ue5_restore_snapshot — Reapply transforms and properties
+  server.registerTool(
+    "ue5_restore_snapshot",
+    {
+      title: "Restore UE5 Level Snapshot",
+      description:
+        "Put actors back to the transforms, labels and tracked properties recorded in a snapshot, using batched Remote Control requests inside one undoable transaction. Actors deleted since the snapshot cannot be recreated and are only reported.",
+      inputSchema: {
+        snapshot: SnapshotNameSchema,
+        remove_added: z
+          .boolean()
+          .default(false)
+          .describe("Also destroy actors that were added after the snapshot was taken"),
+        dry_run: z.boolean().default(false).describe("Only report what would change"),
+        editor: EditorSchema,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ snapshot: name, remove_added, dry_run, editor }) => {
+      try {
+        const rc = getRemoteControlClient("ue5_restore_snapshot", editor);
+        const snapshot = await loadSnapshot(name);
+        const live = await captureLevelSnapshot(rc, {
+          name: "live",
+          editorName: editor ?? getActiveEditorName(),
+          properties: snapshot.properties,
+        });
+
+        // Diff from the snapshot's point of view: "before" values are the ones to restore
+        const diff = diffSnapshots(snapshot, live);
+        const requests: RcRequest[] = buildRestoreRequests(snapshot, diff);
+        if (remove_added) {
+          for (const actor of diff.added) {
+            requests.push({
+              path: "/remote/object/call",
+              method: "PUT",
+              body: {
+                objectPath: "/Script/UnrealEd.Default__EditorActorSubsystem",
+                functionName: "DestroyActor",
+                parameters: { ActorToDestroy: actor.path },
+              },
+            });
+          }
+        }
+
+        let output = `## ${dry_run ? "Restore Plan" : "Snapshot Restored"}: ${snapshot.name}\n\n`;
+        if (snapshot.editor.host !== rc.config.host || snapshot.editor.port !== rc.config.port) {
+          output += `> Warning: snapshot was taken on ${snapshot.editor.host}:${snapshot.editor.port}, restoring to ${rc.config.host}:${rc.config.port}\n\n`;
+        }
+
+        if (requests.length > 0 && !dry_run) {
+          await withEditorTransaction(rc, `Restore snapshot ${snapshot.name}`, async (tx) => {
+            for (let i = 0; i < requests.length; i += SNAPSHOT_BATCH_SIZE) {
+              await tx.batch(requests.slice(i, i + SNAPSHOT_BATCH_SIZE), `restore batch ${i / SNAPSHOT_BATCH_SIZE + 1}`);
+            }
+          });
+          invalidateActorCache(rc.config);
+        }
+
+        output += `- **Requests ${dry_run ? "planned" : "sent"}**: ${requests.length}\n`;
+        output += `- **Actors restored**: ${new Set([...diff.moved, ...diff.changed].map((c) => c.path)).size}\n`;
+        output += `- **Added since snapshot**: ${diff.added.length}${diff.added.length > 0 ? (remove_added ? " (destroyed)" : " (left in place)") : ""}\n`;
+        output += `- **Deleted since snapshot**: ${diff.removed.length}${diff.removed.length > 0 ? " (cannot be restored)" : ""}\n`;
+        if (requests.length === 0) {
+          output += `\nThe level already matches the snapshot.`;
+        } else {
+          if (diff.moved.length > 0) output += `\n### Transforms\n\n${changeTable(diff.moved, ["Snapshot", "Live"])}`;
+          if (diff.changed.length > 0) output += `\n### Properties\n\n${changeTable(diff.changed, ["Snapshot", "Live"])}`;
+          if (!dry_run) output += `\nOne undo entry: "Restore snapshot ${snapshot.name}"`;
+        }
+        return textResult(output);
+      } catch (err) {
+        return errorResult(describeRcError(err));
+      }
+    }
+  );
+}
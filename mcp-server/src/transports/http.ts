@@ -0,0 +1,204 @@
+// HTTP entry point: serves MCP Streamable HTTP on /mcp and the legacy SSE transport
+// on /sse + /messages, with one McpServer per client session so several agents can
+// share a single server process. Sessions that send nothing for sessionIdleTimeoutMs
+// and hold no open stream are closed, so clients that vanish without DELETE do not
+// pile up.
+
+import { randomUUID } from "node:crypto";
+import { Server } from "node:http";
+import express, { Request, Response } from "express";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createServer, SERVER_NAME, SERVER_VERSION } from "../server.js";
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** Close sessions with no requests or open stream for this long (default 30 minutes) */
+  sessionIdleTimeoutMs?: number;
+}
+
+export interface HttpTransport {
+  server: Server;
+  /** End every session, then stop listening */
+  close(): Promise<void>;
+}
+
+interface Session {
+  kind: "streamable" | "sse";
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  createdAt: Date;
+  lastActiveAt: number;
+  /** Server→client streams currently open; a session with one is never idle */
+  openStreams: number;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// JSON-RPC reserves -32603 for internal errors; -32000 is the server-defined default
+function jsonRpcError(res: Response, status: number, message: string, code = -32000) {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null,
+  });
+}
+
+// Express 4 does not catch rejected handlers, so a throw would leave the request hanging
+function handled(handler: (req: Request, res: Response) => Promise<unknown>) {
+  return async (req: Request, res: Response) => {
+    try {
+      await handler(req, res);
+    } catch (err) {
+      console.error(`${req.method} ${req.path} failed:`, err);
+      if (!res.headersSent) {
+        jsonRpcError(res, 500, `Internal server error: ${err instanceof Error ? err.message : String(err)}`, -32603);
+      } else {
+        res.end();
+      }
+    }
+  };
+}
+
+export async function startHttpTransport(options: HttpTransportOptions): Promise<HttpTransport> {
+  const sessions = new Map<string, Session>();
+  const startedAt = Date.now();
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+
+  const touch = (session: Session) => {
+    session.lastActiveAt = Date.now();
+  };
+
+  const app = express();
+  app.use(express.json({ limit: "4mb" }));
+
+  // --- Streamable HTTP ---
+
+  app.post("/mcp", handled(async (req: Request, res: Response) => {
+    const sessionId = req.header("mcp-session-id");
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (existing) {
+      if (existing.kind !== "streamable") {
+        return jsonRpcError(res, 400, "Session was created with the SSE transport");
+      }
+      touch(existing);
+      return (existing.transport as StreamableHTTPServerTransport).handleRequest(req, res, req.body);
+    }
+    if (sessionId || !isInitializeRequest(req.body)) {
+      return jsonRpcError(res, sessionId ? 404 : 400, sessionId ? "Unknown session" : "No session; send initialize first");
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { kind: "streamable", transport, server, createdAt: new Date(), lastActiveAt: Date.now(), openStreams: 0 });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  }));
+
+  // GET opens the server→client stream, DELETE ends the session
+  const handleSessionRequest = handled(async (req: Request, res: Response) => {
+    const sessionId = req.header("mcp-session-id");
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || session.kind !== "streamable") {
+      return jsonRpcError(res, 404, "Unknown session");
+    }
+    touch(session);
+    if (req.method === "GET") {
+      session.openStreams++;
+      // The idle clock starts again when the stream goes away
+      res.on("close", () => {
+        session.openStreams--;
+        touch(session);
+      });
+    }
+    await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res);
+  });
+  app.get("/mcp", handleSessionRequest);
+  app.delete("/mcp", handleSessionRequest);
+
+  // --- Legacy SSE ---
+
+  app.get("/sse", handled(async (_req: Request, res: Response) => {
+    const server = createServer();
+    const transport = new SSEServerTransport("/messages", res);
+    sessions.set(transport.sessionId, { kind: "sse", transport, server, createdAt: new Date(), lastActiveAt: Date.now(), openStreams: 1 });
+    // The stream is the session: when the client goes, so do its server and transport
+    res.on("close", () => {
+      sessions.delete(transport.sessionId);
+      server.close().catch(() => undefined);
+    });
+    await server.connect(transport);
+  }));
+
+  app.post("/messages", handled(async (req: Request, res: Response) => {
+    const session = sessions.get(String(req.query.sessionId ?? ""));
+    if (!session || session.kind !== "sse") {
+      return jsonRpcError(res, 404, "Unknown session");
+    }
+    touch(session);
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res, req.body);
+  }));
+
+  // --- Health ---
+
+  app.get("/healthz", (_req: Request, res: Response) => {
+    const kinds = [...sessions.values()].map((s) => s.kind);
+    res.json({
+      status: "ok",
+      name: SERVER_NAME,
+      version: SERVER_VERSION,
+      uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+      sessions: {
+        streamable: kinds.filter((k) => k === "streamable").length,
+        sse: kinds.filter((k) => k === "sse").length,
+      },
+    });
+  });
+
+  const httpServer = await new Promise<Server>((resolve, reject) => {
+    const s = app.listen(options.port, options.host, () => resolve(s));
+    s.once("error", reject);
+  });
+
+  // --- Idle sessions ---
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const [id, session] of sessions) {
+      if (session.openStreams > 0 || session.lastActiveAt >= cutoff) continue;
+      sessions.delete(id);
+      session.server.close().catch(() => undefined);
+    }
+  }, Math.min(idleTimeoutMs, 60_000));
+  sweep.unref();
+  httpServer.on("close", () => clearInterval(sweep));
+  console.error(
+    `UE5 MCP Server listening on http://${options.host}:${options.port} (Streamable HTTP: /mcp, SSE: /sse, health: /healthz)`
+  );
+
+  return {
+    server: httpServer,
+    async close() {
+      // End the sessions first so their streams finish cleanly, then drop whatever
+      // connections are left (keep-alive sockets would otherwise hold close() open)
+      for (const session of sessions.values()) {
+        await session.transport.close().catch(() => undefined);
+      }
+      const closed = new Promise<void>((resolve, reject) => httpServer.close((err) => (err ? reject(err) : resolve())));
+      httpServer.closeAllConnections();
+      await closed;
+    },
+  };
+}
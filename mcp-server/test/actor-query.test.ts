@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { invalidateActorCache, queryActors } from "../src/lib/actor-query.js";
+import { RcRequest } from "../src/lib/rc-client.js";
+import { fakeClient } from "./fake-rc.js";
+
+const WORLD = "/Game/Maps/Test.Test";
+
+// A level of `count` actors; every third one is a PointLight
+function fakeLevel(count: number) {
+  const paths = Array.from({ length: count }, (_, i) => `${WORLD}:PersistentLevel.Actor_${i}`);
+  const className = (path: string) => (Number(path.split("_").pop()) % 3 === 0 ? "/Script/Engine.PointLight" : "/Script/Engine.StaticMeshActor");
+  const rc = fakeClient((r: RcRequest) => {
+    if (r.path === "/remote/object/describe") return { data: { Class: className(r.body.objectPath) } };
+    switch (r.body?.functionName) {
+      case "GetAllLevelActors":
+        return { data: { ReturnValue: paths } };
+      case "GetEditorWorld":
+        return { data: { ReturnValue: WORLD } };
+      case "GetAllActorsOfClass":
+        // Like the engine: no world, no actors
+        if (r.body.parameters.WorldContextObject !== WORLD) return { data: { OutActors: [] } };
+        return { data: { OutActors: paths.filter((p) => className(p) === r.body.parameters.ActorClass) } };
+      case "GetActorLabel":
+        return { data: { ReturnValue: `Label_${r.body.objectPath.split("_").pop()}` } };
+      default:
+        return {};
+    }
+  });
+  return { rc, paths };
+}
+
+describe("queryActors", () => {
+  beforeEach(() => invalidateActorCache(fakeClient().config));
+
+  it("asks for class members in the editor world, not a subsystem", async () => {
+    const { rc } = fakeLevel(9);
+    const result = await queryActors(rc, { className: "PointLight", sort: "path", fields: [] });
+    assert.equal(result.total, 3);
+    const classCall = rc.sent.find((r) => r.body?.functionName === "GetAllActorsOfClass");
+    assert.equal(classCall?.body.parameters.WorldContextObject, WORLD);
+  });
+
+  it("answers a repeated query from the cache until refresh is asked for", async () => {
+    const { rc } = fakeLevel(10);
+    const first = await queryActors(rc, { className: "PointLight" });
+    assert.ok(first.requests > 0);
+
+    const sent = rc.sent.length;
+    const second = await queryActors(rc, { className: "PointLight" });
+    assert.equal(second.requests, 0);
+    assert.equal(rc.sent.length, sent);
+    assert.deepEqual(second.actors, first.actors);
+
+    const refreshed = await queryActors(rc, { className: "PointLight", refresh: true });
+    assert.ok(refreshed.requests > 0);
+  });
+
+  it("drops cached data once the TTL has passed", async () => {
+    const { rc } = fakeLevel(4);
+    const previous = process.env.UE5_ACTOR_CACHE_TTL_MS;
+    process.env.UE5_ACTOR_CACHE_TTL_MS = "0";
+    try {
+      await queryActors(rc, { fields: ["label"] });
+      const again = await queryActors(rc, { fields: ["label"] });
+      assert.ok(again.requests > 0);
+    } finally {
+      if (previous === undefined) delete process.env.UE5_ACTOR_CACHE_TTL_MS;
+      else process.env.UE5_ACTOR_CACHE_TTL_MS = previous;
+    }
+  });
+
+  it("reads per-actor fields in /remote/batch chunks of at most 200", async () => {
+    const { rc } = fakeLevel(450);
+    const batchSizes: number[] = [];
+    const batch = rc.batch;
+    rc.batch = (requests, options) => {
+      batchSizes.push(requests.length);
+      return batch(requests, options);
+    };
+    const result = await queryActors(rc, { label: "Label_4*", sort: "path", fields: [] });
+    assert.deepEqual(batchSizes, [200, 200, 50]);
+    assert.equal(result.requests, 1 + batchSizes.length);
+    // Actor_4, Actor_40..49 and Actor_400..449
+    assert.equal(result.total, 1 + 10 + 50);
+  });
+
+  it("pages with a cursor and rejects the cursor for a different query", async () => {
+    const { rc, paths } = fakeLevel(5);
+    const first = await queryActors(rc, { sort: "path", limit: 2, fields: [] });
+    assert.deepEqual(
+      first.actors.map((a) => a.path),
+      [...paths].sort().slice(0, 2)
+    );
+    assert.ok(first.nextCursor);
+
+    const second = await queryActors(rc, { sort: "path", limit: 2, fields: [], cursor: first.nextCursor });
+    assert.deepEqual(
+      second.actors.map((a) => a.path),
+      [...paths].sort().slice(2, 4)
+    );
+
+    await assert.rejects(queryActors(rc, { sort: "label", limit: 2, cursor: first.nextCursor }), /different query/);
+  });
+});
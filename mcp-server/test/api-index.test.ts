@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { after, before, describe, it } from "node:test";
+import {
+  API_INDEX_FORMAT,
+  ApiIndexFile,
+  buildApiIndex,
+  getApiIndexPath,
+  getEngineCatalog,
+  loadApiIndex,
+  parseApiIndex,
+  writeApiIndex,
+} from "../src/lib/api-index.js";
+import { registerDocTools } from "../src/tools/documentation.js";
+import { connectTools } from "./tool-client.js";
+
+const ENGINE = fileURLToPath(new URL("./fixtures/engine", import.meta.url));
+
+describe("buildApiIndex", () => {
+  let index: ApiIndexFile;
+
+  before(async () => {
+    index = await buildApiIndex(ENGINE);
+  });
+
+  it("reads the engine version and indexes only Public/Classes headers of modules", () => {
+    assert.equal(index.format, API_INDEX_FORMAT);
+    assert.equal(index.engineVersion, "5.4.2");
+    assert.deepEqual(index.classes.map((c) => c.name).sort(), ["AActor", "ASpotLamp", "ELampMode", "FNiagaraBurst"]);
+  });
+
+  it("takes the module from the Build.cs and the header path from the include root", () => {
+    const byName = new Map(index.classes.map((c) => [c.name, c]));
+    assert.deepEqual([byName.get("AActor")!.module, byName.get("AActor")!.headerPath], ["Engine", "GameFramework/Actor.h"]);
+    assert.deepEqual([byName.get("ASpotLamp")!.module, byName.get("ASpotLamp")!.headerPath], ["Engine", "Lights/SpotLamp.h"]);
+    assert.deepEqual([byName.get("FNiagaraBurst")!.module, byName.get("FNiagaraBurst")!.headerPath], ["Niagara", "NiagaraBurst.h"]);
+    assert.equal(byName.get("ASpotLamp")!.file, "Engine/Source/Runtime/Engine/Public/Lights/SpotLamp.h");
+  });
+
+  it("keeps curated categories and uses the plugin category or source group otherwise", () => {
+    const category = (name: string) => index.classes.find((c) => c.name === name)!.category;
+    assert.equal(category("AActor"), "Framework");
+    assert.equal(category("ASpotLamp"), "Runtime");
+    assert.equal(category("FNiagaraBurst"), "FX");
+    assert.deepEqual(index.categories, ["Runtime", "Framework", "FX"]);
+  });
+
+  it("drops members unless asked to keep them", async () => {
+    assert.ok(index.classes.every((c) => c.properties.length === 0 && c.functions.length === 0));
+    const full = await buildApiIndex(ENGINE, { includeMembers: true });
+    assert.deepEqual(full.classes.find((c) => c.name === "ASpotLamp")!.properties.map((p) => p.name), ["ConeAngle"]);
+  });
+
+  it("refuses a directory without modules", async () => {
+    await assert.rejects(buildApiIndex(join(ENGINE, "Engine", "Build")), /Is this an engine directory/);
+  });
+});
+
+describe("loading the API index", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ue5-mcp-api-index-"));
+  });
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  it("defaults to the user cache directory rather than the working directory", () => {
+    const configured = process.env.UE5_API_INDEX;
+    try {
+      delete process.env.UE5_API_INDEX;
+      const path = getApiIndexPath();
+      assert.ok(path.endsWith(join("ue5-mcp-server", "api-index.json")));
+      assert.ok(!path.startsWith(join(process.cwd(), "ue5-mcp-server")));
+      process.env.UE5_API_INDEX = "custom/index.json";
+      assert.equal(getApiIndexPath(), resolve("custom/index.json"));
+    } finally {
+      if (configured === undefined) delete process.env.UE5_API_INDEX;
+      else process.env.UE5_API_INDEX = configured;
+    }
+  });
+
+  it("rejects files in another format", () => {
+    assert.throws(() => parseApiIndex(JSON.stringify({ format: API_INDEX_FORMAT + 1, classes: [] })), /unsupported index format/);
+  });
+
+  it("keeps the built-in list when the file is missing or unreadable", async () => {
+    assert.equal(loadApiIndex(join(dir, "missing.json")).source, "built-in");
+    const broken = join(dir, "broken.json");
+    await writeFile(broken, "{ not json", "utf-8");
+    assert.equal(loadApiIndex(broken).source, "built-in");
+  });
+
+  it("switches the catalog to a generated index", async () => {
+    const path = join(dir, "index.json");
+    await writeApiIndex(await buildApiIndex(ENGINE), path);
+    const catalog = loadApiIndex(path);
+    assert.equal(catalog.source, path);
+    assert.equal(catalog.engineVersion, "5.4.2");
+    assert.equal(getEngineCatalog(), catalog);
+  });
+
+  it("builds, writes and loads an index with ue5_build_api_index", async () => {
+    const tools = await connectTools(registerDocTools);
+    try {
+      const path = join(dir, "built.json");
+      const built = await tools.call("ue5_build_api_index", { engine_path: ENGINE, output_path: path });
+      assert.equal(built.isError, undefined, built.content[0].text);
+      const written = parseApiIndex(await readFile(path, "utf-8"));
+      assert.equal(built.structuredContent.path, path);
+      assert.equal(built.structuredContent.total, written.classes.length);
+      assert.equal(built.structuredContent.engineVersion, written.engineVersion);
+      assert.equal(getEngineCatalog().source, path);
+    } finally {
+      await tools.close();
+    }
+  });
+
+  it("answers ue5_search_api from the loaded index", async () => {
+    const tools = await connectTools(registerDocTools);
+    try {
+      const lamp = await tools.call("ue5_search_api", { query: "lamp" });
+      assert.deepEqual(lamp.structuredContent.classes.map((c: any) => c.name), ["ASpotLamp", "ELampMode"]);
+      const fx = await tools.call("ue5_search_api", { query: "niagara", category: "FX" });
+      assert.deepEqual(fx.structuredContent.classes.map((c: any) => c.name), ["FNiagaraBurst"]);
+    } finally {
+      await tools.close();
+    }
+  });
+});
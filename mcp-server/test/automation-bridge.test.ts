@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { AddressInfo, createServer, Server, Socket } from "node:net";
+import { after, before, describe, it } from "node:test";
+import {
+  AutomationBridgeClient,
+  AutomationBridgeConfig,
+  BridgeActionError,
+  BridgeConnectionError,
+  BridgeTimeoutError,
+  encodeFrame,
+  FrameDecoder,
+  isLoopbackAddress,
+  MAX_FRAME_BYTES,
+} from "../src/lib/automation-bridge.js";
+import { MockAutomationBridge, startMockAutomationBridge } from "../src/testing/mock-automation-bridge.js";
+
+const config = (port: number): AutomationBridgeConfig => ({
+  host: "127.0.0.1",
+  port,
+  timeoutMs: 300,
+  allowNonLoopback: false,
+  connectAttempts: 1,
+  reconnectDelayMs: 0,
+});
+
+describe("encodeFrame", () => {
+  it("prefixes the UTF-8 JSON with its byte length", () => {
+    const frame = encodeFrame({ label: "Lämp" });
+    const body = JSON.stringify({ label: "Lämp" });
+    assert.equal(frame.readUInt32BE(0), Buffer.byteLength(body));
+    assert.equal(frame.subarray(4).toString("utf-8"), body);
+  });
+});
+
+describe("FrameDecoder", () => {
+  it("waits for a frame split across chunks, even inside the header", () => {
+    const frame = encodeFrame({ requestId: 1, result: "ok" });
+    const decoder = new FrameDecoder();
+    assert.deepEqual(decoder.push(frame.subarray(0, 2)), []);
+    assert.deepEqual(decoder.push(frame.subarray(2, 9)), []);
+    assert.deepEqual(decoder.push(frame.subarray(9)), [{ requestId: 1, result: "ok" }]);
+  });
+
+  it("returns every frame merged into one chunk and keeps the remainder", () => {
+    const third = encodeFrame({ n: 3 });
+    const decoder = new FrameDecoder();
+    const chunk = Buffer.concat([encodeFrame({ n: 1 }), encodeFrame({ n: 2 }), third.subarray(0, 5)]);
+    assert.deepEqual(decoder.push(chunk), [{ n: 1 }, { n: 2 }]);
+    assert.deepEqual(decoder.push(third.subarray(5)), [{ n: 3 }]);
+  });
+
+  it("rejects frames over the size limit", () => {
+    const header = Buffer.alloc(4);
+    header.writeUInt32BE(MAX_FRAME_BYTES + 1);
+    assert.throws(() => new FrameDecoder().push(header), /exceeds/);
+  });
+});
+
+describe("isLoopbackAddress", () => {
+  it("accepts IPv4 loopback, ::1 and IPv4-mapped loopback", () => {
+    for (const address of ["127.0.0.1", "127.10.0.3", "::1", "::ffff:127.0.0.1", "::FFFF:127.0.0.1"]) {
+      assert.equal(isLoopbackAddress(address), true, address);
+    }
+  });
+
+  it("rejects everything else", () => {
+    for (const address of ["10.0.0.5", "0.0.0.0", "::", "::ffff:10.0.0.5", "fe80::1", "128.0.0.1"]) {
+      assert.equal(isLoopbackAddress(address), false, address);
+    }
+  });
+});
+
+describe("AutomationBridgeClient", () => {
+  let bridge: MockAutomationBridge;
+  // Accepts connections and never answers
+  let silent: Server;
+  const silentSockets = new Set<Socket>();
+
+  before(async () => {
+    bridge = await startMockAutomationBridge({ port: 0 });
+    silent = createServer((socket) => {
+      silentSockets.add(socket);
+      socket.on("close", () => silentSockets.delete(socket));
+    });
+    await new Promise<void>((resolve) => silent.listen(0, "127.0.0.1", resolve));
+  });
+  after(async () => {
+    await bridge.close();
+    for (const socket of silentSockets) socket.destroy();
+    await new Promise<void>((resolve) => silent.close(() => resolve()));
+  });
+
+  it("matches responses to requests and surfaces action errors", async () => {
+    const client = new AutomationBridgeClient(config(bridge.port));
+    try {
+      const [ping, again] = await Promise.all([client.request("ping"), client.request("ping")]);
+      assert.ok(ping.actions.includes("spawn_actor"));
+      assert.deepEqual(again, ping);
+      await assert.rejects(client.request("no_such_action"), BridgeActionError);
+    } finally {
+      client.close();
+    }
+  });
+
+  it("reconnects after the editor drops the connection", async () => {
+    const client = new AutomationBridgeClient(config(bridge.port));
+    try {
+      await client.request("ping");
+      bridge.dropConnections();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      assert.ok((await client.request("ping")).pluginVersion);
+    } finally {
+      client.close();
+    }
+  });
+
+  it("times out a request the editor never answers", async () => {
+    const client = new AutomationBridgeClient(config((silent.address() as AddressInfo).port));
+    try {
+      await assert.rejects(client.request("ping"), BridgeTimeoutError);
+      assert.equal((client as any).pending.size, 0);
+    } finally {
+      client.close();
+    }
+  });
+
+  it("fails at once when the socket is no longer writable", async () => {
+    const client = new AutomationBridgeClient(config(bridge.port));
+    try {
+      await client.connect();
+      // Half-closed: still attached, not yet destroyed, but nothing more can be written
+      (client as any).socket.end();
+      await assert.rejects(client.request("ping"), BridgeConnectionError);
+      assert.equal((client as any).pending.size, 0);
+    } finally {
+      client.close();
+    }
+  });
+});
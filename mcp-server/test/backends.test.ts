@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { BackendUnsupportedError, getEditorBackend, getRemoteControlClient, useBackend } from "../src/backends/index.js";
+
+describe("getRemoteControlClient", () => {
+  afterEach(() => useBackend("remote-control"));
+
+  it("returns the editor's client on the remote-control backend", () => {
+    useBackend("remote-control");
+    assert.equal(typeof getRemoteControlClient("ue5_batch").batch, "function");
+  });
+
+  it("refuses on other backends instead of reaching past them", () => {
+    for (const backend of ["mock", "automation-bridge"] as const) {
+      useBackend(backend);
+      assert.throws(
+        () => getRemoteControlClient("ue5_batch"),
+        (err: unknown) => err instanceof BackendUnsupportedError && err.message.includes(backend) && err.hint.includes("ue5_use_backend")
+      );
+    }
+  });
+});
+
+describe("getEditorBackend", () => {
+  afterEach(() => useBackend("remote-control"));
+
+  it("loads one mock level and keeps it across switches", async () => {
+    useBackend("mock");
+    const mock = await getEditorBackend();
+    assert.equal(mock.kind, "mock");
+    const { actorPath } = await mock.spawnActor({ classPath: "/Script/Engine.PointLight", transaction: "Spawn" });
+
+    useBackend("remote-control");
+    assert.equal((await getEditorBackend()).kind, "remote-control");
+    useBackend("mock");
+    const again = await getEditorBackend();
+    assert.equal(again, mock);
+    assert.ok((await again.query({})).actors.some((a) => a.path === actorPath));
+  });
+});
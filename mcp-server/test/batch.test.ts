@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { rcBatch, RcClientConfig } from "../src/lib/rc-client.js";
+import { addMockActor, createMockLevelState } from "../src/testing/mock-rc-server.js";
+import { connectToMockEditor, MockEditorClient } from "./mock-editor-client.js";
+
+const config = (port: number): RcClientConfig => ({ host: "127.0.0.1", port, timeoutMs: 2000, retries: 0, retryDelayMs: 0 });
+
+describe("rcBatch", () => {
+  let server: Server;
+  let port: number;
+
+  before(async () => {
+    // Answers every batch with one OK item and one item that carries no status
+    server = createServer((req, res) => {
+      req.resume().on("end", () => {
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify({ Responses: [{ RequestId: 0, ResponseCode: 200, ResponseBody: "{\"ReturnValue\":true}" }, { RequestId: 1 }] }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it("parses string bodies and counts an item without a status as failed", async () => {
+    const request = { path: "/remote/object/call", method: "PUT" as const, body: { objectPath: "/Game/A", functionName: "F" } };
+    const [first, second] = await rcBatch([request, request], config(port));
+    assert.deepEqual([first.ok, first.status, first.data], [true, 200, { ReturnValue: true }]);
+    assert.deepEqual([second.ok, second.status], [false, 0]);
+  });
+});
+
+describe("ue5_batch", () => {
+  let mock: MockEditorClient;
+  let actorPath: string;
+
+  before(async () => {
+    const state = createMockLevelState();
+    actorPath = addMockActor(state, "/Script/Engine.PointLight", { label: "Lamp" }).path;
+    mock = await connectToMockEditor("batch-test", state);
+  });
+  after(() => mock.close());
+
+  it("reports each operation from its own status", async () => {
+    const result = await mock.call("ue5_batch", {
+      operations: [
+        { type: "call", object_path: actorPath, function_name: "SetActorLabel", parameters: { NewActorLabel: "Lamp2" } },
+        { type: "call", object_path: "/Game/Missing.Missing:PersistentLevel.Nothing", function_name: "SetActorLabel", parameters: {} },
+      ],
+    });
+    assert.equal(result.isError, undefined);
+    const { succeeded, failed, results } = result.structuredContent;
+    assert.deepEqual([succeeded, failed], [1, 1]);
+    assert.deepEqual(results.map((r: any) => [r.ok, r.status >= 400]), [[true, false], [false, true]]);
+    assert.equal(mock.editor.state.actors.get(actorPath)!.label, "Lamp2");
+    assert.match(result.content[0].text, /2\. \[FAIL\].*Object not found/);
+  });
+});
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { listValues, parseRulesFile } from "../src/lib/build-cs.js";
+
+const BUILD_CS = `// Copyright Epic Games, Inc. All Rights Reserved.
+
+using UnrealBuildTool;
+
+public class MyGame : ModuleRules
+{
+	public MyGame(ReadOnlyTargetRules Target) : base(Target)
+	{
+		PCHUsage = PCHUsageMode.UseExplicitOrSharedPCHs;
+
+		PublicDependencyModuleNames.AddRange(new string[] { "Core", "CoreUObject", "Engine", "InputCore" });
+
+		PrivateDependencyModuleNames.Add("Slate");
+		// PrivateDependencyModuleNames.Add("OnlineSubsystem");
+		/* PrivateDependencyModuleNames.Add("SlateCore"); */
+
+		if (Target.bBuildEditor)
+		{
+			PrivateDependencyModuleNames.AddRange(new[] { "UnrealEd", "LevelEditor" });
+		}
+		else
+		{
+			PrivateDependencyModuleNames.Add("GameplayTags");
+		}
+
+		if (Target.Platform == UnrealTargetPlatform.Win64) PublicDefinitions.Add("WITH_D3D=1");
+
+		PublicIncludePaths.Add(Path.Combine(ModuleDirectory, "Public"));
+	}
+}
+`;
+
+describe("parseRulesFile", () => {
+  const rules = parseRulesFile(BUILD_CS, "Source/MyGame/MyGame.Build.cs")!;
+
+  it("reads the module name and top-level settings", () => {
+    assert.deepEqual([rules.name, rules.kind], ["MyGame", "module"]);
+    assert.deepEqual(rules.settings, { PCHUsage: "PCHUsageMode.UseExplicitOrSharedPCHs" });
+  });
+
+  it("reads AddRange and Add calls in order, skipping commented-out lines", () => {
+    assert.deepEqual(listValues(rules, "PublicDependencyModuleNames"), ["Core", "CoreUObject", "Engine", "InputCore"]);
+    assert.deepEqual(listValues(rules, "PrivateDependencyModuleNames"), ["Slate", "UnrealEd", "LevelEditor", "GameplayTags"]);
+  });
+
+  it("marks entries inside if/else blocks and inline ifs as conditional", () => {
+    const conditions = rules.lists.PrivateDependencyModuleNames.map((e) => [e.value, e.conditional, e.condition]);
+    assert.deepEqual(conditions, [
+      ["Slate", false, undefined],
+      ["UnrealEd", true, "if (Target.bBuildEditor)"],
+      ["LevelEditor", true, "if (Target.bBuildEditor)"],
+      ["GameplayTags", true, "else"],
+    ]);
+    assert.deepEqual(rules.lists.PublicDefinitions[0], {
+      value: "WITH_D3D=1",
+      literal: true,
+      conditional: true,
+      condition: "if (Target.Platform == UnrealTargetPlatform.Win64)",
+      line: 26,
+    });
+  });
+
+  it("keeps non-literal entries as written", () => {
+    assert.deepEqual(listValues(rules, "PublicIncludePaths"), []);
+    assert.deepEqual(listValues(rules, "PublicIncludePaths", true), ['Path.Combine(ModuleDirectory, "Public")']);
+  });
+
+  it("reads a target's name and module list", () => {
+    const target = parseRulesFile(
+      `public class MyGameEditorTarget : TargetRules
+{
+	public MyGameEditorTarget(TargetInfo Target) : base(Target)
+	{
+		Type = TargetType.Editor;
+		ExtraModuleNames.Add("MyGame");
+	}
+}`,
+      "Source/MyGameEditor.Target.cs"
+    )!;
+    assert.deepEqual([target.name, target.kind, target.settings.Type], ["MyGameEditor", "target", "TargetType.Editor"]);
+    assert.deepEqual(listValues(target, "ExtraModuleNames"), ["MyGame"]);
+  });
+
+  it("returns undefined for a file without a rules class", () => {
+    assert.equal(parseRulesFile("public class Helper {}", "Helper.cs"), undefined);
+  });
+});
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { describe, it } from "node:test";
+import { z } from "zod";
+import { addDeclarations, addDefinitions, declaresMember, findClassBody } from "../src/lib/class-edit.js";
+import { ClassSpec, renderClassSpec } from "../src/lib/class-members.js";
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/class-edit/${name}`, import.meta.url), "utf-8");
+
+function render(className: string, spec: z.input<typeof ClassSpec>, propertyAccess?: "public" | "protected") {
+  return renderClassSpec(ClassSpec.parse(spec), {
+    className,
+    category: className.slice(1),
+    ownerIsActor: className.startsWith("A"),
+    propertyAccess,
+  });
+}
+
+describe("findClassBody", () => {
+  it("finds the definition past comments, strings and nested types", () => {
+    const source = fixture("Turret.h");
+    const body = findClassBody(source, "ATurret");
+    assert.equal(body.kind, "class");
+    assert.equal(source[body.open], "{");
+    assert.equal(source[body.close], "}");
+    assert.equal(source.slice(body.close), "};\n");
+  });
+
+  it("skips forward declarations", () => {
+    const source = "class AFoo;\n\nUCLASS()\nclass AFoo : public AActor\n{\n\tGENERATED_BODY()\n};\n";
+    const body = findClassBody(source, "AFoo");
+    assert.equal(source.lastIndexOf("{"), body.open);
+  });
+
+  it("reads structs", () => {
+    assert.equal(findClassBody(fixture("Stats.h"), "FStats").kind, "struct");
+  });
+
+  it("throws when the class is not defined", () => {
+    assert.throws(() => findClassBody(fixture("Turret.h"), "AMissing"), /No definition of AMissing/);
+  });
+});
+
+describe("declaresMember", () => {
+  it("sees members but not text in comments or nested types' names", () => {
+    const source = fixture("Turret.h");
+    const body = findClassBody(source, "ATurret");
+    assert.equal(declaresMember(source, body, "Range"), true);
+    assert.equal(declaresMember(source, body, "Aim"), true);
+    assert.equal(declaresMember(source, body, "Braces"), false);
+  });
+});
+
+describe("addDeclarations", () => {
+  it("appends to the last section with the same access", () => {
+    const source = fixture("Turret.h");
+    const code = render("ATurret", { properties: [{ name: "Damage", type: "float" }] });
+    const result = addDeclarations(source, findClassBody(source, "ATurret"), code.declarations);
+    assert.match(
+      result,
+      /void Aim\(\) \{ if \(bArmed\) \{ Fire\(\); \} \}\n\n\tUPROPERTY\(EditAnywhere, BlueprintReadWrite, Category = "Turret"\)\n\tfloat Damage;\n\nprivate:/
+    );
+  });
+
+  it("adds a section for an access the class does not have yet", () => {
+    const source = fixture("Stats.h");
+    const code = render("FStats", { functions: [{ name: "Reset", kind: "Plain", access: "private" }] });
+    const result = addDeclarations(source, findClassBody(source, "FStats"), code.declarations);
+    assert.ok(result.endsWith("\tfloat Health = 100.f;\n\nprivate:\n\tUFUNCTION()\n\tvoid Reset();\n};\n"));
+  });
+
+  it("puts struct properties in the implicit public section", () => {
+    const source = fixture("Stats.h");
+    const code = render("FStats", { properties: [{ name: "Armor", type: "float" }] }, "public");
+    const result = addDeclarations(source, findClassBody(source, "FStats"), code.declarations);
+    assert.ok(result.includes("\tfloat Health = 100.f;\n\n\tUPROPERTY(EditAnywhere, BlueprintReadWrite, Category = \"Stats\")\n\tfloat Armor;\n};"));
+    assert.ok(!result.includes("public:"));
+  });
+
+  it("does not insert after an access label inside an #if block", () => {
+    const source = fixture("EditorTurret.h");
+    const body = findClassBody(source, "AEditorTurret");
+    const code = render("AEditorTurret", {
+      properties: [{ name: "Damage", type: "float" }],
+      functions: [{ name: "Fire" }],
+    });
+    const result = addDeclarations(source, body, code.declarations);
+    // The protected property goes before the block; the public function gets its own section at the end
+    assert.ok(result.indexOf("float Damage;") < result.indexOf("#if WITH_EDITOR"));
+    assert.ok(result.indexOf("void Fire();") > result.indexOf("void AfterBlock();"));
+    assert.match(result, /void AfterBlock\(\);\n\npublic:\n\tUFUNCTION\(BlueprintCallable, Category = "EditorTurret"\)\n\tvoid Fire\(\);\n\};/);
+  });
+
+  it("keeps CRLF line endings and space indentation", () => {
+    const source = fixture("Stats.h").replace(/\t/g, "    ").replace(/\n/g, "\r\n");
+    const code = render("FStats", { properties: [{ name: "Armor", type: "float" }] }, "public");
+    const result = addDeclarations(source, findClassBody(source, "FStats"), code.declarations);
+    assert.ok(result.includes("\r\n    float Armor;\r\n"));
+    assert.ok(!/[^\r]\n/.test(result));
+  });
+});
+
+describe("addDefinitions", () => {
+  const replicated = (className: string) =>
+    render(className, { properties: [{ name: "Heat", type: "float", rep_notify: true }] });
+
+  it("creates GetLifetimeReplicatedProps and the UnrealNetwork include", () => {
+    const result = addDefinitions(fixture("Turret.cpp"), "ATurret", replicated("ATurret"));
+    assert.match(result, /#include "Turret.h"\n#include "Net\/UnrealNetwork.h"\n/);
+    assert.match(
+      result,
+      /void ATurret::GetLifetimeReplicatedProps\(TArray<FLifetimeProperty>& OutLifetimeProps\) const\n\{\n\tSuper::GetLifetimeReplicatedProps\(OutLifetimeProps\);\n\n\tDOREPLIFETIME\(ATurret, Heat\);\n\}\n/
+    );
+    assert.ok(result.trimEnd().endsWith("void ATurret::OnRep_Heat()\n{\n\t// React to the new Heat on clients\n}"));
+    assert.ok(result.indexOf("GetLifetimeReplicatedProps") < result.indexOf("OnRep_Heat"));
+  });
+
+  it("adds to an existing GetLifetimeReplicatedProps", () => {
+    const source = fixture("ReplicatedTurret.cpp");
+    const result = addDefinitions(source, "AReplicatedTurret", replicated("AReplicatedTurret"));
+    assert.equal(result.match(/GetLifetimeReplicatedProps\(TArray/g)?.length, 1);
+    assert.equal(result.match(/#include "Net\/UnrealNetwork.h"/g)?.length, 1);
+    assert.match(result, /\tDOREPLIFETIME\(AReplicatedTurret, Ammo\);\n\tDOREPLIFETIME\(AReplicatedTurret, Heat\);\n\}/);
+  });
+
+  it("only appends definitions when nothing replicates", () => {
+    const source = fixture("Turret.cpp");
+    const code = render("ATurret", { functions: [{ name: "ServerFire", kind: "Server", with_validation: true }] });
+    const result = addDefinitions(source, "ATurret", code);
+    assert.ok(result.startsWith(source.trimEnd()));
+    assert.ok(!result.includes("UnrealNetwork"));
+    assert.match(result, /void ATurret::ServerFire_Implementation\(\)\n\{\n\}\n\nbool ATurret::ServerFire_Validate\(\)\n\{\n\treturn true;\n\}\n$/);
+  });
+});
+
+describe("renderClassSpec", () => {
+  it("rejects components on classes that are not actors", () => {
+    const spec = { components: [{ name: "Mesh", type: "UStaticMeshComponent" }] };
+    assert.throws(() => render("UInventory", spec), /only be added to actor classes/);
+    assert.throws(() => render("FStats", spec), /only be added to actor classes/);
+    assert.match(render("ATurret", spec).constructor[0], /CreateDefaultSubobject<UStaticMeshComponent>/);
+  });
+});
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ClassSpec, renderClassSpec, specReplicates } from "../src/lib/class-members.js";
+
+const target = { className: "AMyCharacter", category: "MyCharacter", ownerIsActor: true };
+
+describe("renderClassSpec", () => {
+  it("declares replicated properties and their DOREPLIFETIME entries", () => {
+    const spec = ClassSpec.parse({
+      properties: [
+        { name: "Health", type: "float", default: "100.f", rep_notify: true },
+        { name: "Ammo", type: "int32", replicated: true, rep_condition: "COND_OwnerOnly" },
+        { name: "Speed", type: "float" },
+      ],
+    });
+    const code = renderClassSpec(spec, target);
+
+    assert.deepEqual(code.declarations.protected, [
+      '\tUPROPERTY(EditAnywhere, BlueprintReadWrite, ReplicatedUsing = OnRep_Health, Category = "MyCharacter")\n\tfloat Health = 100.f;\n',
+      '\tUPROPERTY(EditAnywhere, BlueprintReadWrite, Replicated, Category = "MyCharacter")\n\tint32 Ammo;\n',
+      '\tUPROPERTY(EditAnywhere, BlueprintReadWrite, Category = "MyCharacter")\n\tfloat Speed;\n',
+      "\tUFUNCTION()\n\tvoid OnRep_Health();\n",
+    ]);
+    assert.deepEqual(code.replicated, [
+      "DOREPLIFETIME(AMyCharacter, Health);",
+      "DOREPLIFETIME_CONDITION(AMyCharacter, Ammo, COND_OwnerOnly);",
+    ]);
+    assert.deepEqual(code.definitions, ["void AMyCharacter::OnRep_Health()\n{\n\t// React to the new Health on clients\n}\n"]);
+    assert.equal(specReplicates(spec), true);
+  });
+
+  it("generates _Implementation and _Validate stubs for RPCs", () => {
+    const spec = ClassSpec.parse({
+      functions: [
+        { name: "ServerFire", kind: "Server", params: "FVector Direction, float Spread = 0.f", with_validation: true },
+        { name: "MulticastHit", kind: "NetMulticast", reliable: false },
+      ],
+    });
+    const code = renderClassSpec(spec, target);
+
+    assert.deepEqual(code.declarations.public, [
+      "\tUFUNCTION(Server, Reliable, WithValidation)\n\tvoid ServerFire(FVector Direction, float Spread = 0.f);\n",
+      "\tUFUNCTION(NetMulticast, Unreliable)\n\tvoid MulticastHit();\n",
+    ]);
+    assert.deepEqual(code.definitions, [
+      "void AMyCharacter::ServerFire_Implementation(FVector Direction, float Spread)\n{\n}\n",
+      "bool AMyCharacter::ServerFire_Validate(FVector Direction, float Spread)\n{\n\treturn true;\n}\n",
+      "void AMyCharacter::MulticastHit_Implementation()\n{\n}\n",
+    ]);
+    assert.equal(specReplicates(spec), true);
+  });
+
+  it("makes BlueprintPure functions const and leaves implementable events to Blueprint", () => {
+    const spec = ClassSpec.parse({
+      functions: [
+        { name: "GetHealth", kind: "BlueprintPure", return_type: "float" },
+        { name: "OnDied", kind: "BlueprintImplementableEvent" },
+      ],
+    });
+    const code = renderClassSpec(spec, target);
+    assert.deepEqual(code.declarations.public, [
+      '\tUFUNCTION(BlueprintPure, Category = "MyCharacter")\n\tfloat GetHealth() const;\n',
+      '\tUFUNCTION(BlueprintImplementableEvent, BlueprintCallable, Category = "MyCharacter")\n\tvoid OnDied();\n',
+    ]);
+    assert.deepEqual(code.definitions, ["float AMyCharacter::GetHealth() const\n{\n\treturn {};\n}\n"]);
+    assert.equal(specReplicates(spec), false);
+  });
+
+  it("creates components, sets the root and attaches the rest", () => {
+    const spec = ClassSpec.parse({
+      components: [
+        { name: "Mesh", type: "UStaticMeshComponent", attach_to: "Root", include: "Components/StaticMeshComponent.h" },
+        { name: "Root", type: "USceneComponent", root: true, include: "Components/SceneComponent.h" },
+      ],
+    });
+    const code = renderClassSpec(spec, target);
+    assert.deepEqual(code.constructor, [
+      'Mesh = CreateDefaultSubobject<UStaticMeshComponent>(TEXT("Mesh"));',
+      'Root = CreateDefaultSubobject<USceneComponent>(TEXT("Root"));',
+      "RootComponent = Root;",
+      "Mesh->SetupAttachment(Root);",
+    ]);
+    assert.deepEqual(code.sourceIncludes, ["Components/StaticMeshComponent.h", "Components/SceneComponent.h"]);
+  });
+
+  it("refuses specs that cannot compile", () => {
+    const render = (spec: unknown, owner = target) => () => renderClassSpec(ClassSpec.parse(spec), owner);
+    assert.throws(render({ functions: [{ name: "Fire", kind: "BlueprintCallable", with_validation: true }] }), /with_validation only applies/);
+    assert.throws(render({ functions: [{ name: "ServerGet", kind: "Server", return_type: "int32" }] }), /RPCs must return void/);
+    assert.throws(render({ properties: [{ name: "Health", type: "float" }], functions: [{ name: "Health" }] }), /declared more than once/);
+    assert.throws(
+      render({ components: [{ name: "Mesh", type: "UStaticMeshComponent" }] }, { ...target, className: "UMyObject", ownerIsActor: false }),
+      /only be added to actor classes/
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { placeClassFiles } from "../src/lib/class-placement.js";
+
+const BUILD_CS = `using UnrealBuildTool;
+
+public class MyGame : ModuleRules
+{
+	public MyGame(ReadOnlyTargetRules Target) : base(Target)
+	{
+		PublicDependencyModuleNames.AddRange(new string[] { "Core", "CoreUObject", "Engine" });
+	}
+}
+`;
+
+describe("placeClassFiles", () => {
+  let project: string;
+  let moduleDir: string;
+  before(async () => {
+    project = await mkdtemp(join(tmpdir(), "ue5-mcp-placement-"));
+    moduleDir = join(project, "Source", "MyGame");
+    await mkdir(join(moduleDir, "Public", "Characters"), { recursive: true });
+    await mkdir(join(moduleDir, "Private"), { recursive: true });
+    await writeFile(join(project, "MyGame.uproject"), JSON.stringify({ FileVersion: 3, Modules: [{ Name: "MyGame", Type: "Runtime" }] }));
+    await writeFile(join(moduleDir, "MyGame.Build.cs"), BUILD_CS);
+  });
+  after(async () => {
+    await rm(project, { recursive: true, force: true });
+  });
+
+  it("uses an existing folder for the class type", async () => {
+    const placement = await placeClassFiles(project, "MyGame", "Hero", ["Characters"]);
+    assert.equal(placement.headerPath, join(moduleDir, "Public", "Characters", "Hero.h"));
+    assert.equal(placement.sourcePath, join(moduleDir, "Private", "Characters", "Hero.cpp"));
+    assert.equal(placement.includePath, "Characters/Hero.h");
+  });
+
+  it("accepts nested subfolders", async () => {
+    const placement = await placeClassFiles(project, "MyGame", "Sword", [], "Items/Weapons/");
+    assert.equal(placement.headerPath, join(moduleDir, "Public", "Items", "Weapons", "Sword.h"));
+    assert.equal(placement.includePath, "Items/Weapons/Sword.h");
+  });
+
+  for (const subfolder of ["../../../escape", "Items/../../..", "/tmp/escape", "C:\\Windows", "./Items"]) {
+    it(`rejects subfolder ${JSON.stringify(subfolder)}`, async () => {
+      await assert.rejects(placeClassFiles(project, "MyGame", "Bar", [], subfolder), /subfolder/);
+    });
+  }
+
+  it("rejects file names that leave the module", async () => {
+    await assert.rejects(placeClassFiles(project, "MyGame", "../../../evil", []), /outside the module folder/);
+  });
+});
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join, relative, sep } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { configFilePaths, findKey, loadConfigHierarchy, resolveConfig } from "../src/lib/config-hierarchy.js";
+
+describe("configFilePaths", () => {
+  it("layers files in the engine's order", () => {
+    const files = configFilePaths({ projectPath: "/p", enginePath: "/e", category: "Game", platform: "Windows" });
+    assert.deepEqual(
+      files.map((f) => [f.layer, f.path.split(sep).join("/")]),
+      [
+        ["Base", "/e/Engine/Config/Base.ini"],
+        ["Base", "/e/Engine/Config/BaseGame.ini"],
+        ["Base", "/e/Engine/Config/Windows/BaseWindowsGame.ini"],
+        ["Default", "/p/Config/DefaultGame.ini"],
+        ["Platform", "/e/Engine/Config/Windows/WindowsGame.ini"],
+        ["Platform", "/p/Config/Windows/WindowsGame.ini"],
+        ["Saved", "/p/Saved/Config/WindowsEditor/Game.ini"],
+        ["Saved", "/p/Saved/Config/Windows/Game.ini"],
+      ]
+    );
+  });
+
+  it("leaves out engine and platform files it has no directory or platform for", () => {
+    assert.deepEqual(
+      configFilePaths({ projectPath: "/p", category: "Engine" }).map((f) => f.layer),
+      ["Default"]
+    );
+  });
+});
+
+describe("resolveConfig", () => {
+  let root: string;
+  const files: Record<string, string> = {
+    "Engine/Engine/Config/BaseGame.ini": "[/Script/Game.Settings]\nSpeed=1\n+Maps=/Game/Base\nColor=Red\n",
+    "Engine/Engine/Config/Linux/BaseLinuxGame.ini": "[/Script/Game.Settings]\nSpeed=2\nColor=Blue\n",
+    "Project/Config/DefaultGame.ini": "[/script/game.settings]\nSpeed=3\n+Maps=/Game/Level\n",
+    "Project/Config/Linux/LinuxGame.ini": "[/Script/Game.Settings]\n-Maps=/Game/Base\n",
+  };
+
+  before(async () => {
+    root = await mkdtemp(join(tmpdir(), "ue5-mcp-config-"));
+    for (const [path, text] of Object.entries(files)) {
+      await mkdir(dirname(join(root, path)), { recursive: true });
+      await writeFile(join(root, path), text);
+    }
+  });
+  after(() => rm(root, { recursive: true, force: true }));
+
+  it("lets project defaults win over the engine's platform base", async () => {
+    const layers = await loadConfigHierarchy({
+      projectPath: join(root, "Project"),
+      enginePath: join(root, "Engine"),
+      category: "Game",
+      platform: "Linux",
+    });
+    const config = resolveConfig(layers);
+    const speed = findKey(config, "/Script/Game.Settings", "speed")!;
+    assert.deepEqual(speed.values.map((v) => v.value), ["3"]);
+    assert.deepEqual(speed.history.map((v) => v.value), ["1", "2", "3"]);
+    assert.equal(relative(root, speed.values[0].file).split(sep).join("/"), "Project/Config/DefaultGame.ini");
+    // Untouched by the project, so the platform base value stands
+    assert.equal(findKey(config, "/Script/Game.Settings", "Color")!.values[0].value, "Blue");
+    // Array operators carry across files
+    assert.deepEqual(findKey(config, "/Script/Game.Settings", "Maps")!.values.map((v) => v.value), ["/Game/Level"]);
+  });
+});
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { copyFile, mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import { registerCppTools } from "../src/tools/cpp.js";
+import { connectTools, ToolClient } from "./tool-client.js";
+
+const fixture = (name: string) => fileURLToPath(new URL(`./fixtures/class-edit/${name}`, import.meta.url));
+
+describe("ue5_add_member", () => {
+  let root: string;
+  let project: string;
+  let outside: string;
+  let tools: ToolClient;
+
+  before(async () => {
+    root = await mkdtemp(join(tmpdir(), "ue5-mcp-add-member-"));
+    project = join(root, "MyGame");
+    const moduleDir = join(project, "Source", "MyGame");
+    await mkdir(join(moduleDir, "Public"), { recursive: true });
+    await mkdir(join(moduleDir, "Private"), { recursive: true });
+    await copyFile(fixture("Turret.h"), join(moduleDir, "Public", "Turret.h"));
+    await copyFile(fixture("Turret.cpp"), join(moduleDir, "Private", "Turret.cpp"));
+    // A header next to the project, not in it
+    outside = join(root, "Other");
+    await mkdir(outside);
+    await copyFile(fixture("Turret.h"), join(outside, "Turret.h"));
+    await writeFile(join(outside, "Turret.cpp"), "");
+    tools = await connectTools(registerCppTools);
+  });
+  after(async () => {
+    await tools.close();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const addDamage = (paths: Record<string, string>) =>
+    tools.call("ue5_add_member", {
+      project_path: project,
+      class_name: "ATurret",
+      property: { name: "Damage", type: "float" },
+      dry_run: true,
+      ...paths,
+    });
+
+  it("resolves a relative header_path against the project", async () => {
+    const result = await addDamage({ header_path: "Source/MyGame/Public/Turret.h" });
+    assert.equal(result.isError, undefined, result.content[0].text);
+    assert.match(result.content[0].text, /\+\tfloat Damage;/);
+  });
+
+  it("refuses header and source paths outside the project", async () => {
+    for (const paths of [
+      { header_path: "../Other/Turret.h" },
+      { header_path: join(outside, "Turret.h") },
+      { header_path: "Source/MyGame/Public/Turret.h", source_path: join(outside, "Turret.cpp") },
+    ]) {
+      const result = await tools.call("ue5_add_member", {
+        project_path: project,
+        class_name: "ATurret",
+        function: { name: "ServerFire", kind: "Server" },
+        ...paths,
+      });
+      assert.equal(result.isError, true);
+      assert.match(result.content[0].text, /is outside the project/);
+    }
+    assert.equal(await readFile(join(outside, "Turret.cpp"), "utf-8"), "");
+  });
+
+  it("refuses a class_name that is not a C++ identifier", async () => {
+    const result = await addDamage({ class_name: "ATurret; int x", header_path: "Source/MyGame/Public/Turret.h" });
+    assert.equal(result.isError, true);
+  });
+});
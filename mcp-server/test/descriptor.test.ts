@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { addModule, newDescriptorErrors, setPluginEnabled, validateDescriptor } from "../src/lib/descriptor.js";
+
+const UPROJECT = `{
+\t"FileVersion": 3,
+\t"EngineAssociation": "5.4",
+\t"Modules": [
+\t\t{
+\t\t\t"Name": "Game",
+\t\t\t"Type": "Runtime",
+\t\t\t"LoadingPhase": "Default"
+\t\t}
+\t],
+\t"Plugins": [
+\t\t{
+\t\t\t"Name": "ModelingToolsEditorMode",
+\t\t\t"Enabled": true
+\t\t}
+\t]
+}
+`;
+
+describe("descriptor edits", () => {
+  it("appends a plugin reference in the descriptor's own format", () => {
+    const edited = setPluginEnabled(UPROJECT, "RemoteControl", true);
+    assert.ok(edited.includes('\t\t},\n\t\t{\n\t\t\t"Name": "RemoteControl",\n\t\t\t"Enabled": true\n\t\t}\n\t]\n}'));
+  });
+
+  it("flips an existing plugin and leaves an unchanged one alone", () => {
+    assert.equal(setPluginEnabled(UPROJECT, "modelingtoolseditormode", false), UPROJECT.replace('"Enabled": true', '"Enabled": false'));
+    assert.equal(setPluginEnabled(UPROJECT, "ModelingToolsEditorMode", true), UPROJECT);
+  });
+
+  it("creates the Plugins array when there is none", () => {
+    const edited = setPluginEnabled('{\n\t"FileVersion": 3\n}\n', "RemoteControl", true);
+    assert.deepEqual(JSON.parse(edited).Plugins, [{ Name: "RemoteControl", Enabled: true }]);
+  });
+
+  it("appends a module and refuses a duplicate", () => {
+    const edited = addModule(UPROJECT, { Name: "GameEditor", Type: "Editor", LoadingPhase: "PostEngineInit" });
+    assert.deepEqual(JSON.parse(edited).Modules.map((m: any) => m.Name), ["Game", "GameEditor"]);
+    assert.ok(edited.includes('\t\t\t"Name": "GameEditor",\n\t\t\t"Type": "Editor",\n\t\t\t"LoadingPhase": "PostEngineInit"\n'));
+    assert.throws(() => addModule(UPROJECT, { Name: "game", Type: "Runtime", LoadingPhase: "Default" }), /already in the descriptor/);
+  });
+
+  it("keeps a byte order mark through an edit", () => {
+    const edited = setPluginEnabled(`\uFEFF${UPROJECT}`, "RemoteControl", true);
+    assert.ok(edited.startsWith("\uFEFF{"));
+    assert.deepEqual(validateDescriptor("uproject", edited), []);
+  });
+});
+
+describe("validateDescriptor", () => {
+  it("accepts a well-formed project", () => {
+    assert.deepEqual(validateDescriptor("uproject", UPROJECT), []);
+  });
+
+  it("reports an unknown module Type and LoadingPhase with their paths", () => {
+    const broken = UPROJECT.replace('"Type": "Runtime"', '"Type": "Gameplay"').replace('"Default"', '"Whenever"');
+    const issues = validateDescriptor("uproject", broken);
+    assert.deepEqual(
+      issues.map((i) => [i.severity, i.path]),
+      [
+        ["error", "Modules[0].Type"],
+        ["error", "Modules[0].LoadingPhase"],
+      ]
+    );
+    assert.match(issues[0].message, /Unknown Type "Gameplay"; expected one of Runtime, /);
+  });
+
+  it("counts only the errors an edit introduces", () => {
+    const broken = UPROJECT.replace('"Type": "Runtime"', '"Type": "Gameplay"');
+    assert.deepEqual(newDescriptorErrors("uproject", broken, setPluginEnabled(broken, "RemoteControl", true)), []);
+    const duplicated = UPROJECT.replace('"Enabled": true\n\t\t}', '"Enabled": true\n\t\t},\n\t\t{\n\t\t\t"Name": "ModelingToolsEditorMode",\n\t\t\t"Enabled": false\n\t\t}');
+    assert.deepEqual(newDescriptorErrors("uproject", UPROJECT, duplicated).map((i) => i.path), ["Plugins[1]"]);
+  });
+});
@@ -0,0 +1,150 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { DiagnosticCheck, DiagnosticsTarget, parseUeDateTime, RC_SETTINGS_SECTION, runConnectionDiagnostics } from "../src/lib/diagnostics.js";
+import { MockAutomationBridge, startMockAutomationBridge } from "../src/testing/mock-automation-bridge.js";
+import { MockRcServer, startMockRcServer } from "../src/testing/mock-rc-server.js";
+
+const portOf = (server: Server) => (server.address() as AddressInfo).port;
+const closeServer = (server: Server) => new Promise<void>((resolve) => server.close(() => resolve()));
+
+// A port nothing listens on
+async function closedPort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const port = portOf(server);
+  await closeServer(server);
+  return port;
+}
+
+// An HTTP server that answers every request with the given status
+async function startStatusServer(status: number): Promise<Server> {
+  const server = createServer((req, res) => {
+    req.resume().on("end", () => {
+      res.statusCode = status;
+      res.end("{}");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return server;
+}
+
+function target(httpPort: number, wsPort: number, bridgePort: number, extra: Partial<DiagnosticsTarget> = {}): DiagnosticsTarget {
+  return {
+    http: { host: "127.0.0.1", port: httpPort, timeoutMs: 1000, retries: 0, retryDelayMs: 0 },
+    ws: { host: "127.0.0.1", port: wsPort, timeoutMs: 1000 },
+    bridge: { host: "127.0.0.1", port: bridgePort, timeoutMs: 1000, allowNonLoopback: false, connectAttempts: 1, reconnectDelayMs: 0 },
+    bridgeRequired: false,
+    timeoutMs: 500,
+    samples: 2,
+    ...extra,
+  };
+}
+
+function check(checks: DiagnosticCheck[], prefix: string): DiagnosticCheck {
+  const found = checks.find((c) => c.name.startsWith(prefix));
+  assert.ok(found, `no check named ${prefix}…`);
+  return found;
+}
+
+describe("parseUeDateTime", () => {
+  it("reads Remote Control's FDateTime format and ISO strings", () => {
+    assert.equal(parseUeDateTime("2024.05.01-13.45.10"), Date.UTC(2024, 4, 1, 13, 45, 10));
+    assert.equal(parseUeDateTime("2024.05.01-13.45.10.5"), Date.UTC(2024, 4, 1, 13, 45, 10, 500));
+    assert.equal(parseUeDateTime("2024-05-01T13:45:10Z"), Date.UTC(2024, 4, 1, 13, 45, 10));
+    assert.equal(parseUeDateTime("yesterday"), undefined);
+    assert.equal(parseUeDateTime(42), undefined);
+  });
+});
+
+describe("runConnectionDiagnostics", () => {
+  let editor: MockRcServer;
+  let bridge: MockAutomationBridge;
+  let project: string;
+
+  before(async () => {
+    editor = await startMockRcServer({ wsPort: 0 });
+    bridge = await startMockAutomationBridge();
+    project = await mkdtemp(join(tmpdir(), "ue5-diagnose-"));
+    await mkdir(join(project, "Config"));
+  });
+  after(async () => {
+    await Promise.all([editor.close(), bridge.close()]);
+    await rm(project, { recursive: true, force: true });
+  });
+
+  const writeIni = (httpPort: number, wsPort: number) =>
+    writeFile(
+      join(project, "Config", "DefaultEngine.ini"),
+      `[${RC_SETTINGS_SECTION}]\nbAutoStartRemoteControl=True\nRemoteControlHttpServerPort=${httpPort}\nRemoteControlWebSocketServerPort=${wsPort}\n`
+    );
+
+  it("passes every check against a running editor with matching settings", async () => {
+    await writeIni(editor.port, editor.wsPort!);
+    const checks = await runConnectionDiagnostics(target(editor.port, editor.wsPort!, bridge.port, { projectPath: project }));
+    const failed = checks.filter((c) => c.status === "fail" || c.status === "skip");
+    assert.deepEqual(failed, []);
+    assert.match(check(checks, "HTTP GET").detail, /HTTP 200, 6 routes/);
+    assert.match(check(checks, "Round-trip latency").detail, /over 2 calls/);
+    assert.equal(check(checks, "Clock skew").status, "pass");
+    assert.equal(check(checks, "ini: RemoteControlHttpServerPort").status, "pass");
+  });
+
+  it("fails the HTTP port and skips what depends on it when nothing listens", async () => {
+    const checks = await runConnectionDiagnostics(target(await closedPort(), await closedPort(), await closedPort()));
+    assert.equal(check(checks, "DNS resolution").status, "pass");
+
+    const http = check(checks, "TCP 127.0.0.1");
+    assert.equal(http.status, "fail");
+    assert.match(http.remediation!, /RemoteControlHttpServerPort/);
+    // The WebSocket and bridge ports are optional unless the bridge is the active backend
+    assert.equal(checks.find((c) => c.name.includes("Remote Control WebSocket"))!.status, "warn");
+    assert.equal(checks.find((c) => c.name.includes("Automation Bridge"))!.status, "warn");
+    assert.equal(check(checks, "HTTP /remote/info").status, "skip");
+    assert.equal(check(checks, "DefaultEngine.ini").status, "skip");
+  });
+
+  it("fails a closed bridge port when the bridge is the active backend", async () => {
+    const checks = await runConnectionDiagnostics(target(await closedPort(), await closedPort(), await closedPort(), { bridgeRequired: true }));
+    assert.equal(checks.find((c) => c.name.includes("Automation Bridge"))!.status, "fail");
+    assert.equal(checks.find((c) => c.name.includes("Remote Control HTTP"))!.status, "warn");
+  });
+
+  it("tells a missing Remote Control route apart from a passphrase rejection", async () => {
+    const notFound = await startStatusServer(404);
+    const forbidden = await startStatusServer(401);
+    try {
+      const missing = await runConnectionDiagnostics(target(portOf(notFound), editor.wsPort!, bridge.port));
+      const info = check(missing, "HTTP GET");
+      assert.deepEqual([info.status, info.detail], ["fail", "HTTP 404"]);
+      assert.match(info.remediation!, /Something other than Remote Control/);
+      assert.equal(check(missing, "Round-trip latency").status, "skip");
+
+      const locked = check(await runConnectionDiagnostics(target(portOf(forbidden), editor.wsPort!, bridge.port)), "HTTP GET");
+      assert.equal(locked.status, "fail");
+      assert.match(locked.remediation!, /UE5_RC_PASSPHRASE/);
+    } finally {
+      await Promise.all([closeServer(notFound), closeServer(forbidden)]);
+    }
+  });
+
+  it("flags ini ports that differ from the ones the server connects to", async () => {
+    await writeIni(6766, editor.wsPort!);
+    const checks = await runConnectionDiagnostics(target(editor.port, editor.wsPort!, bridge.port, { projectPath: project }));
+    const port = check(checks, "ini: RemoteControlHttpServerPort");
+    assert.equal(port.status, "fail");
+    assert.match(port.detail, new RegExp(`6766 \\(line 3\\), but the server connects to ${editor.port}`));
+    assert.equal(check(checks, "ini: RemoteControlWebSocketServerPort").status, "pass");
+  });
+
+  it("fails the ini check when the project has no DefaultEngine.ini", async () => {
+    const checks = await runConnectionDiagnostics(target(editor.port, editor.wsPort!, bridge.port, { projectPath: join(project, "Missing") }));
+    const ini = check(checks, "DefaultEngine.ini");
+    assert.equal(ini.status, "fail");
+    assert.match(ini.detail, /not found/);
+  });
+});
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { unifiedDiff } from "../src/lib/diff.js";
+
+const files = { fromFile: "a/Game.ini", toFile: "b/Game.ini" };
+const lines = (count: number, prefix: string) => Array.from({ length: count }, (_, i) => `${prefix}${i}`);
+
+describe("unifiedDiff", () => {
+  it("is empty for texts with the same lines", () => {
+    assert.equal(unifiedDiff("a\nb\n", "a\r\nb", files), "");
+  });
+
+  it("numbers separate hunks from the lines before each", () => {
+    const before = lines(20, "line");
+    const after = [...before];
+    after[2] = "changed2";
+    after.splice(15, 1);
+    assert.equal(
+      unifiedDiff(before.join("\n"), after.join("\n"), { ...files, context: 1 }),
+      [
+        "--- a/Game.ini",
+        "+++ b/Game.ini",
+        "@@ -2,3 +2,3 @@",
+        " line1",
+        "-line2",
+        "+changed2",
+        " line3",
+        "@@ -15,3 +15,2 @@",
+        " line14",
+        "-line15",
+        " line16",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("marks a new file against /dev/null", () => {
+    assert.equal(unifiedDiff("", "x\n", { fromFile: "/dev/null", toFile: "b/New.ini" }), "--- /dev/null\n+++ b/New.ini\n@@ -0,0 +1,1 @@\n+x\n");
+  });
+
+  it("shows a change region too large for the LCS table as one replacement", () => {
+    const before = ["same", ...lines(2500, "old"), "tail"];
+    const after = ["same", ...lines(2500, "new"), "tail"];
+    after[1000] = before[1000 + 1];
+    const diff = unifiedDiff(before.join("\n"), after.join("\n"), { ...files, context: 0 });
+    const body = diff.split("\n").slice(2, -1);
+    assert.equal(body[0], "@@ -2,2500 +2,2500 @@");
+    assert.ok(body.slice(1, 2501).every((l) => l.startsWith("-")));
+    assert.ok(body.slice(2501).every((l) => l.startsWith("+")));
+  });
+});
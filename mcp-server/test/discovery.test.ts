@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { discoverBackends, BackendDiscovery, BackendProbe } from "../src/backends/discovery.js";
+import { addEditor, removeEditor } from "../src/lib/editor-registry.js";
+import { MOCK_BRIDGE_VERSION, MockAutomationBridge, startMockAutomationBridge } from "../src/testing/mock-automation-bridge.js";
+import { MOCK_ENGINE_VERSION, MockRcServer, startMockRcServer } from "../src/testing/mock-rc-server.js";
+
+// A Remote Control endpoint that lists only the given HTTP routes
+async function startPartialRc(routes: string[]): Promise<Server> {
+  const server = createServer((req, res) => {
+    req.resume().on("end", () => {
+      res.setHeader("Content-Type", "application/json");
+      if (req.url === "/remote/info") {
+        res.end(JSON.stringify({ HttpRoutes: routes.map((Path) => ({ Path, Verb: "PUT" })) }));
+      } else {
+        res.end(JSON.stringify({ ReturnValue: "5.3.2" }));
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return server;
+}
+
+const portOf = (server: Server) => (server.address() as AddressInfo).port;
+const closeServer = (server: Server) => new Promise<void>((resolve) => server.close(() => resolve()));
+
+// A port nothing listens on
+async function closedPort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const port = portOf(server);
+  await closeServer(server);
+  return port;
+}
+
+describe("discoverBackends", () => {
+  let live: MockRcServer;
+  let bridge: MockAutomationBridge;
+  let partial: Server;
+  let broken: Server;
+  let discovery: BackendDiscovery;
+  const bridgePort = process.env.MCP_AUTOMATION_PORT;
+
+  const probeOf = (editor: string, probe = "Remote Control HTTP"): BackendProbe => {
+    const found = discovery.probes.find((p) => p.editor === editor && p.probe === probe);
+    assert.ok(found, `no ${probe} probe for ${editor}`);
+    return found;
+  };
+
+  before(async () => {
+    live = await startMockRcServer({ wsPort: 0 });
+    addEditor({ name: "discovery-live", host: "127.0.0.1", port: live.port, wsPort: live.wsPort });
+    partial = await startPartialRc(["/remote/info", "/remote/object/call", "/remote/object/property"]);
+    addEditor({ name: "discovery-partial", host: "127.0.0.1", port: portOf(partial), wsPort: await closedPort() });
+    broken = await startPartialRc(["/remote/info"]);
+    addEditor({ name: "discovery-broken", host: "127.0.0.1", port: portOf(broken), wsPort: await closedPort() });
+    addEditor({ name: "discovery-offline", host: "127.0.0.1", port: await closedPort(), wsPort: await closedPort() });
+
+    bridge = await startMockAutomationBridge();
+    process.env.MCP_AUTOMATION_PORT = String(bridge.port);
+
+    discovery = await discoverBackends({ timeoutMs: 500 });
+  });
+
+  after(async () => {
+    if (bridgePort === undefined) delete process.env.MCP_AUTOMATION_PORT;
+    else process.env.MCP_AUTOMATION_PORT = bridgePort;
+    await Promise.all([live.close(), bridge.close(), closeServer(partial), closeServer(broken)]);
+  });
+
+  it("reads the engine version and full tool set from a live editor", () => {
+    const http = probeOf("discovery-live");
+    assert.equal(http.status, "reachable");
+    assert.equal(http.engineVersion, MOCK_ENGINE_VERSION);
+    assert.ok(http.tools.includes("ue5_batch"));
+    assert.ok(http.tools.includes("ue5_describe_actor"));
+
+    const ws = probeOf("discovery-live", "Remote Control WebSocket");
+    assert.equal(ws.status, "reachable");
+    assert.deepEqual(ws.tools, ["ue5_watch_property", "ue5_poll_events"]);
+  });
+
+  it("leaves out tools whose routes the editor does not serve", () => {
+    const http = probeOf("discovery-partial");
+    assert.equal(http.status, "reachable");
+    assert.equal(http.engineVersion, "5.3.2");
+    assert.ok(http.tools.includes("ue5_spawn_actor"));
+    for (const tool of ["ue5_batch", "ue5_describe_actor", "ue5_search_assets"]) {
+      assert.ok(!http.tools.includes(tool), tool);
+    }
+  });
+
+  it("reports an editor without /remote/object/call as an error with no tools", () => {
+    const http = probeOf("discovery-broken");
+    assert.equal(http.status, "error");
+    assert.match(http.detail!, /without \/remote\/object\/call/);
+    assert.deepEqual(http.tools, []);
+  });
+
+  it("reports closed ports as unreachable", () => {
+    assert.equal(probeOf("discovery-offline").status, "unreachable");
+    assert.equal(probeOf("discovery-offline", "Remote Control WebSocket").status, "unreachable");
+  });
+
+  it("pings the Automation Bridge on its configured port", () => {
+    const probe = discovery.probes.find((p) => p.backend === "automation-bridge" && p.port === bridge.port);
+    assert.equal(probe?.status, "reachable");
+    assert.equal(probe.pluginVersion, MOCK_BRIDGE_VERSION);
+    assert.ok(probe.tools.includes("ue5_spawn_actor"));
+  });
+
+  it("prefers a Remote Control editor that answered to the bridge", () => {
+    assert.equal(discovery.recommended?.backend, "remote-control");
+    assert.equal(discovery.recommended.editor, "discovery-live");
+  });
+
+  it("falls back to the configured bridge when no Remote Control editor answers", async () => {
+    removeEditor("discovery-live");
+    removeEditor("discovery-partial");
+    const fallback = await discoverBackends({ timeoutMs: 500 });
+    assert.equal(fallback.recommended?.backend, "automation-bridge");
+    assert.match(fallback.recommended.reason, new RegExp(`:${bridge.port}`));
+  });
+});
@@ -0,0 +1,175 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { connectToMockEditor, MockEditorClient } from "./mock-editor-client.js";
+
+describe("editor tools against the mock Remote Control server", () => {
+  let mock: MockEditorClient;
+
+  before(async () => {
+    mock = await connectToMockEditor("tools-test");
+  });
+  after(() => mock.close());
+
+  it("spawns, lists, modifies and deletes an actor", async () => {
+    const spawned = await mock.call("ue5_spawn_actor", {
+      actor_class: "PointLight",
+      label: "Lamp",
+      location: { x: 100, y: 0, z: 200 },
+    });
+    assert.equal(spawned.isError, undefined, spawned.content[0].text);
+    const { actorPath } = spawned.structuredContent;
+    assert.match(spawned.content[0].text, /One undo entry: "Spawn PointLight"/);
+
+    const listed = await mock.call("ue5_list_actors");
+    assert.deepEqual(listed.structuredContent.details.map((a: any) => a.label), ["Lamp"]);
+
+    const modified = await mock.call("ue5_modify_actor", { actor_path: actorPath, label: "Key Light", location: { x: 0, y: 50, z: 300 } });
+    assert.ok(modified.structuredContent.changes.every((c: any) => c.ok));
+    const actor = mock.editor.state.actors.get(actorPath)!;
+    assert.equal(actor.label, "Key Light");
+    assert.deepEqual(actor.location, { X: 0, Y: 50, Z: 300 });
+    const modify = mock.editor.state.transactions.at(-1)!;
+    assert.deepEqual([modify.description, modify.status], [`Modify ${actorPath.split(".").pop()}`, "committed"]);
+
+    const deleted = await mock.call("ue5_delete_actor", { actor_path: actorPath });
+    assert.equal(deleted.structuredContent.deleted, true);
+    assert.equal((await mock.call("ue5_list_actors")).structuredContent.total, 0);
+  });
+
+  it("leaves no actor behind when a spawn step fails", async () => {
+    mock.editor.injectFault({ functionName: "SetActorLabel" }, 500, "Label rejected");
+    const result = await mock.call("ue5_spawn_actor", { actor_class: "PointLight", label: "Broken" });
+    assert.equal(result.isError, true);
+    assert.match(result.content[0].text, /rolled back/i);
+    assert.equal(mock.editor.state.actors.size, 0);
+    assert.equal(mock.editor.state.transactions.at(-1)!.status, "cancelled");
+  });
+
+  it("reports nothing deleted for an actor that is not there", async () => {
+    const result = await mock.call("ue5_delete_actor", { actor_path: "/Game/Maps/MockLevel.MockLevel:PersistentLevel.Nothing_0" });
+    assert.equal(result.structuredContent.deleted, false);
+    assert.match(result.content[0].text, /^Nothing deleted: no actor at/);
+  });
+
+  it("spawns a light and configures its component in one undo entry", async () => {
+    const result = await mock.call("ue5_spawn_light", {
+      light_type: "SpotLight",
+      label: "Spot",
+      intensity: 800,
+      color: { r: 255, g: 128, b: 0 },
+      outer_cone_angle: 30,
+      cast_shadows: false,
+    });
+    assert.equal(result.isError, undefined, result.content[0].text);
+    const light = mock.editor.state.actors.get(result.structuredContent.actorPath)!;
+    assert.equal(light.label, "Spot");
+    assert.deepEqual(light.components.LightComponent0.properties, {
+      Intensity: 800,
+      LightColor: { R: 255, G: 128, B: 0, A: 255 },
+      OuterConeAngle: 30,
+      CastShadows: false,
+    });
+    assert.deepEqual(
+      [mock.editor.state.transactions.at(-1)!.description, mock.editor.state.transactions.at(-1)!.status],
+      ["Spawn SpotLight", "committed"]
+    );
+  });
+
+  it("removes a light again when configuring its component fails", async () => {
+    const before = mock.editor.state.actors.size;
+    mock.editor.injectFault({ functionName: "SetCastShadows" }, 500, "Shadows rejected");
+    const result = await mock.call("ue5_spawn_light", { light_type: "PointLight", label: "Broken" });
+    assert.equal(result.isError, true);
+    assert.match(result.content[0].text, /rolled back/i);
+    assert.equal(mock.editor.state.actors.size, before);
+    assert.equal(mock.editor.state.transactions.at(-1)!.status, "cancelled");
+  });
+
+  it("sets a material and creates a dynamic material instance", async () => {
+    const spawned = await mock.call("ue5_spawn_actor", { mesh: "Cube", label: "Box" });
+    const { actorPath } = spawned.structuredContent;
+    const mesh = mock.editor.state.actors.get(actorPath)!.components.StaticMeshComponent0;
+
+    const set = await mock.call("ue5_set_material", { actor_path: actorPath, material_path: "/Game/Materials/M_Red.M_Red" });
+    assert.equal(set.isError, undefined, set.content[0].text);
+    assert.deepEqual(mesh.properties.OverrideMaterials, ["/Game/Materials/M_Red.M_Red"]);
+
+    const dynamic = await mock.call("ue5_create_dynamic_material", {
+      actor_path: actorPath,
+      scalar_params: { Metallic: 1 },
+      vector_params: { BaseColor: { r: 1, g: 0.5, b: 0 } },
+    });
+    assert.equal(dynamic.isError, undefined, dynamic.content[0].text);
+    const { materialPath } = dynamic.structuredContent;
+    assert.equal(mesh.properties.OverrideMaterials[0], materialPath);
+    assert.deepEqual(mock.editor.state.materials.get(materialPath), { Metallic: 1, BaseColor: { R: 1, G: 0.5, B: 0, A: 1 } });
+  });
+
+  it("applies an impulse only to an actor that simulates physics", async () => {
+    const still = (await mock.call("ue5_spawn_actor", { mesh: "Sphere" })).structuredContent.actorPath;
+    const refused = await mock.call("ue5_apply_force", { actor_path: still, mode: "impulse", value: { x: 0, y: 0, z: 500 } });
+    assert.equal(refused.isError, true);
+    assert.match(refused.content[0].text, /not simulating physics/);
+
+    const ball = (await mock.call("ue5_spawn_actor", { mesh: "Sphere", simulate_physics: true })).structuredContent.actorPath;
+    const kicked = await mock.call("ue5_apply_force", { actor_path: ball, mode: "impulse", value: { x: 0, y: 0, z: 500 } });
+    assert.equal(kicked.isError, undefined, kicked.content[0].text);
+    assert.ok(mock.editor.state.callLog.some((c) => c.functionName === "AddImpulse" && c.objectPath.startsWith(ball)));
+  });
+
+  it("spawns an actor from a Blueprint class", async () => {
+    const result = await mock.call("ue5_spawn_actor", { actor_class: "/Game/Blueprints/BP_Door.BP_Door_C", label: "Door" });
+    assert.equal(result.isError, undefined, result.content[0].text);
+    const door = mock.editor.state.actors.get(result.structuredContent.actorPath)!;
+    assert.deepEqual([door.className, door.label], ["BP_Door_C", "Door"]);
+  });
+
+  it("snapshots the level, diffs it against the live editor and restores it", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "ue5-snapshots-"));
+    process.env.UE5_SNAPSHOT_DIR = dir;
+    try {
+      const lamp = (await mock.call("ue5_spawn_actor", { actor_class: "PointLight", label: "Snap" })).structuredContent.actorPath;
+      const taken = await mock.call("ue5_snapshot_level", { name: "before-move" });
+      assert.equal(taken.isError, undefined, taken.content[0].text);
+
+      await mock.call("ue5_modify_actor", { actor_path: lamp, location: { x: 900, y: 0, z: 0 } });
+      const diff = await mock.call("ue5_diff_level", { before: "before-move" });
+      assert.match(diff.content[0].text, /\*\*Moved\*\*: 1 actors/);
+
+      const restored = await mock.call("ue5_restore_snapshot", { snapshot: "before-move" });
+      assert.equal(restored.isError, undefined, restored.content[0].text);
+      assert.deepEqual(mock.editor.state.actors.get(lamp)!.location, { X: 0, Y: 0, Z: 0 });
+    } finally {
+      delete process.env.UE5_SNAPSHOT_DIR;
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("selects actors by filter and reads the selection back", async () => {
+    const selected = await mock.call("ue5_select_actors", { filter: { label: "Spot*" } });
+    assert.equal(selected.isError, undefined, selected.content[0].text);
+    assert.equal(selected.structuredContent.count, 1);
+
+    const selection = await mock.call("ue5_get_selection");
+    assert.deepEqual(selection.structuredContent.details.map((a: any) => a.label), ["Spot"]);
+  });
+
+  it("polls preset events pushed over the WebSocket", async () => {
+    const empty = await mock.call("ue5_poll_events", { subscribe: ["Lighting"] });
+    assert.equal(empty.isError, undefined, empty.content[0].text);
+    assert.match(empty.content[0].text, /Subscribed presets\*\*: Lighting/);
+    assert.match(empty.content[0].text, /No new events/);
+
+    mock.editor.pushEvent({
+      Type: "PresetFieldsChanged",
+      PresetName: "Lighting",
+      ChangedFields: [{ PropertyLabel: "Intensity", ObjectPath: "/Game/Maps/MockLevel.MockLevel:PersistentLevel.Lamp", PropertyValue: 42 }],
+    });
+    const polled = await mock.call("ue5_poll_events", { wait_seconds: 2 });
+    assert.match(polled.content[0].text, /\*\*PresetFieldsChanged\*\* \(preset: Lighting\)/);
+    assert.match(polled.content[0].text, /Intensity on .* → 42/);
+  });
+});
@@ -0,0 +1,26 @@
+// An RcClient that answers without an editor, for tests of code built on Remote Control
+
+import { RcClient, RcRequest, RcResponse } from "../src/lib/rc-client.js";
+
+// Records every request; `reply` decides each response (default: OK with no data)
+export function fakeClient(reply: (request: RcRequest) => Partial<RcResponse> = () => ({})): RcClient & { sent: RcRequest[] } {
+  const sent: RcRequest[] = [];
+  const send = async (request: RcRequest): Promise<RcResponse> => {
+    sent.push(request);
+    return { ok: true, status: 200, data: {}, request, ...reply(request) };
+  };
+  return {
+    sent,
+    config: { host: "localhost", port: 30010 } as RcClient["config"],
+    fetch: (path, method = "GET", body) => send({ path, method, body }),
+    call: (objectPath, functionName, parameters, options) =>
+      send({
+        path: "/remote/object/call",
+        method: "PUT",
+        body: { objectPath, functionName, parameters: parameters ?? {}, generateTransaction: options?.generateTransaction ?? true },
+      }),
+    property: (objectPath, propertyName, propertyValue, options) =>
+      send({ path: "/remote/object/property", method: "PUT", body: { objectPath, propertyName, propertyValue, options } }),
+    batch: (requests) => Promise.all(requests.map(send)),
+  };
+}
@@ -0,0 +1,20 @@
+#pragma once
+
+#include "EditorTurret.generated.h"
+
+UCLASS()
+class AEditorTurret : public AActor
+{
+	GENERATED_BODY()
+
+protected:
+	UPROPERTY(EditAnywhere)
+	float Range;
+
+#if WITH_EDITOR
+public:
+	virtual void PostEditChangeProperty(FPropertyChangedEvent& Event) override;
+#endif
+
+	void AfterBlock();
+};
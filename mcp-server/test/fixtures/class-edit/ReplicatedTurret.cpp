@@ -0,0 +1,9 @@
+#include "ReplicatedTurret.h"
+#include "Net/UnrealNetwork.h"
+
+void AReplicatedTurret::GetLifetimeReplicatedProps(TArray<FLifetimeProperty>& OutLifetimeProps) const
+{
+	Super::GetLifetimeReplicatedProps(OutLifetimeProps);
+
+	DOREPLIFETIME(AReplicatedTurret, Ammo);
+}
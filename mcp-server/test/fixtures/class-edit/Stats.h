@@ -0,0 +1,12 @@
+#pragma once
+
+#include "Stats.generated.h"
+
+USTRUCT(BlueprintType)
+struct FStats
+{
+	GENERATED_BODY()
+
+	UPROPERTY(EditAnywhere)
+	float Health = 100.f;
+};
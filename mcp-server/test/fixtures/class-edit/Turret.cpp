@@ -0,0 +1,16 @@
+#include "Turret.h"
+
+ATurret::ATurret()
+{
+	PrimaryActorTick.bCanEverTick = true;
+}
+
+void ATurret::BeginPlay()
+{
+	Super::BeginPlay();
+}
+
+void ATurret::Tick(float DeltaTime)
+{
+	Super::Tick(DeltaTime);
+}
@@ -0,0 +1,35 @@
+#pragma once
+
+#include "CoreMinimal.h"
+#include "GameFramework/Actor.h"
+#include "Turret.generated.h"
+
+UCLASS()
+class MYGAME_API ATurret : public AActor
+{
+	GENERATED_BODY()
+
+public:
+	ATurret();
+
+	virtual void Tick(float DeltaTime) override;
+
+protected:
+	virtual void BeginPlay() override;
+
+	UPROPERTY(EditAnywhere, Category = "Turret")
+	float Range = 1000.f;
+
+	// Braces in comments and strings are not code: { "}" }
+	FString Label = TEXT("}");
+
+	struct FTargetInfo
+	{
+		int32 Priority = 0;
+	};
+
+	void Aim() { if (bArmed) { Fire(); } }
+
+private:
+	bool bArmed = false;
+};
@@ -0,0 +1,9 @@
+using UnrealBuildTool;
+
+public class Niagara : ModuleRules
+{
+	public Niagara(ReadOnlyTargetRules Target) : base(Target)
+	{
+		PublicDependencyModuleNames.Add("Core");
+	}
+}
@@ -0,0 +1,12 @@
+#pragma once
+
+#include "NiagaraBurst.generated.h"
+
+USTRUCT(BlueprintType)
+struct NIAGARA_API FNiagaraBurst
+{
+	GENERATED_BODY()
+
+	UPROPERTY(EditAnywhere, Category = "Burst")
+	int32 Count = 10;
+};
@@ -0,0 +1,17 @@
+#pragma once
+
+#include "CoreMinimal.h"
+#include "Actor.generated.h"
+
+UCLASS(BlueprintType, Blueprintable)
+class ENGINE_API AActor : public UObject
+{
+	GENERATED_BODY()
+
+public:
+	UPROPERTY(EditAnywhere, Category = "Actor")
+	bool bHidden;
+
+	UFUNCTION(BlueprintCallable, Category = "Actor")
+	void SetActorHiddenInGame(bool bNewHidden);
+};
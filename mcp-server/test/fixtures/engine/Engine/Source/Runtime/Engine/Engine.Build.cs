@@ -0,0 +1,9 @@
+using UnrealBuildTool;
+
+public class Engine : ModuleRules
+{
+	public Engine(ReadOnlyTargetRules Target) : base(Target)
+	{
+		PublicDependencyModuleNames.Add("Core");
+	}
+}
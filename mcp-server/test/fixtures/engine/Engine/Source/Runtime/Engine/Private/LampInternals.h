@@ -0,0 +1,9 @@
+#pragma once
+
+#include "LampInternals.generated.h"
+
+UCLASS()
+class ULampInternals : public UObject
+{
+	GENERATED_BODY()
+};
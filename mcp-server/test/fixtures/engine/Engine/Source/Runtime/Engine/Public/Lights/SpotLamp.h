@@ -0,0 +1,22 @@
+#pragma once
+
+#include "GameFramework/Actor.h"
+#include "SpotLamp.generated.h"
+
+/** A lamp that only lights a cone */
+UCLASS()
+class ENGINE_API ASpotLamp : public AActor
+{
+	GENERATED_BODY()
+
+public:
+	UPROPERTY(EditAnywhere, Category = "Light")
+	float ConeAngle = 45.f;
+};
+
+UENUM()
+enum class ELampMode : uint8
+{
+	Off,
+	On
+};
@@ -0,0 +1,7 @@
+#pragma once
+
+UCLASS()
+class UVendorThing : public UObject
+{
+	GENERATED_BODY()
+};
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { HttpTransport, startHttpTransport } from "../src/transports/http.js";
+
+const INITIALIZE = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "0.0.0" } },
+};
+
+describe("HTTP transport sessions", () => {
+  let http: HttpTransport;
+  let base: string;
+
+  const health = async () => (await (await fetch(`${base}/healthz`)).json()).sessions;
+
+  const initialize = async () => {
+    const res = await fetch(`${base}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify(INITIALIZE),
+    });
+    const sessionId = res.headers.get("mcp-session-id");
+    await res.text();
+    assert.ok(sessionId);
+    return sessionId;
+  };
+
+  before(async () => {
+    http = await startHttpTransport({ host: "127.0.0.1", port: 0, sessionIdleTimeoutMs: 300 });
+    base = `http://127.0.0.1:${(http.server.address() as AddressInfo).port}`;
+  });
+  after(() => http.close());
+
+  it("closes Streamable HTTP sessions that go idle", async () => {
+    const sessionId = await initialize();
+    assert.equal((await health()).streamable, 1);
+
+    await sleep(800);
+    assert.equal((await health()).streamable, 0);
+    const stale = await fetch(`${base}/mcp`, { method: "GET", headers: { "mcp-session-id": sessionId } });
+    assert.equal(stale.status, 404);
+    assert.equal((await stale.json()).error.code, -32000);
+  });
+
+  it("keeps a session with an open GET stream until the stream closes", async () => {
+    const sessionId = await initialize();
+    const abort = new AbortController();
+    const stream = await fetch(`${base}/mcp`, {
+      headers: { "mcp-session-id": sessionId, Accept: "text/event-stream" },
+      signal: abort.signal,
+    });
+    assert.equal(stream.status, 200);
+
+    await sleep(800);
+    assert.equal((await health()).streamable, 1);
+
+    abort.abort();
+    await stream.body!.cancel().catch(() => undefined);
+    await sleep(800);
+    assert.equal((await health()).streamable, 0);
+  });
+
+  it("drops an SSE session when its stream closes", async () => {
+    const abort = new AbortController();
+    const res = await fetch(`${base}/sse`, { signal: abort.signal });
+    const reader = res.body!.getReader();
+    assert.match(new TextDecoder().decode((await reader.read()).value), /event: endpoint/);
+    assert.equal((await health()).sse, 1);
+
+    abort.abort();
+    await reader.cancel().catch(() => undefined);
+    await sleep(100);
+    assert.equal((await health()).sse, 0);
+  });
+});
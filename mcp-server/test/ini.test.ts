@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { appendIniEntries, applyIniOp, getIniValue, parseIni, setIniValues } from "../src/lib/ini.js";
+
+// Apply a section's entries for one key, as the engine does within a file
+function valuesOf(text: string, key: string): string[] {
+  let values: { value: string }[] = [];
+  for (const section of parseIni(text)) {
+    for (const entry of section.entries) if (entry.key === key) values = applyIniOp(values, entry.op, entry);
+  }
+  return values.map((v) => v.value);
+}
+
+describe("parseIni", () => {
+  it("reads sections, operators, quotes and line numbers, skipping comments", () => {
+    const sections = parseIni('; header\n[/Script/Engine.Engine]\nbSmoothFrameRate=True\n+Paths="/Game/A"\n# note\n!Paths=ClearArray\n');
+    assert.equal(sections.length, 1);
+    assert.deepEqual(
+      sections[0].entries.map((e) => [e.op, e.key, e.value, e.line]),
+      [
+        ["set", "bSmoothFrameRate", "True", 3],
+        ["add", "Paths", "/Game/A", 4],
+        ["clear", "Paths", "ClearArray", 6],
+      ]
+    );
+  });
+});
+
+describe("array operators", () => {
+  it("+ adds a value once, . adds it again", () => {
+    assert.deepEqual(valuesOf("[S]\n+Paths=A\n+Paths=B\n+Paths=A\n", "Paths"), ["A", "B"]);
+    assert.deepEqual(valuesOf("[S]\n+Paths=A\n.Paths=A\n", "Paths"), ["A", "A"]);
+  });
+
+  it("- removes a value and ! clears every value", () => {
+    assert.deepEqual(valuesOf("[S]\n+Paths=A\n+Paths=B\n-Paths=A\n", "Paths"), ["B"]);
+    assert.deepEqual(valuesOf("[S]\n+Paths=A\n+Paths=B\n!Paths=ClearArray\n+Paths=C\n", "Paths"), ["C"]);
+  });
+
+  it("a plain key replaces every earlier value", () => {
+    assert.deepEqual(valuesOf("[S]\n+Paths=A\n+Paths=B\nPaths=C\n", "Paths"), ["C"]);
+  });
+});
+
+describe("getIniValue", () => {
+  it("returns the last set or added entry, matching names case-insensitively", () => {
+    const sections = parseIni("[Core.Log]\nLogNet=Log\n[core.log]\nlognet=Verbose\n-LogNet=Verbose\n");
+    assert.equal(getIniValue(sections, "CORE.LOG", "LogNet")?.value, "Verbose");
+  });
+});
+
+describe("setIniValues", () => {
+  it("updates keys in place, appends missing ones and keeps CRLF and comments", () => {
+    const text = "[A]\r\n; keep me\r\nX=1\r\n\r\n[B]\r\nY=2\r\n";
+    assert.equal(setIniValues(text, "a", { X: "5", Z: "9" }), "[A]\r\n; keep me\r\nX=5\r\nZ=9\r\n\r\n[B]\r\nY=2\r\n");
+  });
+
+  it("appends a missing section", () => {
+    assert.equal(setIniValues("[A]\nX=1", "B", { Y: "2" }), "[A]\nX=1\n\n[B]\nY=2\n");
+  });
+});
+
+describe("appendIniEntries", () => {
+  it("writes operator lines at the end of the section", () => {
+    const result = appendIniEntries("[S]\n+Paths=A\n\n[T]\n", "S", [
+      { key: "Paths", value: "B", op: "add" },
+      { key: "Paths", value: "A", op: "remove" },
+      { key: "Old", value: "", op: "clear" },
+    ]);
+    assert.equal(result, "[S]\n+Paths=A\n+Paths=B\n-Paths=A\n!Old=ClearArray\n\n[T]\n");
+    assert.deepEqual(valuesOf(result, "Paths"), ["B"]);
+  });
+});
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { appendJsonItem, JsonSyntaxError, parseJsonTree, setJsonValue } from "../src/lib/json-edit.js";
+
+// Shaped like a .uproject as the engine writes it: tabs, CRLF, an inline array
+const UPROJECT = [
+  "{",
+  '\t"FileVersion": 3,',
+  '\t"Modules": [',
+  "\t\t{",
+  '\t\t\t"Name": "Game",',
+  '\t\t\t"Type": "Runtime"',
+  "\t\t}",
+  "\t],",
+  '\t"TargetPlatforms": ["Windows", "Linux"]',
+  "}",
+  "",
+].join("\r\n");
+
+describe("json-edit", () => {
+  it("appends to a multi-line array with the file's tabs and line endings", () => {
+    const edited = appendJsonItem(UPROJECT, ["Modules"], { Name: "Tools", Type: "Editor" });
+    assert.ok(edited.includes('\t\t},\r\n\t\t{\r\n\t\t\t"Name": "Tools",\r\n\t\t\t"Type": "Editor"\r\n\t\t}\r\n\t],'));
+    assert.deepEqual(JSON.parse(edited).Modules[1], { Name: "Tools", Type: "Editor" });
+  });
+
+  it("keeps an inline array on one line", () => {
+    const edited = appendJsonItem(UPROJECT, ["TargetPlatforms"], "Mac");
+    assert.ok(edited.includes('\t"TargetPlatforms": ["Windows", "Linux", "Mac"]\r\n'));
+  });
+
+  it("replaces a value in place and adds a missing property at the end", () => {
+    const replaced = setJsonValue(UPROJECT, ["Modules", 0, "Type"], "Editor");
+    assert.equal(replaced, UPROJECT.replace('"Type": "Runtime"', '"Type": "Editor"'));
+
+    const added = setJsonValue(UPROJECT, ["EngineAssociation"], "5.4");
+    assert.ok(added.endsWith('\t"TargetPlatforms": ["Windows", "Linux"],\r\n\t"EngineAssociation": "5.4"\r\n}\r\n'));
+  });
+
+  it("edits around a leading byte order mark and keeps it", () => {
+    const withBom = `\uFEFF${UPROJECT}`;
+    assert.equal(parseJsonTree(withBom).type, "object");
+    const edited = setJsonValue(withBom, ["FileVersion"], 4);
+    assert.equal(edited, `\uFEFF${UPROJECT.replace('"FileVersion": 3', '"FileVersion": 4')}`);
+  });
+
+  it("reports the line and column of a syntax error", () => {
+    assert.throws(
+      () => parseJsonTree('{\n\t"FileVersion": 3\n\t"Modules": []\n}'),
+      (err: unknown) => err instanceof JsonSyntaxError && /Expected '}' at line 3, column 2/.test(err.message)
+    );
+  });
+});
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { LevelSnapshot, loadSnapshot, saveSnapshot } from "../src/lib/level-snapshot.js";
+
+function snapshot(name: string): LevelSnapshot {
+  return {
+    version: 1,
+    name,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    editor: { name: "default", host: "localhost", port: 30010 },
+    properties: [],
+    actors: [],
+  };
+}
+
+describe("snapshot storage", () => {
+  let root: string;
+  let dir: string;
+  before(async () => {
+    root = await mkdtemp(join(tmpdir(), "ue5-mcp-snapshots-"));
+    dir = join(root, "snapshots");
+    await writeFile(join(root, "outside.json"), JSON.stringify(snapshot("outside")));
+  });
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("saves and loads by name and by path inside the directory", async () => {
+    const file = await saveSnapshot(snapshot("before-edit.v2"), dir);
+    assert.equal(file, join(dir, "before-edit.v2.json"));
+    assert.equal((await loadSnapshot("before-edit.v2", dir)).name, "before-edit.v2");
+    assert.equal((await loadSnapshot(file, dir)).name, "before-edit.v2");
+    assert.equal((await loadSnapshot("before-edit.v2.json", dir)).name, "before-edit.v2");
+  });
+
+  for (const name of ["../outside", "a/b", "..\\outside", ""]) {
+    it(`refuses to save as ${JSON.stringify(name)}`, async () => {
+      await assert.rejects(saveSnapshot(snapshot(name), dir), /Invalid snapshot name/);
+    });
+  }
+
+  it("refuses to load names and .json paths outside the directory", async () => {
+    await assert.rejects(loadSnapshot("../outside", dir), /Invalid snapshot name/);
+    await assert.rejects(loadSnapshot("../outside.json", dir), /must be inside/);
+    await assert.rejects(loadSnapshot(join(root, "outside.json"), dir), /must be inside/);
+  });
+});
@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { validateMacros } from "../src/lib/macro-validator.js";
+
+// Findings as "line: message" for compact assertions
+function findings(source: string): string[] {
+  return validateMacros(source).findings.map((f) => `${f.line}: ${f.message}`);
+}
+
+describe("validateMacros", () => {
+  it("accepts well-formed macros", () => {
+    const source = `UCLASS(Blueprintable)
+class AMyActor : public AActor
+{
+	GENERATED_BODY()
+
+	UPROPERTY(EditAnywhere, BlueprintReadOnly, Category = "Stats", meta = (ClampMin = "0"))
+	float MaxHealth = 100.f;
+
+	UPROPERTY(ReplicatedUsing = OnRep_Health)
+	float Health;
+
+	UFUNCTION()
+	void OnRep_Health();
+
+	UFUNCTION(Server, Reliable, WithValidation)
+	void ServerFire(FVector Direction);
+
+	UFUNCTION(BlueprintPure, Category = "Stats")
+	float GetHealth() const;
+};`;
+    const result = validateMacros(source);
+    assert.equal(result.checked, 6);
+    assert.deepEqual(result.findings, []);
+  });
+
+  it("rejects specifiers that cannot be combined", () => {
+    const source = `UCLASS(Blueprintable, NotBlueprintable)
+class AMyActor : public AActor
+{
+	GENERATED_BODY()
+
+	UPROPERTY(EditAnywhere, VisibleAnywhere, BlueprintReadWrite, BlueprintReadOnly, Category = "A")
+	int32 Count;
+
+	UPROPERTY(Replicated, NotReplicated)
+	int32 Ammo;
+
+	UFUNCTION(Server, Client, Reliable, Unreliable)
+	void Both();
+};`;
+    assert.deepEqual(findings(source), [
+      "1: Blueprintable and NotBlueprintable cannot be combined",
+      "6: EditAnywhere and VisibleAnywhere cannot be combined",
+      "6: BlueprintReadOnly and BlueprintReadWrite cannot be combined",
+      "9: Replicated and NotReplicated cannot be combined",
+      "12: Server and Client cannot be combined",
+      "12: Reliable and Unreliable cannot be combined",
+    ]);
+  });
+
+  it("checks RPC and BlueprintPure rules", () => {
+    const source = `class AMyActor : public AActor
+{
+	UFUNCTION(Server)
+	void ServerFire();
+
+	UFUNCTION(Reliable)
+	void NotAnRpc();
+
+	UFUNCTION(Client, Unreliable)
+	int32 ClientCount();
+
+	UFUNCTION(BlueprintPure, Category = "A")
+	void Nothing();
+};`;
+    assert.deepEqual(findings(source), [
+      "3: Server RPCs must be Reliable or Unreliable",
+      "6: Reliable/Unreliable only apply to Server, Client and NetMulticast functions",
+      "9: Client RPCs must return void",
+      "12: BlueprintPure function is not const; pure nodes should not change state",
+      "12: BlueprintPure functions need a return value or an output parameter",
+    ]);
+  });
+
+  it("flags unknown specifiers, missing rep notifies and meta keys of the wrong type", () => {
+    const source = `class AMyActor : public AActor
+{
+	UPROPERTY(EditAnywhere, Editable)
+	float Speed;
+
+	UPROPERTY(ReplicatedUsing = OnRep_Missing)
+	int32 Score;
+
+	UPROPERTY(EditAnywhere, BlueprintReadWrite, meta = (ClampMin = "0"))
+	FString Name;
+};`;
+    assert.deepEqual(findings(source), [
+      '3: Unknown UPROPERTY specifier "Editable"',
+      "6: ReplicatedUsing function OnRep_Missing is not declared in AMyActor",
+      "9: BlueprintReadWrite without a Category; UHT requires one in engine and plugin modules",
+      "9: meta ClampMin applies to numeric and vector properties, not FString",
+    ]);
+  });
+});
@@ -0,0 +1,42 @@
+// An MCP client wired to the editor tools, which talk to a mock Remote Control
+// server (HTTP and WebSocket) registered as a named editor
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { addEditor } from "../src/lib/editor-registry.js";
+import { createMockLevelState, MockLevelState, MockRcServer, startMockRcServer } from "../src/testing/mock-rc-server.js";
+import { registerEditorControlTools } from "../src/tools/editor-control.js";
+import { registerEventTools } from "../src/tools/events.js";
+import { registerSelectionTools } from "../src/tools/selection.js";
+import { registerSnapshotTools } from "../src/tools/snapshots.js";
+
+export interface MockEditorClient {
+  editor: MockRcServer;
+  /** Call a tool on the mock editor and return the raw result */
+  call(name: string, args?: Record<string, unknown>): Promise<any>;
+  close(): Promise<void>;
+}
+
+export async function connectToMockEditor(name: string, state: MockLevelState = createMockLevelState()): Promise<MockEditorClient> {
+  const editor = await startMockRcServer({ state, wsPort: 0 });
+  addEditor({ name, host: "127.0.0.1", port: editor.port, wsPort: editor.wsPort });
+
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  registerEditorControlTools(server);
+  registerEventTools(server);
+  registerSelectionTools(server);
+  registerSnapshotTools(server);
+  const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test", version: "0.0.0" });
+  await Promise.all([server.connect(serverSide), client.connect(clientSide)]);
+
+  return {
+    editor,
+    call: (tool, args = {}) => client.callTool({ name: tool, arguments: { editor: name, ...args } }),
+    async close() {
+      await client.close();
+      await editor.close();
+    },
+  };
+}
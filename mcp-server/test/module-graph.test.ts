@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { analyzeModuleGraph, scanProjectModules } from "../src/lib/module-graph.js";
+
+const buildCs = (name: string, lists: string) => `using UnrealBuildTool;
+
+public class ${name} : ModuleRules
+{
+	public ${name}(ReadOnlyTargetRules Target) : base(Target)
+	{
+		${lists}
+	}
+}
+`;
+
+describe("analyzeModuleGraph", () => {
+  let project: string;
+
+  before(async () => {
+    project = await mkdtemp(join(tmpdir(), "ue5-module-graph-"));
+    await writeFile(join(project, "Loop.uproject"), '{\n\t"FileVersion": 3\n}\n');
+    const modules: Record<string, string> = {
+      Game: 'PublicDependencyModuleNames.AddRange(new string[] { "Core", "Combat" });',
+      Combat: 'PrivateDependencyModuleNames.Add("Inventory");',
+      Inventory: 'PrivateDependencyModuleNames.Add("Combat");',
+      // Include-path dependencies are how a loop is broken, so this one is not a cycle
+      UI: 'PrivateIncludePathModuleNames.Add("Game");',
+    };
+    for (const [name, lists] of Object.entries(modules)) {
+      await mkdir(join(project, "Source", name), { recursive: true });
+      await writeFile(join(project, "Source", name, `${name}.Build.cs`), buildCs(name, lists));
+    }
+  });
+  after(() => rm(project, { recursive: true, force: true }));
+
+  it("finds a dependency loop between project modules and reports it", async () => {
+    const graph = await analyzeModuleGraph(await scanProjectModules(project));
+    assert.deepEqual(graph.cycles.map((c) => [...c].sort()), [["Combat", "Inventory"]]);
+    assert.ok(graph.issues.some((i) => i.severity === "error" && /Circular dependency: (Combat|Inventory) → /.test(i.message)));
+    assert.deepEqual(graph.external, ["Core"]);
+  });
+});
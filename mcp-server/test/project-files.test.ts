@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { applyEdits } from "../src/lib/project-files.js";
+
+describe("applyEdits", () => {
+  let dir: string;
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ue5-mcp-files-"));
+  });
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps a backup of every version when the same file is edited twice in a row", async () => {
+    const path = join(dir, "DefaultEngine.ini");
+    await writeFile(path, "one\n");
+    const [first] = await applyEdits([{ path, before: "one\n", after: "two\n" }]);
+    const [second] = await applyEdits([{ path, before: "two\n", after: "three\n" }]);
+
+    assert.ok(first.backup && second.backup);
+    assert.notEqual(first.backup, second.backup);
+    assert.equal(await readFile(first.backup, "utf-8"), "one\n");
+    assert.equal(await readFile(second.backup, "utf-8"), "two\n");
+    assert.equal(await readFile(path, "utf-8"), "three\n");
+  });
+
+  it("creates new files without a backup and skips unchanged ones", async () => {
+    const path = join(dir, "Source", "New.h");
+    const applied = await applyEdits([
+      { path, after: "#pragma once\n" },
+      { path: join(dir, "Same.txt"), before: "x", after: "x" },
+    ]);
+    assert.deepEqual(applied, [{ path, backup: undefined }]);
+    assert.ok(!(await readdir(dir)).includes("Same.txt"));
+  });
+});
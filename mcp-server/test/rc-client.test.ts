@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { rcProperty, RcClientConfig } from "../src/lib/rc-client.js";
+
+describe("rcProperty", () => {
+  let server: Server;
+  let config: RcClientConfig;
+  let attempts = 0;
+
+  before(async () => {
+    // An editor that is always mid-load
+    server = createServer((req, res) => {
+      req.resume().on("end", () => {
+        attempts++;
+        res.statusCode = 503;
+        res.end("{}");
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    config = { host: "127.0.0.1", port: (server.address() as AddressInfo).port, timeoutMs: 2000, retries: 2, retryDelayMs: 0 };
+  });
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+  beforeEach(() => {
+    attempts = 0;
+  });
+
+  const ACTOR = "/Game/Map.Map:PersistentLevel.Lamp";
+
+  it("sends a write that records an undo entry once", async () => {
+    await rcProperty(ACTOR, "bHidden", true, config, { generateTransaction: true });
+    assert.equal(attempts, 1);
+    // Without an access mode the editor may record one too
+    await rcProperty(ACTOR, "bHidden", true, config);
+    assert.equal(attempts, 2);
+  });
+
+  it("retries a transactional write the caller marks idempotent", async () => {
+    await rcProperty(ACTOR, "bHidden", true, config, { generateTransaction: true, idempotent: true });
+    assert.equal(attempts, 3);
+  });
+
+  it("retries reads and writes that join an open transaction", async () => {
+    await rcProperty(ACTOR, "bHidden", undefined, config);
+    assert.equal(attempts, 3);
+    await rcProperty(ACTOR, "bHidden", true, config, { generateTransaction: false });
+    assert.equal(attempts, 6);
+  });
+});
@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { WebSocket, WebSocketServer } from "ws";
+import { RcConnectionRefusedError, RcTimeoutError } from "../src/lib/rc-client.js";
+import { changedFields, RcWebSocketClient, RcWebSocketConfig } from "../src/lib/rc-websocket.js";
+import { MockRcServer, startMockRcServer } from "../src/testing/mock-rc-server.js";
+
+const config = (port: number): RcWebSocketConfig => ({ host: "127.0.0.1", port, timeoutMs: 300 });
+
+const fieldsChanged = (presetName: string, label: string, value: unknown) => ({
+  Type: "PresetFieldsChanged",
+  PresetName: presetName,
+  ChangedFields: [{ PropertyLabel: label, ObjectPath: "/Game/Map.Map:PersistentLevel.Lamp", PropertyValue: value }],
+});
+
+// Waits until `check` holds, for messages that arrive on another socket
+async function until(check: () => boolean) {
+  for (let i = 0; i < 50 && !check(); i++) await new Promise((resolve) => setTimeout(resolve, 10));
+  assert.ok(check());
+}
+
+describe("RcWebSocketClient over the mock editor", () => {
+  let editor: MockRcServer;
+
+  before(async () => {
+    editor = await startMockRcServer({ wsPort: 0 });
+  });
+  after(() => editor.close());
+
+  it("runs HTTP routes over the socket", async () => {
+    const client = new RcWebSocketClient(config(editor.wsPort!));
+    try {
+      const res = await client.http("/remote/info");
+      assert.equal(res.ok, true);
+      assert.ok(res.data.HttpRoutes.length > 0);
+      const missing = await client.http("/remote/nothing", "PUT");
+      assert.deepEqual([missing.ok, missing.status], [false, 404]);
+    } finally {
+      client.close();
+    }
+  });
+});
+
+describe("RcWebSocketClient event stream", () => {
+  let wss: WebSocketServer;
+  let port: number;
+  const received: any[] = [];
+  // The newest connection; earlier tests' sockets may still be closing
+  let editorSocket: WebSocket;
+  const push = (message: unknown) => editorSocket.send(JSON.stringify(message));
+
+  before(async () => {
+    // An editor that records what it is sent and never answers "http" messages
+    wss = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+    await new Promise<void>((resolve) => wss.once("listening", resolve));
+    port = (wss.address() as AddressInfo).port;
+    wss.on("connection", (socket) => {
+      editorSocket = socket;
+      socket.on("message", (raw) => received.push(JSON.parse(raw.toString())));
+    });
+  });
+  beforeEach(() => {
+    received.length = 0;
+  });
+  after(async () => {
+    for (const socket of wss.clients) socket.terminate();
+    await new Promise<void>((resolve) => wss.close(() => resolve()));
+  });
+
+  it("buffers events with increasing sequence numbers", async () => {
+    const client = new RcWebSocketClient(config(port));
+    try {
+      await client.subscribePreset("Lighting");
+      await until(() => received.some((m) => m.MessageName === "preset.register"));
+      push(fieldsChanged("Lighting", "Intensity", 5000));
+      push(fieldsChanged("Lighting", "Intensity", 8000));
+      push({ RequestId: 99, ResponseCode: 200 }); // a stray response is not an event
+      await until(() => client.lastSeq === 2);
+
+      const [first, second] = client.eventsSince(0);
+      assert.deepEqual([first.seq, second.seq], [1, 2]);
+      assert.deepEqual(client.eventsSince(1), [second]);
+      assert.deepEqual(changedFields(second), [
+        { presetName: "Lighting", label: "Intensity", objectPath: "/Game/Map.Map:PersistentLevel.Lamp", propertyValue: 8000 },
+      ]);
+    } finally {
+      client.close();
+    }
+  });
+
+  it("waits for a matching event, or gives up after the timeout", async () => {
+    const client = new RcWebSocketClient(config(port));
+    try {
+      await client.connect();
+      const waiting = client.waitForEvent((e) => changedFields(e).some((f) => f.propertyValue === 3), 1000);
+      push(fieldsChanged("Lighting", "Intensity", 1));
+      push(fieldsChanged("Lighting", "Intensity", 3));
+      assert.equal(changedFields((await waiting)!)[0].propertyValue, 3);
+      assert.equal(await client.waitForEvent(() => true, 50), undefined);
+    } finally {
+      client.close();
+    }
+  });
+
+  it("registers its presets again after reconnecting", async () => {
+    const client = new RcWebSocketClient(config(port));
+    try {
+      await client.subscribePreset("Lighting");
+      await until(() => received.length === 1);
+      editorSocket.terminate();
+      await until(() => !client.connected);
+
+      await client.connect();
+      await until(() => received.length === 2);
+      assert.deepEqual(
+        received.map((m) => [m.MessageName, m.Parameters.PresetName]),
+        [["preset.register", "Lighting"], ["preset.register", "Lighting"]]
+      );
+    } finally {
+      client.close();
+    }
+  });
+
+  it("times out requests the editor does not answer", async () => {
+    const client = new RcWebSocketClient(config(port));
+    try {
+      await assert.rejects(client.http("/remote/info"), RcTimeoutError);
+    } finally {
+      client.close();
+    }
+  });
+
+  it("fails pending requests when the socket closes", async () => {
+    const client = new RcWebSocketClient({ ...config(port), timeoutMs: 5000 });
+    try {
+      const request = client.http("/remote/info");
+      await until(() => received.length === 1);
+      editorSocket.terminate();
+      await assert.rejects(request, RcConnectionRefusedError);
+    } finally {
+      client.close();
+    }
+  });
+});
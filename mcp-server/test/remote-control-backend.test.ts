@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createRemoteControlBackend } from "../src/backends/remote-control.js";
+import { RcRequest } from "../src/lib/rc-client.js";
+import { RcTransactionRolledBackError } from "../src/lib/transactions.js";
+import { fakeClient } from "./fake-rc.js";
+
+const ACTOR = "/Game/Map.Map:PersistentLevel.PointLight_0";
+
+function editor(canGroup: boolean) {
+  return fakeClient((r: RcRequest) => {
+    switch (r.body?.functionName) {
+      case "BeginTransaction":
+        return canGroup ? { data: { ReturnValue: 0 } } : { ok: false, status: 404, data: { errorMessage: "Function not found" } };
+      case "SpawnActorFromClass":
+        return { data: { ReturnValue: ACTOR } };
+      default:
+        return {};
+    }
+  });
+}
+
+describe("remote-control spawnActor", () => {
+  const spec = { classPath: "/Script/Engine.PointLight", label: "Lamp", transaction: "Spawn Lamp" };
+
+  it("reports one undo entry when the steps were grouped", async () => {
+    const spawned = await createRemoteControlBackend(editor(true)).spawnActor(spec);
+    assert.equal(spawned.actorPath, ACTOR);
+    assert.equal(spawned.transactional, true);
+  });
+
+  it("does not claim one undo entry when BeginTransaction is unavailable", async () => {
+    const spawned = await createRemoteControlBackend(editor(false)).spawnActor(spec);
+    assert.equal(spawned.actorPath, ACTOR);
+    assert.equal(spawned.transactional, false);
+  });
+
+  it("reports a rollback destroy that left the actor behind", async () => {
+    const rc = fakeClient((r: RcRequest) => {
+      if (r.path === "/remote/object/describe") return {};
+      switch (r.body?.functionName) {
+        case "SpawnActorFromClass":
+          return { data: { ReturnValue: ACTOR } };
+        case "SetActorLabel":
+          return { ok: false, status: 500, data: { errorMessage: "Label rejected" } };
+        case "DestroyActor":
+          return { ok: false, status: 500, data: { errorMessage: "Actor is locked" } };
+        default:
+          return { data: { ReturnValue: 0 } };
+      }
+    });
+    await assert.rejects(
+      createRemoteControlBackend(rc).spawnActor(spec),
+      (err: unknown) => err instanceof RcTransactionRolledBackError && err.rollbackErrors.some((e) => e.includes("Actor is locked"))
+    );
+  });
+
+  it("does not report a failed destroy once cancelling removed the actor", async () => {
+    const rc = fakeClient((r: RcRequest) => {
+      if (r.path === "/remote/object/describe") return { ok: false, status: 400, data: { errorMessage: `Object: ${ACTOR} does not exist.` } };
+      switch (r.body?.functionName) {
+        case "SpawnActorFromClass":
+          return { data: { ReturnValue: ACTOR } };
+        case "SetActorLabel":
+        case "DestroyActor":
+          return { ok: false, status: 400, data: { errorMessage: `Object: ${ACTOR} does not exist.` } };
+        default:
+          return { data: { ReturnValue: 0 } };
+      }
+    });
+    await assert.rejects(
+      createRemoteControlBackend(rc).spawnActor(spec),
+      (err: unknown) => err instanceof RcTransactionRolledBackError && err.rollbackErrors.length === 0
+    );
+  });
+});
+
+describe("remote-control transaction", () => {
+  it("sends writes from the scoped backend inside one open transaction", async () => {
+    const rc = editor(true);
+    await createRemoteControlBackend(rc).transaction("Modify Lamp", async (scoped) => {
+      await scoped.callFunction(ACTOR, "SetActorLabel", { NewActorLabel: "Lamp" });
+      await scoped.setProperty(ACTOR, "bHidden", true);
+      await scoped.callFunction(ACTOR, "GetActorLabel", {}, { readOnly: true });
+    });
+    assert.deepEqual(
+      rc.sent.map((r) => r.body.functionName ?? r.body.propertyName),
+      ["BeginTransaction", "SetActorLabel", "bHidden", "GetActorLabel", "EndTransaction"]
+    );
+    assert.equal(rc.sent[1].body.generateTransaction, false);
+    assert.deepEqual(rc.sent[2].body.options, { generateTransaction: false });
+  });
+});
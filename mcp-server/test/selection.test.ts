@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { addMockActor, createMockLevelState, MOCK_LEVEL_PATH } from "../src/testing/mock-rc-server.js";
+import { connectToMockEditor, MockEditorClient } from "./mock-editor-client.js";
+
+describe("selection tools against the mock Remote Control server", () => {
+  let mock: MockEditorClient;
+  let lamp: string;
+  let crate: string;
+  let barrel: string;
+
+  before(async () => {
+    const state = createMockLevelState();
+    lamp = addMockActor(state, "/Script/Engine.PointLight", { label: "Lamp" }).path;
+    crate = addMockActor(state, "/Script/Engine.StaticMeshActor", { label: "Crate", location: { X: 200, Y: 0, Z: 0 } }).path;
+    barrel = addMockActor(state, "/Script/Engine.StaticMeshActor", { label: "Barrel", location: { X: 0, Y: 400, Z: 0 } }).path;
+    mock = await connectToMockEditor("selection-test", state);
+  });
+  after(() => mock.close());
+
+  const selectedInEditor = () =>
+    [...mock.editor.state.actors.values()]
+      .filter((a) => a.selected)
+      .map((a) => a.path)
+      .sort();
+
+  it("sets the selection from paths and reports paths that are not in the level", async () => {
+    const missing = `${MOCK_LEVEL_PATH}.Nothing_0`;
+    const result = await mock.call("ue5_select_actors", { paths: [lamp, missing] });
+    assert.equal(result.isError, undefined, result.content[0].text);
+    assert.deepEqual(result.structuredContent.selected, [lamp]);
+    assert.deepEqual(result.structuredContent.missing, [missing]);
+    assert.equal(result.structuredContent.matched, 1);
+    assert.match(result.content[0].text, /Not found \(skipped\)/);
+    assert.deepEqual(selectedInEditor(), [lamp]);
+  });
+
+  it("adds to and removes from the current selection", async () => {
+    await mock.call("ue5_select_actors", { paths: [lamp] });
+
+    const added = await mock.call("ue5_select_actors", { mode: "add", filter: { class_filter: "StaticMeshActor" } });
+    assert.equal(added.isError, undefined, added.content[0].text);
+    assert.equal(added.structuredContent.count, 3);
+    assert.deepEqual(selectedInEditor(), [lamp, crate, barrel].sort());
+
+    const removed = await mock.call("ue5_select_actors", { mode: "remove", paths: [crate] });
+    assert.deepEqual(removed.structuredContent.selected.sort(), [lamp, barrel].sort());
+    assert.deepEqual(selectedInEditor(), [lamp, barrel].sort());
+
+    const selection = await mock.call("ue5_get_selection");
+    assert.deepEqual(selection.structuredContent.details.map((a: any) => a.label).sort(), ["Barrel", "Lamp"]);
+  });
+
+  it("asks what to add or remove when given neither paths nor a filter", async () => {
+    const result = await mock.call("ue5_select_actors", { mode: "add" });
+    assert.equal(result.isError, true);
+    assert.match(result.content[0].text, /Provide paths and\/or filter/);
+  });
+
+  it("clears the selection with an empty set", async () => {
+    await mock.call("ue5_select_actors", { paths: [lamp] });
+    const result = await mock.call("ue5_select_actors", {});
+    assert.equal(result.structuredContent.count, 0);
+    assert.deepEqual(selectedInEditor(), []);
+    assert.match((await mock.call("ue5_get_selection")).content[0].text, /Nothing is selected/);
+  });
+
+  it("frames the viewport on the bounds of the selected actors", async () => {
+    await mock.call("ue5_select_actors", { paths: [lamp, crate] });
+    const result = await mock.call("ue5_focus_selection", { rotation: { pitch: 0, yaw: 0, roll: 0 }, padding: 1 });
+    assert.equal(result.isError, undefined, result.content[0].text);
+    // Bounds span (-50,-50,-50)..(250,50,50); at a 90° FOV the camera backs off by the radius
+    const { center, radius, location, actors } = result.structuredContent;
+    assert.deepEqual(center, { x: 100, y: 0, z: 0 });
+    assert.equal(radius, 165.83);
+    assert.deepEqual(location, { x: -65.83, y: 0, z: 0 });
+    assert.equal(actors, 2);
+    assert.equal(Math.round(mock.editor.state.camera.location.X), -66);
+  });
+
+  it("refuses to focus an empty selection", async () => {
+    await mock.call("ue5_select_actors", {});
+    const result = await mock.call("ue5_focus_selection");
+    assert.equal(result.isError, true);
+    assert.match(result.content[0].text, /Nothing is selected/);
+  });
+});
@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { searchSpecifiers, specifierSyntax } from "../src/lib/specifier-search.js";
+
+const top = (query: string, count: number, macro?: Parameters<typeof searchSpecifiers>[1]) =>
+  searchSpecifiers(query, macro)
+    .slice(0, count)
+    .map((s) => `${s.macro}.${s.name}`);
+
+describe("searchSpecifiers", () => {
+  it("ranks an exact name first", () => {
+    assert.equal(top("ClampMin", 1)[0], "UPROPERTY.ClampMin");
+    assert.equal(top("blueprintpure", 1)[0], "UFUNCTION.BlueprintPure");
+  });
+
+  it("matches the words people use for a specifier", () => {
+    assert.equal(top("how do I make a rep notify", 1)[0], "UPROPERTY.ReplicatedUsing");
+    assert.deepEqual(top("slider", 3).sort(), ["UPROPERTY.SliderExponent", "UPROPERTY.UIMax", "UPROPERTY.UIMin"]);
+  });
+
+  it("limits results to one macro when asked", () => {
+    assert.deepEqual(top("rpc", 3, "UFUNCTION"), ["UFUNCTION.Server", "UFUNCTION.Client", "UFUNCTION.NetMulticast"]);
+    assert.equal(top("read only in blueprint", 1, "UPROPERTY")[0], "UPROPERTY.BlueprintReadOnly");
+    assert.deepEqual(searchSpecifiers("replicated", "UCLASS"), []);
+  });
+
+  it("finds nothing for filler words or unknown terms", () => {
+    assert.deepEqual(searchSpecifiers("how do I use the"), []);
+    assert.deepEqual(searchSpecifiers("xyzzy"), []);
+  });
+
+  it("writes meta keys inside meta = (…)", () => {
+    const clampMin = searchSpecifiers("ClampMin")[0];
+    assert.equal(specifierSyntax(clampMin), 'meta = (ClampMin = "0")');
+  });
+});
@@ -0,0 +1,23 @@
+// An MCP client connected in-process to a server with the given tools registered
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+export interface ToolClient {
+  /** Call a tool and return the raw result */
+  call(name: string, args?: Record<string, unknown>): Promise<any>;
+  close(): Promise<void>;
+}
+
+export async function connectTools(...register: ((server: McpServer) => void)[]): Promise<ToolClient> {
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  for (const r of register) r(server);
+  const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test", version: "0.0.0" });
+  await Promise.all([server.connect(serverSide), client.connect(clientSide)]);
+  return {
+    call: (name, args = {}) => client.callTool({ name, arguments: args }),
+    close: () => client.close(),
+  };
+}
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RcRequest } from "../src/lib/rc-client.js";
+import { RcTransactionRolledBackError, withEditorTransaction } from "../src/lib/transactions.js";
+import { fakeClient } from "./fake-rc.js";
+
+const kismet = (fn: string) => (r: RcRequest) => r.body?.functionName === fn;
+
+describe("withEditorTransaction", () => {
+  it("writes properties and calls inside one open transaction", async () => {
+    const rc = fakeClient((r) => (kismet("BeginTransaction")(r) ? { data: { ReturnValue: 3 } } : {}));
+    await withEditorTransaction(rc, "Move", async (tx) => {
+      assert.equal(tx.grouped, true);
+      await tx.call("/Game/Map.Map:Actor", "K2_SetActorLocation", {});
+      await tx.property("/Game/Map.Map:Actor", "bHidden", true);
+    });
+    assert.deepEqual(rc.sent.map((r) => r.body.functionName ?? r.body.propertyName), ["BeginTransaction", "K2_SetActorLocation", "bHidden", "EndTransaction"]);
+    assert.equal(rc.sent[1].body.generateTransaction, false);
+    assert.deepEqual(rc.sent[2].body.options, { generateTransaction: false });
+  });
+
+  it("lets each step make its own transaction when BeginTransaction is refused", async () => {
+    const rc = fakeClient((r) => (kismet("BeginTransaction")(r) ? { ok: false, status: 404, data: { errorMessage: "Function not found" } } : {}));
+    await withEditorTransaction(rc, "Move", async (tx) => {
+      assert.equal(tx.grouped, false);
+      await tx.property("/Game/Map.Map:Actor", "bHidden", true);
+    });
+    assert.deepEqual(rc.sent[1].body.options, { generateTransaction: true });
+    assert.ok(!rc.sent.some(kismet("EndTransaction")));
+  });
+
+  it("rolls back when EndTransaction fails instead of reporting success", async () => {
+    let compensated = false;
+    const rc = fakeClient((r) => {
+      if (kismet("BeginTransaction")(r)) return { data: { ReturnValue: 0 } };
+      if (kismet("EndTransaction")(r)) return { ok: false, status: 500, data: { errorMessage: "Transaction system busy" } };
+      return {};
+    });
+    await assert.rejects(
+      withEditorTransaction(rc, "Spawn", async (tx) => {
+        tx.onRollback(async () => {
+          compensated = true;
+        });
+        await tx.call("/Script/UnrealEd.Default__EditorActorSubsystem", "SpawnActorFromClass", {});
+      }),
+      (err: unknown) => err instanceof RcTransactionRolledBackError && err.step === "EndTransaction"
+    );
+    assert.ok(rc.sent.some(kismet("CancelTransaction")));
+    assert.equal(compensated, true);
+  });
+
+  it("reports compensations that throw or answer with a failed response", async () => {
+    const rc = fakeClient((r) => (kismet("BeginTransaction")(r) ? { data: { ReturnValue: 0 } } : {}));
+    const failed = { ok: false, status: 500, data: { errorMessage: "Actor is locked" }, request: { path: "/remote/object/call", method: "PUT" as const, body: {} } };
+    await assert.rejects(
+      withEditorTransaction(rc, "Spawn", async (tx) => {
+        tx.onRollback(async () => failed);
+        tx.onRollback(async () => {
+          throw new Error("Socket closed");
+        });
+        tx.onRollback(async () => ({ ...failed, ok: true }));
+        throw new Error("Label rejected");
+      }),
+      (err: unknown) =>
+        err instanceof RcTransactionRolledBackError &&
+        err.rollbackErrors.length === 2 &&
+        err.rollbackErrors[0] === "Socket closed" &&
+        err.rollbackErrors[1].includes("Actor is locked") &&
+        /Rollback problems: Socket closed; .*Actor is locked/.test(err.message)
+    );
+  });
+});